@@ -1,20 +1,25 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
 import BankAccountManager from './components/BankAccountManager';
 import DailyTracker from './components/DailyTracker';
 import BusinessManager from './components/BusinessManager';
 import TransferManager from './components/TransferManager';
+import ExchangeRateManager from './components/ExchangeRateManager';
+import AccountReconciliation from './components/AccountReconciliation';
 import IncomeTracker from './components/IncomeTracker';
 import ExpenseTracker from './components/ExpenseTracker';
 import LoanManager from './components/LoanManager';
 import BillTracker from './components/BillTracker';
 import GoalManager from './components/GoalManager';
+import BudgetManager from './components/BudgetManager';
 import AutoAllocation from './components/AutoAllocation';
 import SmartRecommendations from './components/SmartRecommendations';
 import DebtRecommendations from './components/DebtRecommendations';
 import FinancialTrendTracker from './components/FinancialTrendTracker';
 import ExpectedPaymentManager from './components/ExpectedPaymentManager';
+import ImportWizard from './components/ImportWizard';
+import MpesaImport from './components/MpesaImport';
 import Settings from './components/Settings';
 import AdminDashboard from './components/AdminDashboard';
 import Auth from './components/Auth';
@@ -24,7 +29,6 @@ import { ThemeProvider, useTheme } from './contexts/ThemeContext';
 import { 
   calculateTotalMonthlyIncome, 
   calculateTotalMonthlyExpenses,
-  calculateFinancialHealth,
   calculateAutoAllocation,
   calculateNetWorth
 } from './utils/calculations';
@@ -32,6 +36,8 @@ import {
 // New components
 import CashFlowCalendar from './components/CashFlowCalendar';
 import RecurringTransactions from './components/RecurringTransactions';
+import TransactionRules from './components/TransactionRules';
+import SpendingCategoryManager from './components/SpendingCategoryManager';
 import SpendingPatternAnalysis from './components/SpendingPatternAnalysis';
 import BillNegotiationAssistant from './components/BillNegotiationAssistant';
 import FinancialHealthImprovementSteps from './components/FinancialHealthImprovementSteps';
@@ -39,23 +45,24 @@ import GoalForecastingView from './components/GoalForecastingView';
 import AIExpenseCategorization from './components/AIExpenseCategorization';
 import BudgetCategoryOptimization from './components/BudgetCategoryOptimization';
 import CelebrationModal from './components/CelebrationModal';
+import AchievementsGallery from './components/AchievementsGallery';
+import FinancialHealthHistory from './components/FinancialHealthHistory';
 
 // Advanced calculations
 import {
-  generateRecurringTransactions,
   generateGoalForecast,
   generateCashFlowCalendar,
-  analyzeSpendingPatterns,
   generateHealthImprovementSteps,
   calculateEmergencyPreparedness,
-  generateBillNegotiationOpportunities,
-  generateCelebrations
+  generateBillNegotiationOpportunities
 } from './utils/advancedCalculations';
+import { analyzeSpendingPatterns } from './utils/spendingHistory';
 
 function AppContent() {
   const { user, loading: authLoading } = useAuth();
   const [currentView, setCurrentView] = useState('dashboard');
-  const [activeCelebration, setActiveCelebration] = useState<any>(null);
+  // Celebrations closed without acknowledging them come back next session
+  const [dismissedCelebrationIds, setDismissedCelebrationIds] = useState<string[]>([]);
   
   const {
     loading: dataLoading,
@@ -63,15 +70,31 @@ function AppContent() {
     incomes,
     expenses,
     loans,
+    loanPayments,
     bills,
+    billInstances,
     dailyEntries,
     businessEntries,
     transfers,
     goals,
     expectedPayments,
+    budgets,
+    budgetAlerts,
+    ledgerEntries,
+    reconciliations,
+    exchangeRates,
+    recurringRules,
+    categorizerModel,
+    transactionRules,
+    spendingCategories,
+    attachments,
     preferences,
     challenges,
     userProgress,
+    financialHealth,
+    healthSnapshots,
+    achievements,
+    celebrations,
     addBankAccount,
     updateBankAccount,
     deleteBankAccount,
@@ -79,15 +102,21 @@ function AppContent() {
     updateIncome,
     deleteIncome,
     addExpense,
+    importExpenses,
     updateExpense,
     deleteExpense,
     addLoan,
     updateLoan,
     deleteLoan,
+    recordLoanPayment,
+    undoLoanPayment,
     addBill,
     updateBill,
+    recordBillPayment,
+    undoBillPayment,
     deleteBill,
     addDailyEntry,
+    importDailyEntries,
     updateDailyEntry,
     deleteDailyEntry,
     addBusinessEntry,
@@ -95,8 +124,25 @@ function AppContent() {
     deleteBusinessEntry,
     addTransfer,
     deleteTransfer,
+    reconcileAccount,
+    addExchangeRate,
+    importExchangeRates,
+    deleteExchangeRate,
+    addRecurringRule,
+    updateRecurringRule,
+    deleteRecurringRule,
+    generateRecurringEntries,
+    addTransactionRule,
+    updateTransactionRule,
+    deleteTransactionRule,
+    previewTransactionRuleChanges,
+    applyTransactionRulePreviews,
+    addSpendingCategory,
+    updateSpendingCategory,
+    deleteSpendingCategory,
+    addAttachment,
+    deleteAttachment,
     addGoal,
-    updateBillPayment,
     updateGoal,
     updatePreferences,
     deleteGoal,
@@ -104,15 +150,24 @@ function AppContent() {
     updateExpectedPayment,
     markExpectedPaymentAsPaid,
     deleteExpectedPayment,
-    completeChallenge
+    addBudget,
+    updateBudget,
+    deleteBudget,
+    markBudgetAlertAsRead,
+    dismissBudgetAlert,
+    completeChallenge,
+    acknowledgeCelebration,
+    exportAllData,
+    importAllData
   } = useFinancialData();
 
-  // Calculate financial health and auto allocation with bank accounts
-  const financialHealth = useMemo(() => 
-    calculateFinancialHealth(incomes, expenses, loans, dailyEntries, businessEntries, goals, bankAccounts, expectedPayments),
-    [incomes, expenses, loans, dailyEntries, businessEntries, goals, bankAccounts, expectedPayments]
+  // Aggregates convert foreign-currency accounts and loans into the preferred currency
+  const conversion = useMemo(
+    () => ({ baseCurrency: preferences.currency.code, rates: exchangeRates }),
+    [preferences.currency.code, exchangeRates]
   );
 
+  // Calculate auto allocation with bank accounts
   const autoAllocation = useMemo(() => {
     const monthlyIncome = calculateTotalMonthlyIncome(incomes);
     const monthlyExpenses = calculateTotalMonthlyExpenses(expenses);
@@ -124,34 +179,30 @@ function AppContent() {
       businessEntries,
       preferences,
       financialHealth,
-      bankAccounts
+      bankAccounts,
+      conversion
     );
-  }, [incomes, expenses, loans, goals, businessEntries, preferences, financialHealth, bankAccounts]);
+  }, [incomes, expenses, loans, goals, businessEntries, preferences, financialHealth, bankAccounts, conversion]);
 
   // Generate advanced data
-  const recurringTransactions = useMemo(() => 
-    generateRecurringTransactions(incomes, expenses, bills),
-    [incomes, expenses, bills]
-  );
-
   const cashFlowEvents = useMemo(() => 
-    generateCashFlowCalendar(incomes, expenses, bills, loans, expectedPayments, goals),
-    [incomes, expenses, bills, loans, expectedPayments, goals]
+    generateCashFlowCalendar(incomes, expenses, bills, billInstances, loans, expectedPayments, goals, bankAccounts, conversion),
+    [incomes, expenses, bills, billInstances, loans, expectedPayments, goals, bankAccounts, conversion]
   );
 
   const spendingPatterns = useMemo(() => 
-    analyzeSpendingPatterns(expenses, dailyEntries),
-    [expenses, dailyEntries]
+    analyzeSpendingPatterns(expenses, dailyEntries, businessEntries, spendingCategories),
+    [expenses, dailyEntries, businessEntries, spendingCategories]
   );
 
   const healthImprovementSteps = useMemo(() => 
-    generateHealthImprovementSteps(financialHealth, incomes, expenses, loans, bankAccounts),
-    [financialHealth, incomes, expenses, loans, bankAccounts]
+    generateHealthImprovementSteps(financialHealth, incomes, expenses, loans, bankAccounts, preferences.currency),
+    [financialHealth, incomes, expenses, loans, bankAccounts, preferences.currency]
   );
 
   const emergencyPreparedness = useMemo(() => 
-    calculateEmergencyPreparedness(bankAccounts, incomes, expenses, loans),
-    [bankAccounts, incomes, expenses, loans]
+    calculateEmergencyPreparedness(bankAccounts, incomes, expenses, loans, preferences.currency),
+    [bankAccounts, incomes, expenses, loans, preferences.currency]
   );
 
   const billNegotiations = useMemo(() => 
@@ -167,29 +218,19 @@ function AppContent() {
     
     return goals.map(goal => ({
       ...goal,
-      forecast: generateGoalForecast(goal, totalIncome, totalExpenses, savingsRate)
+      forecast: generateGoalForecast(goal, totalIncome, totalExpenses, savingsRate, preferences.currency)
     }));
-  }, [goals, incomes, expenses, financialHealth.savingsRate]);
-
-  // Check for celebrations
-  useEffect(() => {
-    if (userProgress) {
-      const celebrations = generateCelebrations(goals, userProgress, financialHealth, []);
-      if (celebrations.length > 0) {
-        setActiveCelebration(celebrations[0]);
-      }
-    }
-  }, [goals, userProgress, financialHealth]);
+  }, [goals, incomes, expenses, financialHealth.savingsRate, preferences.currency]);
 
-  const handleAcknowledgeCelebration = (id: string) => {
-    // In a real implementation, this would update the database
-    setActiveCelebration(null);
-  };
+  // Celebrations are stored by the data hook; show the oldest one not yet acknowledged
+  const activeCelebration = celebrations.find(celebration =>
+    !celebration.acknowledged && !dismissedCelebrationIds.includes(celebration.id)
+  );
 
   // Generate recurring transactions
-  const handleGenerateTransactions = () => {
-    // In a real implementation, this would create actual transactions
-    alert('Recurring transactions generated successfully!');
+  const handleGenerateTransactions = async () => {
+    const count = await generateRecurringEntries();
+    alert(count ? `Generated ${count} recurring transactions.` : 'Recurring transactions are already up to date.');
   };
 
   // Handle bill negotiation
@@ -260,6 +301,9 @@ function AppContent() {
           challenges={challenges}
           userProgress={userProgress}
           expectedPayments={expectedPayments}
+          exchangeRates={exchangeRates}
+          loanPayments={loanPayments}
+          ledgerEntries={ledgerEntries}
           onCompleteChallenge={completeChallenge}
           onMarkExpectedPaymentAsPaid={markExpectedPaymentAsPaid}
         />;
@@ -267,6 +311,7 @@ function AppContent() {
         return <BankAccountManager 
           bankAccounts={bankAccounts}
           currency={preferences.currency}
+          exchangeRates={exchangeRates}
           onAddBankAccount={addBankAccount}
           onUpdateBankAccount={updateBankAccount}
           onDeleteBankAccount={deleteBankAccount}
@@ -276,17 +321,41 @@ function AppContent() {
           transfers={transfers}
           bankAccounts={bankAccounts}
           currency={preferences.currency}
+          exchangeRates={exchangeRates}
           onAddTransfer={addTransfer}
           onDeleteTransfer={deleteTransfer}
         />;
+      case 'exchange-rates':
+        return <ExchangeRateManager
+          exchangeRates={exchangeRates}
+          bankAccounts={bankAccounts}
+          loans={loans}
+          currency={preferences.currency}
+          onAddExchangeRate={addExchangeRate}
+          onImportExchangeRates={importExchangeRates}
+          onDeleteExchangeRate={deleteExchangeRate}
+        />;
+      case 'reconciliation':
+        return <AccountReconciliation
+          reconciliations={reconciliations}
+          ledgerEntries={ledgerEntries}
+          currency={preferences.currency}
+          onReconcileAccount={reconcileAccount}
+        />;
       case 'daily':
         return <DailyTracker 
           dailyEntries={dailyEntries} 
           bankAccounts={bankAccounts}
+          spendingCategories={spendingCategories}
+          budgets={budgets}
+          goals={goals}
           currency={preferences.currency}
           onAddEntry={addDailyEntry}
           onUpdateEntry={updateDailyEntry}
           onDeleteEntry={deleteDailyEntry}
+          attachments={attachments}
+          onAddAttachment={addAttachment}
+          onDeleteAttachment={deleteAttachment}
         />;
       case 'business':
         return <BusinessManager 
@@ -299,6 +368,9 @@ function AppContent() {
           onUpdateBusinessEntry={updateBusinessEntry}
           onDeleteBusinessEntry={deleteBusinessEntry}
           onUpdateGoal={updateGoal}
+          attachments={attachments}
+          onAddAttachment={addAttachment}
+          onDeleteAttachment={deleteAttachment}
         />;
       case 'income':
         return <IncomeTracker 
@@ -313,6 +385,9 @@ function AppContent() {
         return <ExpenseTracker 
           expenses={expenses} 
           bankAccounts={bankAccounts}
+          spendingCategories={spendingCategories}
+          budgets={budgets}
+          goals={goals}
           currency={preferences.currency}
           onAddExpense={addExpense}
           onUpdateExpense={updateExpense}
@@ -321,20 +396,33 @@ function AppContent() {
       case 'loans':
         return <LoanManager 
           loans={loans} 
+          loanPayments={loanPayments}
+          bankAccounts={bankAccounts}
           currency={preferences.currency}
+          exchangeRates={exchangeRates}
           onAddLoan={addLoan}
           onUpdateLoan={updateLoan}
           onDeleteLoan={deleteLoan} 
+          onRecordPayment={recordLoanPayment}
+          onUndoPayment={undoLoanPayment}
+          attachments={attachments}
+          onAddAttachment={addAttachment}
+          onDeleteAttachment={deleteAttachment}
         />;
       case 'bills':
         return <BillTracker 
           bills={bills} 
+          billInstances={billInstances}
           bankAccounts={bankAccounts}
           currency={preferences.currency}
           onAddBill={addBill}
           onUpdateBill={updateBill}
           onDeleteBill={deleteBill}
-          onUpdateBillPayment={updateBillPayment}
+          onRecordPayment={recordBillPayment}
+          onUndoPayment={undoBillPayment}
+          attachments={attachments}
+          onAddAttachment={addAttachment}
+          onDeleteAttachment={deleteAttachment}
         />;
       case 'goals':
         return <GoalManager 
@@ -344,6 +432,18 @@ function AppContent() {
           onUpdateGoal={updateGoal}
           onDeleteGoal={deleteGoal}
         />;
+      case 'budgets':
+        return <BudgetManager
+          budgets={budgets}
+          budgetAlerts={budgetAlerts}
+          goals={goals}
+          currency={preferences.currency}
+          onAddBudget={addBudget}
+          onUpdateBudget={updateBudget}
+          onDeleteBudget={deleteBudget}
+          onMarkAlertAsRead={markBudgetAlertAsRead}
+          onDismissAlert={dismissBudgetAlert}
+        />;
       case 'expected-payments':
         return <ExpectedPaymentManager
           expectedPayments={expectedPayments}
@@ -353,6 +453,27 @@ function AppContent() {
           onUpdateExpectedPayment={updateExpectedPayment}
           onMarkAsPaid={markExpectedPaymentAsPaid}
           onDeleteExpectedPayment={deleteExpectedPayment}
+          attachments={attachments}
+          onAddAttachment={addAttachment}
+          onDeleteAttachment={deleteAttachment}
+        />;
+      case 'import':
+        return <ImportWizard
+          bankAccounts={bankAccounts}
+          dailyEntries={dailyEntries}
+          expenses={expenses}
+          categorizerModel={categorizerModel}
+          currency={preferences.currency}
+          onImportDailyEntries={importDailyEntries}
+          onImportExpenses={importExpenses}
+        />;
+      case 'mpesa':
+        return <MpesaImport
+          bankAccounts={bankAccounts}
+          dailyEntries={dailyEntries}
+          categorizerModel={categorizerModel}
+          currency={preferences.currency}
+          onImportDailyEntries={importDailyEntries}
         />;
       case 'allocation':
         return <AutoAllocation 
@@ -361,6 +482,7 @@ function AppContent() {
           financialHealth={financialHealth}
           currency={preferences.currency}
           bankAccounts={bankAccounts}
+          exchangeRates={exchangeRates}
           onUpdatePreferences={updatePreferences}
         />;
       case 'recommendations':
@@ -376,6 +498,7 @@ function AppContent() {
           currency={preferences.currency}
           bankAccounts={bankAccounts}
           expectedPayments={expectedPayments}
+          exchangeRates={exchangeRates}
         />;
       case 'strategy':
         return <DebtRecommendations 
@@ -385,6 +508,7 @@ function AppContent() {
           currency={preferences.currency}
           preferences={preferences}
           bankAccounts={bankAccounts}
+          exchangeRates={exchangeRates}
           onUpdatePreferences={updatePreferences}
         />;
       case 'trends':
@@ -397,11 +521,15 @@ function AppContent() {
           currency={preferences.currency}
           bankAccounts={bankAccounts}
           expectedPayments={expectedPayments}
+          exchangeRates={exchangeRates}
         />;
       case 'settings':
         return <Settings 
           preferences={preferences}
+          hasData={bankAccounts.length > 0 || dailyEntries.length > 0 || loans.length > 0 || goals.length > 0 || exchangeRates.length > 0}
           onUpdatePreferences={updatePreferences}
+          onExportData={exportAllData}
+          onImportData={importAllData}
         />;
       case 'admin':
         return <AdminDashboard />;
@@ -409,17 +537,42 @@ function AppContent() {
       // New views
       case 'recurring-transactions':
         return <RecurringTransactions
-          recurringTransactions={recurringTransactions}
+          recurringTransactions={recurringRules}
           bankAccounts={bankAccounts}
+          spendingCategories={spendingCategories}
           currency={preferences.currency}
-          onAddRecurringTransaction={() => {}}
-          onUpdateRecurringTransaction={() => {}}
-          onDeleteRecurringTransaction={() => {}}
+          onAddRecurringTransaction={addRecurringRule}
+          onUpdateRecurringTransaction={updateRecurringRule}
+          onDeleteRecurringTransaction={deleteRecurringRule}
           onGenerateTransactions={handleGenerateTransactions}
         />;
+      case 'transaction-rules':
+        return <TransactionRules
+          rules={transactionRules}
+          bankAccounts={bankAccounts}
+          budgets={budgets}
+          goals={goals}
+          spendingCategories={spendingCategories}
+          currency={preferences.currency}
+          onAddRule={addTransactionRule}
+          onUpdateRule={updateTransactionRule}
+          onDeleteRule={deleteTransactionRule}
+          onPreviewChanges={previewTransactionRuleChanges}
+          onApplyChanges={applyTransactionRulePreviews}
+        />;
+      case 'spending-categories':
+        return <SpendingCategoryManager
+          categories={spendingCategories}
+          dailyEntries={dailyEntries}
+          expenses={expenses}
+          onAddCategory={addSpendingCategory}
+          onUpdateCategory={updateSpendingCategory}
+          onDeleteCategory={deleteSpendingCategory}
+        />;
       case 'cash-flow-calendar':
         return <CashFlowCalendar
           events={cashFlowEvents}
+          bankAccounts={bankAccounts}
           currency={preferences.currency}
         />;
       case 'spending-patterns':
@@ -427,8 +580,21 @@ function AppContent() {
           spendingPatterns={spendingPatterns}
           expenses={expenses}
           dailyEntries={dailyEntries}
+          businessEntries={businessEntries}
+          spendingCategories={spendingCategories}
           currency={preferences.currency}
         />;
+      case 'achievements':
+        return <AchievementsGallery
+          achievements={achievements}
+          celebrations={celebrations}
+          userProgress={userProgress}
+        />;
+      case 'health-history':
+        return <FinancialHealthHistory
+          financialHealth={financialHealth}
+          snapshots={healthSnapshots}
+        />;
       case 'health-improvement':
         return <FinancialHealthImprovementSteps
           improvementSteps={healthImprovementSteps}
@@ -460,7 +626,9 @@ function AppContent() {
       case 'ai-categorization':
         return <AIExpenseCategorization
           dailyEntries={dailyEntries}
+          categorizerModel={categorizerModel}
           currency={preferences.currency}
+          onAddEntry={addDailyEntry}
           onUpdateEntry={updateDailyEntry}
           onDeleteEntry={deleteDailyEntry}
         />;
@@ -477,6 +645,9 @@ function AppContent() {
           challenges={challenges}
           userProgress={userProgress}
           expectedPayments={expectedPayments}
+          exchangeRates={exchangeRates}
+          loanPayments={loanPayments}
+          ledgerEntries={ledgerEntries}
           onCompleteChallenge={completeChallenge}
           onMarkExpectedPaymentAsPaid={markExpectedPaymentAsPaid}
         />;
@@ -491,8 +662,8 @@ function AppContent() {
       {activeCelebration && (
         <CelebrationModal
           celebration={activeCelebration}
-          onClose={() => setActiveCelebration(null)}
-          onAcknowledge={handleAcknowledgeCelebration}
+          onClose={() => setDismissedCelebrationIds(prev => [...prev, activeCelebration.id])}
+          onAcknowledge={acknowledgeCelebration}
         />
       )}
     </Layout>
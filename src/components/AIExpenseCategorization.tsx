@@ -1,18 +1,23 @@
 import React, { useState } from 'react';
 import { Brain, Plus, Tag, CheckCircle, AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
-import { DailyEntry, Currency } from '../types';
-import { formatCurrency, categorizeExpenseWithAI } from '../utils/advancedCalculations';
+import { DailyEntry, Currency, CategorizerModel, CategorizationResult } from '../types';
+import { categorizeTransaction, countCategorizerExamples } from '../utils/categorizer';
+import { formatCurrency } from '../utils/currency';
 
 interface AIExpenseCategorizationProps {
   dailyEntries: DailyEntry[];
+  categorizerModel: CategorizerModel | null;
   currency: Currency;
+  onAddEntry: (entry: Omit<DailyEntry, 'id'>) => void;
   onUpdateEntry: (entryId: string, updates: Partial<DailyEntry>) => void;
   onDeleteEntry: (entryId: string) => void;
 }
 
 const AIExpenseCategorization: React.FC<AIExpenseCategorizationProps> = ({
   dailyEntries,
+  categorizerModel,
   currency,
+  onAddEntry,
   onUpdateEntry,
   onDeleteEntry
 }) => {
@@ -22,16 +27,14 @@ const AIExpenseCategorization: React.FC<AIExpenseCategorizationProps> = ({
     amount: '',
     merchant: ''
   });
-  const [aiResult, setAiResult] = useState<{
-    category: 'need' | 'want';
-    confidence: number;
-    aiCategory: string;
-  } | null>(null);
+  const [aiResult, setAiResult] = useState<CategorizationResult | null>(null);
+  const trainedExamples = countCategorizerExamples(categorizerModel);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.description && formData.amount) {
-      const result = categorizeExpenseWithAI(
+      const result = categorizeTransaction(
+        categorizerModel,
         formData.description,
         parseFloat(formData.amount),
         formData.merchant
@@ -40,12 +43,22 @@ const AIExpenseCategorization: React.FC<AIExpenseCategorizationProps> = ({
     }
   };
 
-  const handleAcceptCategory = () => {
+  // Record the expense under the suggested category, or under the user's override,
+  // which the categoriser then learns from
+  const handleAcceptCategory = (category: 'need' | 'want') => {
     if (!aiResult) return;
     
-    // In a real implementation, this would create a new daily entry
-    // with the AI-categorized data
-    alert(`Expense categorized as ${aiResult.category.toUpperCase()} (${aiResult.aiCategory})`);
+    onAddEntry({
+      date: new Date().toISOString().split('T')[0],
+      income: 0,
+      expenses: parseFloat(formData.amount),
+      category,
+      description: formData.merchant ? `${formData.description} - ${formData.merchant}` : formData.description,
+      frequency: 'once',
+      aiCategorized: category === aiResult.category,
+      aiCategory: aiResult.aiCategory,
+      confidence: aiResult.confidence
+    });
     
     setFormData({
       description: '',
@@ -174,6 +187,12 @@ const AIExpenseCategorization: React.FC<AIExpenseCategorizationProps> = ({
                 </span>
               </div>
               
+              <p className="text-xs text-purple-700 dark:text-purple-300 mb-3">
+                {aiResult.source === 'model'
+                  ? `Learned from ${trainedExamples} of your categorised expenses`
+                  : 'Based on keywords until enough of your expenses are categorised to learn from'}
+              </p>
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                 <div className="bg-white dark:bg-gray-800 p-3 rounded-lg border border-purple-200 dark:border-purple-800">
                   <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Primary Category</p>
@@ -187,12 +206,19 @@ const AIExpenseCategorization: React.FC<AIExpenseCategorizationProps> = ({
               
               <div className="flex space-x-3">
                 <button
-                  onClick={handleAcceptCategory}
+                  onClick={() => handleAcceptCategory(aiResult.category)}
                   className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors duration-200"
                 >
                   <CheckCircle className="h-4 w-4 mr-2 inline" />
                   Accept Category
                 </button>
+                <button
+                  onClick={() => handleAcceptCategory(aiResult.category === 'need' ? 'want' : 'need')}
+                  className="px-4 py-2 bg-white dark:bg-gray-700 text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-700 rounded-md hover:bg-purple-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-colors duration-200"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2 inline" />
+                  It's a {aiResult.category === 'need' ? 'Want' : 'Need'}
+                </button>
                 <button
                   onClick={() => setAiResult(null)}
                   className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
@@ -310,8 +336,8 @@ const AIExpenseCategorization: React.FC<AIExpenseCategorizationProps> = ({
             <p className="text-2xl font-bold text-purple-600">{aiCategorizedEntries.length}</p>
           </div>
           <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4 text-center">
-            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Accuracy Rate</p>
-            <p className="text-2xl font-bold text-green-600">92%</p>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Examples Learned</p>
+            <p className="text-2xl font-bold text-green-600">{trainedExamples}</p>
           </div>
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 text-center">
             <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Needs Identified</p>
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Scale, AlertTriangle, CheckCircle, History } from 'lucide-react';
+import { AccountReconciliation as Reconciliation, LedgerEntry, Currency } from '../types';
+import { formatDate } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+
+interface AccountReconciliationProps {
+  reconciliations: Reconciliation[];
+  ledgerEntries: LedgerEntry[];
+  currency: Currency;
+  onReconcileAccount: (accountId: string, mode: 'ledger' | 'stored') => void;
+}
+
+// Differences below a cent are rounding noise, not drift
+const DRIFT_TOLERANCE = 0.01;
+
+const entryTypeLabels: Record<LedgerEntry['entryType'], string> = {
+  opening_balance: 'Opening Balance',
+  transfer: 'Transfer',
+  daily_income: 'Daily Income',
+  daily_expense: 'Daily Expense',
+  bill_payment: 'Bill Payment',
+  loan_payment: 'Loan Payment',
+  business_profit: 'Business Profit',
+  adjustment: 'Adjustment',
+  reconciliation: 'Reconciliation'
+};
+
+const AccountReconciliation: React.FC<AccountReconciliationProps> = ({
+  reconciliations,
+  ledgerEntries,
+  currency,
+  onReconcileAccount
+}) => {
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+
+  const driftingAccounts = reconciliations.filter(row => Math.abs(row.drift) >= DRIFT_TOLERANCE);
+  const totalDrift = driftingAccounts.reduce((sum, row) => sum + row.drift, 0);
+  const selectedAccount = reconciliations.find(row => row.accountId === selectedAccountId);
+  const selectedEntries = ledgerEntries.filter(entry => entry.accountId === selectedAccountId);
+
+  const handleReconcile = (row: Reconciliation, mode: 'ledger' | 'stored') => {
+    const message = mode === 'ledger'
+      ? `Reset the stored balance of ${row.accountName} to the ledger balance of ${formatCurrency(row.ledgerBalance, currency)}?`
+      : `Record ${formatCurrency(row.drift, currency)} in the ledger so it matches the stored balance of ${row.accountName}?`;
+
+    if (window.confirm(message)) {
+      onReconcileAccount(row.accountId, mode);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Reconciliation</h2>
+        <p className="text-gray-600 mt-1">Compare stored balances with the balance derived from each account's ledger</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Accounts</p>
+          <p className="text-2xl font-bold text-gray-900">{reconciliations.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Accounts with Drift</p>
+          <p className={`text-2xl font-bold ${driftingAccounts.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {driftingAccounts.length}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Total Drift</p>
+          <p className={`text-2xl font-bold ${driftingAccounts.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(totalDrift, currency)}
+          </p>
+        </div>
+      </div>
+
+      {/* Accounts */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {reconciliations.length === 0 ? (
+          <div className="p-8 text-center">
+            <Scale className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No accounts to reconcile yet.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {reconciliations.map(row => {
+              const hasDrift = Math.abs(row.drift) >= DRIFT_TOLERANCE;
+
+              return (
+                <div key={row.accountId} className="p-4">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div className="flex items-center space-x-3">
+                      {hasDrift ? (
+                        <AlertTriangle className="h-5 w-5 text-red-600" />
+                      ) : (
+                        <CheckCircle className="h-5 w-5 text-green-600" />
+                      )}
+                      <div>
+                        <h3 className="font-semibold text-gray-900">{row.accountName}</h3>
+                        <p className="text-sm text-gray-500">
+                          {row.entryCount} ledger entries
+                          {row.lastEntryDate && ` • last on ${formatDate(row.lastEntryDate)}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4 text-right">
+                      <div>
+                        <p className="text-xs text-gray-500">Stored</p>
+                        <p className="font-semibold text-gray-900">{formatCurrency(row.storedBalance, currency)}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500">Ledger</p>
+                        <p className="font-semibold text-blue-600">{formatCurrency(row.ledgerBalance, currency)}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500">Drift</p>
+                        <p className={`font-semibold ${hasDrift ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatCurrency(row.drift, currency)}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    <button
+                      onClick={() => setSelectedAccountId(selectedAccountId === row.accountId ? null : row.accountId)}
+                      className="inline-flex items-center px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors duration-200"
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      {selectedAccountId === row.accountId ? 'Hide History' : 'View History'}
+                    </button>
+                    {hasDrift && (
+                      <>
+                        <button
+                          onClick={() => handleReconcile(row, 'ledger')}
+                          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200"
+                        >
+                          Use Ledger Balance
+                        </button>
+                        <button
+                          onClick={() => handleReconcile(row, 'stored')}
+                          className="px-3 py-1 text-sm bg-orange-100 text-orange-800 rounded-md hover:bg-orange-200 transition-colors duration-200"
+                        >
+                          Accept Stored Balance
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Ledger History */}
+      {selectedAccount && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">{selectedAccount.accountName} Ledger</h3>
+          </div>
+          {selectedEntries.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No ledger entries for this account.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {selectedEntries.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{formatDate(entry.date)}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">
+                        {entryTypeLabels[entry.entryType]}
+                        {entry.isReversal && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                            Reversal
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-600">{entry.description}</td>
+                      <td className={`px-6 py-3 whitespace-nowrap text-sm text-right font-medium ${entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(entry.amount, currency)}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(entry.runningBalance, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountReconciliation;
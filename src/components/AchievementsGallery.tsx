@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Trophy, Lock, Star, PartyPopper } from 'lucide-react';
+import { Achievement, Celebration, UserProgress } from '../types';
+import { formatDate } from '../utils/calculations';
+
+interface AchievementsGalleryProps {
+  achievements: Achievement[];
+  celebrations: Celebration[];
+  userProgress: UserProgress | null;
+}
+
+const AchievementsGallery: React.FC<AchievementsGalleryProps> = ({
+  achievements,
+  celebrations,
+  userProgress
+}) => {
+  const [activeCategory, setActiveCategory] = useState<string>('all');
+
+  const categories = [
+    { value: 'all', label: 'All' },
+    { value: 'milestone', label: 'Milestones' },
+    { value: 'streak', label: 'Streaks' },
+    { value: 'improvement', label: 'Improvement' },
+    { value: 'mastery', label: 'Mastery' }
+  ];
+
+  const unlocked = achievements.filter(achievement => achievement.isUnlocked);
+  const achievementPoints = unlocked.reduce((sum, achievement) => sum + achievement.points, 0);
+  const filteredAchievements = activeCategory === 'all'
+    ? achievements
+    : achievements.filter(achievement => achievement.category === activeCategory);
+  const recentCelebrations = [...celebrations].reverse().slice(0, 10);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Achievements</h2>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">Milestones you have reached on your financial journey</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <Trophy className="h-8 w-8 text-yellow-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Unlocked</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{unlocked.length} / {achievements.length}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <Star className="h-8 w-8 text-purple-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Points from Achievements</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{achievementPoints}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <PartyPopper className="h-8 w-8 text-blue-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Level</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                {userProgress?.level || 1}
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400"> · {userProgress?.totalPoints || 0} points</span>
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Gallery */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex flex-wrap gap-2 mb-6">
+          {categories.map(category => (
+            <button
+              key={category.value}
+              onClick={() => setActiveCategory(category.value)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors duration-200 ${
+                activeCategory === category.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {category.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filteredAchievements.map(achievement => (
+            <div
+              key={achievement.id}
+              className={`rounded-lg p-4 border ${
+                achievement.isUnlocked
+                  ? `bg-gradient-to-br ${achievement.color} text-white border-transparent`
+                  : 'bg-gray-50 dark:bg-gray-700 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-600'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <span className={`text-3xl ${achievement.isUnlocked ? '' : 'grayscale opacity-50'}`}>{achievement.icon}</span>
+                {achievement.isUnlocked ? (
+                  <span className="text-xs font-medium bg-white/20 rounded-full px-2 py-1">+{achievement.points}</span>
+                ) : (
+                  <Lock className="h-4 w-4" />
+                )}
+              </div>
+              <h3 className={`mt-3 font-semibold ${achievement.isUnlocked ? '' : 'text-gray-700 dark:text-gray-300'}`}>
+                {achievement.title}
+              </h3>
+              <p className={`text-sm mt-1 ${achievement.isUnlocked ? 'text-white/90' : ''}`}>{achievement.description}</p>
+              {achievement.isUnlocked && achievement.unlockedAt ? (
+                <p className="text-xs mt-3 text-white/80">Unlocked {formatDate(achievement.unlockedAt)}</p>
+              ) : (
+                <ul className="text-xs mt-3 space-y-1">
+                  {achievement.requirements.map(requirement => (
+                    <li key={requirement}>• {requirement}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Recent Celebrations */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Celebrations</h3>
+        </div>
+        <div className="p-6">
+          {recentCelebrations.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nothing celebrated yet. Keep going!</p>
+          ) : (
+            <ul className="space-y-3">
+              {recentCelebrations.map(celebration => (
+                <li key={celebration.id} className="flex items-center space-x-3">
+                  <span className="text-2xl">{celebration.icon}</span>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{celebration.title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{celebration.message}</p>
+                  </div>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{formatDate(celebration.timestamp)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AchievementsGallery;
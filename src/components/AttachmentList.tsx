@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { Paperclip, FileText, X, Download, Trash2 } from 'lucide-react';
+import { Attachment } from '../types';
+import { attachmentStorage } from '../lib/attachmentStorage';
+import { ATTACHMENT_CONTENT_TYPES, formatFileSize, isImageAttachment, isPdfAttachment } from '../utils/attachments';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onUpload: (file: File) => Promise<string | undefined>;
+  onDelete: (attachmentId: string) => void;
+}
+
+const AttachmentThumbnail: React.FC<{ attachment: Attachment; onOpen: () => void }> = ({ attachment, onOpen }) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    if (attachment.thumbnailPath) {
+      attachmentStorage.getUrl(attachment.thumbnailPath).then(url => {
+        if (active) setThumbnailUrl(url);
+      });
+    }
+    return () => {
+      active = false;
+    };
+  }, [attachment.thumbnailPath]);
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      title={`${attachment.fileName} (${formatFileSize(attachment.size)})`}
+      className="h-12 w-12 flex items-center justify-center rounded border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 overflow-hidden hover:ring-2 hover:ring-blue-500"
+    >
+      {thumbnailUrl ? (
+        <img src={thumbnailUrl} alt={attachment.fileName} className="h-full w-full object-cover" />
+      ) : (
+        <FileText className="h-5 w-5 text-gray-400" />
+      )}
+    </button>
+  );
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onUpload, onDelete }) => {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+  const [preview, setPreview] = useState<{ attachment: Attachment; url?: string | null } | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setUploadError((await onUpload(file)) || '');
+    setUploading(false);
+  };
+
+  const openPreview = async (attachment: Attachment) => {
+    setPreview({ attachment });
+    const url = await attachmentStorage.getUrl(attachment.storagePath);
+    setPreview(current => (current?.attachment.id === attachment.id ? { attachment, url } : current));
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    if (window.confirm(`Delete ${attachment.fileName}?`)) {
+      onDelete(attachment.id);
+      setPreview(null);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {attachments.map(attachment => (
+          <AttachmentThumbnail key={attachment.id} attachment={attachment} onOpen={() => openPreview(attachment)} />
+        ))}
+        <label className={`inline-flex items-center text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Paperclip className="h-3.5 w-3.5 mr-1" />
+          {uploading ? 'Uploading...' : 'Attach'}
+          <input
+            type="file"
+            accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+            onChange={handleFileChange}
+            disabled={uploading}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {uploadError && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{uploadError}</p>}
+
+      {/* Inline Preview */}
+      {preview && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50" onClick={() => setPreview(null)}>
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate">{preview.attachment.fileName}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(preview.attachment.size)}</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {preview.url && (
+                  <a
+                    href={preview.url}
+                    download={preview.attachment.fileName}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleDelete(preview.attachment)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPreview(null)}
+                  className="p-2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto p-4 flex items-center justify-center">
+              {preview.url === undefined ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+              ) : !preview.url ? (
+                <p className="text-sm text-red-600 dark:text-red-400">This file could not be loaded.</p>
+              ) : isImageAttachment(preview.attachment) ? (
+                <img src={preview.url} alt={preview.attachment.fileName} className="max-h-[70vh] object-contain" />
+              ) : isPdfAttachment(preview.attachment) ? (
+                <iframe src={preview.url} title={preview.attachment.fileName} className="w-full h-[70vh] border-0" />
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No preview for this file. Download it to open it.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
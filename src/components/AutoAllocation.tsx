@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Settings, DollarSign, Target, TrendingUp, AlertTriangle, CheckCircle, Activity } from 'lucide-react';
-import { UserPreferences, AutoAllocation as AutoAllocationData, FinancialHealth, Currency, BankAccount } from '../types';
-import { formatCurrency, calculateNetWorth } from '../utils/calculations';
+import { UserPreferences, AutoAllocation as AutoAllocationData, FinancialHealth, Currency, BankAccount, ExchangeRate } from '../types';
+import { calculateNetWorth } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
 
 interface AutoAllocationProps {
   preferences: UserPreferences;
@@ -9,6 +10,7 @@ interface AutoAllocationProps {
   financialHealth: FinancialHealth;
   currency: Currency;
   bankAccounts?: BankAccount[];
+  exchangeRates?: ExchangeRate[];
   onUpdatePreferences: (preferences: UserPreferences) => void;
 }
 
@@ -18,13 +20,14 @@ const AutoAllocation: React.FC<AutoAllocationProps> = ({
   financialHealth,
   currency,
   bankAccounts = [],
+  exchangeRates = [],
   onUpdatePreferences 
 }) => {
   const [showSettings, setShowSettings] = useState(false);
   const [formData, setFormData] = useState(preferences);
 
   // Calculate net worth using the enhanced calculation
-  const netWorth = calculateNetWorth(bankAccounts, [], []);
+  const netWorth = calculateNetWorth(bankAccounts, [], [], [], { baseCurrency: currency.code, rates: exchangeRates });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
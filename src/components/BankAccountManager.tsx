@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
 import { Plus, CreditCard, Trash2, Edit2, Eye, EyeOff, Building2, CheckCircle, AlertTriangle } from 'lucide-react';
-import { BankAccount, Currency } from '../types';
-import { formatCurrency, calculateNetWorth } from '../utils/calculations';
+import { BankAccount, Currency, ExchangeRate } from '../types';
+import { calculateNetWorth } from '../utils/calculations';
+import { formatCurrency, defaultCurrencies, getCurrencyForCode } from '../utils/currency';
+import { convertAccountsToBase, toBaseCurrency, getMissingRateCurrencies } from '../utils/exchangeRates';
 
 interface BankAccountManagerProps {
   bankAccounts: BankAccount[];
   currency: Currency;
+  exchangeRates: ExchangeRate[];
   onAddBankAccount: (account: Omit<BankAccount, 'id'>) => void;
   onUpdateBankAccount: (accountId: string, updates: Partial<BankAccount>) => void;
   onDeleteBankAccount: (accountId: string) => void;
@@ -14,6 +17,7 @@ interface BankAccountManagerProps {
 const BankAccountManager: React.FC<BankAccountManagerProps> = ({
   bankAccounts,
   currency,
+  exchangeRates,
   onAddBankAccount,
   onUpdateBankAccount,
   onDeleteBankAccount
@@ -28,7 +32,9 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
     isActive: true,
     hasOverdraft: false,
     overdraftLimit: '',
-    overdraftUsed: ''
+    overdraftUsed: '',
+    currency: '',
+    lowBalanceFloor: ''
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -41,7 +47,9 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
         isActive: formData.isActive,
         hasOverdraft: formData.hasOverdraft,
         overdraftLimit: formData.hasOverdraft ? parseFloat(formData.overdraftLimit) || 0 : undefined,
-        overdraftUsed: formData.hasOverdraft ? parseFloat(formData.overdraftUsed) || 0 : undefined
+        overdraftUsed: formData.hasOverdraft ? parseFloat(formData.overdraftUsed) || 0 : undefined,
+        currency: formData.currency || currency.code,
+        lowBalanceFloor: formData.lowBalanceFloor !== '' ? parseFloat(formData.lowBalanceFloor) : undefined
       };
 
       if (editingAccount) {
@@ -57,7 +65,9 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
         isActive: true,
         hasOverdraft: false,
         overdraftLimit: '',
-        overdraftUsed: ''
+        overdraftUsed: '',
+        currency: '',
+        lowBalanceFloor: ''
       });
       setShowForm(false);
     }
@@ -71,7 +81,9 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
       isActive: account.isActive,
       hasOverdraft: account.hasOverdraft || false,
       overdraftLimit: account.overdraftLimit?.toString() || '',
-      overdraftUsed: account.overdraftUsed?.toString() || ''
+      overdraftUsed: account.overdraftUsed?.toString() || '',
+      currency: account.currency || '',
+      lowBalanceFloor: account.lowBalanceFloor?.toString() || ''
     });
     setEditingAccount(account.id);
     setShowForm(true);
@@ -108,35 +120,47 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
     }
   };
 
+  // Totals are shown in the base currency
+  const conversion = { baseCurrency: currency.code, rates: exchangeRates };
+  const baseAccounts = convertAccountsToBase(bankAccounts, conversion);
+  const missingRateCurrencies = getMissingRateCurrencies(bankAccounts, [], conversion);
+
+  // Account currencies offered in the form: the base currency, the presets and any already in use
+  const currencyCodes = Array.from(new Set([
+    currency.code,
+    ...defaultCurrencies.map(c => c.code),
+    ...bankAccounts.map(account => account.currency).filter((code): code is string => !!code)
+  ]));
+
   // Calculate total positive balance (assets)
-  const totalPositiveBalance = bankAccounts
+  const totalPositiveBalance = baseAccounts
     .filter(account => account.isActive && account.balance > 0)
     .reduce((sum, account) => sum + account.balance, 0);
 
   // Calculate total negative balance (liabilities)
-  const totalNegativeBalance = bankAccounts
+  const totalNegativeBalance = baseAccounts
     .filter(account => account.isActive && account.balance < 0)
     .reduce((sum, account) => sum + Math.abs(account.balance), 0);
 
   // Calculate total credit card debt
-  const totalCredit = bankAccounts
+  const totalCredit = baseAccounts
     .filter(account => account.isActive && account.type === 'credit' && account.balance < 0)
     .reduce((sum, account) => sum + Math.abs(account.balance), 0);
 
   // Calculate total overdraft used
-  const totalOverdraftUsed = bankAccounts
+  const totalOverdraftUsed = baseAccounts
     .filter(account => account.isActive && account.hasOverdraft && account.overdraftUsed && account.overdraftUsed > 0)
     .reduce((sum, account) => sum + (account.overdraftUsed || 0), 0);
 
   // Calculate total overdraft available
-  const totalOverdraftAvailable = bankAccounts
+  const totalOverdraftAvailable = baseAccounts
     .filter(account => account.isActive && account.hasOverdraft)
     .reduce((sum, account) => sum + (account.overdraftLimit || 0), 0);
 
   const inactiveAccountsCount = bankAccounts.filter(account => !account.isActive).length;
 
   // Net worth calculation using the consistent method
-  const netWorth = calculateNetWorth(bankAccounts, [], []);
+  const netWorth = calculateNetWorth(bankAccounts, [], [], [], conversion);
 
   return (
     <div className="space-y-6">
@@ -173,7 +197,9 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
                 isActive: true,
                 hasOverdraft: false,
                 overdraftLimit: '',
-                overdraftUsed: ''
+                overdraftUsed: '',
+                currency: '',
+                lowBalanceFloor: ''
               });
             }}
             className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
@@ -184,6 +210,16 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
         </div>
       </div>
 
+      {missingRateCurrencies.length > 0 && (
+        <div className="flex items-center p-4 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-300">
+          <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>
+            No exchange rate into {currency.code} for {missingRateCurrencies.join(', ')}. Those balances are left out
+            of the totals until you add a rate under Exchange Rates.
+          </span>
+        </div>
+      )}
+
       {/* Account Summary */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
@@ -276,7 +312,7 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
                 </select>
               </div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label htmlFor="balance" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Current Balance
@@ -294,6 +330,40 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
                   Can be negative to represent debt or liability
                 </p>
               </div>
+              <div>
+                <label htmlFor="accountCurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Currency
+                </label>
+                <select
+                  id="accountCurrency"
+                  value={formData.currency || currency.code}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {currencyCodes.map(code => (
+                    <option key={code} value={code}>
+                      {code === currency.code ? `${code} (base currency)` : code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="lowBalanceFloor" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Warn Below
+                </label>
+                <input
+                  type="number"
+                  id="lowBalanceFloor"
+                  value={formData.lowBalanceFloor}
+                  onChange={(e) => setFormData({ ...formData, lowBalanceFloor: e.target.value })}
+                  placeholder="No warning"
+                  step="0.01"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Flag the cash flow forecast when the balance drops below this
+                </p>
+              </div>
               <div className="flex items-center pt-6">
                 <input
                   type="checkbox"
@@ -401,6 +471,8 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
             const isNegativeBalance = account.balance < 0;
             const overdraftInfo = account.hasOverdraft && account.overdraftLimit && account.overdraftLimit > 0;
             const isUsingOverdraft = account.hasOverdraft && account.overdraftUsed && account.overdraftUsed > 0;
+            const accountCurrency = getCurrencyForCode(account.currency, currency);
+            const isForeign = accountCurrency.code !== currency.code;
             
             return (
               <div key={account.id} className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm border p-6 ${
@@ -439,20 +511,27 @@ const BankAccountManager: React.FC<BankAccountManagerProps> = ({
                       <p className={`text-xl font-bold ${
                         isNegativeBalance ? 'text-red-600' : 'text-green-600'
                       }`}>
-                        {showBalances ? formatCurrency(account.balance, currency) : '••••••'}
+                        {showBalances ? formatCurrency(account.balance, accountCurrency) : '••••••'}
                       </p>
+                      {showBalances && isForeign && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {missingRateCurrencies.includes(accountCurrency.code)
+                            ? `No rate into ${currency.code}`
+                            : `≈ ${formatCurrency(toBaseCurrency(account.balance, account.currency, conversion), currency)}`}
+                        </p>
+                      )}
                       
                       {/* Overdraft Information */}
                       {overdraftInfo && (
                         <div className="mt-1 text-xs">
                           {showBalances && isUsingOverdraft && (
                             <p className="text-orange-600 dark:text-orange-400">
-                              Overdraft: {formatCurrency(account.overdraftUsed || 0, currency)}
+                              Overdraft: {formatCurrency(account.overdraftUsed || 0, accountCurrency)}
                             </p>
                           )}
                           {showBalances && (
                             <p className="text-gray-500 dark:text-gray-400">
-                              Limit: {formatCurrency(account.overdraftLimit || 0, currency)}
+                              Limit: {formatCurrency(account.overdraftLimit || 0, accountCurrency)}
                             </p>
                           )}
                         </div>
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Phone, DollarSign, Calendar, Trash2, CheckCircle, AlertTriangle, BarChart3, Clock, Zap } from 'lucide-react';
 import { BillNegotiation, Bill, Currency } from '../types';
-import { formatCurrency } from '../utils/advancedCalculations';
+import { formatCurrency } from '../utils/currency';
 
 interface BillNegotiationAssistantProps {
   negotiations: BillNegotiation[];
@@ -1,36 +1,59 @@
 import React, { useState } from 'react';
-import { Plus, FileText, Trash2, Check, Calendar, AlertTriangle } from 'lucide-react';
-import { Bill, BankAccount } from '../types';
-import { formatCurrency, formatDate, getUpcomingBills } from '../utils/calculations';
+import { Plus, FileText, Trash2, Check, Calendar, AlertTriangle, History, Undo2 } from 'lucide-react';
+import { Bill, BillInstance, BankAccount, Currency, Recurrence, Attachment, AttachmentParentType } from '../types';
+import { formatDate, getUpcomingBills } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { createDefaultRecurrence, describeRecurrence, recurrenceToFrequency } from '../utils/recurrence';
+import { getAttachmentsFor } from '../utils/attachments';
+import { getOpenBillInstance, getPaidBillInstances } from '../utils/bills';
+import RecurrenceEditor from './RecurrenceEditor';
+import AttachmentList from './AttachmentList';
+import RecordPaymentForm from './RecordPaymentForm';
 
 interface BillTrackerProps {
   bills: Bill[];
+  billInstances: BillInstance[];
   bankAccounts: BankAccount[];
+  currency: Currency;
   onAddBill: (bill: Omit<Bill, 'id'>) => void;
   onDeleteBill: (billId: string) => void;
-  onUpdateBillPayment: (billId: string, isPaid: boolean) => void;
+  onRecordPayment: (instanceId: string, payment: { amountPaid: number; paidDate: string; bankAccountId?: string }) => void;
+  onUndoPayment: (instanceId: string) => void;
+  attachments: Attachment[];
+  onAddAttachment: (parentType: AttachmentParentType, parentId: string, file: File) => Promise<string | undefined>;
+  onDeleteAttachment: (attachmentId: string) => void;
 }
 
 const BillTracker: React.FC<BillTrackerProps> = ({ 
   bills, 
+  billInstances,
   bankAccounts,
+  currency,
   onAddBill, 
   onDeleteBill,
-  onUpdateBillPayment
+  onRecordPayment,
+  onUndoPayment,
+  attachments,
+  onAddAttachment,
+  onDeleteAttachment
 }) => {
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     amount: '',
     dueDate: '',
-    frequency: 'monthly' as const,
+    frequency: 'monthly' as Bill['frequency'],
     category: 'utility' as const,
     isPaid: false,
-    bankAccountId: ''
+    bankAccountId: '',
+    recurrence: undefined as Recurrence | undefined
   });
+  const [payingBillId, setPayingBillId] = useState<string | null>(null);
+  const [historyBillId, setHistoryBillId] = useState<string | null>(null);
 
   const upcomingBills = getUpcomingBills(bills);
-  const paidBills = bills.filter(bill => bill.isPaid);
+  const thisMonth = new Date().toISOString().slice(0, 7);
+  const paidThisMonth = billInstances.filter(instance => instance.paidDate?.startsWith(thisMonth));
   const unpaidBills = bills.filter(bill => !bill.isPaid);
   const activeAccounts = bankAccounts.filter(account => account.isActive);
 
@@ -41,10 +64,12 @@ const BillTracker: React.FC<BillTrackerProps> = ({
         name: formData.name,
         amount: parseFloat(formData.amount),
         dueDate: formData.dueDate,
-        frequency: formData.frequency,
+        frequency: formData.recurrence ? recurrenceToFrequency(formData.recurrence) : formData.frequency,
         category: formData.category,
         isPaid: formData.isPaid,
-        bankAccountId: formData.bankAccountId || undefined
+        bankAccountId: formData.bankAccountId || undefined,
+        // The schedule runs from the first due date
+        recurrence: formData.recurrence ? { ...formData.recurrence, startDate: formData.dueDate } : undefined
       });
       setFormData({
         name: '',
@@ -53,12 +78,19 @@ const BillTracker: React.FC<BillTrackerProps> = ({
         frequency: 'monthly',
         category: 'utility',
         isPaid: false,
-        bankAccountId: ''
+        bankAccountId: '',
+        recurrence: undefined
       });
       setShowForm(false);
     }
   };
 
+  const handleUndoPayment = (instance: BillInstance) => {
+    if (window.confirm(`Undo the payment of ${formatCurrency(instance.amountPaid || 0, currency)}?`)) {
+      onUndoPayment(instance.id);
+    }
+  };
+
   const categories = [
     { value: 'utility', label: 'Utility' },
     { value: 'subscription', label: 'Subscription' },
@@ -145,7 +177,7 @@ const BillTracker: React.FC<BillTrackerProps> = ({
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Paid This Month</p>
-              <p className="text-2xl font-bold text-green-600">{paidBills.length}</p>
+              <p className="text-2xl font-bold text-green-600">{paidThisMonth.length}</p>
             </div>
             <Check className="h-8 w-8 text-green-400" />
           </div>
@@ -218,13 +250,17 @@ const BillTracker: React.FC<BillTrackerProps> = ({
                 </label>
                 <select
                   id="frequency"
-                  value={formData.frequency}
-                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as any })}
+                  value={formData.recurrence ? 'custom' : formData.frequency}
+                  onChange={(e) => e.target.value === 'custom'
+                    ? setFormData({ ...formData, recurrence: createDefaultRecurrence(formData.dueDate || undefined) })
+                    : setFormData({ ...formData, frequency: e.target.value as any, recurrence: undefined })
+                  }
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   {frequencies.map(freq => (
                     <option key={freq.value} value={freq.value}>{freq.label}</option>
                   ))}
+                  <option value="custom">Custom schedule</option>
                 </select>
               </div>
               <div>
@@ -261,6 +297,14 @@ const BillTracker: React.FC<BillTrackerProps> = ({
                 </select>
               </div>
             </div>
+            {formData.recurrence && (
+              <RecurrenceEditor
+                idPrefix="bill"
+                recurrence={{ ...formData.recurrence, startDate: formData.dueDate }}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                showStartDate={false}
+              />
+            )}
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -309,6 +353,8 @@ const BillTracker: React.FC<BillTrackerProps> = ({
             })
             .map((bill) => {
               const urgency = getUrgencyLevel(bill.dueDate);
+              const openInstance = getOpenBillInstance(billInstances, bill.id);
+              const paidInstances = getPaidBillInstances(billInstances, bill.id);
               
               return (
                 <div key={bill.id} className={`bg-white rounded-lg shadow-sm border p-4 ${
@@ -335,32 +381,98 @@ const BillTracker: React.FC<BillTrackerProps> = ({
                         <span className={`text-lg font-bold ${
                           bill.isPaid ? 'text-green-600' : 'text-red-600'
                         }`}>
-                          {formatCurrency(bill.amount)}
+                          {formatCurrency(openInstance ? openInstance.expectedAmount : bill.amount, currency)}
                         </span>
                         <span className="text-sm text-gray-500">
-                          Due: {formatDate(bill.dueDate)}
+                          {openInstance ? `Due: ${formatDate(openInstance.dueDate)}` : `Paid through ${formatDate(bill.dueDate)}`}
                         </span>
                         <span className="text-sm text-gray-500">
-                          {bill.frequency}
+                          {bill.recurrence ? describeRecurrence(bill.recurrence) : bill.frequency}
                         </span>
                         {bill.bankAccountId && (
                           <span className="text-sm text-gray-500">
                             {getBankAccountIcon(bill.bankAccountId)} from {getBankAccountName(bill.bankAccountId)}
                           </span>
                         )}
+                        {bill.averageAmount !== undefined && (
+                          <span className="text-sm text-gray-500">
+                            Avg paid: {formatCurrency(bill.averageAmount, currency)}
+                          </span>
+                        )}
                       </div>
+
+                      {/* Record Payment */}
+                      {openInstance && payingBillId === bill.id && (
+                        <RecordPaymentForm
+                          idPrefix={`bill-${bill.id}`}
+                          bankAccounts={bankAccounts}
+                          initialAmount={openInstance.expectedAmount}
+                          initialBankAccountId={openInstance.bankAccountId || bill.bankAccountId}
+                          onSubmit={({ amount, paidDate, bankAccountId }) => {
+                            onRecordPayment(openInstance.id, { amountPaid: amount, paidDate, bankAccountId });
+                            setPayingBillId(null);
+                          }}
+                          onCancel={() => setPayingBillId(null)}
+                        />
+                      )}
+
+                      {/* Payment History */}
+                      {historyBillId === bill.id && (
+                        <div className="mt-3 border-t border-gray-100 pt-2">
+                          {paidInstances.length === 0 ? (
+                            <p className="text-sm text-gray-500">No payments recorded yet.</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {paidInstances.map(instance => (
+                                <li key={instance.id} className="flex items-center justify-between text-sm text-gray-600">
+                                  <span>
+                                    {formatDate(instance.dueDate)}: paid {formatCurrency(instance.amountPaid || 0, currency)} on{' '}
+                                    {formatDate(instance.paidDate || instance.dueDate)}
+                                    {instance.bankAccountId && ` from ${getBankAccountName(instance.bankAccountId)}`}
+                                    {instance.amountPaid !== instance.expectedAmount && (
+                                      <span className="text-gray-400"> (expected {formatCurrency(instance.expectedAmount, currency)})</span>
+                                    )}
+                                  </span>
+                                  <button
+                                    onClick={() => handleUndoPayment(instance)}
+                                    title="Undo payment"
+                                    className="p-1 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                                  >
+                                    <Undo2 className="h-3.5 w-3.5" />
+                                  </button>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+
+                      <AttachmentList
+                        attachments={getAttachmentsFor(attachments, 'bill', bill.id)}
+                        onUpload={(file) => onAddAttachment('bill', bill.id, file)}
+                        onDelete={onDeleteAttachment}
+                      />
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => onUpdateBillPayment(bill.id, !bill.isPaid)}
+                        onClick={() => setPayingBillId(payingBillId === bill.id ? null : bill.id)}
+                        disabled={!openInstance}
+                        title={openInstance ? 'Record payment' : 'Paid'}
                         className={`p-2 rounded-full transition-colors duration-200 ${
-                          bill.isPaid
-                            ? 'text-green-600 bg-green-100 hover:bg-green-200'
+                          !openInstance
+                            ? 'text-green-600 bg-green-100'
                             : 'text-gray-400 hover:text-green-600 hover:bg-green-50'
                         }`}
                       >
                         <Check className="h-4 w-4" />
                       </button>
+                      <button
+                        onClick={() => setHistoryBillId(historyBillId === bill.id ? null : bill.id)}
+                        title="Payment history"
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => onDeleteBill(bill.id)}
                         className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Settings, DollarSign, TrendingUp, TrendingDown, AlertTriangle, CheckCircle, Brain, Zap, BarChart3 } from 'lucide-react';
 import { Currency, Expense, Income } from '../types';
-import { formatCurrency } from '../utils/advancedCalculations';
+import { formatCurrency } from '../utils/currency';
 
 interface BudgetCategoryOptimizationProps {
   expenses: Expense[];
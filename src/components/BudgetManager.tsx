@@ -0,0 +1,462 @@
+import React, { useState } from 'react';
+import { Plus, PiggyBank, Trash2, Edit2, AlertTriangle, Bell, Check, X } from 'lucide-react';
+import { Budget, BudgetAlert, FinancialGoal, Currency } from '../types';
+import { formatDate } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { getBudgetPeriodRange } from '../utils/budgets';
+
+interface BudgetManagerProps {
+  budgets: Budget[];
+  budgetAlerts: BudgetAlert[];
+  goals: FinancialGoal[];
+  currency: Currency;
+  onAddBudget: (budget: Omit<Budget, 'id' | 'spentAmount' | 'remainingAmount'>) => void;
+  onUpdateBudget: (budgetId: string, updates: Partial<Budget>) => void;
+  onDeleteBudget: (budgetId: string) => void;
+  onMarkAlertAsRead: (alertId: string) => void;
+  onDismissAlert: (alertId: string) => void;
+}
+
+const BudgetManager: React.FC<BudgetManagerProps> = ({
+  budgets,
+  budgetAlerts,
+  goals,
+  currency,
+  onAddBudget,
+  onUpdateBudget,
+  onDeleteBudget,
+  onMarkAlertAsRead,
+  onDismissAlert
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    category: 'need' as Budget['category'],
+    allocatedAmount: '',
+    period: 'monthly' as Budget['period'],
+    linkedGoalId: '',
+    alertThreshold: '80',
+    isActive: true
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      category: 'need',
+      allocatedAmount: '',
+      period: 'monthly',
+      linkedGoalId: '',
+      alertThreshold: '80',
+      isActive: true
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.name && formData.allocatedAmount) {
+      const budgetData = {
+        name: formData.name,
+        category: formData.category,
+        allocatedAmount: parseFloat(formData.allocatedAmount),
+        period: formData.period,
+        linkedGoalId: formData.category === 'goal' ? formData.linkedGoalId : '',
+        alertThreshold: parseFloat(formData.alertThreshold) || 80,
+        isActive: formData.isActive
+      };
+
+      if (editingBudget) {
+        onUpdateBudget(editingBudget, budgetData);
+        setEditingBudget(null);
+      } else {
+        onAddBudget(budgetData);
+      }
+      resetForm();
+      setShowForm(false);
+    }
+  };
+
+  const startEdit = (budget: Budget) => {
+    setFormData({
+      name: budget.name,
+      category: budget.category,
+      allocatedAmount: budget.allocatedAmount.toString(),
+      period: budget.period,
+      linkedGoalId: budget.linkedGoalId || '',
+      alertThreshold: budget.alertThreshold.toString(),
+      isActive: budget.isActive
+    });
+    setEditingBudget(budget.id);
+    setShowForm(true);
+  };
+
+  const categories = [
+    { value: 'need', label: 'Needs', icon: '🏠' },
+    { value: 'want', label: 'Wants', icon: '🎉' },
+    { value: 'business', label: 'Business', icon: '💼' },
+    { value: 'goal', label: 'Goal', icon: '🎯' }
+  ];
+
+  const periods = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' }
+  ];
+
+  const getCategoryIcon = (category: string) => {
+    return categories.find(c => c.value === category)?.icon || '💰';
+  };
+
+  const getProgressColor = (budget: Budget) => {
+    const percentage = budget.allocatedAmount > 0 ? (budget.spentAmount / budget.allocatedAmount) * 100 : 0;
+    if (percentage > 100) return 'bg-red-600';
+    if (percentage >= budget.alertThreshold) return 'bg-orange-500';
+    return 'bg-green-600';
+  };
+
+  const getAlertColor = (type: BudgetAlert['type']) => {
+    switch (type) {
+      case 'exceeded': return 'bg-red-50 border-red-200 text-red-800';
+      case 'depleted': return 'bg-orange-50 border-orange-200 text-orange-800';
+      default: return 'bg-yellow-50 border-yellow-200 text-yellow-800';
+    }
+  };
+
+  const activeBudgets = budgets.filter(budget => budget.isActive);
+  const unreadAlerts = budgetAlerts.filter(alert => !alert.isRead);
+  const totalAllocated = activeBudgets.reduce((sum, budget) => sum + budget.allocatedAmount, 0);
+  const totalSpent = activeBudgets.reduce((sum, budget) => sum + budget.spentAmount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Budgets</h2>
+          <p className="text-gray-600 mt-1">Set spending limits and track them each period</p>
+        </div>
+        <button
+          onClick={() => {
+            setShowForm(!showForm);
+            setEditingBudget(null);
+            resetForm();
+          }}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Budget
+        </button>
+      </div>
+
+      {/* Budgets Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Active Budgets</p>
+          <p className="text-2xl font-bold text-gray-900">{activeBudgets.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Allocated</p>
+          <p className="text-2xl font-bold text-blue-600">{formatCurrency(totalAllocated, currency)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Spent</p>
+          <p className="text-2xl font-bold text-orange-600">{formatCurrency(totalSpent, currency)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Unread Alerts</p>
+          <p className="text-2xl font-bold text-red-600">{unreadAlerts.length}</p>
+        </div>
+      </div>
+
+      {/* Budget Alerts */}
+      {budgetAlerts.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <Bell className="h-5 w-5 mr-2 text-orange-600" />
+            Budget Alerts
+          </h3>
+          <div className="space-y-3">
+            {budgetAlerts.map(alert => (
+              <div
+                key={alert.id}
+                className={`flex items-center justify-between p-3 rounded-lg border ${getAlertColor(alert.type)} ${alert.isRead ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center space-x-3">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <div>
+                    <p className="text-sm font-medium">{alert.message}</p>
+                    <p className="text-xs mt-1">Period starting {formatDate(alert.periodStart)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {!alert.isRead && (
+                    <button
+                      onClick={() => onMarkAlertAsRead(alert.id)}
+                      className="p-2 text-gray-400 hover:text-green-600 transition-colors duration-200"
+                      title="Mark as read"
+                    >
+                      <Check className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDismissAlert(alert.id)}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                    title="Dismiss"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Budget Form */}
+      {showForm && (
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingBudget ? 'Edit Budget' : 'Add New Budget'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                  Budget Name *
+                </label>
+                <input
+                  type="text"
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Groceries, Entertainment"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
+                  Category
+                </label>
+                <select
+                  id="category"
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value as Budget['category'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {categories.map(cat => (
+                    <option key={cat.value} value={cat.value}>
+                      {cat.icon} {cat.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="allocatedAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                  Amount *
+                </label>
+                <input
+                  type="number"
+                  id="allocatedAmount"
+                  value={formData.allocatedAmount}
+                  onChange={(e) => setFormData({ ...formData, allocatedAmount: e.target.value })}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="period" className="block text-sm font-medium text-gray-700 mb-1">
+                  Period
+                </label>
+                <select
+                  id="period"
+                  value={formData.period}
+                  onChange={(e) => setFormData({ ...formData, period: e.target.value as Budget['period'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {periods.map(period => (
+                    <option key={period.value} value={period.value}>
+                      {period.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="alertThreshold" className="block text-sm font-medium text-gray-700 mb-1">
+                  Alert Threshold (%)
+                </label>
+                <input
+                  type="number"
+                  id="alertThreshold"
+                  value={formData.alertThreshold}
+                  onChange={(e) => setFormData({ ...formData, alertThreshold: e.target.value })}
+                  min="1"
+                  max="100"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            {formData.category === 'goal' && (
+              <div>
+                <label htmlFor="linkedGoalId" className="block text-sm font-medium text-gray-700 mb-1">
+                  Linked Goal
+                </label>
+                <select
+                  id="linkedGoalId"
+                  value={formData.linkedGoalId}
+                  onChange={(e) => setFormData({ ...formData, linkedGoalId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select a goal</option>
+                  {goals.map(goal => (
+                    <option key={goal.id} value={goal.id}>
+                      {goal.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="isActive"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="isActive" className="ml-2 block text-sm text-gray-700">
+                Active
+              </label>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                {editingBudget ? 'Update Budget' : 'Add Budget'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setEditingBudget(null);
+                }}
+                className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Budgets List */}
+      <div className="space-y-4">
+        {budgets.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-8 border border-gray-200 text-center">
+            <PiggyBank className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No budgets yet. Add one to start tracking your spending limits!</p>
+          </div>
+        ) : (
+          budgets.map((budget) => {
+            const percentage = budget.allocatedAmount > 0
+              ? (budget.spentAmount / budget.allocatedAmount) * 100
+              : 0;
+            const { start, end } = getBudgetPeriodRange(budget.period);
+            const linkedGoal = goals.find(goal => goal.id === budget.linkedGoalId);
+
+            return (
+              <div
+                key={budget.id}
+                className={`bg-white rounded-lg shadow-sm border border-gray-200 p-6 ${budget.isActive ? '' : 'opacity-60'}`}
+              >
+                <div className="flex justify-between items-start mb-4">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-2xl">{getCategoryIcon(budget.category)}</span>
+                    <div>
+                      <h3 className="text-xl font-semibold text-gray-900">{budget.name}</h3>
+                      <div className="flex items-center space-x-2 mt-1">
+                        <span className="px-2 py-1 rounded-full text-xs font-medium text-blue-600 bg-blue-100 capitalize">
+                          {budget.period}
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          {formatDate(start)} - {formatDate(end)}
+                        </span>
+                        {linkedGoal && (
+                          <span className="text-sm text-gray-500">Goal: {linkedGoal.name}</span>
+                        )}
+                        {!budget.isActive && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                            Inactive
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => startEdit(budget)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => onDeleteBudget(budget.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  {/* Progress Bar */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium text-gray-700">Spent</span>
+                      <span className="text-sm font-medium text-gray-900">{percentage.toFixed(1)}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`${getProgressColor(budget)} h-2 rounded-full transition-all duration-300`}
+                        style={{ width: `${Math.min(percentage, 100)}%` }}
+                      ></div>
+                    </div>
+                  </div>
+
+                  {/* Budget Details */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-sm text-gray-500">Allocated</p>
+                      <p className="text-lg font-semibold text-blue-600">
+                        {formatCurrency(budget.allocatedAmount, currency)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Spent</p>
+                      <p className="text-lg font-semibold text-orange-600">
+                        {formatCurrency(budget.spentAmount, currency)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Remaining</p>
+                      <p className={`text-lg font-semibold ${budget.remainingAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(budget.remainingAmount, currency)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BudgetManager;
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { Plus, Briefcase, TrendingUp, DollarSign, Target, Calculator, ArrowRight, Settings, Brain, Trash2 } from 'lucide-react';
-import { BusinessEntry, BankAccount, FinancialGoal, Currency, BusinessBudgetItem, UserPreferences } from '../types';
-import { formatCurrency } from '../utils/calculations';
+import { BusinessEntry, BankAccount, FinancialGoal, Currency, BusinessBudgetItem, UserPreferences, Attachment, AttachmentParentType } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { getAttachmentsFor } from '../utils/attachments';
+import AttachmentList from './AttachmentList';
 
 interface BusinessManagerProps {
   businessEntries: BusinessEntry[];
@@ -11,6 +13,9 @@ interface BusinessManagerProps {
   preferences: UserPreferences;
   onAddBusinessEntry: (entry: Omit<BusinessEntry, 'id'>) => void;
   onUpdateGoal: (goalId: string, updates: Partial<FinancialGoal>) => void;
+  attachments: Attachment[];
+  onAddAttachment: (parentType: AttachmentParentType, parentId: string, file: File) => Promise<string | undefined>;
+  onDeleteAttachment: (attachmentId: string) => void;
 }
 
 const BusinessManager: React.FC<BusinessManagerProps> = ({
@@ -20,7 +25,10 @@ const BusinessManager: React.FC<BusinessManagerProps> = ({
   currency,
   preferences,
   onAddBusinessEntry,
-  onUpdateGoal
+  onUpdateGoal,
+  attachments,
+  onAddAttachment,
+  onDeleteAttachment
 }) => {
   const [showForm, setShowForm] = useState(false);
   const [showBudgetSettings, setShowBudgetSettings] = useState(false);
@@ -688,6 +696,11 @@ const BusinessManager: React.FC<BusinessManagerProps> = ({
                       </div>
                     )}
                   </div>
+                  <AttachmentList
+                    attachments={getAttachmentsFor(attachments, 'businessEntry', entry.id)}
+                    onUpload={(file) => onAddAttachment('businessEntry', entry.id, file)}
+                    onDelete={onDeleteAttachment}
+                  />
                 </div>
               </div>
             ))
@@ -1,16 +1,45 @@
 import React, { useState, useMemo } from 'react';
-import { Calendar, ChevronLeft, ChevronRight, DollarSign, TrendingUp, TrendingDown, Clock, Target } from 'lucide-react';
-import { CashFlowEvent, Currency } from '../types';
-import { formatCurrency } from '../utils/advancedCalculations';
+import { Calendar, ChevronLeft, ChevronRight, DollarSign, TrendingUp, TrendingDown, Clock, Target, AlertTriangle } from 'lucide-react';
+import { CashFlowEvent, Currency, BankAccount, AccountBalanceProjection } from '../types';
+import { formatCurrency, getCurrencyForCode } from '../utils/currency';
+import { formatDate } from '../utils/calculations';
+import { getDefaultPaymentAccountId, projectAccountBalances } from '../utils/advancedCalculations';
 
 interface CashFlowCalendarProps {
   events: CashFlowEvent[];
+  bankAccounts: BankAccount[];
   currency: Currency;
 }
 
-const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency }) => {
+const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, bankAccounts, currency }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<'month' | 'week'>('month');
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+
+  const projections = useMemo(() => projectAccountBalances(bankAccounts, events), [bankAccounts, events]);
+  const accountId = selectedAccountId || getDefaultPaymentAccountId(bankAccounts) || projections[0]?.accountId || '';
+  const selectedAccount = bankAccounts.find(account => account.id === accountId);
+  const selectedProjection = projections.find(projection => projection.accountId === accountId);
+
+  const getAccount = (id: string) => bankAccounts.find(account => account.id === id);
+  const getAccountCurrency = (id: string) => getCurrencyForCode(getAccount(id)?.currency, currency);
+
+  // The most serious threshold the account crosses, and the first day it does
+  const getWarning = (projection: AccountBalanceProjection) => {
+    const account = getAccount(projection.accountId);
+    if (projection.overLimitDate) {
+      return {
+        date: projection.overLimitDate,
+        message: account?.hasOverdraft ? 'goes past its overdraft limit' : 'goes overdrawn'
+      };
+    }
+    if (projection.overdrawnDate) return { date: projection.overdrawnDate, message: 'starts using its overdraft' };
+    if (projection.belowFloorDate) return { date: projection.belowFloorDate, message: 'drops below your warning balance' };
+    return null;
+  };
+
+  const isBelowFloor = (balance: number) =>
+    balance < 0 || (selectedAccount?.lowBalanceFloor !== undefined && balance < selectedAccount.lowBalanceFloor);
 
   const navigateMonth = (direction: 'prev' | 'next') => {
     const newDate = new Date(currentDate);
@@ -63,6 +92,11 @@ const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency })
     }
   };
 
+  const getProjectedBalance = (date: Date) => {
+    const dateString = date.toISOString().split('T')[0];
+    return selectedProjection?.days.find(day => day.date === dateString);
+  };
+
   const getEventsForDate = (date: Date) => {
     const dateString = date.toISOString().split('T')[0];
     return events.filter(event => event.date === dateString);
@@ -116,6 +150,20 @@ const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency })
           <p className="text-gray-600 dark:text-gray-300 mt-1">Visualize your upcoming income and expenses</p>
         </div>
         <div className="flex items-center space-x-4">
+          {projections.length > 0 && (
+            <select
+              aria-label="Projected balance account"
+              value={accountId}
+              onChange={(e) => setSelectedAccountId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {projections.map(projection => (
+                <option key={projection.accountId} value={projection.accountId}>
+                  {getAccount(projection.accountId)?.name}
+                </option>
+              ))}
+            </select>
+          )}
           <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
             <button
               onClick={() => setViewMode('month')}
@@ -141,6 +189,26 @@ const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency })
         </div>
       </div>
 
+      {/* Balance Warnings */}
+      {projections.some(projection => getWarning(projection)) && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 space-y-2">
+          {projections.map(projection => {
+            const warning = getWarning(projection);
+            if (!warning) return null;
+            const accountCurrency = getAccountCurrency(projection.accountId);
+            const balanceThatDay = projection.days.find(day => day.date === warning.date)?.balance || 0;
+            return (
+              <div key={projection.accountId} className="flex items-start text-sm text-red-700 dark:text-red-300">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  <span className="font-medium">{getAccount(projection.accountId)?.name}</span> {warning.message} on {formatDate(warning.date)} ({formatCurrency(balanceThatDay, accountCurrency)})
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
         {/* Calendar Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-600">
@@ -182,6 +250,7 @@ const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency })
             {calendarDays.map((date, index) => {
               const dayEvents = getEventsForDate(date);
               const netFlow = getDailyNetFlow(date);
+              const projectedDay = getProjectedBalance(date);
               const isToday = date.toDateString() === today.toDateString();
               const isCurrentMonthDay = isCurrentMonth(date);
 
@@ -217,6 +286,16 @@ const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency })
                     )}
                   </div>
                   
+                  {projectedDay && (
+                    <div className={`text-xs mb-1 ${
+                      isBelowFloor(projectedDay.balance)
+                        ? 'text-red-600 dark:text-red-400 font-semibold'
+                        : 'text-gray-500 dark:text-gray-400'
+                    }`}>
+                      {formatCurrency(projectedDay.balance, getAccountCurrency(accountId))}
+                    </div>
+                  )}
+                  
                   <div className="space-y-1 overflow-y-auto max-h-20">
                     {dayEvents.slice(0, 3).map((event, eventIndex) => (
                       <div 
@@ -264,6 +343,59 @@ const CashFlowCalendar: React.FC<CashFlowCalendarProps> = ({ events, currency })
         </div>
       </div>
 
+      {/* Projected Balances */}
+      {projections.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Projected Balances (next 90 days)</h3>
+          </div>
+          <div className="divide-y divide-gray-200 dark:divide-gray-600">
+            {projections.map(projection => {
+              const account = getAccount(projection.accountId);
+              const accountCurrency = getAccountCurrency(projection.accountId);
+              const warning = getWarning(projection);
+              const endBalance = projection.days[projection.days.length - 1]?.balance ?? projection.startingBalance;
+              return (
+                <div key={projection.accountId} className="px-6 py-4 grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{account?.name}</p>
+                    <p className={warning ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                      {warning ? `Warning from ${formatDate(warning.date)}` : 'Stays healthy'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500 dark:text-gray-400">Today</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(projection.startingBalance, accountCurrency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500 dark:text-gray-400">Lowest</p>
+                    <p className={`font-semibold ${projection.lowestBalance < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                      {formatCurrency(projection.lowestBalance, accountCurrency)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(projection.lowestBalanceDate)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500 dark:text-gray-400">In 90 days</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(endBalance, accountCurrency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500 dark:text-gray-400">Warn Below</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">
+                      {account?.lowBalanceFloor !== undefined ? formatCurrency(account.lowBalanceFloor, accountCurrency) : 'Not set'}
+                    </p>
+                    {account?.hasOverdraft && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Overdraft limit {formatCurrency(account.overdraftLimit || 0, accountCurrency)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Upcoming Events List */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
         <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
@@ -0,0 +1,37 @@
+import React from 'react';
+import { SpendingCategory } from '../types';
+import { getCategoryOptions } from '../utils/spendingCategories';
+
+interface CategoryPickerProps {
+  id: string;
+  categories: SpendingCategory[];
+  value?: string;
+  onChange: (category: SpendingCategory | undefined) => void;
+  className?: string;
+  emptyLabel?: string;
+}
+
+const CategoryPicker: React.FC<CategoryPickerProps> = ({
+  id,
+  categories,
+  value,
+  onChange,
+  className = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white',
+  emptyLabel = 'Uncategorised'
+}) => (
+  <select
+    id={id}
+    value={value || ''}
+    onChange={(e) => onChange(categories.find(category => category.id === e.target.value))}
+    className={className}
+  >
+    <option value="">{emptyLabel}</option>
+    {getCategoryOptions(categories).map(({ category, depth }) => (
+      <option key={category.id} value={category.id}>
+        {'\u00A0\u00A0\u00A0'.repeat(depth)}{category.name} ({category.type})
+      </option>
+    ))}
+  </select>
+);
+
+export default CategoryPicker;
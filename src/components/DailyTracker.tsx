@@ -1,68 +1,149 @@
 import React, { useState } from 'react';
-import { Plus, Calendar, TrendingUp, TrendingDown, DollarSign, Target, Clock } from 'lucide-react';
-import { DailyEntry, BankAccount, Currency } from '../types';
-import { formatCurrency, calculateDailyAverage } from '../utils/calculations';
+import { Plus, Calendar, TrendingUp, TrendingDown, DollarSign, Trash2, Clock } from 'lucide-react';
+import { DailyEntry, DailyEntrySplit, BankAccount, Budget, Currency, SpendingCategory, FinancialGoal, Attachment, AttachmentParentType } from '../types';
+import { calculateDailyAverage, groupDailyEntriesByDate, getSplitError } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { getCategoryPath } from '../utils/spendingCategories';
+import { getAttachmentsFor } from '../utils/attachments';
+import CategoryPicker from './CategoryPicker';
+import AttachmentList from './AttachmentList';
 
 interface DailyTrackerProps {
   dailyEntries: DailyEntry[];
   bankAccounts: BankAccount[];
+  spendingCategories: SpendingCategory[];
+  budgets: Budget[];
+  goals: FinancialGoal[];
   currency: Currency;
   onAddEntry: (entry: Omit<DailyEntry, 'id'>) => void;
   onUpdateEntry: (entryId: string, updates: Partial<DailyEntry>) => void;
   onDeleteEntry: (entryId: string) => void;
+  attachments: Attachment[];
+  onAddAttachment: (parentType: AttachmentParentType, parentId: string, file: File) => Promise<string | undefined>;
+  onDeleteAttachment: (attachmentId: string) => void;
 }
 
+interface SplitLineForm {
+  amount: string;
+  category: DailyEntrySplit['category'];
+  categoryId: string;
+  bankAccountId: string;
+  linkedGoalId: string;
+}
+
+const emptySplitLine = (category: DailyEntrySplit['category']): SplitLineForm => ({
+  amount: '',
+  category,
+  categoryId: '',
+  bankAccountId: '',
+  linkedGoalId: ''
+});
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
 const DailyTracker: React.FC<DailyTrackerProps> = ({ 
   dailyEntries, 
   bankAccounts,
+  spendingCategories,
+  budgets,
+  goals,
   currency,
   onAddEntry, 
   onUpdateEntry,
-  onDeleteEntry 
+  onDeleteEntry,
+  attachments,
+  onAddAttachment,
+  onDeleteAttachment
 }) => {
   const [showForm, setShowForm] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLineForm[]>([]);
+  const [formError, setFormError] = useState('');
   const [formData, setFormData] = useState({
     date: new Date().toISOString().split('T')[0],
     time: new Date().toTimeString().slice(0, 5),
     income: '',
     expenses: '',
-    category: 'need' as const,
+    category: 'need' as DailyEntry['category'],
+    categoryId: '',
     description: '',
     frequency: 'once' as const,
     incomeBankAccountId: '',
-    expenseBankAccountId: ''
+    expenseBankAccountId: '',
+    linkedBudgetId: '',
+    linkedGoalId: ''
   });
 
   const { income: avgIncome, expenses: avgExpenses } = calculateDailyAverage(dailyEntries, 30);
   const availableDaily = avgIncome - avgExpenses;
-  const todayEntry = dailyEntries.find(entry => entry.date === formData.date);
-  const recentEntries = dailyEntries.slice(-10).reverse();
+  const dayGroups = groupDailyEntriesByDate(dailyEntries);
+  const selectedDayGroup = dayGroups.find(group => group.date === formData.date);
+  const recentDays = dayGroups.slice(0, 10);
   const activeAccounts = bankAccounts.filter(account => account.isActive);
 
+  // Only a transaction on one side can be split
+  const income = parseFloat(formData.income) || 0;
+  const expenses = parseFloat(formData.expenses) || 0;
+  const canSplit = (income > 0) !== (expenses > 0);
+  const isSplit = canSplit && splitLines.length > 0;
+  const splitRemaining = Math.round(((income || expenses) - splitLines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0)) * 100) / 100;
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLineForm>) => {
+    setSplitLines(splitLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.income || formData.expenses) {
-      onAddEntry({
+      const splits: DailyEntrySplit[] | undefined = isSplit
+        ? splitLines.map(line => ({
+            amount: parseFloat(line.amount) || 0,
+            category: line.category,
+            categoryId: line.categoryId || undefined,
+            bankAccountId: line.bankAccountId || undefined,
+            linkedGoalId: line.linkedGoalId || undefined
+          }))
+        : undefined;
+      // The transaction as a whole takes the category of its largest line
+      const largest = splits?.reduce((max, line) => (line.amount > max.amount ? line : max));
+      const entry = {
         date: formData.date,
         time: formData.time,
-        income: parseFloat(formData.income) || 0,
-        expenses: parseFloat(formData.expenses) || 0,
-        category: formData.category,
+        income,
+        expenses,
+        category: largest ? largest.category : formData.category,
+        categoryId: largest ? largest.categoryId : formData.categoryId || undefined,
         description: formData.description,
         frequency: formData.frequency,
         incomeBankAccountId: formData.incomeBankAccountId || undefined,
-        expenseBankAccountId: formData.expenseBankAccountId || undefined
-      });
+        expenseBankAccountId: formData.expenseBankAccountId || undefined,
+        // A split's lines carry their own links
+        linkedBudgetId: isSplit ? undefined : formData.linkedBudgetId || undefined,
+        linkedGoalId: isSplit ? undefined : formData.linkedGoalId || undefined,
+        splits
+      };
+
+      const splitError = getSplitError(entry);
+      if (splitError) {
+        setFormError(splitError);
+        return;
+      }
+
+      onAddEntry(entry);
+      setSplitLines([]);
+      setFormError('');
       setFormData({
         date: new Date().toISOString().split('T')[0],
         time: new Date().toTimeString().slice(0, 5),
         income: '',
         expenses: '',
         category: 'need',
+        categoryId: '',
         description: '',
         frequency: 'once',
         incomeBankAccountId: '',
-        expenseBankAccountId: ''
+        expenseBankAccountId: '',
+        linkedBudgetId: '',
+        linkedGoalId: ''
       });
       setShowForm(false);
     }
@@ -74,6 +155,8 @@ const DailyTracker: React.FC<DailyTrackerProps> = ({
     return account ? account.name : 'Unknown Account';
   };
 
+  const getGoalName = (goalId: string) => goals.find(goal => goal.id === goalId)?.name || 'a deleted goal';
+
   const getBankAccountIcon = (bankAccountId?: string) => {
     if (!bankAccountId) return '';
     const account = bankAccounts.find(acc => acc.id === bankAccountId);
@@ -148,7 +231,12 @@ const DailyTracker: React.FC<DailyTrackerProps> = ({
       {/* Add Entry Form */}
       {showForm && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 sm:p-6 border border-gray-200 dark:border-gray-700">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Add Daily Entry</h3>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Add Daily Entry</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {selectedDayGroup
+              ? `${selectedDayGroup.entries.length} transaction${selectedDayGroup.entries.length === 1 ? '' : 's'} already logged on this day (net ${formatCurrency(selectedDayGroup.net, currency)})`
+              : 'No transactions logged on this day yet'}
+          </p>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
               <div>
@@ -263,20 +351,183 @@ const DailyTracker: React.FC<DailyTrackerProps> = ({
               </div>
             </div>
 
-            <div>
-              <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Expense Category
-              </label>
-              <select
-                id="category"
-                value={formData.category}
-                onChange={(e) => setFormData({ ...formData, category: e.target.value as any })}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="need">Need</option>
-                <option value="want">Want</option>
-              </select>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Spending Category
+                </label>
+                <CategoryPicker
+                  id="categoryId"
+                  categories={spendingCategories}
+                  value={formData.categoryId}
+                  onChange={(category) => setFormData({
+                    ...formData,
+                    categoryId: category?.id || '',
+                    category: category?.type || formData.category
+                  })}
+                />
+              </div>
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Expense Category
+                </label>
+                <select
+                  id="category"
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value as any })}
+                  disabled={!!formData.categoryId}
+                  title={formData.categoryId ? 'Set by the spending category' : undefined}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="need">Need</option>
+                  <option value="want">Want</option>
+                </select>
+              </div>
             </div>
+
+            {!isSplit && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="linkedBudgetId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Budget
+                  </label>
+                  <select
+                    id="linkedBudgetId"
+                    value={formData.linkedBudgetId}
+                    onChange={(e) => setFormData({ ...formData, linkedBudgetId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">By category</option>
+                    {budgets.filter(budget => budget.isActive).map(budget => (
+                      <option key={budget.id} value={budget.id}>{budget.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="linkedGoalId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Goal
+                  </label>
+                  <select
+                    id="linkedGoalId"
+                    value={formData.linkedGoalId}
+                    onChange={(e) => setFormData({ ...formData, linkedGoalId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">No goal</option>
+                    {goals.map(goal => (
+                      <option key={goal.id} value={goal.id}>{goal.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {/* Split Lines */}
+            {canSplit && (
+              <div className="space-y-3">
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={isSplit}
+                    onChange={(e) => {
+                      setSplitLines(e.target.checked ? [emptySplitLine('need'), emptySplitLine('want')] : []);
+                      setFormError('');
+                    }}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded mr-2"
+                  />
+                  Split across categories, accounts or goals
+                </label>
+                {isSplit && (
+                  <>
+                    {splitLines.map((line, index) => (
+                      <div key={index} className="grid grid-cols-1 sm:grid-cols-6 gap-2 items-center">
+                        <input
+                          type="number"
+                          aria-label="Line amount"
+                          value={line.amount}
+                          onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                          placeholder="0.00"
+                          step="0.01"
+                          min="0"
+                          className={inputClass}
+                        />
+                        <CategoryPicker
+                          id={`splitCategoryId-${index}`}
+                          categories={spendingCategories}
+                          value={line.categoryId}
+                          onChange={(category) => updateSplitLine(index, {
+                            categoryId: category?.id || '',
+                            category: category?.type || line.category
+                          })}
+                          className={inputClass}
+                        />
+                        <select
+                          aria-label="Need or want"
+                          value={line.category}
+                          onChange={(e) => updateSplitLine(index, { category: e.target.value as SplitLineForm['category'] })}
+                          disabled={!!line.categoryId}
+                          className={inputClass}
+                        >
+                          <option value="need">Need</option>
+                          <option value="want">Want</option>
+                        </select>
+                        <select
+                          aria-label="Line account"
+                          value={line.bankAccountId}
+                          onChange={(e) => updateSplitLine(index, { bankAccountId: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">Same account</option>
+                          {activeAccounts.map(account => (
+                            <option key={account.id} value={account.id}>
+                              {getBankAccountIcon(account.id)} {account.name}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          aria-label="Line goal"
+                          value={line.linkedGoalId}
+                          onChange={(e) => updateSplitLine(index, { linkedGoalId: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">No goal</option>
+                          {goals.map(goal => (
+                            <option key={goal.id} value={goal.id}>{goal.name}</option>
+                          ))}
+                        </select>
+                        <div>
+                          {splitLines.length > 2 && (
+                            <button
+                              type="button"
+                              onClick={() => setSplitLines(splitLines.filter((_, i) => i !== index))}
+                              className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    <div className="flex justify-between items-center">
+                      <button
+                        type="button"
+                        onClick={() => setSplitLines([...splitLines, emptySplitLine('want')])}
+                        className="text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        + Add line
+                      </button>
+                      <span className={`text-sm ${splitRemaining === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {splitRemaining === 0 ? 'Fully assigned' : `${formatCurrency(splitRemaining, currency)} left to assign`}
+                      </span>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
             
             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
               <button
@@ -287,7 +538,11 @@ const DailyTracker: React.FC<DailyTrackerProps> = ({
               </button>
               <button
                 type="button"
-                onClick={() => setShowForm(false)}
+                onClick={() => {
+                  setShowForm(false);
+                  setSplitLines([]);
+                  setFormError('');
+                }}
                 className="w-full sm:w-auto px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
               >
                 Cancel
@@ -297,81 +552,116 @@ const DailyTracker: React.FC<DailyTrackerProps> = ({
         </div>
       )}
 
-      {/* Recent Entries */}
+      {/* Recent Days */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
         <div className="px-4 sm:px-6 py-4 border-b border-gray-200 dark:border-gray-600">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Entries</h3>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Days</h3>
         </div>
         <div className="divide-y divide-gray-200 dark:divide-gray-600">
-          {recentEntries.length === 0 ? (
+          {recentDays.length === 0 ? (
             <div className="px-4 sm:px-6 py-8 text-center">
               <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500 dark:text-gray-400">No entries yet. Start tracking your daily finances!</p>
             </div>
           ) : (
-            recentEntries.map((entry) => (
-              <div key={entry.id} className="px-4 sm:px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-150">
-                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-2 sm:space-y-0">
-                  <div className="flex-1">
-                    <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-3 space-y-1 sm:space-y-0">
-                      <span className="text-sm font-medium text-gray-900 dark:text-white">
-                        {new Date(entry.date).toLocaleDateString()}
-                      </span>
-                      {entry.time && (
-                        <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
-                          <Clock className="h-3 w-3 mr-1" />
-                          {entry.time}
-                        </div>
-                      )}
-                      {entry.description && (
-                        <span className="text-sm text-gray-600 dark:text-gray-300">{entry.description}</span>
-                      )}
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        entry.category === 'need' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' : 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300'
-                      }`}>
-                        {entry.category}
-                      </span>
-                      {entry.frequency && entry.frequency !== 'once' && (
-                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300">
-                          {entry.frequency}
-                        </span>
-                      )}
-                    </div>
-                    <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 mt-1 space-y-1 sm:space-y-0">
-                      {entry.income > 0 && (
-                        <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-1">
-                          <span className="text-sm font-medium text-green-600 dark:text-green-400">
-                            +{formatCurrency(entry.income, currency)}
-                          </span>
-                          <span className="text-xs text-gray-500 dark:text-gray-400">
-                            {getBankAccountIcon(entry.incomeBankAccountId)} → {getBankAccountName(entry.incomeBankAccountId)}
+            recentDays.map((group) => (
+              <div key={group.date}>
+                {/* Day header with totals */}
+                <div className="px-4 sm:px-6 py-3 bg-gray-50 dark:bg-gray-700/50 flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-1 sm:space-y-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {new Date(group.date).toLocaleDateString()}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {group.entries.length} transaction{group.entries.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-4 text-sm">
+                    <span className="text-green-600 dark:text-green-400">+{formatCurrency(group.totalIncome, currency)}</span>
+                    <span className="text-red-600 dark:text-red-400">-{formatCurrency(group.totalExpenses, currency)}</span>
+                    <span className={`font-medium ${group.net >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      Net: {formatCurrency(group.net, currency)}
+                    </span>
+                  </div>
+                </div>
+
+                {group.entries.map((entry) => (
+                  <div key={entry.id} className="px-4 sm:px-6 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-150">
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-2 sm:space-y-0">
+                      <div className="flex-1">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-3 space-y-1 sm:space-y-0">
+                          {entry.time && (
+                            <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                              <Clock className="h-3 w-3 mr-1" />
+                              {entry.time}
+                            </div>
+                          )}
+                          {entry.description && (
+                            <span className="text-sm text-gray-600 dark:text-gray-300">{entry.description}</span>
+                          )}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            entry.category === 'need' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' : 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300'
+                          }`}>
+                            {entry.category}
                           </span>
+                          {getCategoryPath(spendingCategories, entry.categoryId) && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {getCategoryPath(spendingCategories, entry.categoryId)}
+                            </span>
+                          )}
+                          {entry.frequency && entry.frequency !== 'once' && (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300">
+                              {entry.frequency}
+                            </span>
+                          )}
                         </div>
-                      )}
-                      {entry.expenses > 0 && (
-                        <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-1">
-                          <span className="text-sm font-medium text-red-600 dark:text-red-400">
-                            -{formatCurrency(entry.expenses, currency)}
-                          </span>
-                          <span className="text-xs text-gray-500 dark:text-gray-400">
-                            from {getBankAccountIcon(entry.expenseBankAccountId)} {getBankAccountName(entry.expenseBankAccountId)}
-                          </span>
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 mt-1 space-y-1 sm:space-y-0">
+                          {entry.income > 0 && (
+                            <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-1">
+                              <span className="text-sm font-medium text-green-600 dark:text-green-400">
+                                +{formatCurrency(entry.income, currency)}
+                              </span>
+                              <span className="text-xs text-gray-500 dark:text-gray-400">
+                                {getBankAccountIcon(entry.incomeBankAccountId)} → {getBankAccountName(entry.incomeBankAccountId)}
+                              </span>
+                            </div>
+                          )}
+                          {entry.expenses > 0 && (
+                            <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-1">
+                              <span className="text-sm font-medium text-red-600 dark:text-red-400">
+                                -{formatCurrency(entry.expenses, currency)}
+                              </span>
+                              <span className="text-xs text-gray-500 dark:text-gray-400">
+                                from {getBankAccountIcon(entry.expenseBankAccountId)} {getBankAccountName(entry.expenseBankAccountId)}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                      <span className={`text-sm font-medium ${
-                        entry.income - entry.expenses >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        Net: {formatCurrency(entry.income - entry.expenses, currency)}
-                      </span>
+                        {entry.splits?.map((line, index) => (
+                          <div key={index} className="flex flex-wrap items-center gap-x-2 mt-1 pl-3 border-l-2 border-gray-200 dark:border-gray-600 text-xs text-gray-500 dark:text-gray-400">
+                            <span className="font-medium text-gray-700 dark:text-gray-300">{formatCurrency(line.amount, currency)}</span>
+                            <span>{getCategoryPath(spendingCategories, line.categoryId) || line.category}</span>
+                            {line.bankAccountId && (
+                              <span>{getBankAccountIcon(line.bankAccountId)} {getBankAccountName(line.bankAccountId)}</span>
+                            )}
+                            {line.linkedGoalId && <span>→ {getGoalName(line.linkedGoalId)}</span>}
+                          </div>
+                        ))}
+                        <AttachmentList
+                          attachments={getAttachmentsFor(attachments, 'dailyEntry', entry.id)}
+                          onUpload={(file) => onAddAttachment('dailyEntry', entry.id, file)}
+                          onDelete={onDeleteAttachment}
+                        />
+                      </div>
+                      <button
+                        onClick={() => onDeleteEntry(entry.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200 self-end sm:self-center"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
                     </div>
                   </div>
-                  <button
-                    onClick={() => onDeleteEntry(entry.id)}
-                    className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200 self-end sm:self-center"
-                  >
-                    <Target className="h-4 w-4" />
-                  </button>
-                </div>
+                ))}
               </div>
             ))
           )}
@@ -27,16 +27,16 @@ import {
   Lightbulb,
   Briefcase
 } from 'lucide-react';
-import { Income, Expense, Loan, Bill, BusinessEntry, Currency, FinancialGoal, BankAccount, Challenge, UserProgress, ExpectedPayment } from '../types';
+import { Income, Expense, Loan, Bill, BusinessEntry, Currency, FinancialGoal, BankAccount, Challenge, UserProgress, ExpectedPayment, ExchangeRate, LoanPayment, LedgerEntry } from '../types';
 import { 
   calculateTotalMonthlyIncome, 
   calculateTotalMonthlyExpenses,
   calculateFinancialHealth,
   calculateAutoAllocation,
   calculateTotalDebt,
+  calculateDebtAt,
   calculateMinimumPayments,
   getUpcomingBills,
-  formatCurrency,
   formatDate,
   calculateBusinessContribution,
   calculateGoalProgress,
@@ -46,7 +46,9 @@ import {
   getUpcomingExpectedPayments,
   getOverdueExpectedPayments
 } from '../utils/calculations';
-import { generateChallenges, updateChallengeProgress } from '../utils/gamification';
+import { formatCurrency } from '../utils/currency';
+import { getMonthRange } from '../utils/periods';
+import { getChallengeProgress } from '../utils/gamification';
 import { calculateEmergencyPreparedness, generateHealthImprovementSteps } from '../utils/advancedCalculations';
 
 interface DashboardProps {
@@ -61,6 +63,9 @@ interface DashboardProps {
   challenges?: Challenge[];
   userProgress?: UserProgress;
   expectedPayments?: ExpectedPayment[];
+  exchangeRates?: ExchangeRate[];
+  loanPayments?: LoanPayment[];
+  ledgerEntries?: LedgerEntry[];
   onCompleteChallenge?: (challengeId: string) => void;
   onMarkExpectedPaymentAsPaid?: (paymentId: string, isPaid: boolean) => void;
 }
@@ -77,27 +82,37 @@ const Dashboard: React.FC<DashboardProps> = ({
   challenges = [],
   userProgress,
   expectedPayments = [],
+  exchangeRates = [],
+  loanPayments = [],
+  ledgerEntries = [],
   onCompleteChallenge,
   onMarkExpectedPaymentAsPaid
 }) => {
   const [showAllImprovementSteps, setShowAllImprovementSteps] = useState(false);
   
-  const totalIncome = calculateTotalMonthlyIncome(incomes);
+  // Monthly figures are what actually lands this calendar month; the averages smooth
+  // weekly and yearly items over a whole year
+  const thisMonth = getMonthRange();
+  const lastMonth = getMonthRange(new Date(), -1);
+  const totalIncome = calculateTotalMonthlyIncome(incomes, thisMonth);
   const businessContribution = calculateBusinessContribution(businessEntries);
   const totalMonthlyIncome = totalIncome + businessContribution;
-  const totalExpenses = calculateTotalMonthlyExpenses(expenses);
+  const totalExpenses = calculateTotalMonthlyExpenses(expenses, thisMonth);
+  const averageMonthlyIncome = calculateTotalMonthlyIncome(incomes) + businessContribution;
+  const averageMonthlyExpenses = calculateTotalMonthlyExpenses(expenses);
+  const conversion = { baseCurrency: currency.code, rates: exchangeRates };
   
   // Use enhanced debt calculation that includes account debts
-  const totalDebt = calculateTotalDebt(loans, bankAccounts);
-  const minimumPayments = calculateMinimumPayments(loans, bankAccounts);
+  const totalDebt = calculateTotalDebt(loans, bankAccounts, conversion);
+  const minimumPayments = calculateMinimumPayments(loans, bankAccounts, conversion);
   
   const netIncome = totalMonthlyIncome - totalExpenses - minimumPayments;
   const upcomingBills = getUpcomingBills(bills);
 
   const needs = expenses.filter(e => e.category === 'need');
   const wants = expenses.filter(e => e.category === 'want');
-  const totalNeeds = calculateTotalMonthlyExpenses(needs);
-  const totalWants = calculateTotalMonthlyExpenses(wants);
+  const totalNeeds = calculateTotalMonthlyExpenses(needs, thisMonth);
+  const totalWants = calculateTotalMonthlyExpenses(wants, thisMonth);
 
   // Expected payments
   const overdueExpectedPayments = getOverdueExpectedPayments(expectedPayments);
@@ -113,16 +128,16 @@ const Dashboard: React.FC<DashboardProps> = ({
     .reduce((sum, payment) => sum + payment.amount, 0);
 
   // Use consistent net worth calculation
-  const netWorth = calculateNetWorth(bankAccounts, loans, goals, expectedPayments);
+  const netWorth = calculateNetWorth(bankAccounts, loans, goals, expectedPayments, conversion);
 
   // Use the SAME financial health calculation as Auto Allocation
-  const financialHealth = calculateFinancialHealth(incomes, expenses, loans, [], businessEntries, goals, bankAccounts, expectedPayments);
+  const financialHealth = calculateFinancialHealth(incomes, expenses, loans, [], businessEntries, goals, bankAccounts, expectedPayments, conversion);
 
   // Calculate emergency preparedness
-  const emergencyPreparedness = calculateEmergencyPreparedness(bankAccounts, incomes, expenses, loans);
+  const emergencyPreparedness = calculateEmergencyPreparedness(bankAccounts, incomes, expenses, loans, currency);
 
   // Generate health improvement steps
-  const healthImprovementSteps = generateHealthImprovementSteps(financialHealth, incomes, expenses, loans, bankAccounts);
+  const healthImprovementSteps = generateHealthImprovementSteps(financialHealth, incomes, expenses, loans, bankAccounts, currency);
   
   // Calculate spending allowance using the same preferences structure as Auto Allocation
   const defaultPreferences = {
@@ -146,7 +161,8 @@ const Dashboard: React.FC<DashboardProps> = ({
     businessEntries,
     defaultPreferences,
     financialHealth,
-    bankAccounts
+    bankAccounts,
+    conversion
   );
 
   // Goal progress calculations
@@ -155,33 +171,14 @@ const Dashboard: React.FC<DashboardProps> = ({
   const completedGoals = goalProgresses.filter(gp => gp.progressPercentage >= 100);
 
   // Percentage change calculations - handle zero previous values properly
-  const previousMonthIncome = 0; // No previous data initially
-  const previousMonthExpenses = 0;
-  const previousMonthDebt = 0;
+  const previousMonthIncome = calculateTotalMonthlyIncome(incomes, lastMonth);
+  const previousMonthExpenses = calculateTotalMonthlyExpenses(expenses, lastMonth);
+  const previousMonthDebt = calculateDebtAt(lastMonth.to, loans, loanPayments, bankAccounts, ledgerEntries, conversion);
 
-  const incomeChange = calculatePercentageChange(totalMonthlyIncome, previousMonthIncome);
+  const incomeChange = calculatePercentageChange(totalIncome, previousMonthIncome);
   const expenseChange = calculatePercentageChange(totalExpenses, previousMonthExpenses);
   const debtChange = calculatePercentageChange(totalDebt, previousMonthDebt);
 
-  // Real Gamification System - Generate challenges based on actual data
-  const activeChallenges = generateChallenges(
-    incomes,
-    expenses,
-    loans,
-    bills,
-    [],
-    businessEntries,
-    goals,
-    financialHealth,
-    challenges
-  );
-
-  // Update challenge progress with real data
-  const updatedChallenges = activeChallenges.map(challenge => ({
-    ...challenge,
-    current: updateChallengeProgress(challenge, incomes, expenses, loans, [], goals)
-  }));
-
   // Real user progress or default values
   const currentUserProgress: UserProgress = userProgress || {
     totalPoints: 0,
@@ -367,7 +364,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                 <div className="text-purple-100 text-sm">Challenges</div>
               </div>
               <div>
-                <div className="text-xl font-bold">+{currentUserProgress.financialHealthImprovement}</div>
+                <div className="text-xl font-bold">{currentUserProgress.financialHealthImprovement >= 0 ? '+' : ''}{currentUserProgress.financialHealthImprovement}</div>
                 <div className="text-purple-100 text-sm">Health Boost</div>
               </div>
             </div>
@@ -375,7 +372,7 @@ const Dashboard: React.FC<DashboardProps> = ({
         )}
 
         {/* Real Active Challenges - Only show if challenges exist */}
-        {updatedChallenges.length > 0 && (
+        {challenges.length > 0 && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 mb-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Active Challenges</h3>
@@ -387,9 +384,8 @@ const Dashboard: React.FC<DashboardProps> = ({
               </div>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {updatedChallenges.slice(0, 3).map((challenge) => {
-                const progressPercentage = Math.min(100, (challenge.current / challenge.target) * 100);
-                const isCompleted = progressPercentage >= 100;
+              {challenges.slice(0, 3).map((challenge) => {
+                const progressPercentage = getChallengeProgress(challenge);
                 
                 return (
                   <div key={challenge.id} className={`bg-gradient-to-r ${
@@ -430,7 +426,11 @@ const Dashboard: React.FC<DashboardProps> = ({
                           <Gift className="h-3 w-3 mr-1" />
                           +{challenge.points} points
                         </span>
-                        {isCompleted && onCompleteChallenge && (
+                        {challenge.isCompleted ? (
+                          <span className="px-2 py-1 bg-white/20 rounded text-xs">
+                            Completed
+                          </span>
+                        ) : challenge.metric.comparator === 'at_least' && progressPercentage >= 100 && onCompleteChallenge && (
                           <button
                             onClick={() => onCompleteChallenge(challenge.id)}
                             className="px-2 py-1 bg-white/20 rounded text-xs hover:bg-white/30 transition-colors"
@@ -781,7 +781,9 @@ const Dashboard: React.FC<DashboardProps> = ({
             value={formatCurrency(totalMonthlyIncome, currency)}
             icon={TrendingUp}
             color="text-green-600"
-            trend={businessContribution > 0 ? `+${formatCurrency(businessContribution, currency)} from business` : undefined}
+            trend={businessContribution > 0
+              ? `+${formatCurrency(businessContribution, currency)} from business, averages ${formatCurrency(averageMonthlyIncome, currency)}`
+              : `Averages ${formatCurrency(averageMonthlyIncome, currency)}`}
             change={incomeChange}
           />
           <StatCard
@@ -789,6 +791,7 @@ const Dashboard: React.FC<DashboardProps> = ({
             value={formatCurrency(totalExpenses, currency)}
             icon={TrendingDown}
             color="text-red-600"
+            trend={`Averages ${formatCurrency(averageMonthlyExpenses, currency)}`}
             change={expenseChange}
           />
           <StatCard
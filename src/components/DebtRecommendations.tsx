@@ -1,17 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Target, TrendingUp, Zap, Calculator, DollarSign, AlertCircle, Save, CheckCircle, Layers } from 'lucide-react';
-import { Loan, Income, Expense, Currency, UserPreferences, PaymentSuggestion, BankAccount } from '../types';
+import { Loan, Income, Expense, Currency, UserPreferences, PaymentSuggestion, BankAccount, ExchangeRate } from '../types';
 import { 
   generateDebtRecommendations, 
   calculateTotalMonthlyIncome, 
   calculateTotalMonthlyExpenses,
   calculateMinimumPayments,
-  formatCurrency,
   suggestOptimalDebtStrategy,
   generatePaymentSuggestions,
   calculateFinancialHealth,
   calculateTotalDebt
 } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
 
 interface DebtRecommendationsProps {
   loans: Loan[];
@@ -20,6 +20,7 @@ interface DebtRecommendationsProps {
   currency: Currency;
   preferences: UserPreferences;
   bankAccounts?: BankAccount[];
+  exchangeRates?: ExchangeRate[];
   onUpdatePreferences: (preferences: UserPreferences) => void;
 }
 
@@ -30,6 +31,7 @@ const DebtRecommendations: React.FC<DebtRecommendationsProps> = ({
   currency,
   preferences,
   bankAccounts = [],
+  exchangeRates = [],
   onUpdatePreferences
 }) => {
   const [extraPayment, setExtraPayment] = useState(100);
@@ -41,16 +43,17 @@ const DebtRecommendations: React.FC<DebtRecommendationsProps> = ({
 
   const totalIncome = calculateTotalMonthlyIncome(incomes);
   const totalExpenses = calculateTotalMonthlyExpenses(expenses);
+  const conversion = { baseCurrency: currency.code, rates: exchangeRates };
   
   // FIXED: Use enhanced debt and payment calculations
-  const totalDebt = calculateTotalDebt(loans, bankAccounts);
-  const minimumPayments = calculateMinimumPayments(loans, bankAccounts);
+  const totalDebt = calculateTotalDebt(loans, bankAccounts, conversion);
+  const minimumPayments = calculateMinimumPayments(loans, bankAccounts, conversion);
   
   const availableForDebt = totalIncome - totalExpenses - minimumPayments;
 
-  const recommendations = generateDebtRecommendations(loans, extraPayment, selectedStrategy, bankAccounts);
+  const recommendations = generateDebtRecommendations(loans, extraPayment, selectedStrategy, bankAccounts, currency);
   const suggestedStrategy = suggestOptimalDebtStrategy(loans, incomes, expenses, [], bankAccounts);
-  const financialHealth = calculateFinancialHealth(incomes, expenses, loans, [], [], [], bankAccounts);
+  const financialHealth = calculateFinancialHealth(incomes, expenses, loans, [], [], [], bankAccounts, [], conversion);
 
   // Generate payment suggestions
   useEffect(() => {
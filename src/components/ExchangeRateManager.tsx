@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { Plus, Coins, Trash2, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
+import { BankAccount, Loan, Currency, ExchangeRate } from '../types';
+import { formatDate } from '../utils/calculations';
+import { defaultCurrencies } from '../utils/currency';
+import { getMissingRateCurrencies, parseExchangeRateCsv } from '../utils/exchangeRates';
+
+interface ExchangeRateManagerProps {
+  exchangeRates: ExchangeRate[];
+  bankAccounts: BankAccount[];
+  loans: Loan[];
+  currency: Currency;
+  onAddExchangeRate: (rate: Omit<ExchangeRate, 'id'>) => void;
+  onImportExchangeRates: (rates: Omit<ExchangeRate, 'id'>[]) => Promise<number | undefined>;
+  onDeleteExchangeRate: (rateId: string) => void;
+}
+
+const ExchangeRateManager: React.FC<ExchangeRateManagerProps> = ({
+  exchangeRates,
+  bankAccounts,
+  loans,
+  currency,
+  onAddExchangeRate,
+  onImportExchangeRates,
+  onDeleteExchangeRate
+}) => {
+  const conversion = { baseCurrency: currency.code, rates: exchangeRates };
+  const missingRateCurrencies = getMissingRateCurrencies(bankAccounts, loans, conversion);
+
+  const [showForm, setShowForm] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    fromCurrency: missingRateCurrencies[0] || '',
+    toCurrency: currency.code,
+    rate: '',
+    date: new Date().toISOString().split('T')[0]
+  });
+
+  const currencyCodes = Array.from(new Set([
+    currency.code,
+    ...defaultCurrencies.map(c => c.code),
+    ...bankAccounts.map(account => account.currency),
+    ...loans.map(loan => loan.currency)
+  ].filter((code): code is string => !!code)));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(formData.rate);
+    const fromCurrency = formData.fromCurrency.trim().toUpperCase();
+    const toCurrency = formData.toCurrency.trim().toUpperCase();
+
+    if (fromCurrency && toCurrency && fromCurrency !== toCurrency && rate > 0) {
+      onAddExchangeRate({ fromCurrency, toCurrency, rate, date: formData.date, source: 'manual' });
+      setFormData({ ...formData, rate: '' });
+      setShowForm(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rates = parseExchangeRateCsv(await file.text());
+    e.target.value = '';
+
+    if (rates.length === 0) {
+      setImportMessage('No rates found. Each row needs a date, from currency, to currency and rate.');
+      return;
+    }
+
+    const count = await onImportExchangeRates(rates);
+    setImportMessage(`Imported ${count || 0} exchange rates from ${file.name}.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Exchange Rates</h2>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">
+            Rates used to convert foreign-currency accounts and loans into {currency.code}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="inline-flex items-center px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200 cursor-pointer">
+            <FileText className="h-4 w-4 mr-2" />
+            Import CSV
+            <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFileChange} className="hidden" />
+          </label>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rate
+          </button>
+        </div>
+      </div>
+
+      {missingRateCurrencies.length > 0 && (
+        <div className="flex items-center p-4 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-300">
+          <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>
+            Missing a rate into {currency.code} for {missingRateCurrencies.join(', ')}. Totals leave those
+            amounts out until a rate is added.
+          </span>
+        </div>
+      )}
+
+      {importMessage && (
+        <div className="flex items-center p-4 rounded-lg bg-blue-50 border border-blue-200 text-blue-800 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-300">
+          <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>{importMessage}</span>
+        </div>
+      )}
+
+      {/* Add Rate Form */}
+      {showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Add Exchange Rate</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="fromCurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  From *
+                </label>
+                <input
+                  type="text"
+                  id="fromCurrency"
+                  list="currencyCodes"
+                  value={formData.fromCurrency}
+                  onChange={(e) => setFormData({ ...formData, fromCurrency: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  maxLength={3}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="toCurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  To *
+                </label>
+                <input
+                  type="text"
+                  id="toCurrency"
+                  list="currencyCodes"
+                  value={formData.toCurrency}
+                  onChange={(e) => setFormData({ ...formData, toCurrency: e.target.value.toUpperCase() })}
+                  placeholder={currency.code}
+                  maxLength={3}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  required
+                />
+                <datalist id="currencyCodes">
+                  {currencyCodes.map(code => <option key={code} value={code} />)}
+                </datalist>
+              </div>
+              <div>
+                <label htmlFor="rate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Rate *
+                </label>
+                <input
+                  type="number"
+                  id="rate"
+                  value={formData.rate}
+                  onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                  placeholder="0.00"
+                  step="any"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  required
+                />
+                {formData.fromCurrency && formData.toCurrency && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    1 {formData.fromCurrency} = {formData.rate || '?'} {formData.toCurrency}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="rateDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Effective From *
+                </label>
+                <input
+                  type="date"
+                  id="rateDate"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                Save Rate
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Rates List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        {exchangeRates.length === 0 ? (
+          <div className="p-8 text-center">
+            <Coins className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">No exchange rates yet</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">
+              Add rates by hand or import a CSV with date, from, to and rate columns
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Effective From</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Pair</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Source</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {exchangeRates.map(rate => (
+                  <tr key={rate.id}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">{formatDate(rate.date)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      1 {rate.fromCurrency} → {rate.toCurrency}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900 dark:text-white">{rate.rate}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                        {rate.source === 'csv' ? 'CSV' : 'Manual'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => onDeleteExchangeRate(rate.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRateManager;
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import { Plus, Calendar, DollarSign, Trash2, Edit2, CheckCircle, AlertTriangle, Clock, User } from 'lucide-react';
-import { ExpectedPayment, BankAccount, Currency } from '../types';
-import { formatCurrency, formatDate, getUpcomingExpectedPayments, getOverdueExpectedPayments } from '../utils/calculations';
+import { ExpectedPayment, BankAccount, Currency, Attachment, AttachmentParentType } from '../types';
+import { formatDate, getUpcomingExpectedPayments, getOverdueExpectedPayments } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { getAttachmentsFor } from '../utils/attachments';
+import AttachmentList from './AttachmentList';
 
 interface ExpectedPaymentManagerProps {
   expectedPayments: ExpectedPayment[];
@@ -11,6 +14,9 @@ interface ExpectedPaymentManagerProps {
   onUpdateExpectedPayment: (paymentId: string, updates: Partial<ExpectedPayment>) => void;
   onMarkAsPaid: (paymentId: string, isPaid: boolean) => void;
   onDeleteExpectedPayment: (paymentId: string) => void;
+  attachments: Attachment[];
+  onAddAttachment: (parentType: AttachmentParentType, parentId: string, file: File) => Promise<string | undefined>;
+  onDeleteAttachment: (attachmentId: string) => void;
 }
 
 const ExpectedPaymentManager: React.FC<ExpectedPaymentManagerProps> = ({
@@ -20,7 +26,10 @@ const ExpectedPaymentManager: React.FC<ExpectedPaymentManagerProps> = ({
   onAddExpectedPayment,
   onUpdateExpectedPayment,
   onMarkAsPaid,
-  onDeleteExpectedPayment
+  onDeleteExpectedPayment,
+  attachments,
+  onAddAttachment,
+  onDeleteAttachment
 }) => {
   const [showForm, setShowForm] = useState(false);
   const [editingPayment, setEditingPayment] = useState<string | null>(null);
@@ -420,6 +429,11 @@ const ExpectedPaymentManager: React.FC<ExpectedPaymentManagerProps> = ({
                     {payment.description && (
                       <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{payment.description}</p>
                     )}
+                    <AttachmentList
+                      attachments={getAttachmentsFor(attachments, 'expectedPayment', payment.id)}
+                      onUpload={(file) => onAddAttachment('expectedPayment', payment.id, file)}
+                      onDelete={onDeleteAttachment}
+                    />
                   </div>
                   <div className="flex items-center space-x-2">
                     <button
@@ -509,6 +523,11 @@ const ExpectedPaymentManager: React.FC<ExpectedPaymentManagerProps> = ({
                       {payment.description && (
                         <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{payment.description}</p>
                       )}
+                      <AttachmentList
+                        attachments={getAttachmentsFor(attachments, 'expectedPayment', payment.id)}
+                        onUpload={(file) => onAddAttachment('expectedPayment', payment.id, file)}
+                        onDelete={onDeleteAttachment}
+                      />
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
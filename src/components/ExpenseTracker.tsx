@@ -1,11 +1,19 @@
 import React, { useState } from 'react';
 import { Plus, TrendingDown, Trash2, Tag, Edit2 } from 'lucide-react';
-import { Expense, BankAccount, Currency } from '../types';
-import { formatCurrency, calculateTotalMonthlyExpenses } from '../utils/calculations';
+import { Expense, BankAccount, Budget, Currency, FinancialGoal, Recurrence, SpendingCategory } from '../types';
+import { calculateTotalMonthlyExpenses } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { createDefaultRecurrence, describeRecurrence, recurrenceToFrequency } from '../utils/recurrence';
+import { getCategoryPath } from '../utils/spendingCategories';
+import RecurrenceEditor from './RecurrenceEditor';
+import CategoryPicker from './CategoryPicker';
 
 interface ExpenseTrackerProps {
   expenses: Expense[];
   bankAccounts: BankAccount[];
+  spendingCategories: SpendingCategory[];
+  budgets: Budget[];
+  goals: FinancialGoal[];
   currency: Currency;
   onAddExpense: (expense: Omit<Expense, 'id' | 'monthlyAmount'>) => void;
   onUpdateExpense: (expenseId: string, updates: Partial<Expense>) => void;
@@ -15,6 +23,9 @@ interface ExpenseTrackerProps {
 const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({ 
   expenses, 
   bankAccounts,
+  spendingCategories,
+  budgets,
+  goals,
   currency,
   onAddExpense, 
   onUpdateExpense,
@@ -25,9 +36,13 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
   const [formData, setFormData] = useState({
     name: '',
     amount: '',
-    category: 'need' as const,
-    frequency: 'monthly' as const,
-    bankAccountId: ''
+    category: 'need' as Expense['category'],
+    categoryId: '',
+    frequency: 'monthly' as Expense['frequency'],
+    bankAccountId: '',
+    linkedBudgetId: '',
+    linkedGoalId: '',
+    recurrence: undefined as Recurrence | undefined
   });
 
   const needs = expenses.filter(e => e.category === 'need');
@@ -44,8 +59,12 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
         name: formData.name,
         amount: parseFloat(formData.amount),
         category: formData.category,
-        frequency: formData.frequency,
-        bankAccountId: formData.bankAccountId
+        categoryId: formData.categoryId || undefined,
+        frequency: formData.recurrence ? recurrenceToFrequency(formData.recurrence) : formData.frequency,
+        bankAccountId: formData.bankAccountId,
+        linkedBudgetId: formData.linkedBudgetId || undefined,
+        linkedGoalId: formData.linkedGoalId || undefined,
+        recurrence: formData.recurrence
       };
 
       if (editingExpense) {
@@ -55,7 +74,7 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
         onAddExpense(expenseData);
       }
 
-      setFormData({ name: '', amount: '', category: 'need', frequency: 'monthly', bankAccountId: '' });
+      setFormData({ name: '', amount: '', category: 'need', categoryId: '', frequency: 'monthly', bankAccountId: '', linkedBudgetId: '', linkedGoalId: '', recurrence: undefined });
       setShowForm(false);
     }
   };
@@ -65,8 +84,12 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
       name: expense.name,
       amount: expense.amount.toString(),
       category: expense.category,
+      categoryId: expense.categoryId || '',
       frequency: expense.frequency,
-      bankAccountId: expense.bankAccountId
+      bankAccountId: expense.bankAccountId,
+      linkedBudgetId: expense.linkedBudgetId || '',
+      linkedGoalId: expense.linkedGoalId || '',
+      recurrence: expense.recurrence
     });
     setEditingExpense(expense.id);
     setShowForm(true);
@@ -127,11 +150,17 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
                   <h4 className="font-medium text-gray-900 dark:text-white">{expense.name}</h4>
                   <div className="flex items-center space-x-2 mt-1">
                     <span className="text-sm text-gray-500 dark:text-gray-400">
-                      {formatCurrency(expense.amount, currency)} {expense.frequency}
+                      {formatCurrency(expense.amount, currency)} {expense.recurrence ? describeRecurrence(expense.recurrence) : expense.frequency}
                     </span>
                     <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
                       {formatCurrency(expense.monthlyAmount, currency)}/month
                     </span>
+                    {getCategoryPath(spendingCategories, expense.categoryId) && (
+                      <span className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400">
+                        <Tag className="h-3 w-3 mr-1" />
+                        {getCategoryPath(spendingCategories, expense.categoryId)}
+                      </span>
+                    )}
                     <div className="flex items-center space-x-1">
                       <span className="text-sm">{getBankAccountIcon(expense.bankAccountId)}</span>
                       <span className="text-sm text-gray-500 dark:text-gray-400">
@@ -173,7 +202,7 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
           onClick={() => {
             setShowForm(!showForm);
             setEditingExpense(null);
-            setFormData({ name: '', amount: '', category: 'need', frequency: 'monthly', bankAccountId: '' });
+            setFormData({ name: '', amount: '', category: 'need', categoryId: '', frequency: 'monthly', bankAccountId: '', linkedBudgetId: '', linkedGoalId: '', recurrence: undefined });
           }}
           className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
         >
@@ -218,6 +247,21 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
                 required
               />
             </div>
+            <div>
+              <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Spending Category
+              </label>
+              <CategoryPicker
+                id="categoryId"
+                categories={spendingCategories}
+                value={formData.categoryId}
+                onChange={(category) => setFormData({
+                  ...formData,
+                  categoryId: category?.id || '',
+                  category: category?.type || formData.category
+                })}
+              />
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label htmlFor="amount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -243,6 +287,8 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
                   id="category"
                   value={formData.category}
                   onChange={(e) => setFormData({ ...formData, category: e.target.value as any })}
+                  disabled={!!formData.categoryId}
+                  title={formData.categoryId ? 'Set by the spending category' : undefined}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 >
                   <option value="need">Need</option>
@@ -255,13 +301,17 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
                 </label>
                 <select
                   id="frequency"
-                  value={formData.frequency}
-                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as any })}
+                  value={formData.recurrence ? 'custom' : formData.frequency}
+                  onChange={(e) => e.target.value === 'custom'
+                    ? setFormData({ ...formData, recurrence: createDefaultRecurrence() })
+                    : setFormData({ ...formData, frequency: e.target.value as any, recurrence: undefined })
+                  }
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 >
                   {frequencies.map(freq => (
                     <option key={freq.value} value={freq.value}>{freq.label}</option>
                   ))}
+                  <option value="custom">Custom schedule</option>
                 </select>
               </div>
               <div>
@@ -284,6 +334,47 @@ const ExpenseTracker: React.FC<ExpenseTrackerProps> = ({
                 </select>
               </div>
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="linkedBudgetId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Budget
+                </label>
+                <select
+                  id="linkedBudgetId"
+                  value={formData.linkedBudgetId}
+                  onChange={(e) => setFormData({ ...formData, linkedBudgetId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="">By category</option>
+                  {budgets.filter(budget => budget.isActive || budget.id === formData.linkedBudgetId).map(budget => (
+                    <option key={budget.id} value={budget.id}>{budget.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="linkedGoalId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Goal
+                </label>
+                <select
+                  id="linkedGoalId"
+                  value={formData.linkedGoalId}
+                  onChange={(e) => setFormData({ ...formData, linkedGoalId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="">No goal</option>
+                  {goals.map(goal => (
+                    <option key={goal.id} value={goal.id}>{goal.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {formData.recurrence && (
+              <RecurrenceEditor
+                idPrefix="expense"
+                recurrence={formData.recurrence}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+              />
+            )}
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -0,0 +1,191 @@
+import React, { useMemo } from 'react';
+import { Activity, ArrowUp, ArrowDown, Minus, History } from 'lucide-react';
+import { FinancialHealth, HealthScoreSnapshot } from '../types';
+import { formatDate } from '../utils/calculations';
+import { explainScoreChange, getSnapshotBefore } from '../utils/healthHistory';
+
+interface FinancialHealthHistoryProps {
+  financialHealth: FinancialHealth;
+  snapshots: HealthScoreSnapshot[];
+}
+
+// Days of history shown in the chart
+const CHART_DAYS = 30;
+
+const FinancialHealthHistory: React.FC<FinancialHealthHistoryProps> = ({
+  financialHealth,
+  snapshots
+}) => {
+  const today = new Date().toISOString().split('T')[0];
+
+  const chartSnapshots = useMemo(
+    () => [...snapshots].sort((a, b) => a.date.localeCompare(b.date)).slice(-CHART_DAYS),
+    [snapshots]
+  );
+
+  const weekAgo = getSnapshotBefore(snapshots, today, 7);
+  const scoreChange = weekAgo ? explainScoreChange(financialHealth, weekAgo) : null;
+
+  const getLevelColor = (level: FinancialHealth['level']) => {
+    switch (level) {
+      case 'excellent': return 'bg-green-500';
+      case 'good': return 'bg-blue-500';
+      case 'fair': return 'bg-yellow-500';
+      default: return 'bg-red-500';
+    }
+  };
+
+  const getChangeColor = (change: number) =>
+    change > 0 ? 'text-green-600 dark:text-green-400' : change < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400';
+
+  const getChangeIcon = (change: number) => {
+    if (change > 0) return <ArrowUp className="h-4 w-4" />;
+    if (change < 0) return <ArrowDown className="h-4 w-4" />;
+    return <Minus className="h-4 w-4" />;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Health Score</h2>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">How your financial health score is made up and how it has moved</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <Activity className="h-8 w-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Score Today</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                {financialHealth.score}
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400"> / 100 · {financialHealth.level}</span>
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <History className="h-8 w-8 text-purple-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Since Last Week</p>
+              {scoreChange ? (
+                <p className={`text-2xl font-bold flex items-center ${getChangeColor(scoreChange.change)}`}>
+                  {getChangeIcon(scoreChange.change)}
+                  <span className="ml-1">{scoreChange.change > 0 ? '+' : ''}{scoreChange.change}</span>
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Not enough history yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <Activity className="h-8 w-8 text-green-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Days Recorded</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{snapshots.length}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Score over time */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Score Over Time</h3>
+        </div>
+        <div className="p-6">
+          {chartSnapshots.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Your score is recorded once a day. Check back tomorrow to see it move.</p>
+          ) : (
+            <div className="relative h-48 flex items-end space-x-1">
+              {chartSnapshots.map(snapshot => (
+                <div key={snapshot.date} className="flex-1 flex flex-col items-center justify-end h-full relative group">
+                  <div
+                    className={`w-full rounded-t transition-all duration-300 ${getLevelColor(snapshot.level)}`}
+                    style={{ height: `${Math.max(2, snapshot.score)}%` }}
+                  ></div>
+                  <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">
+                    {formatDate(snapshot.date)}: {snapshot.score}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Breakdown */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Score Breakdown</h3>
+          </div>
+          <div className="p-6">
+            {financialHealth.factors.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Add income, expenses or accounts to get a score.</p>
+            ) : (
+              <ul className="space-y-4">
+                {financialHealth.factors.map(factor => (
+                  <li key={factor.id}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-900 dark:text-white">{factor.label}</span>
+                      <span className={factor.points < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}>
+                        {factor.maxPoints > 0 ? `${factor.points} / ${factor.maxPoints}` : factor.points}
+                      </span>
+                    </div>
+                    {factor.maxPoints > 0 && (
+                      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${(factor.points / factor.maxPoints) * 100}%` }}
+                        ></div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Why it changed */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Why Your Score Changed</h3>
+            {scoreChange && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Compared with {formatDate(scoreChange.previous.date)}, when it was {scoreChange.previous.score}</p>
+            )}
+          </div>
+          <div className="p-6">
+            {!scoreChange ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">After a week of history you'll see what moved your score here.</p>
+            ) : scoreChange.factorChanges.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No factor has changed its points since then.</p>
+            ) : (
+              <ul className="space-y-3">
+                {scoreChange.factorChanges.map(factorChange => (
+                  <li key={factorChange.id} className="flex items-start space-x-3">
+                    <span className={`flex items-center text-sm font-semibold w-12 ${getChangeColor(factorChange.change)}`}>
+                      {getChangeIcon(factorChange.change)}
+                      {Math.abs(factorChange.change)}
+                    </span>
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{factorChange.label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{factorChange.explanation}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FinancialHealthHistory;
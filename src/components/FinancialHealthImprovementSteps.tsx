@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Target, CheckCircle, Clock, ArrowUp, AlertTriangle, Zap, Award, Shield } from 'lucide-react';
 import { HealthImprovementStep, EmergencyPreparedness, Currency } from '../types';
-import { formatCurrency } from '../utils/advancedCalculations';
+import { formatCurrency } from '../utils/currency';
 
 interface FinancialHealthImprovementStepsProps {
   improvementSteps: HealthImprovementStep[];
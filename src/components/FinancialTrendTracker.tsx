@@ -1,7 +1,8 @@
 import React, { useMemo } from 'react';
 import { TrendingUp, TrendingDown, Calendar, BarChart3, ArrowUp, ArrowDown, Minus, AlertTriangle } from 'lucide-react';
-import { Income, Expense, Loan, DailyEntry, BusinessEntry, Currency, BankAccount, ExpectedPayment } from '../types';
-import { formatCurrency, calculateTotalMonthlyIncome, calculateTotalMonthlyExpenses, calculateTotalDebt, calculateNetWorth } from '../utils/calculations';
+import { Income, Expense, Loan, DailyEntry, BusinessEntry, Currency, BankAccount, ExpectedPayment, ExchangeRate } from '../types';
+import { calculateTotalMonthlyIncome, calculateTotalMonthlyExpenses, calculateTotalDebt, calculateNetWorth } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
 
 interface FinancialTrendTrackerProps {
   incomes: Income[];
@@ -12,6 +13,7 @@ interface FinancialTrendTrackerProps {
   currency: Currency;
   bankAccounts?: BankAccount[];
   expectedPayments?: ExpectedPayment[];
+  exchangeRates?: ExchangeRate[];
 }
 
 interface TrendData {
@@ -42,8 +44,14 @@ const FinancialTrendTracker: React.FC<FinancialTrendTrackerProps> = ({
   businessEntries,
   currency,
   bankAccounts = [],
-  expectedPayments = []
+  expectedPayments = [],
+  exchangeRates = []
 }) => {
+  const conversion = useMemo(
+    () => ({ baseCurrency: currency.code, rates: exchangeRates }),
+    [currency.code, exchangeRates]
+  );
+
   const trendData = useMemo(() => {
     const now = new Date();
     const periods: TrendData[] = [];
@@ -72,10 +80,10 @@ const FinancialTrendTracker: React.FC<FinancialTrendTrackerProps> = ({
       const businessProfit = periodBusinessEntries.reduce((sum, entry) => sum + entry.profit, 0);
       
       // FIXED: Use enhanced debt calculation
-      const totalDebt = calculateTotalDebt(loans, bankAccounts);
+      const totalDebt = calculateTotalDebt(loans, bankAccounts, conversion);
       
       // FIXED: Use consistent net worth calculation
-      const netWorth = calculateNetWorth(bankAccounts, loans, [], expectedPayments);
+      const netWorth = calculateNetWorth(bankAccounts, loans, [], expectedPayments, conversion);
       
       const totalIncome = monthlyIncome + dailyIncome;
       const totalExpenses = monthlyExpenses + dailyExpenses;
@@ -92,7 +100,7 @@ const FinancialTrendTracker: React.FC<FinancialTrendTrackerProps> = ({
     }
     
     return periods;
-  }, [incomes, expenses, loans, dailyEntries, businessEntries, bankAccounts, expectedPayments]);
+  }, [incomes, expenses, loans, dailyEntries, businessEntries, bankAccounts, expectedPayments, conversion]);
 
   const comparisons = useMemo((): TrendComparison[] => {
     if (trendData.length < 2) return [];
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Calendar, TrendingUp, Target, CheckCircle, AlertTriangle, Clock, ArrowRight, BarChart3 } from 'lucide-react';
 import { FinancialGoal, Currency } from '../types';
-import { formatCurrency, formatDate } from '../utils/advancedCalculations';
+import { formatDate } from '../utils/advancedCalculations';
+import { formatCurrency } from '../utils/currency';
 
 interface GoalForecastingViewProps {
   goals: FinancialGoal[];
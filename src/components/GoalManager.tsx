@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Plus, Target, Calendar, TrendingUp, Trash2, Edit2 } from 'lucide-react';
 import { FinancialGoal, Currency } from '../types';
-import { formatCurrency, formatDate, calculateGoalProgress } from '../utils/calculations';
+import { formatDate, calculateGoalProgress } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
 
 interface GoalManagerProps {
   goals: FinancialGoal[];
@@ -0,0 +1,409 @@
+import React, { useState } from 'react';
+import { Upload, FileText, CheckCircle, AlertTriangle, ArrowLeft, ArrowRight } from 'lucide-react';
+import { BankAccount, DailyEntry, Expense, Currency, CategorizerModel } from '../types';
+import { formatDate } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import {
+  ParsedStatement,
+  ColumnMapping,
+  DateFormat,
+  ImportRow,
+  ImportTarget,
+  UNMAPPED,
+  parseStatementFile,
+  guessColumnMapping,
+  buildImportRows,
+  toDailyEntries,
+  toExpenses
+} from '../utils/statementImport';
+
+interface ImportWizardProps {
+  bankAccounts: BankAccount[];
+  dailyEntries: DailyEntry[];
+  expenses: Expense[];
+  categorizerModel: CategorizerModel | null;
+  currency: Currency;
+  onImportDailyEntries: (entries: Omit<DailyEntry, 'id'>[]) => Promise<number | undefined>;
+  onImportExpenses: (expenses: Omit<Expense, 'id' | 'monthlyAmount'>[]) => Promise<number | undefined>;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const ImportWizard: React.FC<ImportWizardProps> = ({
+  bankAccounts,
+  dailyEntries,
+  expenses,
+  categorizerModel,
+  currency,
+  onImportDailyEntries,
+  onImportExpenses
+}) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [target, setTarget] = useState<ImportTarget>('daily');
+  const [bankAccountId, setBankAccountId] = useState('');
+  const [expenseFrequency, setExpenseFrequency] = useState<Expense['frequency']>('monthly');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [parseError, setParseError] = useState('');
+
+  const activeAccounts = bankAccounts.filter(account => account.isActive);
+  const includedRows = rows.filter(row => row.include);
+  const duplicateCount = rows.filter(row => row.isDuplicate).length;
+  const errorCount = rows.filter(row => row.error).length;
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const parsed = parseStatementFile(file.name, text);
+
+    if (parsed.rows.length === 0) {
+      setParseError('No transactions were found in this file.');
+      return;
+    }
+
+    setParseError('');
+    setFileName(file.name);
+    setStatement(parsed);
+    setMapping(guessColumnMapping(parsed));
+    setStep('map');
+  };
+
+  const handlePreview = () => {
+    if (!statement || !mapping) return;
+    setRows(buildImportRows(statement, mapping, target, dailyEntries, expenses, categorizerModel));
+    setStep('preview');
+  };
+
+  const toggleRow = (rowIndex: number) => {
+    setRows(prev => prev.map(row =>
+      row.rowIndex === rowIndex && !row.error ? { ...row, include: !row.include } : row
+    ));
+  };
+
+  const updateRowCategory = (rowIndex: number, category: 'need' | 'want') => {
+    setRows(prev => prev.map(row => row.rowIndex === rowIndex ? { ...row, category } : row));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    const count = target === 'daily'
+      ? await onImportDailyEntries(toDailyEntries(rows, bankAccountId))
+      : await onImportExpenses(toExpenses(rows, bankAccountId, expenseFrequency));
+    setImporting(false);
+    setImportedCount(count || 0);
+    setStep('done');
+  };
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setStatement(null);
+    setMapping(null);
+    setRows([]);
+    setImportedCount(0);
+  };
+
+  const isMappingValid = !!mapping && !!bankAccountId &&
+    (target === 'expense' || mapping.date !== UNMAPPED) &&
+    mapping.description !== UNMAPPED &&
+    (mapping.amount !== UNMAPPED || mapping.debit !== UNMAPPED || mapping.credit !== UNMAPPED);
+
+  const renderColumnSelect = (field: keyof Omit<ColumnMapping, 'dateFormat'>, label: string) => (
+    <div>
+      <label htmlFor={`map-${field}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {label}
+      </label>
+      <select
+        id={`map-${field}`}
+        value={mapping ? mapping[field] : UNMAPPED}
+        onChange={(e) => mapping && setMapping({ ...mapping, [field]: parseInt(e.target.value) })}
+        className={inputClassName}
+      >
+        <option value={UNMAPPED}>Not mapped</option>
+        {statement?.headers.map((header, index) => (
+          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Import Statement</h2>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">Bring in transactions from a CSV, OFX or QFX bank statement</p>
+      </div>
+
+      {/* Steps */}
+      <div className="flex items-center space-x-2 text-sm">
+        {(['upload', 'map', 'preview', 'done'] as WizardStep[]).map((wizardStep, index) => (
+          <React.Fragment key={wizardStep}>
+            {index > 0 && <span className="text-gray-400">/</span>}
+            <span className={step === wizardStep ? 'font-semibold text-blue-600' : 'text-gray-500 dark:text-gray-400'}>
+              {index + 1}. {wizardStep.charAt(0).toUpperCase() + wizardStep.slice(1)}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {step === 'upload' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8 border border-gray-200 dark:border-gray-700 text-center">
+          <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-300 mb-4">Files are read in your browser and never uploaded.</p>
+          <label className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 cursor-pointer">
+            <FileText className="h-4 w-4 mr-2" />
+            Choose File
+            <input type="file" accept=".csv,.ofx,.qfx,text/csv" onChange={handleFileChange} className="hidden" />
+          </label>
+          {parseError && <p className="text-sm text-red-600 mt-4">{parseError}</p>}
+        </div>
+      )}
+
+      {step === 'map' && statement && mapping && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Map Columns</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {fileName} • {statement.rows.length} rows • {statement.format.toUpperCase()}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="target" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Import As
+              </label>
+              <select
+                id="target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value as ImportTarget)}
+                className={inputClassName}
+              >
+                <option value="daily">Daily transactions</option>
+                <option value="expense">Recurring expenses</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="bankAccountId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Bank Account *
+              </label>
+              <select
+                id="bankAccountId"
+                value={bankAccountId}
+                onChange={(e) => setBankAccountId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Select account</option>
+                {activeAccounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+            {target === 'expense' ? (
+              <div>
+                <label htmlFor="expenseFrequency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Frequency
+                </label>
+                <select
+                  id="expenseFrequency"
+                  value={expenseFrequency}
+                  onChange={(e) => setExpenseFrequency(e.target.value as Expense['frequency'])}
+                  className={inputClassName}
+                >
+                  <option value="weekly">Weekly</option>
+                  <option value="biweekly">Bi-weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="yearly">Yearly</option>
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="dateFormat" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Date Format
+                </label>
+                <select
+                  id="dateFormat"
+                  value={mapping.dateFormat}
+                  onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as DateFormat })}
+                  className={inputClassName}
+                >
+                  <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                  <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                  <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {renderColumnSelect('date', target === 'daily' ? 'Date *' : 'Date')}
+            {renderColumnSelect('description', 'Description *')}
+            {renderColumnSelect('amount', 'Amount (signed)')}
+            {renderColumnSelect('debit', 'Debit / Money Out')}
+            {renderColumnSelect('credit', 'Credit / Money In')}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Map either a signed amount column or separate debit and credit columns.
+          </p>
+
+          {/* Sample rows */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  {statement.headers.map((header, index) => (
+                    <th key={index} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                      {header || `Column ${index + 1}`}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {statement.rows.slice(0, 3).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {statement.headers.map((_, index) => (
+                      <td key={index} className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row[index]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={resetWizard}
+              className="inline-flex items-center px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors duration-200"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </button>
+            <button
+              onClick={handlePreview}
+              disabled={!isMappingValid}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Preview
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Preview</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {includedRows.length} of {rows.length} rows will be imported
+              {duplicateCount > 0 && ` • ${duplicateCount} possible duplicates skipped`}
+              {errorCount > 0 && ` • ${errorCount} rows could not be read`}
+            </p>
+          </div>
+          <div className="overflow-x-auto max-h-[32rem]">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Description</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Amount</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Category</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {rows.map(row => (
+                  <tr key={row.rowIndex} className={row.include ? '' : 'opacity-50'}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        disabled={!!row.error}
+                        onChange={() => toggleRow(row.rowIndex)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">
+                      {row.date ? formatDate(row.date) : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{row.description}</td>
+                    <td className={`px-3 py-2 whitespace-nowrap text-right font-medium ${row.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(row.amount, currency)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={row.category}
+                        onChange={(e) => updateRowCategory(row.rowIndex, e.target.value as 'need' | 'want')}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="need">Need</option>
+                        <option value="want">Want</option>
+                      </select>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {row.aiCategory} ({Math.round(row.confidence * 100)}%)
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {row.error ? (
+                        <span className="inline-flex items-center text-xs text-red-600">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {row.error}
+                        </span>
+                      ) : row.isDuplicate ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Duplicate</span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">New</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-6 flex space-x-3 border-t border-gray-200 dark:border-gray-600">
+            <button
+              onClick={() => setStep('map')}
+              className="inline-flex items-center px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors duration-200"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={importing || includedRows.length === 0}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {importing ? 'Importing...' : `Import ${includedRows.length} Rows`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8 border border-gray-200 dark:border-gray-700 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <p className="text-gray-900 dark:text-white font-medium mb-4">
+            Imported {importedCount} {target === 'daily' ? 'transactions' : 'expenses'} from {fileName}
+          </p>
+          <button
+            onClick={resetWizard}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200"
+          >
+            Import Another File
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import { Plus, TrendingUp, Trash2, Building2, Edit2 } from 'lucide-react';
-import { Income, BankAccount, Currency } from '../types';
-import { formatCurrency, calculateTotalMonthlyIncome } from '../utils/calculations';
+import { Income, BankAccount, Currency, Recurrence } from '../types';
+import { calculateTotalMonthlyIncome } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { createDefaultRecurrence, describeRecurrence, recurrenceToFrequency } from '../utils/recurrence';
+import RecurrenceEditor from './RecurrenceEditor';
 
 interface IncomeTrackerProps {
   incomes: Income[];
@@ -25,8 +28,9 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
   const [formData, setFormData] = useState({
     source: '',
     amount: '',
-    frequency: 'monthly' as const,
-    bankAccountId: ''
+    frequency: 'monthly' as Income['frequency'],
+    bankAccountId: '',
+    recurrence: undefined as Recurrence | undefined
   });
 
   const totalMonthlyIncome = calculateTotalMonthlyIncome(incomes);
@@ -38,8 +42,9 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
       const incomeData = {
         source: formData.source,
         amount: parseFloat(formData.amount),
-        frequency: formData.frequency,
-        bankAccountId: formData.bankAccountId
+        frequency: formData.recurrence ? recurrenceToFrequency(formData.recurrence) : formData.frequency,
+        bankAccountId: formData.bankAccountId,
+        recurrence: formData.recurrence
       };
 
       if (editingIncome) {
@@ -49,7 +54,7 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
         onAddIncome(incomeData);
       }
 
-      setFormData({ source: '', amount: '', frequency: 'monthly', bankAccountId: '' });
+      setFormData({ source: '', amount: '', frequency: 'monthly', bankAccountId: '', recurrence: undefined });
       setShowForm(false);
     }
   };
@@ -59,7 +64,8 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
       source: income.source,
       amount: income.amount.toString(),
       frequency: income.frequency,
-      bankAccountId: income.bankAccountId
+      bankAccountId: income.bankAccountId,
+      recurrence: income.recurrence
     });
     setEditingIncome(income.id);
     setShowForm(true);
@@ -102,7 +108,7 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
           onClick={() => {
             setShowForm(!showForm);
             setEditingIncome(null);
-            setFormData({ source: '', amount: '', frequency: 'monthly', bankAccountId: '' });
+            setFormData({ source: '', amount: '', frequency: 'monthly', bankAccountId: '', recurrence: undefined });
           }}
           className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
         >
@@ -166,13 +172,17 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
                 </label>
                 <select
                   id="frequency"
-                  value={formData.frequency}
-                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as any })}
+                  value={formData.recurrence ? 'custom' : formData.frequency}
+                  onChange={(e) => e.target.value === 'custom'
+                    ? setFormData({ ...formData, recurrence: createDefaultRecurrence() })
+                    : setFormData({ ...formData, frequency: e.target.value as any, recurrence: undefined })
+                  }
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 >
                   {frequencies.map(freq => (
                     <option key={freq.value} value={freq.value}>{freq.label}</option>
                   ))}
+                  <option value="custom">Custom schedule</option>
                 </select>
               </div>
               <div>
@@ -195,6 +205,13 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
                 </select>
               </div>
             </div>
+            {formData.recurrence && (
+              <RecurrenceEditor
+                idPrefix="income"
+                recurrence={formData.recurrence}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+              />
+            )}
             <div className="flex space-x-3">
               <button
                 type="submit"
@@ -236,7 +253,7 @@ const IncomeTracker: React.FC<IncomeTrackerProps> = ({
                     <h4 className="text-lg font-medium text-gray-900 dark:text-white">{income.source}</h4>
                     <div className="flex items-center space-x-4 mt-1">
                       <span className="text-sm text-gray-500 dark:text-gray-400">
-                        {formatCurrency(income.amount, currency)} {income.frequency}
+                        {formatCurrency(income.amount, currency)} {income.recurrence ? describeRecurrence(income.recurrence) : income.frequency}
                       </span>
                       <span className="text-sm font-medium text-green-600">
                         {formatCurrency(income.monthlyAmount, currency)}/month
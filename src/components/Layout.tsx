@@ -26,7 +26,15 @@ import {
   Repeat,
   Lightbulb,
   Sparkles,
-  Tag
+  Tag,
+  PiggyBank,
+  Scale,
+  Upload,
+  Smartphone,
+  Coins,
+  Filter,
+  Trophy,
+  Activity
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 
@@ -68,6 +76,8 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewChange })
         { id: 'trends', label: 'Trends', icon: BarChart3 },
         { id: 'accounts', label: 'Accounts', icon: Building2 },
         { id: 'transfers', label: 'Transfers', icon: ArrowLeftRight },
+        { id: 'exchange-rates', label: 'Exchange Rates', icon: Coins },
+        { id: 'reconciliation', label: 'Reconciliation', icon: Scale },
       ]
     },
     {
@@ -76,11 +86,15 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewChange })
       items: [
         { id: 'daily', label: 'Daily Tracker', icon: Calendar },
         { id: 'recurring-transactions', label: 'Recurring', icon: Repeat },
+        { id: 'transaction-rules', label: 'Rules', icon: Filter },
+        { id: 'spending-categories', label: 'Categories', icon: Tag },
         { id: 'cash-flow-calendar', label: 'Cash Flow Calendar', icon: Calendar },
         { id: 'business', label: 'Business', icon: Briefcase },
         { id: 'income', label: 'Income', icon: TrendingUp },
         { id: 'expenses', label: 'Expenses', icon: TrendingDown },
         { id: 'expected-payments', label: 'Expected Payments', icon: Clock },
+        { id: 'import', label: 'Import', icon: Upload },
+        { id: 'mpesa', label: 'M-Pesa', icon: Smartphone },
       ]
     },
     {
@@ -90,6 +104,7 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewChange })
         { id: 'spending-patterns', label: 'Spending Patterns', icon: BarChart3 },
         { id: 'budget-optimization', label: 'Budget Optimization', icon: Sparkles },
         { id: 'ai-categorization', label: 'AI Categorization', icon: Tag },
+        { id: 'health-history', label: 'Health Score', icon: Activity },
       ]
     },
     {
@@ -107,10 +122,12 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewChange })
       label: 'Planning',
       items: [
         { id: 'goals', label: 'Goals', icon: Target },
+        { id: 'budgets', label: 'Budgets', icon: PiggyBank },
         { id: 'goal-forecasting', label: 'Goal Forecasting', icon: TrendingUp },
         { id: 'allocation', label: 'Auto Allocation', icon: Zap },
         { id: 'recommendations', label: 'AI Insights', icon: Brain },
         { id: 'health-improvement', label: 'Health Improvement', icon: Zap },
+        { id: 'achievements', label: 'Achievements', icon: Trophy },
       ]
     }
   ];
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { TrendingDown, AlertCircle } from 'lucide-react';
+import { Loan, Currency } from '../types';
+import { formatDate } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { compareExtraPayments } from '../utils/amortization';
+
+interface LoanAmortizationProps {
+  loan: Loan;
+  currency: Currency;
+}
+
+const PREVIEW_ROWS = 12;
+
+const LoanAmortization: React.FC<LoanAmortizationProps> = ({ loan, currency }) => {
+  const [showAllRows, setShowAllRows] = useState(false);
+  const [whatIf, setWhatIf] = useState({
+    oneOffAmount: '',
+    oneOffPeriod: '1',
+    recurringAmount: ''
+  });
+
+  const { baseline, withExtra, monthsSaved, interestSaved } = compareExtraPayments(loan, {
+    oneOffAmount: parseFloat(whatIf.oneOffAmount) || 0,
+    oneOffPeriod: parseInt(whatIf.oneOffPeriod) || 1,
+    recurringAmount: parseFloat(whatIf.recurringAmount) || 0
+  });
+  const hasExtraPayments = withExtra.rows.some(row => row.extraPayment > 0);
+  const schedule = hasExtraPayments ? withExtra : baseline;
+  const visibleRows = showAllRows ? schedule.rows : schedule.rows.slice(0, PREVIEW_ROWS);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h4 className="font-semibold text-gray-900">Amortization Schedule</h4>
+        <span className="text-sm text-gray-500">
+          {loan.interestMethod === 'flat' ? 'Flat rate' : 'Reducing balance'} • {formatCurrency(baseline.scheduledPayment, currency)} per month
+        </span>
+      </div>
+
+      {!baseline.isPaidOff && (
+        <div className="flex items-center p-3 bg-red-50 rounded-lg border border-red-200 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          The monthly payment does not cover the interest, so this loan is never repaid without extra payments.
+        </div>
+      )}
+
+      {/* What-if Panel */}
+      <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
+        <div className="flex items-center mb-3">
+          <TrendingDown className="h-4 w-4 text-blue-600 mr-2" />
+          <span className="text-sm font-medium text-blue-900">What if I pay extra?</span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor={`oneOff-${loan.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+              One-off Payment
+            </label>
+            <input
+              type="number"
+              id={`oneOff-${loan.id}`}
+              value={whatIf.oneOffAmount}
+              onChange={(e) => setWhatIf({ ...whatIf, oneOffAmount: e.target.value })}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor={`oneOffPeriod-${loan.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+              Paid With Payment #
+            </label>
+            <input
+              type="number"
+              id={`oneOffPeriod-${loan.id}`}
+              value={whatIf.oneOffPeriod}
+              onChange={(e) => setWhatIf({ ...whatIf, oneOffPeriod: e.target.value })}
+              min="1"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor={`recurring-${loan.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+              Extra Every Month
+            </label>
+            <input
+              type="number"
+              id={`recurring-${loan.id}`}
+              value={whatIf.recurringAmount}
+              onChange={(e) => setWhatIf({ ...whatIf, recurringAmount: e.target.value })}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+          <div>
+            <p className="text-gray-500">Payoff Date</p>
+            <p className="font-semibold text-gray-900">
+              {withExtra.payoffDate ? formatDate(withExtra.payoffDate) : 'Never'}
+            </p>
+            {hasExtraPayments && baseline.payoffDate && (
+              <p className="text-xs text-gray-500">was {formatDate(baseline.payoffDate)}</p>
+            )}
+          </div>
+          <div>
+            <p className="text-gray-500">Total Interest</p>
+            <p className="font-semibold text-orange-600">{formatCurrency(withExtra.totalInterest, currency)}</p>
+            {hasExtraPayments && (
+              <p className="text-xs text-gray-500">was {formatCurrency(baseline.totalInterest, currency)}</p>
+            )}
+          </div>
+          <div>
+            <p className="text-gray-500">Months Saved</p>
+            <p className="font-semibold text-green-600">{monthsSaved}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Interest Saved</p>
+            <p className="font-semibold text-green-600">{formatCurrency(interestSaved, currency)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Schedule Table */}
+      {schedule.rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Payment</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Interest</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Principal</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleRows.map(row => (
+                <tr key={row.period}>
+                  <td className="px-3 py-2 text-gray-500">{row.period}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{formatDate(row.date)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right text-gray-900">
+                    {formatCurrency(row.payment, currency)}
+                    {row.extraPayment > 0 && (
+                      <span className="block text-xs text-green-600">+{formatCurrency(row.extraPayment, currency)} extra</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right text-orange-600">{formatCurrency(row.interest, currency)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right text-gray-900">{formatCurrency(row.principal, currency)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right font-medium text-gray-900">{formatCurrency(row.balance, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {schedule.rows.length > PREVIEW_ROWS && (
+            <button
+              onClick={() => setShowAllRows(!showAllRows)}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              {showAllRows ? 'Show fewer payments' : `Show all ${schedule.rows.length} payments`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoanAmortization;
@@ -1,25 +1,50 @@
 import React, { useState } from 'react';
-import { Plus, CreditCard, Trash2, AlertCircle, Calendar, Edit2 } from 'lucide-react';
-import { Loan, Currency } from '../types';
-import { formatCurrency, formatDate, calculateTotalDebt, calculateInterestPerMonth } from '../utils/calculations';
+import { Plus, CreditCard, Trash2, AlertCircle, Calendar, Edit2, Table, Banknote, History, Undo2 } from 'lucide-react';
+import { Loan, LoanPayment, Currency, ExchangeRate, BankAccount, Attachment, AttachmentParentType } from '../types';
+import { formatDate, calculateTotalDebt, calculateMinimumPayments, calculateInterestPerMonth } from '../utils/calculations';
+import { formatCurrency, defaultCurrencies, getCurrencyForCode } from '../utils/currency';
+import { getAttachmentsFor } from '../utils/attachments';
+import { getScheduledPayment, splitLoanPayment } from '../utils/amortization';
+import LoanAmortization from './LoanAmortization';
+import AttachmentList from './AttachmentList';
+import RecordPaymentForm from './RecordPaymentForm';
 
 interface LoanManagerProps {
   loans: Loan[];
+  loanPayments: LoanPayment[];
+  bankAccounts: BankAccount[];
   currency: Currency;
+  exchangeRates: ExchangeRate[];
   onAddLoan: (loan: Omit<Loan, 'id'>) => void;
   onUpdateLoan: (loanId: string, updates: Partial<Loan>) => void;
   onDeleteLoan: (loanId: string) => void;
+  onRecordPayment: (loanId: string, payment: { amount: number; paidDate: string; bankAccountId?: string }) => void;
+  onUndoPayment: (paymentId: string) => void;
+  attachments: Attachment[];
+  onAddAttachment: (parentType: AttachmentParentType, parentId: string, file: File) => Promise<string | undefined>;
+  onDeleteAttachment: (attachmentId: string) => void;
 }
 
 const LoanManager: React.FC<LoanManagerProps> = ({ 
   loans, 
+  loanPayments,
+  bankAccounts,
   currency,
+  exchangeRates,
   onAddLoan, 
   onUpdateLoan,
-  onDeleteLoan 
+  onDeleteLoan,
+  onRecordPayment,
+  onUndoPayment,
+  attachments,
+  onAddAttachment,
+  onDeleteAttachment
 }) => {
   const [showForm, setShowForm] = useState(false);
   const [editingLoan, setEditingLoan] = useState<string | null>(null);
+  const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
+  const [payingLoanId, setPayingLoanId] = useState<string | null>(null);
+  const [historyLoanId, setHistoryLoanId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     principal: '',
@@ -31,11 +56,31 @@ const LoanManager: React.FC<LoanManagerProps> = ({
     loanPeriodMonths: '12',
     penaltyRate: '',
     otherCharges: '',
-    lender: ''
+    lender: '',
+    currency: '',
+    interestMethod: 'reducing' as 'reducing' | 'flat',
+    bankAccountId: ''
   });
 
-  const totalDebt = calculateTotalDebt(loans);
-  const totalMinimumPayments = loans.reduce((sum, loan) => sum + loan.minimumPayment, 0);
+  // Totals are shown in the base currency
+  const conversion = { baseCurrency: currency.code, rates: exchangeRates };
+  const totalDebt = calculateTotalDebt(loans, [], conversion);
+  const totalMinimumPayments = calculateMinimumPayments(loans, [], conversion);
+  const activeAccounts = bankAccounts.filter(account => account.isActive);
+  const currencyCodes = Array.from(new Set([
+    currency.code,
+    ...defaultCurrencies.map(c => c.code),
+    ...loans.map(loan => loan.currency).filter((code): code is string => !!code)
+  ]));
+
+  const getBankAccountName = (bankAccountId: string) =>
+    bankAccounts.find(account => account.id === bankAccountId)?.name || 'Unknown Account';
+
+  const handleUndoPayment = (payment: LoanPayment, loanCurrency: Currency) => {
+    if (window.confirm(`Undo the payment of ${formatCurrency(payment.amount, loanCurrency)}? Its principal goes back on the loan.`)) {
+      onUndoPayment(payment.id);
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,7 +96,10 @@ const LoanManager: React.FC<LoanManagerProps> = ({
         loanPeriodMonths: parseInt(formData.loanPeriodMonths) || 12,
         penaltyRate: formData.penaltyRate ? parseFloat(formData.penaltyRate) : undefined,
         otherCharges: formData.otherCharges ? parseFloat(formData.otherCharges) : undefined,
-        lender: formData.lender
+        lender: formData.lender,
+        currency: formData.currency || currency.code,
+        interestMethod: formData.interestMethod,
+        bankAccountId: formData.bankAccountId || undefined
       };
 
       if (editingLoan) {
@@ -72,7 +120,10 @@ const LoanManager: React.FC<LoanManagerProps> = ({
         loanPeriodMonths: '12',
         penaltyRate: '',
         otherCharges: '',
-        lender: ''
+        lender: '',
+        currency: '',
+        interestMethod: 'reducing',
+        bankAccountId: ''
       });
       setShowForm(false);
     }
@@ -90,7 +141,10 @@ const LoanManager: React.FC<LoanManagerProps> = ({
       loanPeriodMonths: loan.loanPeriodMonths.toString(),
       penaltyRate: loan.penaltyRate?.toString() || '',
       otherCharges: loan.otherCharges?.toString() || '',
-      lender: loan.lender
+      lender: loan.lender,
+      currency: loan.currency || '',
+      interestMethod: loan.interestMethod || 'reducing',
+      bankAccountId: loan.bankAccountId || ''
     });
     setEditingLoan(loan.id);
     setShowForm(true);
@@ -128,7 +182,10 @@ const LoanManager: React.FC<LoanManagerProps> = ({
               loanPeriodMonths: '12',
               penaltyRate: '',
               otherCharges: '',
-              lender: ''
+              lender: '',
+              currency: '',
+              interestMethod: 'reducing',
+              bankAccountId: ''
             });
           }}
           className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
@@ -167,7 +224,7 @@ const LoanManager: React.FC<LoanManagerProps> = ({
             {editingLoan ? 'Edit Loan' : 'Add New Loan'}
           </h3>
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
                   Loan Name *
@@ -195,6 +252,39 @@ const LoanManager: React.FC<LoanManagerProps> = ({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
+              <div>
+                <label htmlFor="loanCurrency" className="block text-sm font-medium text-gray-700 mb-1">
+                  Currency
+                </label>
+                <select
+                  id="loanCurrency"
+                  value={formData.currency || currency.code}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {currencyCodes.map(code => (
+                    <option key={code} value={code}>
+                      {code === currency.code ? `${code} (base currency)` : code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="loanBankAccountId" className="block text-sm font-medium text-gray-700 mb-1">
+                  Pay From
+                </label>
+                <select
+                  id="loanBankAccountId"
+                  value={formData.bankAccountId}
+                  onChange={(e) => setFormData({ ...formData, bankAccountId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Main account</option>
+                  {activeAccounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -288,7 +378,21 @@ const LoanManager: React.FC<LoanManagerProps> = ({
                 />
               </div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="interestMethod" className="block text-sm font-medium text-gray-700 mb-1">
+                  Interest Method
+                </label>
+                <select
+                  id="interestMethod"
+                  value={formData.interestMethod}
+                  onChange={(e) => setFormData({ ...formData, interestMethod: e.target.value as 'reducing' | 'flat' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="reducing">Reducing balance</option>
+                  <option value="flat">Flat rate</option>
+                </select>
+              </div>
               <div>
                 <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700 mb-1">
                   Next Due Date
@@ -364,7 +468,9 @@ const LoanManager: React.FC<LoanManagerProps> = ({
         ) : (
           loans.map((loan) => {
             const monthlyInterest = calculateInterestPerMonth(loan);
+            const loanCurrency = getCurrencyForCode(loan.currency, currency);
             const urgencyColor = getUrgencyColor(loan.dueDate);
+            const payments = loanPayments.filter(payment => payment.loanId === loan.id);
             
             return (
               <div key={loan.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -381,6 +487,28 @@ const LoanManager: React.FC<LoanManagerProps> = ({
                         Due {formatDate(loan.dueDate)}
                       </span>
                     )}
+                    <button
+                      onClick={() => setPayingLoanId(payingLoanId === loan.id ? null : loan.id)}
+                      disabled={loan.currentBalance <= 0}
+                      className={`p-2 transition-colors duration-200 disabled:opacity-50 ${payingLoanId === loan.id ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}`}
+                      title="Record payment"
+                    >
+                      <Banknote className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setHistoryLoanId(historyLoanId === loan.id ? null : loan.id)}
+                      className={`p-2 transition-colors duration-200 ${historyLoanId === loan.id ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                      title="Payment history"
+                    >
+                      <History className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setScheduleLoanId(scheduleLoanId === loan.id ? null : loan.id)}
+                      className={`p-2 transition-colors duration-200 ${scheduleLoanId === loan.id ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                      title="Amortization schedule"
+                    >
+                      <Table className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={() => startEdit(loan)}
                       className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
@@ -399,19 +527,21 @@ const LoanManager: React.FC<LoanManagerProps> = ({
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                   <div>
                     <p className="text-sm text-gray-500">Current Balance</p>
-                    <p className="text-lg font-bold text-red-600">{formatCurrency(loan.currentBalance, currency)}</p>
+                    <p className="text-lg font-bold text-red-600">{formatCurrency(loan.currentBalance, loanCurrency)}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-500">Monthly Interest Rate</p>
-                    <p className="text-lg font-semibold text-gray-900">{loan.interestRate}%</p>
+                    <p className="text-lg font-semibold text-gray-900">
+                      {loan.interestRate}%{loan.interestMethod === 'flat' && <span className="text-sm font-normal text-gray-500"> flat</span>}
+                    </p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-500">Minimum Payment</p>
-                    <p className="text-lg font-semibold text-gray-900">{formatCurrency(loan.minimumPayment, currency)}</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatCurrency(loan.minimumPayment, loanCurrency)}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-500">Monthly Interest</p>
-                    <p className="text-lg font-semibold text-orange-600">{formatCurrency(monthlyInterest, currency)}</p>
+                    <p className="text-lg font-semibold text-orange-600">{formatCurrency(monthlyInterest, loanCurrency)}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-500">Loan Period</p>
@@ -430,11 +560,81 @@ const LoanManager: React.FC<LoanManagerProps> = ({
                         <span>Penalty Rate: {loan.penaltyRate}% | </span>
                       )}
                       {loan.otherCharges && (
-                        <span>Other Charges: {formatCurrency(loan.otherCharges, currency)}/month</span>
+                        <span>Other Charges: {formatCurrency(loan.otherCharges, loanCurrency)}/month</span>
                       )}
                     </div>
                   </div>
                 )}
+
+                {payingLoanId === loan.id && loan.currentBalance > 0 && (
+                  <RecordPaymentForm
+                    idPrefix={`loan-${loan.id}`}
+                    bankAccounts={bankAccounts}
+                    initialAmount={Math.round(Math.min(getScheduledPayment(loan), loan.currentBalance + monthlyInterest) * 100) / 100}
+                    initialBankAccountId={loan.bankAccountId}
+                    submitLabel="Record Payment"
+                    onSubmit={(payment) => {
+                      onRecordPayment(loan.id, payment);
+                      setPayingLoanId(null);
+                    }}
+                    onCancel={() => setPayingLoanId(null)}
+                    getError={(amount, paidDate) =>
+                      splitLoanPayment(loan, amount, paidDate, loanPayments).principal > loan.currentBalance
+                        ? `That is more than the ${formatCurrency(loan.currentBalance, loanCurrency)} still owed plus interest.`
+                        : null
+                    }
+                    renderDetails={(amount, paidDate) => {
+                      const split = splitLoanPayment(loan, amount, paidDate, loanPayments);
+                      return (
+                        <p className="text-xs text-gray-600">
+                          {split.penalty > 0 && <span className="text-red-600">Late penalty {formatCurrency(split.penalty, loanCurrency)} · </span>}
+                          Interest {formatCurrency(split.interest, loanCurrency)} · Principal {formatCurrency(split.principal, loanCurrency)}
+                        </p>
+                      );
+                    }}
+                  />
+                )}
+
+                {historyLoanId === loan.id && (
+                  <div className="mt-4 border-t border-gray-100 pt-3">
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Payment History</h4>
+                    {payments.length === 0 ? (
+                      <p className="text-sm text-gray-500">No payments recorded yet.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {payments.map(payment => (
+                          <li key={payment.id} className="flex items-center justify-between text-sm text-gray-600">
+                            <span>
+                              {formatDate(payment.paidDate)}: {formatCurrency(payment.amount, loanCurrency)}
+                              {payment.bankAccountId && ` from ${getBankAccountName(payment.bankAccountId)}`}
+                              <span className="text-gray-400">
+                                {' '}(interest {formatCurrency(payment.interest, loanCurrency)}, principal {formatCurrency(payment.principal, loanCurrency)}
+                                {payment.penalty > 0 && `, penalty ${formatCurrency(payment.penalty, loanCurrency)}`})
+                              </span>
+                            </span>
+                            <button
+                              onClick={() => handleUndoPayment(payment, loanCurrency)}
+                              title="Undo payment"
+                              className="p-1 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                            >
+                              <Undo2 className="h-3.5 w-3.5" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <AttachmentList
+                  attachments={getAttachmentsFor(attachments, 'loan', loan.id)}
+                  onUpload={(file) => onAddAttachment('loan', loan.id, file)}
+                  onDelete={onDeleteAttachment}
+                />
+
+                {scheduleLoanId === loan.id && (
+                  <LoanAmortization loan={loan} currency={loanCurrency} />
+                )}
               </div>
             );
           })
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Smartphone, FileText, CheckCircle } from 'lucide-react';
+import { BankAccount, DailyEntry, Currency, CategorizerModel } from '../types';
+import { formatDate } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { MpesaTransaction, parseMpesaInput, isMpesaDuplicate, mpesaToDailyEntries } from '../utils/mpesa';
+
+interface MpesaImportProps {
+  bankAccounts: BankAccount[];
+  dailyEntries: DailyEntry[];
+  categorizerModel: CategorizerModel | null;
+  currency: Currency;
+  onImportDailyEntries: (entries: Omit<DailyEntry, 'id'>[]) => Promise<number | undefined>;
+}
+
+const MpesaImport: React.FC<MpesaImportProps> = ({
+  bankAccounts,
+  dailyEntries,
+  categorizerModel,
+  currency,
+  onImportDailyEntries
+}) => {
+  // M-Pesa wallets are tracked as cash or checking accounts
+  const walletAccounts = bankAccounts.filter(account =>
+    account.isActive && (account.type === 'cash' || account.type === 'checking')
+  );
+  const defaultAccount = walletAccounts.find(account => /m-?pesa/i.test(account.name));
+
+  const [input, setInput] = useState('');
+  const [bankAccountId, setBankAccountId] = useState(defaultAccount?.id || '');
+  const [transactions, setTransactions] = useState<MpesaTransaction[]>([]);
+  const [hasParsed, setHasParsed] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const newTransactions = transactions.filter(transaction => !isMpesaDuplicate(transaction, dailyEntries));
+  const entriesToImport = mpesaToDailyEntries(transactions, bankAccountId, dailyEntries, categorizerModel);
+
+  const handleParse = () => {
+    setTransactions(parseMpesaInput(input));
+    setHasParsed(true);
+    setImportedCount(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    setHasParsed(false);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    const count = await onImportDailyEntries(entriesToImport);
+    setImporting(false);
+    setImportedCount(count || 0);
+    setTransactions([]);
+    setInput('');
+    setHasParsed(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">M-Pesa Import</h2>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">Paste confirmation messages or load an M-Pesa statement</p>
+      </div>
+
+      {importedCount !== null && (
+        <div className="flex items-center p-4 rounded-lg bg-green-50 border border-green-200 text-green-800">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          Imported {importedCount} entries.
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700 space-y-4">
+        <div>
+          <label htmlFor="mpesaAccount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            M-Pesa Account *
+          </label>
+          <select
+            id="mpesaAccount"
+            value={bankAccountId}
+            onChange={(e) => setBankAccountId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">Select account</option>
+            {walletAccounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+          {walletAccounts.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Add a cash or checking account for your M-Pesa wallet first.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="mpesaInput" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Messages or Statement
+          </label>
+          <textarea
+            id="mpesaInput"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setHasParsed(false);
+            }}
+            rows={8}
+            placeholder="QGH7XK2L1P Confirmed. You have received Ksh1,500.00 from ..."
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            For a PDF statement, open it and copy the transaction table text into the box above.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <label className="inline-flex items-center px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors duration-200 cursor-pointer">
+            <FileText className="h-4 w-4 mr-2" />
+            Load CSV Statement
+            <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFileChange} className="hidden" />
+          </label>
+          <button
+            onClick={handleParse}
+            disabled={!input.trim()}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Smartphone className="h-4 w-4 mr-2" />
+            Read Transactions
+          </button>
+        </div>
+      </div>
+
+      {hasParsed && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Transactions Found</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {transactions.length} found • {newTransactions.length} new • {transactions.length - newTransactions.length} already imported
+            </p>
+          </div>
+          {transactions.length === 0 ? (
+            <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+              No M-Pesa transactions could be read from the text.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Code</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Counterparty</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Amount</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Fee</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Balance</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                  {transactions.map(transaction => {
+                    const isDuplicate = isMpesaDuplicate(transaction, dailyEntries);
+
+                    return (
+                      <tr key={transaction.code} className={isDuplicate ? 'opacity-50' : ''}>
+                        <td className="px-3 py-2 font-mono text-gray-900 dark:text-white">{transaction.code}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                          {formatDate(transaction.date)} {transaction.time}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                          {transaction.counterparty}
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{transaction.type}</span>
+                        </td>
+                        <td className={`px-3 py-2 whitespace-nowrap text-right font-medium ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(transaction.amount, currency)}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">
+                          {transaction.fee > 0 ? formatCurrency(transaction.fee, currency) : '—'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">
+                          {transaction.balance !== undefined ? formatCurrency(transaction.balance, currency) : '—'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {isDuplicate ? (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Imported</span>
+                          ) : (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">New</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="p-6 border-t border-gray-200 dark:border-gray-600">
+            <button
+              onClick={handleImport}
+              disabled={importing || !bankAccountId || entriesToImport.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {importing ? 'Importing...' : `Import ${entriesToImport.length} Entries`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MpesaImport;
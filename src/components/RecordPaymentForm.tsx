@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { BankAccount } from '../types';
+
+export interface PaymentFormValues {
+  amount: number;
+  paidDate: string;
+  bankAccountId?: string;
+}
+
+interface RecordPaymentFormProps {
+  idPrefix: string;
+  bankAccounts: BankAccount[];
+  initialAmount: number;
+  initialBankAccountId?: string;
+  submitLabel?: string;
+  onSubmit: (payment: PaymentFormValues) => void;
+  onCancel: () => void;
+  // Why the payment can't be recorded, or null when it can
+  getError?: (amount: number, paidDate: string) => string | null;
+  // Shown under the fields, e.g. how the payment will be applied
+  renderDetails?: (amount: number, paidDate: string) => React.ReactNode;
+}
+
+const RecordPaymentForm: React.FC<RecordPaymentFormProps> = ({
+  idPrefix,
+  bankAccounts,
+  initialAmount,
+  initialBankAccountId,
+  submitLabel = 'Mark Paid',
+  onSubmit,
+  onCancel,
+  getError,
+  renderDetails
+}) => {
+  const [formData, setFormData] = useState({
+    amount: initialAmount > 0 ? initialAmount.toString() : '',
+    paidDate: new Date().toISOString().split('T')[0],
+    bankAccountId: initialBankAccountId || ''
+  });
+
+  const activeAccounts = bankAccounts.filter(account => account.isActive || account.id === initialBankAccountId);
+  const amount = parseFloat(formData.amount) || 0;
+  const error = amount > 0 && getError ? getError(amount, formData.paidDate) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amount > 0 && formData.paidDate && !error) {
+      onSubmit({
+        amount,
+        paidDate: formData.paidDate,
+        bankAccountId: formData.bankAccountId || undefined
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 bg-gray-50 rounded-md space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label htmlFor={`${idPrefix}-amount`} className="block text-xs font-medium text-gray-700 mb-1">
+            Amount Paid
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-amount`}
+            step="0.01"
+            min="0.01"
+            value={formData.amount}
+            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-paidDate`} className="block text-xs font-medium text-gray-700 mb-1">
+            Paid On
+          </label>
+          <input
+            type="date"
+            id={`${idPrefix}-paidDate`}
+            value={formData.paidDate}
+            onChange={(e) => setFormData({ ...formData, paidDate: e.target.value })}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-bankAccountId`} className="block text-xs font-medium text-gray-700 mb-1">
+            Paid From
+          </label>
+          <select
+            id={`${idPrefix}-bankAccountId`}
+            value={formData.bankAccountId}
+            onChange={(e) => setFormData({ ...formData, bankAccountId: e.target.value })}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Not specified</option>
+            {activeAccounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            disabled={!!error}
+            className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors duration-200"
+          >
+            {submitLabel}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-sm bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+      {amount > 0 && renderDetails?.(amount, formData.paidDate)}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!formData.bankAccountId && (
+        <p className="text-xs text-gray-500">Without an account the payment is recorded but no balance changes.</p>
+      )}
+    </form>
+  );
+};
+
+export default RecordPaymentForm;
@@ -0,0 +1,297 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { Recurrence } from '../types';
+import { formatDate } from '../utils/calculations';
+import { describeRecurrence, getOccurrences } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  idPrefix: string;
+  recurrence: Recurrence;
+  onChange: (recurrence: Recurrence) => void;
+  // Hide the start date when the form already has one (a bill's due date)
+  showStartDate?: boolean;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const ORDINALS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' }
+];
+
+const MONTH_DAYS = [
+  ...Array.from({ length: 31 }, (_, i) => ({ value: i + 1, label: `${i + 1}` })),
+  { value: -1, label: 'Last day' },
+  { value: -2, label: 'Second-last day' }
+];
+
+const PREVIEW_DAYS = 400;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ idPrefix, recurrence, onChange, showStartDate = true }) => {
+  const monthlyPattern = recurrence.byWeekday?.length ? 'weekday' : 'day';
+  const weekdayRule = recurrence.byWeekday?.[0] || { weekday: 5, ordinal: -1 };
+  const endType = recurrence.count ? 'count' : recurrence.until ? 'until' : 'never';
+
+  const today = new Date().toISOString().split('T')[0];
+  const previewEnd = new Date(Date.now() + PREVIEW_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const preview = recurrence.startDate ? getOccurrences(recurrence, today, previewEnd).slice(0, 3) : [];
+
+  const update = (changes: Partial<Recurrence>) => onChange({ ...recurrence, ...changes });
+
+  const changeFrequency = (frequency: Recurrence['frequency']) => {
+    onChange({
+      frequency,
+      interval: recurrence.interval,
+      startDate: recurrence.startDate,
+      roll: recurrence.roll,
+      count: recurrence.count,
+      until: recurrence.until
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const selected = recurrence.byWeekday || [];
+    const byWeekday = selected.some(day => day.weekday === weekday)
+      ? selected.filter(day => day.weekday !== weekday)
+      : [...selected, { weekday }];
+    update({ byWeekday: byWeekday.length ? byWeekday : undefined });
+  };
+
+  const changeEnd = (type: string) => {
+    update({
+      count: type === 'count' ? recurrence.count || 12 : undefined,
+      until: type === 'until' ? recurrence.until || recurrence.startDate : undefined
+    });
+  };
+
+  const unitLabel = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' }[recurrence.frequency];
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-frequency`} className={labelClass}>Repeats</label>
+          <select
+            id={`${idPrefix}-frequency`}
+            value={recurrence.frequency}
+            onChange={(e) => changeFrequency(e.target.value as Recurrence['frequency'])}
+            className={inputClass}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+            <option value="yearly">Yearly</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-interval`} className={labelClass}>Every {unitLabel}</label>
+          <input
+            type="number"
+            id={`${idPrefix}-interval`}
+            value={recurrence.interval}
+            onChange={(e) => update({ interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+            min="1"
+            className={inputClass}
+          />
+        </div>
+        {showStartDate && (
+          <div>
+            <label htmlFor={`${idPrefix}-start`} className={labelClass}>Starts</label>
+            <input
+              type="date"
+              id={`${idPrefix}-start`}
+              value={recurrence.startDate}
+              onChange={(e) => update({ startDate: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      {recurrence.frequency === 'weekly' && (
+        <div>
+          <span className={labelClass}>On</span>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map(day => {
+              const selected = recurrence.byWeekday?.some(d => d.weekday === day.value);
+              return (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleWeekday(day.value)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors duration-200 ${
+                    selected
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {day.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {(recurrence.frequency === 'monthly' || recurrence.frequency === 'yearly') && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {recurrence.frequency === 'yearly' && (
+            <div>
+              <label htmlFor={`${idPrefix}-month`} className={labelClass}>In</label>
+              <select
+                id={`${idPrefix}-month`}
+                value={recurrence.byMonth?.[0] || new Date(recurrence.startDate || Date.now()).getUTCMonth() + 1}
+                onChange={(e) => update({ byMonth: [parseInt(e.target.value)] })}
+                className={inputClass}
+              >
+                {MONTHS.map((month, index) => (
+                  <option key={month} value={index + 1}>{month}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor={`${idPrefix}-pattern`} className={labelClass}>On</label>
+            <select
+              id={`${idPrefix}-pattern`}
+              value={monthlyPattern}
+              onChange={(e) => e.target.value === 'weekday'
+                ? update({ byMonthDay: undefined, byWeekday: [weekdayRule] })
+                : update({ byWeekday: undefined, byMonthDay: [new Date(recurrence.startDate || Date.now()).getUTCDate()] })
+              }
+              className={inputClass}
+            >
+              <option value="day">Day of the month</option>
+              <option value="weekday">Weekday of the month</option>
+            </select>
+          </div>
+          {monthlyPattern === 'day' ? (
+            <div>
+              <label htmlFor={`${idPrefix}-monthDay`} className={labelClass}>Day</label>
+              <select
+                id={`${idPrefix}-monthDay`}
+                value={recurrence.byMonthDay?.[0] || new Date(recurrence.startDate || Date.now()).getUTCDate()}
+                onChange={(e) => update({ byMonthDay: [parseInt(e.target.value)] })}
+                className={inputClass}
+              >
+                {MONTH_DAYS.map(day => (
+                  <option key={day.value} value={day.value}>{day.label}</option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor={`${idPrefix}-ordinal`} className={labelClass}>Which</label>
+                <select
+                  id={`${idPrefix}-ordinal`}
+                  value={weekdayRule.ordinal || 1}
+                  onChange={(e) => update({ byWeekday: [{ ...weekdayRule, ordinal: parseInt(e.target.value) }] })}
+                  className={inputClass}
+                >
+                  {ORDINALS.map(ordinal => (
+                    <option key={ordinal.value} value={ordinal.value}>{ordinal.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor={`${idPrefix}-weekday`} className={labelClass}>Weekday</label>
+                <select
+                  id={`${idPrefix}-weekday`}
+                  value={weekdayRule.weekday}
+                  onChange={(e) => update({ byWeekday: [{ ...weekdayRule, weekday: parseInt(e.target.value) }] })}
+                  className={inputClass}
+                >
+                  {WEEKDAYS.map(day => (
+                    <option key={day.value} value={day.value}>{day.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-roll`} className={labelClass}>On weekends and holidays</label>
+          <select
+            id={`${idPrefix}-roll`}
+            value={recurrence.roll || 'none'}
+            onChange={(e) => update({ roll: e.target.value as Recurrence['roll'] })}
+            className={inputClass}
+          >
+            <option value="none">Keep the date</option>
+            <option value="previous">Move to previous working day</option>
+            <option value="next">Move to next working day</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-end`} className={labelClass}>Ends</label>
+          <select
+            id={`${idPrefix}-end`}
+            value={endType}
+            onChange={(e) => changeEnd(e.target.value)}
+            className={inputClass}
+          >
+            <option value="never">Never</option>
+            <option value="count">After a number of times</option>
+            <option value="until">On a date</option>
+          </select>
+        </div>
+        {endType === 'count' && (
+          <div>
+            <label htmlFor={`${idPrefix}-count`} className={labelClass}>Occurrences</label>
+            <input
+              type="number"
+              id={`${idPrefix}-count`}
+              value={recurrence.count}
+              onChange={(e) => update({ count: Math.max(parseInt(e.target.value) || 1, 1) })}
+              min="1"
+              className={inputClass}
+            />
+          </div>
+        )}
+        {endType === 'until' && (
+          <div>
+            <label htmlFor={`${idPrefix}-until`} className={labelClass}>Last date</label>
+            <input
+              type="date"
+              id={`${idPrefix}-until`}
+              value={recurrence.until}
+              onChange={(e) => update({ until: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-start text-sm text-gray-600 dark:text-gray-300">
+        <Repeat className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-blue-600" />
+        <span>
+          {describeRecurrence(recurrence)}
+          {preview.length > 0 && <> • next {preview.map(formatDate).join(', ')}</>}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Repeat, Calendar, TrendingUp, TrendingDown, FileText, Edit2, Trash2, CheckCircle, AlertTriangle } from 'lucide-react';
-import { RecurringTransaction, Currency, BankAccount } from '../types';
-import { formatCurrency } from '../utils/advancedCalculations';
+import { RecurringTransaction, Currency, BankAccount, Recurrence, SpendingCategory } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { calculateMonthlyAmount } from '../utils/calculations';
+import { addDays, createDefaultRecurrence, describeRecurrence, getNextOccurrence, recurrenceToFrequency } from '../utils/recurrence';
+import { getCategoryPath } from '../utils/spendingCategories';
+import RecurrenceEditor from './RecurrenceEditor';
+import CategoryPicker from './CategoryPicker';
 
 interface RecurringTransactionsProps {
   recurringTransactions: RecurringTransaction[];
   bankAccounts: BankAccount[];
+  spendingCategories: SpendingCategory[];
   currency: Currency;
   onAddRecurringTransaction: (transaction: Omit<RecurringTransaction, 'id' | 'lastGenerated'>) => void;
   onUpdateRecurringTransaction: (id: string, updates: Partial<RecurringTransaction>) => void;
@@ -16,6 +22,7 @@ interface RecurringTransactionsProps {
 const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
   recurringTransactions,
   bankAccounts,
+  spendingCategories,
   currency,
   onAddRecurringTransaction,
   onUpdateRecurringTransaction,
@@ -25,15 +32,17 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
   const [showForm, setShowForm] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<string | null>(null);
   const [formData, setFormData] = useState({
-    type: 'income' as const,
+    type: 'income' as RecurringTransaction['type'],
     name: '',
     amount: '',
-    frequency: 'monthly' as const,
+    frequency: 'monthly' as RecurringTransaction['frequency'],
     nextOccurrence: new Date().toISOString().split('T')[0],
     bankAccountId: '',
     category: '',
+    categoryId: '',
     isActive: true,
-    autoGenerate: true
+    autoGenerate: true,
+    recurrence: undefined as Recurrence | undefined
   });
 
   const activeAccounts = bankAccounts.filter(account => account.isActive);
@@ -45,12 +54,18 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
         type: formData.type,
         name: formData.name,
         amount: parseFloat(formData.amount),
-        frequency: formData.frequency,
-        nextOccurrence: formData.nextOccurrence,
+        frequency: formData.recurrence ? recurrenceToFrequency(formData.recurrence) : formData.frequency,
+        // A custom schedule resumes at its first occurrence on or after the chosen date
+        nextOccurrence: formData.recurrence
+          ? getNextOccurrence(formData.recurrence, addDays(formData.nextOccurrence, -1)) || formData.nextOccurrence
+          : formData.nextOccurrence,
         bankAccountId: formData.bankAccountId,
         category: formData.category || undefined,
+        // Only expense rules generate entries that are filed under a spending category
+        categoryId: formData.type === 'expense' ? formData.categoryId || undefined : undefined,
         isActive: formData.isActive,
-        autoGenerate: formData.autoGenerate
+        autoGenerate: formData.autoGenerate,
+        recurrence: formData.recurrence
       };
 
       if (editingTransaction) {
@@ -68,8 +83,10 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
         nextOccurrence: new Date().toISOString().split('T')[0],
         bankAccountId: '',
         category: '',
+        categoryId: '',
         isActive: true,
-        autoGenerate: true
+        autoGenerate: true,
+        recurrence: undefined
       });
       setShowForm(false);
     }
@@ -84,8 +101,10 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
       nextOccurrence: transaction.nextOccurrence,
       bankAccountId: transaction.bankAccountId,
       category: transaction.category || '',
+      categoryId: transaction.categoryId || '',
       isActive: transaction.isActive,
-      autoGenerate: transaction.autoGenerate
+      autoGenerate: transaction.autoGenerate,
+      recurrence: transaction.recurrence
     });
     setEditingTransaction(transaction.id);
     setShowForm(true);
@@ -134,26 +153,12 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
   // Calculate totals
   const monthlyIncome = incomeTransactions.reduce((sum, t) => {
     if (!t.isActive) return sum;
-    
-    switch (t.frequency) {
-      case 'weekly': return sum + (t.amount * 4.33);
-      case 'biweekly': return sum + (t.amount * 2.17);
-      case 'monthly': return sum + t.amount;
-      case 'yearly': return sum + (t.amount / 12);
-      default: return sum;
-    }
+    return sum + calculateMonthlyAmount(t.amount, t.frequency, t.recurrence);
   }, 0);
 
   const monthlyExpenses = [...expenseTransactions, ...billTransactions].reduce((sum, t) => {
     if (!t.isActive) return sum;
-    
-    switch (t.frequency) {
-      case 'weekly': return sum + (t.amount * 4.33);
-      case 'biweekly': return sum + (t.amount * 2.17);
-      case 'monthly': return sum + t.amount;
-      case 'yearly': return sum + (t.amount / 12);
-      default: return sum;
-    }
+    return sum + calculateMonthlyAmount(t.amount, t.frequency, t.recurrence);
   }, 0);
 
   // Check for upcoming transactions
@@ -312,13 +317,17 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
                 </label>
                 <select
                   id="frequency"
-                  value={formData.frequency}
-                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as any })}
+                  value={formData.recurrence ? 'custom' : formData.frequency}
+                  onChange={(e) => e.target.value === 'custom'
+                    ? setFormData({ ...formData, recurrence: createDefaultRecurrence(formData.nextOccurrence) })
+                    : setFormData({ ...formData, frequency: e.target.value as any, recurrence: undefined })
+                  }
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 >
                   {frequencies.map(freq => (
                     <option key={freq.value} value={freq.value}>{freq.label}</option>
                   ))}
+                  <option value="custom">Custom schedule</option>
                 </select>
               </div>
               <div>
@@ -365,6 +374,8 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
                     id="category"
                     value={formData.category}
                     onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                    disabled={formData.type === 'expense' && !!formData.categoryId}
+                    title={formData.type === 'expense' && formData.categoryId ? 'Set by the spending category' : undefined}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
                     <option value="">Select Category</option>
@@ -374,8 +385,33 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
                   </select>
                 </div>
               )}
+              {formData.type === 'expense' && (
+                <div>
+                  <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Spending Category
+                  </label>
+                  <CategoryPicker
+                    id="categoryId"
+                    categories={spendingCategories}
+                    value={formData.categoryId}
+                    onChange={(category) => setFormData({
+                      ...formData,
+                      categoryId: category?.id || '',
+                      category: category?.type || formData.category
+                    })}
+                  />
+                </div>
+              )}
             </div>
 
+            {formData.recurrence && (
+              <RecurrenceEditor
+                idPrefix="recurring"
+                recurrence={formData.recurrence}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+              />
+            )}
+
             <div className="flex items-center space-x-4">
               <div className="flex items-center">
                 <input
@@ -461,7 +497,7 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
                           {formatCurrency(transaction.amount, currency)}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
-                          {transaction.frequency}
+                          {transaction.recurrence ? describeRecurrence(transaction.recurrence) : transaction.frequency}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
                           Next: {new Date(transaction.nextOccurrence).toLocaleDateString()}
@@ -531,7 +567,7 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
                           {formatCurrency(transaction.amount, currency)}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
-                          {transaction.frequency}
+                          {transaction.recurrence ? describeRecurrence(transaction.recurrence) : transaction.frequency}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
                           Next: {new Date(transaction.nextOccurrence).toLocaleDateString()}
@@ -540,6 +576,7 @@ const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({
                       <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                         {getBankAccountIcon(transaction.bankAccountId)} From: {getBankAccountName(transaction.bankAccountId)}
                         {transaction.category && ` • Category: ${transaction.category}`}
+                        {getCategoryPath(spendingCategories, transaction.categoryId) && ` • ${getCategoryPath(spendingCategories, transaction.categoryId)}`}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -1,22 +1,47 @@
 import React, { useState } from 'react';
-import { Settings as SettingsIcon, Moon, Sun, DollarSign, Plus, Trash2, Save, CheckCircle, RotateCcw } from 'lucide-react';
-import { UserPreferences, Currency, NotificationState } from '../types';
-import { defaultCurrencies } from '../utils/calculations';
+import { Settings as SettingsIcon, Moon, Sun, DollarSign, Plus, Trash2, Save, CheckCircle, RotateCcw, Download, Upload, FileText } from 'lucide-react';
+import { UserPreferences, Currency, NotificationState, DataExport } from '../types';
+import { defaultCurrencies, formatCurrency } from '../utils/currency';
+import { EXPORT_TABLES, EXPORT_TABLE_LABELS, ExportTable, parseDataExport, rowsToCsv } from '../utils/dataExport';
 import { useTheme } from '../contexts/ThemeContext';
 import { useFinancialData } from '../hooks/useFinancialData';
 
 interface SettingsProps {
   preferences: UserPreferences;
+  hasData: boolean;
   onUpdatePreferences: (preferences: UserPreferences) => void;
+  onExportData: () => Promise<DataExport | null>;
+  onImportData: (archive: DataExport) => Promise<number | undefined>;
 }
 
-const Settings: React.FC<SettingsProps> = ({ preferences, onUpdatePreferences }) => {
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const Settings: React.FC<SettingsProps> = ({ preferences, hasData, onUpdatePreferences, onExportData, onImportData }) => {
   const { theme, toggleTheme } = useTheme();
   const { resetAllData } = useFinancialData();
   const [formData, setFormData] = useState(preferences);
-  const [customCurrency, setCustomCurrency] = useState({ code: '', symbol: '', name: '' });
+  const [customCurrency, setCustomCurrency] = useState({ code: '', symbol: '', name: '', decimals: 2, locale: '' });
   const [showCustomCurrency, setShowCustomCurrency] = useState(false);
-  const [availableCurrencies, setAvailableCurrencies] = useState(defaultCurrencies);
+  // Keep a saved custom currency selectable after a reload
+  const [availableCurrencies, setAvailableCurrencies] = useState<Currency[]>(
+    defaultCurrencies.some(c => c.code === preferences.currency.code)
+      ? defaultCurrencies
+      : [...defaultCurrencies, preferences.currency]
+  );
+  const [lastExport, setLastExport] = useState<DataExport | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
   const [notification, setNotification] = useState<NotificationState>({
     show: false,
     message: '',
@@ -42,10 +67,16 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdatePreferences })
 
   const addCustomCurrency = () => {
     if (customCurrency.code && customCurrency.symbol && customCurrency.name) {
-      const newCurrency = { ...customCurrency };
-      setAvailableCurrencies(prev => [...prev, newCurrency]);
+      const newCurrency: Currency = {
+        code: customCurrency.code,
+        symbol: customCurrency.symbol,
+        name: customCurrency.name,
+        decimals: customCurrency.decimals,
+        ...(customCurrency.locale && { locale: customCurrency.locale })
+      };
+      setAvailableCurrencies(prev => [...prev.filter(c => c.code !== newCurrency.code), newCurrency]);
       setFormData({ ...formData, currency: newCurrency });
-      setCustomCurrency({ code: '', symbol: '', name: '' });
+      setCustomCurrency({ code: '', symbol: '', name: '', decimals: 2, locale: '' });
       setShowCustomCurrency(false);
       showNotification(`Added ${newCurrency.name} currency`, 'success');
     }
@@ -61,6 +92,55 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdatePreferences })
     }
   };
 
+  const exportDate = () => new Date().toISOString().split('T')[0];
+
+  const handleExportData = async () => {
+    setExporting(true);
+    const archive = await onExportData();
+    setExporting(false);
+
+    if (!archive) {
+      showNotification('Could not export your data. Please try again.', 'error');
+      return;
+    }
+
+    setLastExport(archive);
+    downloadFile(JSON.stringify(archive, null, 2), `rt-moneymaster-export-${exportDate()}.json`, 'application/json');
+    showNotification('Export downloaded', 'success');
+  };
+
+  const handleDownloadCsv = (table: ExportTable) => {
+    if (!lastExport) return;
+    downloadFile(rowsToCsv(lastExport.tables[table]), `rt-moneymaster-${table}-${exportDate()}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (hasData) {
+      showNotification('Restoring needs an empty account. Export and reset your data first.', 'error');
+      return;
+    }
+
+    const archive = parseDataExport(await file.text());
+    if (!archive) {
+      showNotification('That file is not an export this version can restore.', 'error');
+      return;
+    }
+
+    setImporting(true);
+    const count = await onImportData(archive);
+    setImporting(false);
+
+    if (count === undefined) {
+      showNotification('Could not restore the export. Nothing was changed.', 'error');
+    } else {
+      showNotification(`Restored ${count} records`, 'success');
+    }
+  };
+
   const handleResetData = async () => {
     const success = await resetAllData();
     if (success) {
@@ -168,6 +248,11 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdatePreferences })
                 </div>
               </div>
 
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Amounts will look like{' '}
+                <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(1234567.891, formData.currency)}</span>
+              </p>
+
               {/* Add Custom Currency */}
               <div>
                 <button
@@ -220,6 +305,31 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdatePreferences })
                           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Decimals
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="4"
+                          value={customCurrency.decimals}
+                          onChange={(e) => setCustomCurrency({ ...customCurrency, decimals: parseInt(e.target.value) || 0 })}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Locale
+                        </label>
+                        <input
+                          type="text"
+                          value={customCurrency.locale}
+                          onChange={(e) => setCustomCurrency({ ...customCurrency, locale: e.target.value.trim() })}
+                          placeholder="en-KE"
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                      </div>
                     </div>
                     <div className="mt-3 flex space-x-2">
                       <button
@@ -366,6 +476,58 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdatePreferences })
           {/* Data Management */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Data Management</h3>
+            <div className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-4 mb-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-white">Export Your Data</h4>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                    Download every account, transaction, goal and setting as a JSON backup, with a CSV per table.
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleExportData}
+                  disabled={exporting}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {exporting ? 'Exporting...' : 'Export Data'}
+                </button>
+              </div>
+
+              {lastExport && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {EXPORT_TABLES.filter(table => lastExport.tables[table].length > 0).map(table => (
+                    <button
+                      key={table}
+                      type="button"
+                      onClick={() => handleDownloadCsv(table)}
+                      className="inline-flex items-center justify-between px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors duration-200"
+                    >
+                      <span className="inline-flex items-center">
+                        <FileText className="h-4 w-4 mr-2" />
+                        {EXPORT_TABLE_LABELS[table]}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{lastExport.tables[table].length}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-600">
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-white">Restore From Export</h4>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                    Load a JSON export into this account. The account must be empty, so reset it first if needed.
+                  </p>
+                </div>
+                <label className={`inline-flex items-center px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors duration-200 ${importing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {importing ? 'Restoring...' : 'Restore Data'}
+                  <input type="file" accept=".json,application/json" onChange={handleImportFile} disabled={importing} className="hidden" />
+                </label>
+              </div>
+            </div>
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
               <div className="flex items-center justify-between">
                 <div>
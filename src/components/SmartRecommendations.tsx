@@ -1,7 +1,8 @@
 import React, { useEffect } from 'react';
 import { Brain, AlertTriangle, CheckCircle, TrendingUp, Calendar, DollarSign, Bell, User } from 'lucide-react';
-import { Income, Expense, Loan, Bill, DailyEntry, FinancialGoal, UserPreferences, Currency, BankAccount, ExpectedPayment } from '../types';
-import { formatCurrency, getNextPaymentRecommendation, calculateDailyAverage, calculateNetWorth, getUpcomingExpectedPayments, getOverdueExpectedPayments } from '../utils/calculations';
+import { Income, Expense, Loan, Bill, DailyEntry, FinancialGoal, UserPreferences, Currency, BankAccount, ExpectedPayment, ExchangeRate } from '../types';
+import { getNextPaymentRecommendation, calculateDailyAverage, calculateNetWorth, getUpcomingExpectedPayments, getOverdueExpectedPayments } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
 
 interface SmartRecommendationsProps {
   incomes: Income[];
@@ -14,6 +15,7 @@ interface SmartRecommendationsProps {
   currency: Currency;
   bankAccounts?: BankAccount[];
   expectedPayments?: ExpectedPayment[];
+  exchangeRates?: ExchangeRate[];
 }
 
 const SmartRecommendations: React.FC<SmartRecommendationsProps> = ({
@@ -26,7 +28,8 @@ const SmartRecommendations: React.FC<SmartRecommendationsProps> = ({
   preferences,
   currency,
   bankAccounts = [],
-  expectedPayments = []
+  expectedPayments = [],
+  exchangeRates = []
 }) => {
   const { income: avgDailyIncome, expenses: avgDailyExpenses } = calculateDailyAverage(dailyEntries, 30);
   const availableDaily = avgDailyIncome - avgDailyExpenses;
@@ -63,7 +66,7 @@ const SmartRecommendations: React.FC<SmartRecommendationsProps> = ({
   const highPriorityGoals = goals.filter(goal => goal.priority === 'high');
 
   // Calculate net worth using the consistent method
-  const netWorth = calculateNetWorth(bankAccounts, loans, goals, expectedPayments);
+  const netWorth = calculateNetWorth(bankAccounts, loans, goals, expectedPayments, { baseCurrency: currency.code, rates: exchangeRates });
 
   // Daily reminder notification
   useEffect(() => {
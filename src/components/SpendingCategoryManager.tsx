@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Plus, Tag, Edit2, Trash2 } from 'lucide-react';
+import { SpendingCategory, DailyEntry, Expense } from '../types';
+import { getCategoryOptions, getCategoryDescendantIds } from '../utils/spendingCategories';
+import CategoryPicker from './CategoryPicker';
+
+interface SpendingCategoryManagerProps {
+  categories: SpendingCategory[];
+  dailyEntries: DailyEntry[];
+  expenses: Expense[];
+  onAddCategory: (category: Omit<SpendingCategory, 'id'>) => void;
+  onUpdateCategory: (categoryId: string, updates: Partial<SpendingCategory>) => void;
+  onDeleteCategory: (categoryId: string) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const emptyForm = {
+  name: '',
+  parentId: '',
+  type: 'need' as SpendingCategory['type']
+};
+
+const SpendingCategoryManager: React.FC<SpendingCategoryManagerProps> = ({
+  categories,
+  dailyEntries,
+  expenses,
+  onAddCategory,
+  onUpdateCategory,
+  onDeleteCategory
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const options = getCategoryOptions(categories);
+
+  // A category can't move under itself or one of its own subcategories
+  const parentChoices = editingCategory
+    ? categories.filter(category => !getCategoryDescendantIds(categories, editingCategory).has(category.id))
+    : categories;
+
+  const getUsage = (categoryId: string) =>
+    dailyEntries.filter(entry => entry.categoryId === categoryId).length
+    + expenses.filter(expense => expense.categoryId === categoryId).length;
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingCategory(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    if (!name) return;
+
+    if (editingCategory) {
+      onUpdateCategory(editingCategory, {
+        name,
+        parentId: formData.parentId || undefined,
+        type: formData.type
+      });
+    } else {
+      // New categories go to the end of their parent's list
+      const siblings = categories.filter(category => (category.parentId || '') === formData.parentId);
+      onAddCategory({
+        name,
+        parentId: formData.parentId || undefined,
+        type: formData.type,
+        sortOrder: siblings.reduce((max, category) => Math.max(max, category.sortOrder), 0) + 1
+      });
+    }
+    resetForm();
+  };
+
+  const startEdit = (category: SpendingCategory) => {
+    setFormData({
+      name: category.name,
+      parentId: category.parentId || '',
+      type: category.type
+    });
+    setEditingCategory(category.id);
+    setShowForm(true);
+  };
+
+  const handleDelete = (category: SpendingCategory) => {
+    const subcategories = getCategoryDescendantIds(categories, category.id).size - 1;
+    const message = subcategories > 0
+      ? `Delete ${category.name} and its ${subcategories} subcategor${subcategories === 1 ? 'y' : 'ies'}? Anything filed under them becomes uncategorised.`
+      : `Delete ${category.name}? Anything filed under it becomes uncategorised.`;
+
+    if (window.confirm(message)) {
+      onDeleteCategory(category.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Spending Categories</h2>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">Organise spending into your own categories, each counted as a need or a want</p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData(emptyForm);
+            setEditingCategory(null);
+            setShowForm(!showForm);
+          }}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Category
+        </button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            {editingCategory ? 'Edit Category' : 'Add Category'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="categoryName" className={labelClass}>Name *</label>
+                <input
+                  type="text"
+                  id="categoryName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., School Fees"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="categoryParent" className={labelClass}>Parent</label>
+                <CategoryPicker
+                  id="categoryParent"
+                  categories={parentChoices}
+                  value={formData.parentId}
+                  onChange={(category) => setFormData({
+                    ...formData,
+                    parentId: category?.id || '',
+                    // Subcategories start with their parent's type
+                    type: category && !editingCategory ? category.type : formData.type
+                  })}
+                  className={inputClass}
+                  emptyLabel="None (top level)"
+                />
+              </div>
+              <div>
+                <label htmlFor="categoryType" className={labelClass}>Need or Want</label>
+                <select
+                  id="categoryType"
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as SpendingCategory['type'] })}
+                  className={inputClass}
+                >
+                  <option value="need">Need</option>
+                  <option value="want">Want</option>
+                </select>
+              </div>
+            </div>
+            {editingCategory && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Changing the type also changes it on everything filed under this category.
+              </p>
+            )}
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                {editingCategory ? 'Update Category' : 'Add Category'}
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Category Tree */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {options.length === 0 ? (
+            <div className="px-6 py-8 text-center">
+              <Tag className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500 dark:text-gray-400">No categories yet. Add one to start organising your spending.</p>
+            </div>
+          ) : (
+            options.map(({ category, depth }) => (
+              <div
+                key={category.id}
+                className="px-6 py-3 flex justify-between items-center hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-150"
+              >
+                <div className="flex items-center space-x-3" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                  <span className={`font-medium ${depth === 0 ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {category.name}
+                  </span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    category.type === 'need' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' : 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300'
+                  }`}>
+                    {category.type}
+                  </span>
+                  {getUsage(category.id) > 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {getUsage(category.id)} item{getUsage(category.id) === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => startEdit(category)}
+                    className="p-1 text-gray-400 hover:text-blue-600 transition-colors duration-200"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(category)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpendingCategoryManager;
@@ -1,47 +1,81 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { BarChart3, TrendingUp, TrendingDown, Zap, AlertTriangle, CheckCircle, Brain, ArrowUp, ArrowDown, Minus } from 'lucide-react';
-import { SpendingPattern, Currency, Expense, DailyEntry } from '../types';
-import { formatCurrency } from '../utils/advancedCalculations';
+import { SpendingPattern, Currency, Expense, DailyEntry, BusinessEntry, SpendingCategory } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { getSpendingRecords, getMonthlySpending, getTrailingRange } from '../utils/spendingHistory';
 
 interface SpendingPatternAnalysisProps {
   spendingPatterns: SpendingPattern[];
   expenses: Expense[];
   dailyEntries: DailyEntry[];
+  businessEntries: BusinessEntry[];
+  spendingCategories: SpendingCategory[];
   currency: Currency;
 }
 
+type Timeframe = '30days' | '90days' | '6months' | '1year';
+
+const TIMEFRAME_DAYS: Record<Timeframe, number> = {
+  '30days': 30,
+  '90days': 90,
+  '6months': 182,
+  '1year': 365
+};
+
+const CHART_MONTHS = 12;
+
+const formatCategoryName = (category: string) => category.charAt(0).toUpperCase() + category.slice(1);
+
 const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
   spendingPatterns,
   expenses,
   dailyEntries,
+  businessEntries,
+  spendingCategories,
   currency
 }) => {
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'30days' | '90days' | '6months' | '1year'>('30days');
+  const [selectedTimeframe, setSelectedTimeframe] = useState<Timeframe>('30days');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
 
-  // Calculate total spending by category
-  const calculateCategorySpending = () => {
-    const categories: Record<string, number> = {};
-    
-    // Add regular expenses
-    expenses.forEach(expense => {
-      const category = expense.category;
-      if (!categories[category]) categories[category] = 0;
-      categories[category] += expense.monthlyAmount;
-    });
+  const matchesType = (type: 'need' | 'want') => selectedCategory === 'all' || selectedCategory === type;
+  const visiblePatterns = spendingPatterns.filter(pattern => matchesType(pattern.type));
+
+  // Spending in the selected timeframe, per category
+  const categorySpending = useMemo(() => {
+    const records = getSpendingRecords(
+      expenses,
+      dailyEntries,
+      businessEntries,
+      getTrailingRange(TIMEFRAME_DAYS[selectedTimeframe]),
+      spendingCategories
+    )
+      .filter(record => selectedCategory === 'all' || record.type === selectedCategory);
+    const categories: Record<string, { amount: number; needs: number }> = {};
     
-    // Add daily entries
-    dailyEntries.forEach(entry => {
-      if (entry.category && entry.expenses > 0) {
-        if (!categories[entry.category]) categories[entry.category] = 0;
-        categories[entry.category] += entry.expenses;
-      }
+    records.forEach(record => {
+      if (!categories[record.category]) categories[record.category] = { amount: 0, needs: 0 };
+      categories[record.category].amount += record.amount;
+      if (record.type === 'need') categories[record.category].needs += record.amount;
     });
     
     return Object.entries(categories)
-      .map(([category, amount]) => ({ category, amount }))
+      .map(([category, totals]) => ({ category, amount: totals.amount, isNeed: totals.needs >= totals.amount / 2 }))
       .sort((a, b) => b.amount - a.amount);
-  };
+  }, [expenses, dailyEntries, businessEntries, spendingCategories, selectedTimeframe, selectedCategory]);
+
+  // Needs and wants for each of the last twelve calendar months
+  const monthlySpending = useMemo(() => {
+    const today = new Date();
+    const from = new Date(Date.UTC(today.getFullYear(), today.getMonth() - CHART_MONTHS + 1, 1)).toISOString().split('T')[0];
+    const records = getSpendingRecords(
+      expenses,
+      dailyEntries,
+      businessEntries,
+      { from, to: today.toISOString().split('T')[0] },
+      spendingCategories
+    );
+    return getMonthlySpending(records, CHART_MONTHS, today);
+  }, [expenses, dailyEntries, businessEntries, spendingCategories]);
 
   const getTimeframeLabel = () => {
     switch (selectedTimeframe) {
@@ -61,8 +95,8 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
     }
   };
 
-  const getTrendLabel = (trend: 'increasing' | 'decreasing' | 'stable', category: string) => {
-    const isWant = category === 'want';
+  const getTrendLabel = (trend: 'increasing' | 'decreasing' | 'stable', type: 'need' | 'want') => {
+    const isWant = type === 'want';
     
     switch (trend) {
       case 'increasing':
@@ -78,40 +112,16 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
     }
   };
 
-  const categorySpending = calculateCategorySpending();
   const totalSpending = categorySpending.reduce((sum, cat) => sum + cat.amount, 0);
+  const totalAverageMonthly = visiblePatterns.reduce((sum, pattern) => sum + pattern.averageMonthly, 0);
 
-  // Get spending data for visualization
-  const getSpendingData = () => {
-    // This would normally use real historical data
-    // For demo purposes, we'll generate some sample data
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const currentMonth = new Date().getMonth();
-    
-    const needsData = months.map((_, i) => {
-      const baseAmount = 1200;
-      const variation = Math.random() * 200 - 100;
-      return baseAmount + variation;
-    });
-    
-    const wantsData = months.map((_, i) => {
-      const baseAmount = 800;
-      const variation = Math.random() * 300 - 150;
-      return baseAmount + variation;
-    });
-    
-    // Reorder months to start with current month - 11
-    const startMonth = (currentMonth - 11 + 12) % 12;
-    const orderedMonths = [...months.slice(startMonth), ...months.slice(0, startMonth)];
-    
-    return {
-      months: orderedMonths,
-      needs: needsData,
-      wants: wantsData
-    };
+  const spendingData = {
+    months: monthlySpending.map(month => new Date(`${month.month}-01`).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' })),
+    needs: monthlySpending.map(month => matchesType('need') ? month.needs : 0),
+    wants: monthlySpending.map(month => matchesType('want') ? month.wants : 0)
   };
-
-  const spendingData = getSpendingData();
+  // Bars are scaled to the busiest month
+  const chartMax = Math.max(...spendingData.needs, ...spendingData.wants, 1);
 
   return (
     <div className="space-y-6">
@@ -123,7 +133,7 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
         <div className="flex space-x-2">
           <select
             value={selectedTimeframe}
-            onChange={(e) => setSelectedTimeframe(e.target.value as any)}
+            onChange={(e) => setSelectedTimeframe(e.target.value as Timeframe)}
             className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
           >
             <option value="30days">Last 30 Days</option>
@@ -153,14 +163,14 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
           <div className="bg-white/10 rounded-lg p-4">
             <h4 className="font-medium mb-2">Spending Trends</h4>
             <ul className="space-y-2 text-sm">
-              {spendingPatterns.map((pattern, index) => (
+              {visiblePatterns.map((pattern, index) => (
                 <li key={index} className="flex items-start space-x-2">
                   <div className="mt-0.5">
                     {getTrendIcon(pattern.trend)}
                   </div>
                   <span>
-                    {pattern.category === 'need' ? 'Needs' : 'Wants'} spending is {pattern.trend}. 
-                    {pattern.trend === 'increasing' && pattern.category === 'want' && 
+                    {formatCategoryName(pattern.category)} spending is {pattern.trend}. 
+                    {pattern.trend === 'increasing' && pattern.type === 'want' && 
                       ' Consider reviewing your discretionary expenses.'}
                   </span>
                 </li>
@@ -170,7 +180,7 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
           <div className="bg-white/10 rounded-lg p-4">
             <h4 className="font-medium mb-2">Optimization Opportunities</h4>
             <ul className="space-y-2 text-sm">
-              {spendingPatterns.flatMap((pattern, index) => 
+              {visiblePatterns.flatMap((pattern, index) => 
                 pattern.suggestions.map((suggestion, i) => (
                   <li key={`${index}-${i}`} className="flex items-start space-x-2">
                     <Zap className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -183,7 +193,7 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
         </div>
         <div className="mt-4 pt-4 border-t border-white/20">
           <p className="text-sm">
-            Potential monthly savings: {formatCurrency(spendingPatterns.reduce((sum, p) => sum + p.optimizationPotential, 0), currency)}
+            Potential monthly savings: {formatCurrency(visiblePatterns.reduce((sum, p) => sum + p.optimizationPotential, 0), currency)}
           </p>
         </div>
       </div>
@@ -207,7 +217,7 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
             <div className="space-y-4">
               {categorySpending.map((category, index) => {
                 const percentage = (category.amount / totalSpending) * 100;
-                const isNeed = category.category === 'need';
+                const isNeed = category.isNeed;
                 
                 return (
                   <div key={index}>
@@ -215,7 +225,7 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
                       <div className="flex items-center">
                         <span className={`w-3 h-3 rounded-full ${isNeed ? 'bg-blue-500' : 'bg-purple-500'} mr-2`}></span>
                         <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                          {isNeed ? 'Needs' : 'Wants'}
+                          {formatCategoryName(category.category)}
                         </span>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -240,12 +250,12 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
             
             {/* Spending Visualization */}
             <div className="mt-8">
-              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">Monthly Spending Trends</h4>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">Monthly Spending Trends (last 12 months)</h4>
               <div className="relative h-64">
                 <div className="absolute inset-0 flex items-end justify-between space-x-2">
                   {spendingData.months.map((month, index) => {
-                    const needsHeight = (spendingData.needs[index] / 2000) * 100;
-                    const wantsHeight = (spendingData.wants[index] / 2000) * 100;
+                    const needsHeight = (spendingData.needs[index] / chartMax) * 100;
+                    const wantsHeight = (spendingData.wants[index] / chartMax) * 100;
                     
                     return (
                       <div key={index} className="flex-1 flex flex-col items-center space-y-1">
@@ -288,11 +298,11 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
             </div>
           </div>
           <div className="p-6 space-y-4">
-            {spendingPatterns.map((pattern, index) => (
+            {visiblePatterns.map((pattern, index) => (
               <div key={index} className="space-y-3">
                 <div className="flex items-center justify-between">
                   <h4 className="font-medium text-gray-900 dark:text-white capitalize">
-                    {pattern.category === 'need' ? 'Needs' : 'Wants'} Spending
+                    {formatCategoryName(pattern.category)} Spending
                   </h4>
                   <div className="flex items-center space-x-1">
                     {getTrendIcon(pattern.trend)}
@@ -303,15 +313,14 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
                           ? 'text-green-600' 
                           : 'text-gray-600'
                     }`}>
-                      {pattern.trend === 'increasing' ? '+' : pattern.trend === 'decreasing' ? '-' : ''}
-                      {pattern.trend !== 'stable' && '10%'}
+                      {pattern.trend !== 'stable' && `${pattern.trendPercentage > 0 ? '+' : ''}${pattern.trendPercentage}%/mo`}
                     </span>
                   </div>
                 </div>
                 
                 <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                   <p className="text-sm text-gray-700 dark:text-gray-300">
-                    {getTrendLabel(pattern.trend, pattern.category)}
+                    {getTrendLabel(pattern.trend, pattern.type)}
                   </p>
                 </div>
                 
@@ -357,11 +366,11 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
                   By implementing these suggestions:
                 </span>
                 <span className="text-lg font-bold text-green-600">
-                  {formatCurrency(spendingPatterns.reduce((sum, p) => sum + p.optimizationPotential, 0), currency)}/month
+                  {formatCurrency(visiblePatterns.reduce((sum, p) => sum + p.optimizationPotential, 0), currency)}/month
                 </span>
               </div>
               <p className="text-xs text-green-700 dark:text-green-400 mt-2">
-                That's {formatCurrency(spendingPatterns.reduce((sum, p) => sum + p.optimizationPotential, 0) * 12, currency)} per year!
+                That's {formatCurrency(visiblePatterns.reduce((sum, p) => sum + p.optimizationPotential, 0) * 12, currency)} per year!
               </p>
             </div>
           </div>
@@ -396,18 +405,18 @@ const SpendingPatternAnalysis: React.FC<SpendingPatternAnalysisProps> = ({
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-600">
-                {spendingPatterns.map((pattern, index) => {
-                  const percentage = (pattern.averageMonthly / totalSpending) * 100;
+                {visiblePatterns.map((pattern, index) => {
+                  const percentage = totalAverageMonthly > 0 ? (pattern.averageMonthly / totalAverageMonthly) * 100 : 0;
                   
                   return (
                     <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
                           <div className={`w-3 h-3 rounded-full ${
-                            pattern.category === 'need' ? 'bg-blue-500' : 'bg-purple-500'
+                            pattern.type === 'need' ? 'bg-blue-500' : 'bg-purple-500'
                           } mr-2`}></div>
                           <span className="font-medium text-gray-900 dark:text-white capitalize">
-                            {pattern.category === 'need' ? 'Needs' : 'Wants'}
+                            {formatCategoryName(pattern.category)}
                           </span>
                         </div>
                       </td>
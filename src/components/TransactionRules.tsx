@@ -0,0 +1,868 @@
+import React, { useState } from 'react';
+import { Plus, Filter, Edit2, Trash2, Play, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import {
+  TransactionRule,
+  TransactionRulePreview,
+  TransactionRuleSplit,
+  BankAccount,
+  Budget,
+  FinancialGoal,
+  Currency,
+  DailyEntry,
+  SpendingCategory
+} from '../types';
+import { formatDate } from '../utils/calculations';
+import { formatCurrency } from '../utils/currency';
+import { isValidRulePattern } from '../utils/transactionRules';
+import { getCategoryPath } from '../utils/spendingCategories';
+import CategoryPicker from './CategoryPicker';
+
+interface TransactionRulesProps {
+  rules: TransactionRule[];
+  bankAccounts: BankAccount[];
+  budgets: Budget[];
+  goals: FinancialGoal[];
+  spendingCategories: SpendingCategory[];
+  currency: Currency;
+  onAddRule: (rule: Omit<TransactionRule, 'id'>) => void;
+  onUpdateRule: (ruleId: string, updates: Partial<TransactionRule>) => void;
+  onDeleteRule: (ruleId: string) => void;
+  onPreviewChanges: () => TransactionRulePreview[];
+  onApplyChanges: (previews: TransactionRulePreview[]) => Promise<number | undefined>;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+];
+
+const SPENDING_CATEGORIES = ['food', 'transportation', 'entertainment', 'shopping', 'utilities', 'other'];
+
+const PREVIEW_ROWS = 50;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+interface SplitForm {
+  percentage: string;
+  category: 'need' | 'want';
+  categoryId: string;
+  aiCategory: string;
+  linkedGoalId: string;
+}
+
+const emptyForm = {
+  name: '',
+  priority: '',
+  isActive: true,
+  descriptionContains: '',
+  descriptionPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  transactionType: '' as '' | 'income' | 'expense',
+  bankAccountId: '',
+  weekdays: [] as number[],
+  category: '' as '' | 'need' | 'want',
+  categoryId: '',
+  aiCategory: '',
+  linkedBudgetId: '',
+  linkedGoalId: '',
+  isSplit: false,
+  splits: [] as SplitForm[]
+};
+
+const defaultSplits: SplitForm[] = [
+  { percentage: '50', category: 'need', categoryId: '', aiCategory: '', linkedGoalId: '' },
+  { percentage: '50', category: 'want', categoryId: '', aiCategory: '', linkedGoalId: '' }
+];
+
+const getAmount = (entry: Omit<DailyEntry, 'id'>) => (entry.income > 0 ? entry.income : entry.expenses);
+
+const TransactionRules: React.FC<TransactionRulesProps> = ({
+  rules,
+  bankAccounts,
+  budgets,
+  goals,
+  spendingCategories,
+  currency,
+  onAddRule,
+  onUpdateRule,
+  onDeleteRule,
+  onPreviewChanges,
+  onApplyChanges
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [preview, setPreview] = useState<TransactionRulePreview[] | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [appliedCount, setAppliedCount] = useState<number | null>(null);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const activeAccounts = bankAccounts.filter(account => account.isActive);
+  const splitTotal = formData.splits.reduce((sum, split) => sum + (parseFloat(split.percentage) || 0), 0);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setFormError('');
+    setEditingRule(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const conditions = {
+      descriptionContains: formData.descriptionContains.trim() || undefined,
+      descriptionPattern: formData.descriptionPattern.trim() || undefined,
+      minAmount: formData.minAmount ? parseFloat(formData.minAmount) : undefined,
+      maxAmount: formData.maxAmount ? parseFloat(formData.maxAmount) : undefined,
+      transactionType: formData.transactionType || undefined,
+      bankAccountId: formData.bankAccountId || undefined,
+      weekdays: formData.weekdays.length ? formData.weekdays : undefined
+    };
+    const splits: TransactionRuleSplit[] | undefined = formData.isSplit
+      ? formData.splits.map(split => ({
+          percentage: parseFloat(split.percentage) || 0,
+          category: split.category,
+          categoryId: split.categoryId || undefined,
+          aiCategory: split.aiCategory || undefined,
+          linkedGoalId: split.linkedGoalId || undefined
+        }))
+      : undefined;
+    const actions = {
+      category: formData.isSplit ? undefined : formData.category || undefined,
+      categoryId: formData.isSplit ? undefined : formData.categoryId || undefined,
+      aiCategory: formData.isSplit ? undefined : formData.aiCategory || undefined,
+      linkedBudgetId: formData.isSplit ? undefined : formData.linkedBudgetId || undefined,
+      linkedGoalId: formData.isSplit ? undefined : formData.linkedGoalId || undefined,
+      splits
+    };
+
+    if (!Object.values(conditions).some(value => value !== undefined)) {
+      setFormError('Add at least one condition, or the rule would match every transaction.');
+      return;
+    }
+    if (conditions.descriptionPattern && !isValidRulePattern(conditions.descriptionPattern)) {
+      setFormError('The description pattern is not a valid regular expression.');
+      return;
+    }
+    if (conditions.minAmount !== undefined && conditions.maxAmount !== undefined && conditions.minAmount > conditions.maxAmount) {
+      setFormError('The minimum amount is above the maximum.');
+      return;
+    }
+    if (formData.isSplit && Math.abs(splitTotal - 100) > 0.001) {
+      setFormError(`Split percentages must add up to 100% (currently ${splitTotal}%).`);
+      return;
+    }
+    if (!Object.values(actions).some(value => value !== undefined)) {
+      setFormError('Choose at least one action.');
+      return;
+    }
+
+    const ruleData = {
+      name: formData.name,
+      priority: formData.priority ? parseInt(formData.priority) : rules.length + 1,
+      isActive: formData.isActive,
+      conditions,
+      actions
+    };
+
+    if (editingRule) {
+      onUpdateRule(editingRule, ruleData);
+    } else {
+      onAddRule(ruleData);
+    }
+    setPreview(null);
+    resetForm();
+  };
+
+  const startEdit = (rule: TransactionRule) => {
+    const { conditions, actions } = rule;
+    setFormData({
+      name: rule.name,
+      priority: rule.priority.toString(),
+      isActive: rule.isActive,
+      descriptionContains: conditions.descriptionContains || '',
+      descriptionPattern: conditions.descriptionPattern || '',
+      minAmount: conditions.minAmount?.toString() || '',
+      maxAmount: conditions.maxAmount?.toString() || '',
+      transactionType: conditions.transactionType || '',
+      bankAccountId: conditions.bankAccountId || '',
+      weekdays: conditions.weekdays || [],
+      category: actions.category || '',
+      categoryId: actions.categoryId || '',
+      aiCategory: actions.aiCategory || '',
+      linkedBudgetId: actions.linkedBudgetId || '',
+      linkedGoalId: actions.linkedGoalId || '',
+      isSplit: !!actions.splits?.length,
+      splits: (actions.splits || []).map(split => ({
+        percentage: split.percentage.toString(),
+        category: split.category,
+        categoryId: split.categoryId || '',
+        aiCategory: split.aiCategory || '',
+        linkedGoalId: split.linkedGoalId || ''
+      }))
+    });
+    setFormError('');
+    setEditingRule(rule.id);
+    setShowForm(true);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(weekday)
+        ? formData.weekdays.filter(day => day !== weekday)
+        : [...formData.weekdays, weekday]
+    });
+  };
+
+  const updateSplit = (index: number, changes: Partial<SplitForm>) => {
+    setFormData({
+      ...formData,
+      splits: formData.splits.map((split, i) => (i === index ? { ...split, ...changes } : split))
+    });
+  };
+
+  const handlePreview = () => {
+    setAppliedCount(null);
+    setApplyError(null);
+    setPreview(onPreviewChanges());
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setApplying(true);
+    setApplyError(null);
+    try {
+      const count = await onApplyChanges(preview);
+      setPreview(null);
+      setAppliedCount(count || 0);
+    } catch (error) {
+      // Nothing was written; keep the preview so it can be tried again
+      setApplyError(error instanceof Error ? error.message : 'The changes could not be saved');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const getAccountName = (accountId: string) => bankAccounts.find(account => account.id === accountId)?.name || 'Unknown account';
+  const getBudgetName = (budgetId: string) => budgets.find(budget => budget.id === budgetId)?.name || 'a deleted budget';
+  const getGoalName = (goalId: string) => goals.find(goal => goal.id === goalId)?.name || 'a deleted goal';
+  const getCategoryName = (categoryId: string) => getCategoryPath(spendingCategories, categoryId) || 'a deleted category';
+
+  const describeConditions = (rule: TransactionRule): string => {
+    const { conditions } = rule;
+    const parts: string[] = [];
+    if (conditions.transactionType) parts.push(conditions.transactionType === 'income' ? 'money in' : 'money out');
+    if (conditions.descriptionContains) parts.push(`description contains "${conditions.descriptionContains}"`);
+    if (conditions.descriptionPattern) parts.push(`description matches /${conditions.descriptionPattern}/`);
+    if (conditions.minAmount !== undefined && conditions.maxAmount !== undefined) {
+      parts.push(`amount ${formatCurrency(conditions.minAmount, currency)}–${formatCurrency(conditions.maxAmount, currency)}`);
+    } else if (conditions.minAmount !== undefined) {
+      parts.push(`amount at least ${formatCurrency(conditions.minAmount, currency)}`);
+    } else if (conditions.maxAmount !== undefined) {
+      parts.push(`amount up to ${formatCurrency(conditions.maxAmount, currency)}`);
+    }
+    if (conditions.bankAccountId) parts.push(`account is ${getAccountName(conditions.bankAccountId)}`);
+    if (conditions.weekdays?.length) {
+      parts.push(`on ${WEEKDAYS.filter(day => conditions.weekdays?.includes(day.value)).map(day => day.label).join(', ')}`);
+    }
+    return parts.join(' and ');
+  };
+
+  const describeActions = (rule: TransactionRule): string => {
+    const { actions } = rule;
+    if (actions.splits?.length) {
+      return `split ${actions.splits
+        .map(split => `${split.percentage}% ${split.categoryId ? getCategoryName(split.categoryId) : split.category}${split.aiCategory ? ` (${split.aiCategory})` : ''}${split.linkedGoalId ? ` to ${getGoalName(split.linkedGoalId)}` : ''}`)
+        .join(', ')}`;
+    }
+    const parts: string[] = [];
+    if (actions.categoryId) parts.push(`file under ${getCategoryName(actions.categoryId)}`);
+    else if (actions.category) parts.push(`mark as ${actions.category}`);
+    if (actions.aiCategory) parts.push(`category ${actions.aiCategory}`);
+    if (actions.linkedBudgetId) parts.push(`budget ${getBudgetName(actions.linkedBudgetId)}`);
+    if (actions.linkedGoalId) parts.push(`goal ${getGoalName(actions.linkedGoalId)}`);
+    return parts.join(', ');
+  };
+
+  const describeChange = ({ entry, updated }: TransactionRulePreview): string => {
+    if (updated.splits?.length) {
+      return updated.splits
+        .map(line => `${formatCurrency(line.amount, currency)} ${line.categoryId ? getCategoryName(line.categoryId) : line.category}`)
+        .join(' + ');
+    }
+    const changes: string[] = [];
+    if (updated.category !== entry.category) changes.push(`${entry.category} → ${updated.category}`);
+    if (updated.categoryId !== entry.categoryId && updated.categoryId) changes.push(`file under ${getCategoryName(updated.categoryId)}`);
+    if (updated.aiCategory !== entry.aiCategory) changes.push(`${entry.aiCategory || 'uncategorised'} → ${updated.aiCategory}`);
+    if (updated.linkedBudgetId !== entry.linkedBudgetId && updated.linkedBudgetId) changes.push(`budget ${getBudgetName(updated.linkedBudgetId)}`);
+    if (updated.linkedGoalId !== entry.linkedGoalId && updated.linkedGoalId) changes.push(`goal ${getGoalName(updated.linkedGoalId)}`);
+    return changes.join(', ');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Transaction Rules</h2>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">Categorise matching transactions automatically as you add or import them</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handlePreview}
+            disabled={rules.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Re-apply to History
+          </button>
+          <button
+            onClick={() => {
+              setFormData(emptyForm);
+              setEditingRule(null);
+              setShowForm(!showForm);
+            }}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {appliedCount !== null && (
+        <div className="flex items-center p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-800 dark:text-green-300">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {appliedCount === 1 ? 'Updated 1 transaction.' : `Updated ${appliedCount} transactions.`}
+        </div>
+      )}
+
+      {applyError && (
+        <div className="flex items-center p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-300">
+          <AlertTriangle className="h-5 w-5 mr-2" />
+          Couldn't apply the rules: {applyError}
+        </div>
+      )}
+
+      {/* Re-apply Preview */}
+      {preview && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600 flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Preview</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {preview.length === 0
+                  ? 'Your history already follows every rule.'
+                  : `${preview.length} transaction${preview.length === 1 ? '' : 's'} would change.`}
+              </p>
+            </div>
+            <button
+              onClick={() => setPreview(null)}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          {preview.length > 0 && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Description</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Amount</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Rule</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                    {preview.slice(0, PREVIEW_ROWS).map(row => (
+                      <tr key={row.entry.id}>
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{formatDate(row.entry.date)}</td>
+                        <td className="px-4 py-2 text-gray-900 dark:text-white">{row.entry.description}</td>
+                        <td className={`px-4 py-2 whitespace-nowrap text-right ${row.entry.income > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(getAmount(row.entry), currency)}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{row.rule.name}</td>
+                        <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{describeChange(row)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.length > PREVIEW_ROWS && (
+                  <p className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                    and {preview.length - PREVIEW_ROWS} more
+                  </p>
+                )}
+              </div>
+              <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-600 flex space-x-3">
+                <button
+                  onClick={handleApply}
+                  disabled={applying}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors duration-200"
+                >
+                  {applying ? 'Applying...' : `Apply to ${preview.length} Transaction${preview.length === 1 ? '' : 's'}`}
+                </button>
+                <button
+                  onClick={() => setPreview(null)}
+                  className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            {editingRule ? 'Edit Rule' : 'Add Rule'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label htmlFor="ruleName" className={labelClass}>Rule Name *</label>
+                <input
+                  type="text"
+                  id="ruleName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Supermarket shopping"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="rulePriority" className={labelClass}>Priority</label>
+                <input
+                  type="number"
+                  id="rulePriority"
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                  placeholder={`${rules.length + 1}`}
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Lower numbers run first; the first matching rule wins</p>
+              </div>
+            </div>
+
+            {/* Conditions */}
+            <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 space-y-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">When a transaction</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="descriptionContains" className={labelClass}>Description Contains</label>
+                  <input
+                    type="text"
+                    id="descriptionContains"
+                    value={formData.descriptionContains}
+                    onChange={(e) => setFormData({ ...formData, descriptionContains: e.target.value })}
+                    placeholder="e.g., Naivas"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="descriptionPattern" className={labelClass}>Or Matches Pattern</label>
+                  <input
+                    type="text"
+                    id="descriptionPattern"
+                    value={formData.descriptionPattern}
+                    onChange={(e) => setFormData({ ...formData, descriptionPattern: e.target.value })}
+                    placeholder="e.g., ^(uber|bolt)"
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label htmlFor="transactionType" className={labelClass}>Type</label>
+                  <select
+                    id="transactionType"
+                    value={formData.transactionType}
+                    onChange={(e) => setFormData({ ...formData, transactionType: e.target.value as typeof formData.transactionType })}
+                    className={inputClass}
+                  >
+                    <option value="">Any</option>
+                    <option value="expense">Money out</option>
+                    <option value="income">Money in</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="minAmount" className={labelClass}>Min Amount</label>
+                  <input
+                    type="number"
+                    id="minAmount"
+                    value={formData.minAmount}
+                    onChange={(e) => setFormData({ ...formData, minAmount: e.target.value })}
+                    step="0.01"
+                    min="0"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxAmount" className={labelClass}>Max Amount</label>
+                  <input
+                    type="number"
+                    id="maxAmount"
+                    value={formData.maxAmount}
+                    onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                    step="0.01"
+                    min="0"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ruleAccount" className={labelClass}>Account</label>
+                  <select
+                    id="ruleAccount"
+                    value={formData.bankAccountId}
+                    onChange={(e) => setFormData({ ...formData, bankAccountId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Any account</option>
+                    {activeAccounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <span className={labelClass}>On</span>
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAYS.map(day => (
+                    <button
+                      key={day.value}
+                      type="button"
+                      onClick={() => toggleWeekday(day.value)}
+                      className={`px-3 py-1 rounded-full text-sm border transition-colors duration-200 ${
+                        formData.weekdays.includes(day.value)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {day.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Leave all unselected to match any day</p>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 space-y-4">
+              <div className="flex justify-between items-center">
+                <h4 className="font-medium text-gray-900 dark:text-white">Then</h4>
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.isSplit}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      isSplit: e.target.checked,
+                      splits: e.target.checked && formData.splits.length < 2 ? defaultSplits : formData.splits
+                    })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded mr-2"
+                  />
+                  Split across categories
+                </label>
+              </div>
+
+              {!formData.isSplit ? (
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                  <div>
+                    <label htmlFor="ruleCategoryId" className={labelClass}>Category</label>
+                    <CategoryPicker
+                      id="ruleCategoryId"
+                      categories={spendingCategories}
+                      value={formData.categoryId}
+                      onChange={(category) => setFormData({
+                        ...formData,
+                        categoryId: category?.id || '',
+                        category: category?.type || formData.category
+                      })}
+                      className={inputClass}
+                      emptyLabel="Leave as is"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ruleCategory" className={labelClass}>Need or Want</label>
+                    <select
+                      id="ruleCategory"
+                      value={formData.category}
+                      onChange={(e) => setFormData({ ...formData, category: e.target.value as typeof formData.category })}
+                      disabled={!!formData.categoryId}
+                      className={inputClass}
+                    >
+                      <option value="">Leave as is</option>
+                      <option value="need">Need</option>
+                      <option value="want">Want</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="ruleAiCategory" className={labelClass}>Spending Category</label>
+                    <select
+                      id="ruleAiCategory"
+                      value={formData.aiCategory}
+                      onChange={(e) => setFormData({ ...formData, aiCategory: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Leave as is</option>
+                      {SPENDING_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="ruleBudget" className={labelClass}>Budget</label>
+                    <select
+                      id="ruleBudget"
+                      value={formData.linkedBudgetId}
+                      onChange={(e) => setFormData({ ...formData, linkedBudgetId: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Leave as is</option>
+                      {budgets.filter(budget => budget.isActive).map(budget => (
+                        <option key={budget.id} value={budget.id}>{budget.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="ruleGoal" className={labelClass}>Goal</label>
+                    <select
+                      id="ruleGoal"
+                      value={formData.linkedGoalId}
+                      onChange={(e) => setFormData({ ...formData, linkedGoalId: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Leave as is</option>
+                      {goals.map(goal => (
+                        <option key={goal.id} value={goal.id}>{goal.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {formData.splits.map((split, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+                      <div>
+                        <label htmlFor={`splitPercentage-${index}`} className={labelClass}>Share (%)</label>
+                        <input
+                          type="number"
+                          id={`splitPercentage-${index}`}
+                          value={split.percentage}
+                          onChange={(e) => updateSplit(index, { percentage: e.target.value })}
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor={`splitCategoryId-${index}`} className={labelClass}>Category</label>
+                        <CategoryPicker
+                          id={`splitCategoryId-${index}`}
+                          categories={spendingCategories}
+                          value={split.categoryId}
+                          onChange={(category) => updateSplit(index, {
+                            categoryId: category?.id || '',
+                            category: category?.type || split.category
+                          })}
+                          className={inputClass}
+                          emptyLabel="None"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor={`splitCategory-${index}`} className={labelClass}>Need or Want</label>
+                        <select
+                          id={`splitCategory-${index}`}
+                          value={split.category}
+                          onChange={(e) => updateSplit(index, { category: e.target.value as SplitForm['category'] })}
+                          disabled={!!split.categoryId}
+                          className={inputClass}
+                        >
+                          <option value="need">Need</option>
+                          <option value="want">Want</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor={`splitAiCategory-${index}`} className={labelClass}>Spending Category</label>
+                        <select
+                          id={`splitAiCategory-${index}`}
+                          value={split.aiCategory}
+                          onChange={(e) => updateSplit(index, { aiCategory: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">Leave as is</option>
+                          {SPENDING_CATEGORIES.map(category => (
+                            <option key={category} value={category}>{category}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor={`splitGoal-${index}`} className={labelClass}>Goal</label>
+                        <select
+                          id={`splitGoal-${index}`}
+                          value={split.linkedGoalId}
+                          onChange={(e) => updateSplit(index, { linkedGoalId: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">None</option>
+                          {goals.map(goal => (
+                            <option key={goal.id} value={goal.id}>{goal.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        {formData.splits.length > 2 && (
+                          <button
+                            type="button"
+                            onClick={() => setFormData({ ...formData, splits: formData.splits.filter((_, i) => i !== index) })}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex justify-between items-center">
+                    <button
+                      type="button"
+                      onClick={() => setFormData({
+                        ...formData,
+                        splits: [...formData.splits, { percentage: '', category: 'want', categoryId: '', aiCategory: '', linkedGoalId: '' }]
+                      })}
+                      className="text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      + Add share
+                    </button>
+                    <span className={`text-sm ${Math.abs(splitTotal - 100) > 0.001 ? 'text-red-600' : 'text-green-600'}`}>
+                      Total {splitTotal}%
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="ruleActive"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+              />
+              <label htmlFor="ruleActive" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                Active
+              </label>
+            </div>
+
+            {formError && (
+              <div className="flex items-center p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {formError}
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                {editingRule ? 'Update Rule' : 'Add Rule'}
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Rules List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-600">
+          <div className="flex items-center">
+            <Filter className="h-5 w-5 text-blue-500 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Rules</h3>
+          </div>
+        </div>
+        <div className="divide-y divide-gray-200 dark:divide-gray-600">
+          {rules.length === 0 ? (
+            <div className="px-6 py-8 text-center">
+              <Filter className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500 dark:text-gray-400">No rules yet</p>
+              <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">
+                Add a rule to categorise transactions from a merchant the same way every time
+              </p>
+            </div>
+          ) : (
+            rules.map(rule => (
+              <div key={rule.id} className="px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                <div className="flex justify-between items-center">
+                  <div className="flex-1">
+                    <div className="flex items-center">
+                      <span className="mr-2 px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full">
+                        #{rule.priority}
+                      </span>
+                      <h4 className={`font-medium text-gray-900 dark:text-white ${!rule.isActive ? 'line-through opacity-60' : ''}`}>
+                        {rule.name}
+                      </h4>
+                      {!rule.isActive && (
+                        <span className="ml-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">When {describeConditions(rule)}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Then {describeActions(rule)}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => onUpdateRule(rule.id, { isActive: !rule.isActive })}
+                      className="px-3 py-1 text-xs rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors duration-200"
+                    >
+                      {rule.isActive ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => startEdit(rule)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => onDeleteRule(rule.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionRules;
@@ -1,30 +1,36 @@
 import React, { useState } from 'react';
 import { Plus, ArrowLeftRight, Building2, AlertTriangle, Trash2 } from 'lucide-react';
-import { Transfer, BankAccount, Currency } from '../types';
-import { formatCurrency } from '../utils/calculations';
+import { Transfer, BankAccount, Currency, ExchangeRate } from '../types';
+import { formatCurrency, getCurrencyForCode } from '../utils/currency';
+import { findExchangeRate, toBaseCurrency } from '../utils/exchangeRates';
 
 interface TransferManagerProps {
   transfers: Transfer[];
   bankAccounts: BankAccount[];
   currency: Currency;
-  onAddTransfer: (transfer: Omit<Transfer, 'id'>) => void;
-  onDeleteTransfer: (transferId: string) => void;
+  exchangeRates: ExchangeRate[];
+  onAddTransfer: (transfer: Omit<Transfer, 'id'>) => Promise<void>;
+  onDeleteTransfer: (transferId: string) => Promise<void>;
 }
 
 const TransferManager: React.FC<TransferManagerProps> = ({
   transfers,
   bankAccounts,
   currency,
+  exchangeRates,
   onAddTransfer,
   onDeleteTransfer
 }) => {
   const [showForm, setShowForm] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     fromAccountId: '',
     toAccountId: '',
     amount: '',
     description: '',
-    isLoan: false
+    isLoan: false,
+    exchangeRate: ''
   });
 
   const activeAccounts = bankAccounts.filter(account => account.isActive);
@@ -34,7 +40,7 @@ const TransferManager: React.FC<TransferManagerProps> = ({
   );
   const recentTransfers = transfers.slice(-10).reverse();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.fromAccountId && formData.toAccountId && formData.amount) {
       const fromAccount = bankAccounts.find(acc => acc.id === formData.fromAccountId);
@@ -61,22 +67,39 @@ const TransferManager: React.FC<TransferManagerProps> = ({
       }
       
       const isFromBusiness = businessAccounts.some(acc => acc.id === formData.fromAccountId);
+      const amount = parseFloat(formData.amount);
+      const exchangeRate = isCrossCurrency ? parseFloat(formData.exchangeRate) || suggestedRate || 0 : 1;
+
+      if (exchangeRate <= 0) {
+        alert(`Enter the ${fromCurrency.code} to ${toCurrency.code} exchange rate for this transfer.`);
+        return;
+      }
       
-      onAddTransfer({
-        fromAccountId: formData.fromAccountId,
-        toAccountId: formData.toAccountId,
-        amount: parseFloat(formData.amount),
-        description: formData.description,
-        isLoan: isFromBusiness || formData.isLoan,
-        date: new Date().toISOString().split('T')[0]
-      });
+      setSubmitError(null);
+      try {
+        await onAddTransfer({
+          fromAccountId: formData.fromAccountId,
+          toAccountId: formData.toAccountId,
+          amount,
+          description: formData.description,
+          isLoan: isFromBusiness || formData.isLoan,
+          date: new Date().toISOString().split('T')[0],
+          exchangeRate,
+          convertedAmount: Math.round(amount * exchangeRate * 100) / 100
+        });
+      } catch (error) {
+        // Nothing was moved; keep the form filled in so it can be tried again
+        setSubmitError(error instanceof Error ? error.message : 'The transfer could not be made');
+        return;
+      }
 
       setFormData({
         fromAccountId: '',
         toAccountId: '',
         amount: '',
         description: '',
-        isLoan: false
+        isLoan: false,
+        exchangeRate: ''
       });
       setShowForm(false);
     }
@@ -87,6 +110,9 @@ const TransferManager: React.FC<TransferManagerProps> = ({
     return account ? account.name : 'Unknown Account';
   };
 
+  const getAccountCurrency = (bankAccountId: string): Currency =>
+    getCurrencyForCode(bankAccounts.find(acc => acc.id === bankAccountId)?.currency, currency);
+
   const getBankAccountIcon = (bankAccountId: string) => {
     const account = bankAccounts.find(acc => acc.id === bankAccountId);
     if (!account) return '🏦';
@@ -105,7 +131,8 @@ const TransferManager: React.FC<TransferManagerProps> = ({
     const account = bankAccounts.find(acc => acc.id === bankAccountId);
     if (!account) return formatCurrency(0, currency);
     
-    let balanceDisplay = formatCurrency(account.balance, currency);
+    const accountCurrency = getCurrencyForCode(account.currency, currency);
+    let balanceDisplay = formatCurrency(account.balance, accountCurrency);
     
     // Add overdraft info if applicable
     if (account.hasOverdraft && account.overdraftLimit) {
@@ -113,18 +140,36 @@ const TransferManager: React.FC<TransferManagerProps> = ({
       const overdraftAvailable = account.overdraftLimit - overdraftUsed;
       
       if (overdraftUsed > 0) {
-        balanceDisplay += ` (${formatCurrency(overdraftAvailable, currency)} overdraft available)`;
+        balanceDisplay += ` (${formatCurrency(overdraftAvailable, accountCurrency)} overdraft available)`;
       } else {
-        balanceDisplay += ` (+${formatCurrency(account.overdraftLimit, currency)} overdraft)`;
+        balanceDisplay += ` (+${formatCurrency(account.overdraftLimit, accountCurrency)} overdraft)`;
       }
     }
     
     return balanceDisplay;
   };
 
-  const totalTransfers = transfers.reduce((sum, transfer) => sum + transfer.amount, 0);
+  const handleDelete = async (transferId: string) => {
+    setDeleteError(null);
+    try {
+      await onDeleteTransfer(transferId);
+    } catch (error) {
+      // The transfer and both balances are left as they were
+      setDeleteError(error instanceof Error ? error.message : 'The transfer could not be deleted');
+    }
+  };
+
+  // Totals are shown in the base currency, converting from each source account's currency
+  const conversion = { baseCurrency: currency.code, rates: exchangeRates };
+  const toBase = (transfer: Transfer) => toBaseCurrency(
+    transfer.amount,
+    bankAccounts.find(acc => acc.id === transfer.fromAccountId)?.currency,
+    conversion,
+    transfer.date
+  );
+  const totalTransfers = transfers.reduce((sum, transfer) => sum + toBase(transfer), 0);
   const loanTransfers = transfers.filter(transfer => transfer.isLoan);
-  const totalLoans = loanTransfers.reduce((sum, transfer) => sum + transfer.amount, 0);
+  const totalLoans = loanTransfers.reduce((sum, transfer) => sum + toBase(transfer), 0);
 
   const isFromBusiness = formData.fromAccountId && 
     businessAccounts.some(acc => acc.id === formData.fromAccountId);
@@ -132,6 +177,11 @@ const TransferManager: React.FC<TransferManagerProps> = ({
   // Get selected accounts for validation
   const fromAccount = formData.fromAccountId ? bankAccounts.find(acc => acc.id === formData.fromAccountId) : null;
   const toAccount = formData.toAccountId ? bankAccounts.find(acc => acc.id === formData.toAccountId) : null;
+  const fromCurrency = getCurrencyForCode(fromAccount?.currency, currency);
+  const toCurrency = getCurrencyForCode(toAccount?.currency, currency);
+  const isCrossCurrency = !!fromAccount && !!toAccount && fromCurrency.code !== toCurrency.code;
+  const suggestedRate = isCrossCurrency ? findExchangeRate(fromCurrency.code, toCurrency.code, exchangeRates) : null;
+  const effectiveRate = parseFloat(formData.exchangeRate) || suggestedRate || 0;
   
   // Calculate maximum transfer amount based on balance and overdraft
   const getMaxTransferAmount = (): number => {
@@ -158,7 +208,10 @@ const TransferManager: React.FC<TransferManagerProps> = ({
           <p className="text-gray-600 dark:text-gray-300 mt-1 text-sm sm:text-base">Transfer money between accounts</p>
         </div>
         <button
-          onClick={() => setShowForm(!showForm)}
+          onClick={() => {
+            setShowForm(!showForm);
+            setSubmitError(null);
+          }}
           className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 w-full sm:w-auto"
         >
           <Plus className="h-4 w-4 mr-2" />
@@ -264,9 +317,9 @@ const TransferManager: React.FC<TransferManagerProps> = ({
                 />
                 {fromAccount && (
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Maximum transfer: {formatCurrency(maxTransferAmount, currency)}
+                    Maximum transfer: {formatCurrency(maxTransferAmount, fromCurrency)}
                     {fromAccount.hasOverdraft && fromAccount.overdraftLimit ? 
-                      ` (includes ${formatCurrency(fromAccount.overdraftLimit - (fromAccount.overdraftUsed || 0), currency)} available overdraft)` : 
+                      ` (includes ${formatCurrency(fromAccount.overdraftLimit - (fromAccount.overdraftUsed || 0), fromCurrency)} available overdraft)` : 
                       ''}
                   </p>
                 )}
@@ -286,6 +339,38 @@ const TransferManager: React.FC<TransferManagerProps> = ({
               </div>
             </div>
 
+            {/* Exchange Rate */}
+            {isCrossCurrency && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="exchangeRate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Exchange Rate (1 {fromCurrency.code} = ? {toCurrency.code}) {suggestedRate === null && '*'}
+                  </label>
+                  <input
+                    type="number"
+                    id="exchangeRate"
+                    value={formData.exchangeRate}
+                    onChange={(e) => setFormData({ ...formData, exchangeRate: e.target.value })}
+                    placeholder={suggestedRate !== null ? suggestedRate.toString() : '0.00'}
+                    step="any"
+                    min="0"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    required={suggestedRate === null}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {suggestedRate !== null
+                      ? 'Leave blank to use the latest rate from your exchange rate table'
+                      : `No ${fromCurrency.code}/${toCurrency.code} rate on record; enter the rate you were given`}
+                  </p>
+                </div>
+                {parseFloat(formData.amount) > 0 && effectiveRate > 0 && (
+                  <div className="flex items-center text-sm text-gray-700 dark:text-gray-300 sm:pt-6">
+                    {toAccount?.name} receives {formatCurrency(parseFloat(formData.amount) * effectiveRate, toCurrency)}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Overdraft Warning */}
             {fromAccount && parseFloat(formData.amount) > fromAccount.balance && fromAccount.hasOverdraft && (
               <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
@@ -294,7 +379,7 @@ const TransferManager: React.FC<TransferManagerProps> = ({
                   <span className="font-medium text-yellow-800 dark:text-yellow-300">Overdraft Notice</span>
                 </div>
                 <p className="text-yellow-700 dark:text-yellow-400 mt-1 text-sm">
-                  This transfer will use {formatCurrency(parseFloat(formData.amount) - fromAccount.balance, currency)} of your overdraft facility.
+                  This transfer will use {formatCurrency(parseFloat(formData.amount) - fromAccount.balance, fromCurrency)} of your overdraft facility.
                 </p>
               </div>
             )}
@@ -307,7 +392,7 @@ const TransferManager: React.FC<TransferManagerProps> = ({
                   <span className="font-medium text-red-800 dark:text-red-300">Negative Balance Warning</span>
                 </div>
                 <p className="text-red-700 dark:text-red-400 mt-1 text-sm">
-                  This transfer will result in a negative balance of {formatCurrency(fromAccount.balance - parseFloat(formData.amount), currency)} in your account.
+                  This transfer will result in a negative balance of {formatCurrency(fromAccount.balance - parseFloat(formData.amount), fromCurrency)} in your account.
                 </p>
               </div>
             )}
@@ -339,6 +424,13 @@ const TransferManager: React.FC<TransferManagerProps> = ({
               </label>
             </div>
 
+            {submitError && (
+              <div className="flex items-center p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-300">
+                <AlertTriangle className="h-5 w-5 mr-2" />
+                Couldn't make the transfer: {submitError}
+              </div>
+            )}
+
             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
               <button
                 type="submit"
@@ -348,7 +440,10 @@ const TransferManager: React.FC<TransferManagerProps> = ({
               </button>
               <button
                 type="button"
-                onClick={() => setShowForm(false)}
+                onClick={() => {
+                  setShowForm(false);
+                  setSubmitError(null);
+                }}
                 className="w-full sm:w-auto px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors duration-200"
               >
                 Cancel
@@ -363,6 +458,12 @@ const TransferManager: React.FC<TransferManagerProps> = ({
         <div className="px-4 sm:px-6 py-4 border-b border-gray-200 dark:border-gray-600">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Transfers</h3>
         </div>
+        {deleteError && (
+          <div className="flex items-center mx-4 sm:mx-6 mt-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-300">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            Couldn't delete the transfer: {deleteError}
+          </div>
+        )}
         <div className="divide-y divide-gray-200 dark:divide-gray-600">
           {recentTransfers.length === 0 ? (
             <div className="px-4 sm:px-6 py-8 text-center">
@@ -388,11 +489,18 @@ const TransferManager: React.FC<TransferManagerProps> = ({
                       )}
                     </div>
                     <div className="flex items-center space-x-2">
-                      <span className="text-lg font-bold text-blue-600">
-                        {formatCurrency(transfer.amount, currency)}
-                      </span>
+                      <div className="text-right">
+                        <span className="text-lg font-bold text-blue-600">
+                          {formatCurrency(transfer.amount, getAccountCurrency(transfer.fromAccountId))}
+                        </span>
+                        {transfer.exchangeRate !== 1 && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            → {formatCurrency(transfer.convertedAmount, getAccountCurrency(transfer.toAccountId))} @ {transfer.exchangeRate}
+                          </p>
+                        )}
+                      </div>
                       <button
-                        onClick={() => onDeleteTransfer(transfer.id)}
+                        onClick={() => handleDelete(transfer.id)}
                         className="p-1 text-gray-400 hover:text-red-600 transition-colors duration-200"
                       >
                         <Trash2 className="h-4 w-4" />
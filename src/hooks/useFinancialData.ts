@@ -1,23 +1,110 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { supabase, Database } from '../lib/supabase';
 import { useAuth } from './useAuth';
 import { 
   Income, 
   Expense, 
   BankAccount, 
   Loan, 
+  LoanPayment,
   Bill, 
+  BillInstance,
   DailyEntry, 
   BusinessEntry, 
   FinancialGoal, 
   UserPreferences,
   Transfer,
   Challenge,
+  ChallengeMetric,
+  HealthScoreSnapshot,
   UserProgress,
+  UnlockedAchievement,
+  Celebration,
   Currency,
-  ExpectedPayment
+  ExpectedPayment,
+  Budget,
+  BudgetAlert,
+  LedgerEntry,
+  AccountReconciliation,
+  ExchangeRate,
+  DataExport,
+  RecurringTransaction,
+  CategorizerExample,
+  CategorizerModel,
+  TransactionRule,
+  TransactionRulePreview,
+  SpendingCategory,
+  Attachment,
+  AttachmentParentType
 } from '../types';
-import { calculateMonthlyAmount } from '../utils/calculations';
+import { calculateMonthlyAmount, calculateActivityStreak, calculateFinancialHealth, getSplitError } from '../utils/calculations';
+import { generateCelebrations } from '../utils/advancedCalculations';
+import { getAchievementGallery, getNewlyEarnedAchievements } from '../utils/achievements';
+import { ChallengeDraft, evaluateChallenge, generateChallenges } from '../utils/gamification';
+import { calculateHealthImprovement, isSnapshotOutdated } from '../utils/healthHistory';
+import { applyBudgetSpending, generateBudgetAlerts } from '../utils/budgets';
+import { buildRecurringCatchUp } from '../utils/recurring';
+import { getNextBillDueDate } from '../utils/bills';
+import { getNextLoanDueDate, splitLoanPayment } from '../utils/amortization';
+import {
+  buildCategorizerModel,
+  countCategorizerExamples,
+  getEntryExample,
+  getExpenseExample,
+  updateCategorizerModel
+} from '../utils/categorizer';
+import { applyTransactionRules, dropMissingRuleLinks, previewTransactionRules } from '../utils/transactionRules';
+import { getCategoryDescendantIds, getCategoryForAiCategory } from '../utils/spendingCategories';
+import { EXPORT_TABLES, ExportTable, SINGLETON_TABLES, createDataExport, remapDataExport } from '../utils/dataExport';
+import {
+  blobToDataUrl,
+  createImageThumbnail,
+  dataUrlToBlob,
+  getAttachmentError,
+  getAttachmentFilePaths,
+  getAttachmentPath,
+  getThumbnailPath,
+  isImageAttachment
+} from '../utils/attachments';
+import { attachmentStorage } from '../lib/attachmentStorage';
+
+type AttachmentRow = Database['public']['Tables']['attachments']['Row'];
+
+// What the create_transfer and delete_transfer RPCs return
+interface TransferResult {
+  transfer: Database['public']['Tables']['transfers']['Row'];
+  from_account: Database['public']['Tables']['bank_accounts']['Row'] | null;
+  to_account: Database['public']['Tables']['bank_accounts']['Row'] | null;
+}
+
+// The column of the attachments table that links to each kind of record
+const ATTACHMENT_PARENT_COLUMNS = {
+  dailyEntry: 'daily_entry_id',
+  bill: 'bill_id',
+  loan: 'loan_id',
+  expectedPayment: 'expected_payment_id',
+  businessEntry: 'business_entry_id'
+} as const satisfies Record<AttachmentParentType, keyof AttachmentRow>;
+
+// Points are added on the server in one update, so awards made at the same time
+// (a challenge and an achievement, say) add up instead of overwriting each other
+const awardPoints = (award: { points: number; challengesCompleted?: number; achievementsUnlocked?: number }) =>
+  supabase.rpc('award_points', {
+    p_points: award.points,
+    p_challenges_completed: award.challengesCompleted || 0,
+    p_achievements_unlocked: award.achievementsUnlocked || 0
+  });
+
+// Only the rows this update flips to completed come back, so a challenge completed
+// twice at once (automatically and by a claim, or in two tabs) is only paid out once
+const markChallengesCompleted = (userId: string, challengeIds: string[]) =>
+  supabase
+    .from('user_challenges')
+    .update({ is_completed: true, completed_at: new Date().toISOString() })
+    .in('id', challengeIds)
+    .eq('user_id', userId)
+    .eq('is_completed', false)
+    .select();
 
 export const useFinancialData = () => {
   const { user } = useAuth();
@@ -26,12 +113,27 @@ export const useFinancialData = () => {
   const [incomes, setIncomes] = useState<Income[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [loans, setLoans] = useState<Loan[]>([]);
+  const [loanPayments, setLoanPayments] = useState<LoanPayment[]>([]);
   const [bills, setBills] = useState<Bill[]>([]);
+  const [billInstances, setBillInstances] = useState<BillInstance[]>([]);
   const [dailyEntries, setDailyEntries] = useState<DailyEntry[]>([]);
   const [businessEntries, setBusinessEntries] = useState<BusinessEntry[]>([]);
   const [transfers, setTransfers] = useState<Transfer[]>([]);
   const [goals, setGoals] = useState<FinancialGoal[]>([]);
   const [expectedPayments, setExpectedPayments] = useState<ExpectedPayment[]>([]);
+  const [storedBudgets, setStoredBudgets] = useState<Budget[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [reconciliations, setReconciliations] = useState<AccountReconciliation[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [recurringRules, setRecurringRules] = useState<RecurringTransaction[]>([]);
+  const [categorizerModel, setCategorizerModel] = useState<CategorizerModel | null>(null);
+  // The latest model, so trainings that follow each other build on one another rather
+  // than on the model the handler saw when it was created
+  const categorizerModelRef = useRef<CategorizerModel | null>(null);
+  const [transactionRules, setTransactionRules] = useState<TransactionRule[]>([]);
+  const [spendingCategories, setSpendingCategories] = useState<SpendingCategory[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [preferences, setPreferences] = useState<UserPreferences>({
     strategy: 'balanced',
     riskTolerance: 'moderate',
@@ -43,6 +145,9 @@ export const useFinancialData = () => {
   });
   const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [userProgress, setUserProgress] = useState<UserProgress | null>(null);
+  const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievement[]>([]);
+  const [celebrations, setCelebrations] = useState<Celebration[]>([]);
+  const [healthSnapshots, setHealthSnapshots] = useState<HealthScoreSnapshot[]>([]);
 
   // Helper functions for bank account mapping
   const mapDbBankAccountToClient = (dbAccount: any): BankAccount => ({
@@ -56,7 +161,9 @@ export const useFinancialData = () => {
     updatedAt: dbAccount.updated_at,
     hasOverdraft: dbAccount.has_overdraft,
     overdraftLimit: dbAccount.overdraft_limit,
-    overdraftUsed: dbAccount.overdraft_used
+    overdraftUsed: dbAccount.overdraft_used,
+    currency: dbAccount.currency || undefined,
+    lowBalanceFloor: dbAccount.low_balance_floor ?? undefined
   });
 
   const mapClientBankAccountToDb = (clientAccount: Partial<BankAccount>) => {
@@ -69,10 +176,359 @@ export const useFinancialData = () => {
     if (clientAccount.hasOverdraft !== undefined) dbAccount.has_overdraft = clientAccount.hasOverdraft;
     if (clientAccount.overdraftLimit !== undefined) dbAccount.overdraft_limit = clientAccount.overdraftLimit;
     if (clientAccount.overdraftUsed !== undefined) dbAccount.overdraft_used = clientAccount.overdraftUsed;
+    if ('currency' in clientAccount) dbAccount.currency = clientAccount.currency || null;
+    if ('lowBalanceFloor' in clientAccount) dbAccount.low_balance_floor = clientAccount.lowBalanceFloor ?? null;
     
     return dbAccount;
   };
 
+  // Helper functions for loan mapping
+  const mapDbLoanToClient = (dbLoan: Database['public']['Tables']['loans']['Row']): Loan => ({
+    id: dbLoan.id,
+    name: dbLoan.name,
+    principal: Number(dbLoan.principal) || 0,
+    currentBalance: Number(dbLoan.current_balance) || 0,
+    interestRate: Number(dbLoan.interest_rate) || 0,
+    minimumPayment: Number(dbLoan.minimum_payment) || 0,
+    dueDate: dbLoan.due_date || '',
+    startDate: dbLoan.start_date || '',
+    loanPeriodMonths: dbLoan.loan_period_months || 12,
+    penaltyRate: dbLoan.penalty_rate ?? undefined,
+    otherCharges: dbLoan.other_charges ?? undefined,
+    lender: dbLoan.lender || '',
+    currency: dbLoan.currency || undefined,
+    interestMethod: dbLoan.interest_method || 'reducing',
+    bankAccountId: dbLoan.bank_account_id || undefined
+  });
+
+  const mapClientLoanToDb = (clientLoan: Partial<Loan>) => {
+    const dbLoan: Database['public']['Tables']['loans']['Update'] = {};
+    
+    if (clientLoan.name !== undefined) dbLoan.name = clientLoan.name;
+    if (clientLoan.principal !== undefined) dbLoan.principal = clientLoan.principal;
+    if (clientLoan.currentBalance !== undefined) dbLoan.current_balance = clientLoan.currentBalance;
+    if (clientLoan.interestRate !== undefined) dbLoan.interest_rate = clientLoan.interestRate;
+    if (clientLoan.minimumPayment !== undefined) dbLoan.minimum_payment = clientLoan.minimumPayment;
+    if (clientLoan.dueDate !== undefined) dbLoan.due_date = clientLoan.dueDate || null;
+    if (clientLoan.startDate) dbLoan.start_date = clientLoan.startDate;
+    if (clientLoan.loanPeriodMonths !== undefined) dbLoan.loan_period_months = clientLoan.loanPeriodMonths;
+    if ('penaltyRate' in clientLoan) dbLoan.penalty_rate = clientLoan.penaltyRate ?? null;
+    if ('otherCharges' in clientLoan) dbLoan.other_charges = clientLoan.otherCharges ?? null;
+    if (clientLoan.lender !== undefined) dbLoan.lender = clientLoan.lender;
+    if ('currency' in clientLoan) dbLoan.currency = clientLoan.currency || null;
+    if (clientLoan.interestMethod !== undefined) dbLoan.interest_method = clientLoan.interestMethod;
+    if ('bankAccountId' in clientLoan) dbLoan.bank_account_id = clientLoan.bankAccountId || null;
+    
+    return dbLoan;
+  };
+
+  const mapDbLoanPaymentToClient = (dbPayment: Database['public']['Tables']['loan_payments']['Row']): LoanPayment => ({
+    id: dbPayment.id,
+    loanId: dbPayment.loan_id,
+    amount: Number(dbPayment.amount) || 0,
+    interest: Number(dbPayment.interest) || 0,
+    principal: Number(dbPayment.principal) || 0,
+    penalty: Number(dbPayment.penalty) || 0,
+    paidDate: dbPayment.paid_date,
+    bankAccountId: dbPayment.bank_account_id || undefined,
+    previousDueDate: dbPayment.previous_due_date || undefined
+  });
+
+  // Helper functions for bill mapping
+  const mapDbBillToClient = (dbBill: Database['public']['Tables']['bills']['Row']): Bill => ({
+    id: dbBill.id,
+    name: dbBill.name,
+    amount: Number(dbBill.amount) || 0,
+    dueDate: dbBill.due_date,
+    frequency: dbBill.frequency,
+    category: dbBill.category,
+    isPaid: !!dbBill.is_paid,
+    bankAccountId: dbBill.bank_account_id || undefined,
+    averageAmount: dbBill.average_amount ?? undefined,
+    recurrence: dbBill.recurrence || undefined,
+    recurringRuleId: dbBill.recurring_rule_id || undefined
+  });
+
+  const mapClientBillToDb = (clientBill: Partial<Bill>) => {
+    const dbBill: Database['public']['Tables']['bills']['Update'] = {};
+    
+    if (clientBill.name !== undefined) dbBill.name = clientBill.name;
+    if (clientBill.amount !== undefined) dbBill.amount = clientBill.amount;
+    if (clientBill.dueDate !== undefined) dbBill.due_date = clientBill.dueDate;
+    if (clientBill.frequency !== undefined) dbBill.frequency = clientBill.frequency;
+    if (clientBill.category !== undefined) dbBill.category = clientBill.category;
+    if (clientBill.isPaid !== undefined) dbBill.is_paid = clientBill.isPaid;
+    if ('bankAccountId' in clientBill) dbBill.bank_account_id = clientBill.bankAccountId || null;
+    if ('recurrence' in clientBill) dbBill.recurrence = clientBill.recurrence || null;
+    if ('recurringRuleId' in clientBill) dbBill.recurring_rule_id = clientBill.recurringRuleId || null;
+    
+    return dbBill;
+  };
+
+  const mapDbBillInstanceToClient = (dbInstance: Database['public']['Tables']['bill_instances']['Row']): BillInstance => ({
+    id: dbInstance.id,
+    billId: dbInstance.bill_id,
+    dueDate: dbInstance.due_date,
+    expectedAmount: Number(dbInstance.expected_amount) || 0,
+    amountPaid: dbInstance.amount_paid ?? undefined,
+    paidDate: dbInstance.paid_date || undefined,
+    bankAccountId: dbInstance.bank_account_id || undefined
+  });
+
+  // Helper functions for daily entry mapping
+  const mapDbDailyEntryToClient = (dbEntry: any): DailyEntry => ({
+    id: dbEntry.id,
+    date: dbEntry.date,
+    time: dbEntry.time || undefined,
+    income: Number(dbEntry.income) || 0,
+    expenses: Number(dbEntry.expenses) || 0,
+    category: dbEntry.category,
+    description: dbEntry.description || '',
+    frequency: dbEntry.frequency || 'once',
+    incomeBankAccountId: dbEntry.income_bank_account_id || undefined,
+    expenseBankAccountId: dbEntry.expense_bank_account_id || undefined,
+    linkedBudgetId: dbEntry.linked_budget_id || undefined,
+    linkedGoalId: dbEntry.linked_goal_id || undefined,
+    externalReference: dbEntry.external_reference || undefined,
+    aiCategorized: dbEntry.ai_categorized || false,
+    aiCategory: dbEntry.ai_category || undefined,
+    confidence: dbEntry.confidence ?? undefined,
+    appliedRuleId: dbEntry.applied_rule_id || undefined,
+    categoryId: dbEntry.category_id || undefined,
+    splits: dbEntry.splits?.length ? dbEntry.splits : undefined
+  });
+
+  const mapClientDailyEntryToDb = (clientEntry: Partial<DailyEntry>) => {
+    const dbEntry: any = {};
+    
+    if (clientEntry.date !== undefined) dbEntry.date = clientEntry.date;
+    if (clientEntry.time !== undefined) dbEntry.time = clientEntry.time;
+    if (clientEntry.income !== undefined) dbEntry.income = clientEntry.income;
+    if (clientEntry.expenses !== undefined) dbEntry.expenses = clientEntry.expenses;
+    if (clientEntry.category !== undefined) dbEntry.category = clientEntry.category;
+    if (clientEntry.description !== undefined) dbEntry.description = clientEntry.description;
+    if (clientEntry.frequency !== undefined) dbEntry.frequency = clientEntry.frequency;
+    if ('incomeBankAccountId' in clientEntry) dbEntry.income_bank_account_id = clientEntry.incomeBankAccountId || null;
+    if ('expenseBankAccountId' in clientEntry) dbEntry.expense_bank_account_id = clientEntry.expenseBankAccountId || null;
+    if ('linkedBudgetId' in clientEntry) dbEntry.linked_budget_id = clientEntry.linkedBudgetId || null;
+    if ('linkedGoalId' in clientEntry) dbEntry.linked_goal_id = clientEntry.linkedGoalId || null;
+    if ('externalReference' in clientEntry) dbEntry.external_reference = clientEntry.externalReference || null;
+    if (clientEntry.aiCategorized !== undefined) dbEntry.ai_categorized = clientEntry.aiCategorized;
+    if ('aiCategory' in clientEntry) dbEntry.ai_category = clientEntry.aiCategory || null;
+    if ('confidence' in clientEntry) dbEntry.confidence = clientEntry.confidence ?? null;
+    if ('appliedRuleId' in clientEntry) dbEntry.applied_rule_id = clientEntry.appliedRuleId || null;
+    if ('categoryId' in clientEntry) dbEntry.category_id = clientEntry.categoryId || null;
+    if ('splits' in clientEntry) dbEntry.splits = clientEntry.splits?.length ? clientEntry.splits : null;
+    
+    return dbEntry;
+  };
+
+  // Helper function for transfer mapping
+  const mapDbTransferToClient = (dbTransfer: any): Transfer => ({
+    id: dbTransfer.id,
+    fromAccountId: dbTransfer.from_account_id,
+    toAccountId: dbTransfer.to_account_id,
+    amount: Number(dbTransfer.amount),
+    description: dbTransfer.description || '',
+    isLoan: dbTransfer.is_loan,
+    date: dbTransfer.date,
+    exchangeRate: Number(dbTransfer.exchange_rate) || 1,
+    convertedAmount: Number(dbTransfer.converted_amount ?? dbTransfer.amount)
+  });
+
+  // Helper function for exchange rate mapping
+  const mapDbExchangeRateToClient = (dbRate: any): ExchangeRate => ({
+    id: dbRate.id,
+    fromCurrency: dbRate.from_currency,
+    toCurrency: dbRate.to_currency,
+    rate: Number(dbRate.rate),
+    date: dbRate.rate_date,
+    source: dbRate.source
+  });
+
+  // Helper functions for recurring rule mapping
+  const mapDbRecurringRuleToClient = (dbRule: Database['public']['Tables']['recurring_rules']['Row']): RecurringTransaction => ({
+    id: dbRule.id,
+    type: dbRule.type,
+    name: dbRule.name,
+    amount: Number(dbRule.amount),
+    frequency: dbRule.frequency,
+    nextOccurrence: dbRule.next_occurrence,
+    bankAccountId: dbRule.bank_account_id,
+    category: dbRule.category || undefined,
+    isActive: dbRule.is_active,
+    autoGenerate: dbRule.auto_generate,
+    lastGenerated: dbRule.last_generated || undefined,
+    recurrence: dbRule.recurrence || undefined,
+    categoryId: dbRule.category_id || undefined
+  });
+
+  const mapClientRecurringRuleToDb = (clientRule: Partial<RecurringTransaction>) => {
+    const dbRule: Database['public']['Tables']['recurring_rules']['Update'] = {};
+    
+    if (clientRule.type !== undefined) dbRule.type = clientRule.type;
+    if (clientRule.name !== undefined) dbRule.name = clientRule.name;
+    if (clientRule.amount !== undefined) dbRule.amount = clientRule.amount;
+    if (clientRule.frequency !== undefined) dbRule.frequency = clientRule.frequency;
+    if (clientRule.nextOccurrence !== undefined) dbRule.next_occurrence = clientRule.nextOccurrence;
+    if (clientRule.bankAccountId !== undefined) dbRule.bank_account_id = clientRule.bankAccountId;
+    if ('category' in clientRule) dbRule.category = clientRule.category || null;
+    if (clientRule.isActive !== undefined) dbRule.is_active = clientRule.isActive;
+    if (clientRule.autoGenerate !== undefined) dbRule.auto_generate = clientRule.autoGenerate;
+    if (clientRule.lastGenerated !== undefined) dbRule.last_generated = clientRule.lastGenerated;
+    if ('recurrence' in clientRule) dbRule.recurrence = clientRule.recurrence || null;
+    if ('categoryId' in clientRule) dbRule.category_id = clientRule.categoryId || null;
+    
+    return dbRule;
+  };
+
+  // Helper functions for transaction rule mapping
+  const mapDbTransactionRuleToClient = (dbRule: Database['public']['Tables']['transaction_rules']['Row']): TransactionRule => ({
+    id: dbRule.id,
+    name: dbRule.name,
+    priority: dbRule.priority,
+    isActive: dbRule.is_active,
+    conditions: dbRule.conditions || {},
+    actions: dbRule.actions || {}
+  });
+
+  const mapClientTransactionRuleToDb = (clientRule: Partial<TransactionRule>) => {
+    const dbRule: Database['public']['Tables']['transaction_rules']['Update'] = {};
+    
+    if (clientRule.name !== undefined) dbRule.name = clientRule.name;
+    if (clientRule.priority !== undefined) dbRule.priority = clientRule.priority;
+    if (clientRule.isActive !== undefined) dbRule.is_active = clientRule.isActive;
+    if (clientRule.conditions !== undefined) dbRule.conditions = clientRule.conditions;
+    if (clientRule.actions !== undefined) dbRule.actions = clientRule.actions;
+    
+    return dbRule;
+  };
+
+  // Helper functions for spending category mapping
+  const mapDbSpendingCategoryToClient = (dbCategory: Database['public']['Tables']['spending_categories']['Row']): SpendingCategory => ({
+    id: dbCategory.id,
+    name: dbCategory.name,
+    parentId: dbCategory.parent_id || undefined,
+    type: dbCategory.type,
+    aiCategory: dbCategory.ai_category || undefined,
+    sortOrder: dbCategory.sort_order
+  });
+
+  const mapClientSpendingCategoryToDb = (clientCategory: Partial<SpendingCategory>) => {
+    const dbCategory: Database['public']['Tables']['spending_categories']['Update'] = {};
+    
+    if (clientCategory.name !== undefined) dbCategory.name = clientCategory.name;
+    if ('parentId' in clientCategory) dbCategory.parent_id = clientCategory.parentId || null;
+    if (clientCategory.type !== undefined) dbCategory.type = clientCategory.type;
+    if ('aiCategory' in clientCategory) dbCategory.ai_category = clientCategory.aiCategory || null;
+    if (clientCategory.sortOrder !== undefined) dbCategory.sort_order = clientCategory.sortOrder;
+    
+    return dbCategory;
+  };
+
+  // Helper function for attachment mapping
+  const mapDbAttachmentToClient = (dbAttachment: AttachmentRow): Attachment => {
+    const parentType = (Object.keys(ATTACHMENT_PARENT_COLUMNS) as AttachmentParentType[])
+      .find(type => dbAttachment[ATTACHMENT_PARENT_COLUMNS[type]]) || 'dailyEntry';
+    
+    return {
+      id: dbAttachment.id,
+      parentType,
+      parentId: dbAttachment[ATTACHMENT_PARENT_COLUMNS[parentType]] || '',
+      fileName: dbAttachment.file_name,
+      contentType: dbAttachment.content_type,
+      size: Number(dbAttachment.size),
+      storagePath: dbAttachment.storage_path,
+      thumbnailPath: dbAttachment.thumbnail_path || undefined,
+      createdAt: dbAttachment.created_at
+    };
+  };
+
+  // Expense rows are kept as stored, with the client-side fields they are read through
+  const mapDbIncomeRow = (dbIncome: Database['public']['Tables']['incomes']['Row']): Income => ({
+    ...dbIncome,
+    monthlyAmount: dbIncome.monthly_amount,
+    bankAccountId: dbIncome.bank_account_id,
+    recurrence: dbIncome.recurrence || undefined,
+    createdAt: dbIncome.created_at
+  });
+
+  const mapDbExpenseRow = (dbExpense: Database['public']['Tables']['expenses']['Row']): Expense => ({
+    ...dbExpense,
+    monthlyAmount: dbExpense.monthly_amount,
+    bankAccountId: dbExpense.bank_account_id,
+    recurrence: dbExpense.recurrence || undefined,
+    categoryId: dbExpense.category_id || undefined,
+    linkedBudgetId: dbExpense.linked_budget_id || undefined,
+    linkedGoalId: dbExpense.linked_goal_id || undefined,
+    createdAt: dbExpense.created_at
+  });
+
+  // Helper functions for ledger mapping
+  const mapDbLedgerEntryToClient = (dbEntry: any): LedgerEntry => ({
+    id: dbEntry.id,
+    accountId: dbEntry.account_id,
+    amount: Number(dbEntry.amount),
+    entryType: dbEntry.entry_type,
+    sourceId: dbEntry.source_id || undefined,
+    isReversal: dbEntry.is_reversal,
+    description: dbEntry.description || '',
+    date: dbEntry.date,
+    runningBalance: Number(dbEntry.running_balance),
+    createdAt: dbEntry.created_at
+  });
+
+  const mapDbReconciliationToClient = (dbRow: any): AccountReconciliation => ({
+    accountId: dbRow.account_id,
+    accountName: dbRow.account_name,
+    storedBalance: Number(dbRow.stored_balance),
+    ledgerBalance: Number(dbRow.ledger_balance),
+    drift: Number(dbRow.drift),
+    entryCount: Number(dbRow.entry_count),
+    lastEntryDate: dbRow.last_entry_date || undefined
+  });
+
+  // Helper functions for budget mapping
+  const mapDbBudgetToClient = (dbBudget: any): Budget => ({
+    id: dbBudget.id,
+    name: dbBudget.name,
+    category: dbBudget.category,
+    allocatedAmount: Number(dbBudget.allocated_amount),
+    spentAmount: 0,
+    remainingAmount: Number(dbBudget.allocated_amount),
+    period: dbBudget.period,
+    linkedGoalId: dbBudget.linked_goal_id || undefined,
+    isActive: dbBudget.is_active,
+    alertThreshold: Number(dbBudget.alert_threshold)
+  });
+
+  const mapClientBudgetToDb = (clientBudget: Partial<Budget>) => {
+    const dbBudget: any = {};
+    
+    if (clientBudget.name !== undefined) dbBudget.name = clientBudget.name;
+    if (clientBudget.category !== undefined) dbBudget.category = clientBudget.category;
+    if (clientBudget.allocatedAmount !== undefined) dbBudget.allocated_amount = clientBudget.allocatedAmount;
+    if (clientBudget.period !== undefined) dbBudget.period = clientBudget.period;
+    if (clientBudget.linkedGoalId !== undefined) dbBudget.linked_goal_id = clientBudget.linkedGoalId || null;
+    if (clientBudget.isActive !== undefined) dbBudget.is_active = clientBudget.isActive;
+    if (clientBudget.alertThreshold !== undefined) dbBudget.alert_threshold = clientBudget.alertThreshold;
+    
+    return dbBudget;
+  };
+
+  const mapDbBudgetAlertToClient = (dbAlert: any): BudgetAlert => ({
+    id: dbAlert.id,
+    budgetId: dbAlert.budget_id,
+    budgetName: dbAlert.budget_name,
+    type: dbAlert.type,
+    message: dbAlert.message,
+    percentage: Number(dbAlert.percentage),
+    periodStart: dbAlert.period_start,
+    isRead: dbAlert.is_read,
+    dismissedAt: dbAlert.dismissed_at || undefined,
+    createdAt: dbAlert.created_at
+  });
+
   // Load all financial data
   useEffect(() => {
     if (user) {
@@ -92,11 +548,22 @@ export const useFinancialData = () => {
         loadDailyEntries(),
         loadBusinessEntries(),
         loadTransfers(),
+        loadLedger(),
+        loadExchangeRates(),
+        loadRecurringRules(),
+        loadCategorizerModel(),
+        loadTransactionRules(),
+        loadSpendingCategories(),
+        loadAttachments(),
         loadGoals(),
         loadExpectedPayments(),
+        loadBudgets(),
+        loadBudgetAlerts(),
         loadPreferences(),
         loadChallenges(),
-        loadUserProgress()
+        loadUserProgress(),
+        loadAchievements(),
+        loadHealthSnapshots()
       ]);
     } catch (error) {
       console.error('Error loading financial data:', error);
@@ -141,19 +608,48 @@ export const useFinancialData = () => {
     }
     
     setBankAccounts(prev => [mapDbBankAccountToClient(data), ...prev]);
+    await loadLedger();
   };
 
   const updateBankAccount = async (accountId: string, updates: Partial<BankAccount>) => {
     if (!user) return;
     
-    const dbUpdates = mapClientBankAccountToDb(updates);
+    const account = bankAccounts.find(acc => acc.id === accountId);
+    const { balance, ...otherUpdates } = updates;
+    const dbUpdates = mapClientBankAccountToDb(otherUpdates);
+    
+    if (Object.keys(dbUpdates).length > 0) {
+      const { error } = await supabase
+        .from('bank_accounts')
+        .update(dbUpdates)
+        .eq('id', accountId)
+        .eq('user_id', user.id);
+      
+      if (error) {
+        console.error('Error updating bank account:', error);
+        return;
+      }
+    }
+    
+    // Balance edits are recorded as ledger adjustments rather than overwriting the balance.
+    // The difference is worked out on the server from the ledger, not from local state.
+    if (account && balance !== undefined && balance !== account.balance) {
+      const { error } = await supabase.rpc('adjust_account_balance', {
+        p_account_id: accountId,
+        p_balance: balance
+      });
+      
+      if (error) {
+        console.error('Error recording balance adjustment:', error);
+        return;
+      }
+    }
     
     const { data, error } = await supabase
       .from('bank_accounts')
-      .update(dbUpdates)
+      .select('*')
       .eq('id', accountId)
       .eq('user_id', user.id)
-      .select()
       .single();
     
     if (error) {
@@ -162,6 +658,7 @@ export const useFinancialData = () => {
     }
     
     setBankAccounts(prev => prev.map(acc => acc.id === accountId ? mapDbBankAccountToClient(data) : acc));
+    await loadLedger();
   };
 
   const deleteBankAccount = async (accountId: string) => {
@@ -172,6 +669,8 @@ export const useFinancialData = () => {
       { name: 'incomes', field: 'bank_account_id' },
       { name: 'expenses', field: 'bank_account_id' },
       { name: 'bills', field: 'bank_account_id' },
+      { name: 'bill_instances', field: 'bank_account_id' },
+      { name: 'loan_payments', field: 'bank_account_id' },
       { name: 'daily_entries', field: 'income_bank_account_id' },
       { name: 'daily_entries', field: 'expense_bank_account_id' },
       { name: 'business_entries', field: 'profit_account_id' },
@@ -226,13 +725,13 @@ export const useFinancialData = () => {
       return;
     }
     
-    setIncomes(data || []);
+    setIncomes((data || []).map(mapDbIncomeRow));
   };
 
   const addIncome = async (income: Omit<Income, 'id' | 'monthlyAmount'>) => {
     if (!user) return;
     
-    const monthlyAmount = calculateMonthlyAmount(income.amount, income.frequency);
+    const monthlyAmount = calculateMonthlyAmount(income.amount, income.frequency, income.recurrence);
     
     const { data, error } = await supabase
       .from('incomes')
@@ -245,7 +744,7 @@ export const useFinancialData = () => {
       return;
     }
     
-    setIncomes(prev => [{ ...data, monthlyAmount: data.monthly_amount }, ...prev]);
+    setIncomes(prev => [mapDbIncomeRow(data), ...prev]);
   };
 
   const updateIncome = async (incomeId: string, updates: Partial<Income>) => {
@@ -253,13 +752,17 @@ export const useFinancialData = () => {
     
     const dbUpdates: any = { ...updates };
     
-    // Recalculate monthly amount if amount or frequency changed
-    if (updates.amount !== undefined || updates.frequency !== undefined) {
+    // A cleared schedule has to be sent as null to reach the database
+    if ('recurrence' in updates) dbUpdates.recurrence = updates.recurrence || null;
+    
+    // Recalculate monthly amount if amount, frequency or schedule changed
+    if (updates.amount !== undefined || updates.frequency !== undefined || 'recurrence' in updates) {
       const currentIncome = incomes.find(i => i.id === incomeId);
       if (currentIncome) {
         const amount = updates.amount !== undefined ? updates.amount : currentIncome.amount;
         const frequency = updates.frequency !== undefined ? updates.frequency : currentIncome.frequency;
-        dbUpdates.monthly_amount = calculateMonthlyAmount(amount, frequency);
+        const recurrence = 'recurrence' in updates ? updates.recurrence : currentIncome.recurrence;
+        dbUpdates.monthly_amount = calculateMonthlyAmount(amount, frequency, recurrence);
       }
     }
     
@@ -276,7 +779,7 @@ export const useFinancialData = () => {
       return;
     }
     
-    setIncomes(prev => prev.map(inc => inc.id === incomeId ? { ...data, monthlyAmount: data.monthly_amount } : inc));
+    setIncomes(prev => prev.map(inc => inc.id === incomeId ? mapDbIncomeRow(data) : inc));
   };
 
   const deleteIncome = async (incomeId: string) => {
@@ -311,17 +814,25 @@ export const useFinancialData = () => {
       return;
     }
     
-    setExpenses(data || []);
+    setExpenses((data || []).map(mapDbExpenseRow));
   };
 
   const addExpense = async (expense: Omit<Expense, 'id' | 'monthlyAmount'>) => {
     if (!user) return;
     
-    const monthlyAmount = calculateMonthlyAmount(expense.amount, expense.frequency);
+    const monthlyAmount = calculateMonthlyAmount(expense.amount, expense.frequency, expense.recurrence);
+    const { categoryId, linkedBudgetId, linkedGoalId, ...expenseFields } = expense;
     
     const { data, error } = await supabase
       .from('expenses')
-      .insert([{ ...expense, monthly_amount: monthlyAmount, user_id: user.id }])
+      .insert([{
+        ...expenseFields,
+        category_id: categoryId || null,
+        linked_budget_id: linkedBudgetId || null,
+        linked_goal_id: linkedGoalId || null,
+        monthly_amount: monthlyAmount,
+        user_id: user.id
+      }])
       .select()
       .single();
     
@@ -330,21 +841,58 @@ export const useFinancialData = () => {
       return;
     }
     
-    setExpenses(prev => [{ ...data, monthlyAmount: data.monthly_amount }, ...prev]);
+    setExpenses(prev => [mapDbExpenseRow(data), ...prev]);
+    await trainCategorizer([getExpenseExample(data)]);
+  };
+
+  // Insert imported expenses in a single request
+  const importExpenses = async (newExpenses: Omit<Expense, 'id' | 'monthlyAmount'>[]) => {
+    if (!user || newExpenses.length === 0) return 0;
+    
+    const { data, error } = await supabase
+      .from('expenses')
+      .insert(newExpenses.map(expense => ({
+        name: expense.name,
+        amount: expense.amount,
+        category: expense.category,
+        frequency: expense.frequency,
+        monthly_amount: calculateMonthlyAmount(expense.amount, expense.frequency, expense.recurrence),
+        bank_account_id: expense.bankAccountId,
+        category_id: expense.categoryId || null,
+        user_id: user.id
+      })))
+      .select();
+    
+    if (error) {
+      console.error('Error importing expenses:', error);
+      return 0;
+    }
+    
+    setExpenses(prev => [...(data || []).map(mapDbExpenseRow), ...prev]);
+    await trainCategorizer((data || []).map(getExpenseExample));
+    return (data || []).length;
   };
 
   const updateExpense = async (expenseId: string, updates: Partial<Expense>) => {
     if (!user) return;
     
-    const dbUpdates: any = { ...updates };
+    const { categoryId, linkedBudgetId, linkedGoalId, ...expenseUpdates } = updates;
+    const dbUpdates: any = { ...expenseUpdates };
+    
+    // A cleared schedule has to be sent as null to reach the database
+    if ('recurrence' in updates) dbUpdates.recurrence = updates.recurrence || null;
+    if ('categoryId' in updates) dbUpdates.category_id = categoryId || null;
+    if ('linkedBudgetId' in updates) dbUpdates.linked_budget_id = linkedBudgetId || null;
+    if ('linkedGoalId' in updates) dbUpdates.linked_goal_id = linkedGoalId || null;
     
-    // Recalculate monthly amount if amount or frequency changed
-    if (updates.amount !== undefined || updates.frequency !== undefined) {
+    // Recalculate monthly amount if amount, frequency or schedule changed
+    if (updates.amount !== undefined || updates.frequency !== undefined || 'recurrence' in updates) {
       const currentExpense = expenses.find(e => e.id === expenseId);
       if (currentExpense) {
         const amount = updates.amount !== undefined ? updates.amount : currentExpense.amount;
         const frequency = updates.frequency !== undefined ? updates.frequency : currentExpense.frequency;
-        dbUpdates.monthly_amount = calculateMonthlyAmount(amount, frequency);
+        const recurrence = 'recurrence' in updates ? updates.recurrence : currentExpense.recurrence;
+        dbUpdates.monthly_amount = calculateMonthlyAmount(amount, frequency, recurrence);
       }
     }
     
@@ -361,7 +909,13 @@ export const useFinancialData = () => {
       return;
     }
     
-    setExpenses(prev => prev.map(exp => exp.id === expenseId ? { ...data, monthlyAmount: data.monthly_amount } : exp));
+    setExpenses(prev => prev.map(exp => exp.id === expenseId ? mapDbExpenseRow(data) : exp));
+    
+    // A changed category is a correction the categoriser should learn from
+    const previousExpense = expenses.find(e => e.id === expenseId);
+    if (previousExpense && (previousExpense.category !== data.category || previousExpense.name !== data.name)) {
+      await trainCategorizer([getExpenseExample(data)], [getExpenseExample(previousExpense)]);
+    }
   };
 
   const deleteExpense = async (expenseId: string) => {
@@ -378,25 +932,41 @@ export const useFinancialData = () => {
       return;
     }
     
+    const deletedExpense = expenses.find(e => e.id === expenseId);
     setExpenses(prev => prev.filter(exp => exp.id !== expenseId));
+    if (deletedExpense) await trainCategorizer([], [getExpenseExample(deletedExpense)]);
   };
 
   // Loans
   const loadLoans = async () => {
     if (!user) return;
     
-    const { data, error } = await supabase
-      .from('loans')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+    const [loanResult, paymentResult] = await Promise.all([
+      supabase
+        .from('loans')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('loan_payments')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('paid_date', { ascending: false })
+        .order('created_at', { ascending: false })
+    ]);
+    
+    if (loanResult.error) {
+      console.error('Error loading loans:', loanResult.error);
+      return;
+    }
     
-    if (error) {
-      console.error('Error loading loans:', error);
+    if (paymentResult.error) {
+      console.error('Error loading loan payments:', paymentResult.error);
       return;
     }
     
-    setLoans(data || []);
+    setLoans((loanResult.data || []).map(mapDbLoanToClient));
+    setLoanPayments((paymentResult.data || []).map(mapDbLoanPaymentToClient));
   };
 
   const addLoan = async (loan: Omit<Loan, 'id'>) => {
@@ -404,7 +974,7 @@ export const useFinancialData = () => {
     
     const { data, error } = await supabase
       .from('loans')
-      .insert([{ ...loan, user_id: user.id }])
+      .insert([{ ...mapClientLoanToDb(loan), user_id: user.id }])
       .select()
       .single();
     
@@ -413,7 +983,7 @@ export const useFinancialData = () => {
       return;
     }
     
-    setLoans(prev => [data, ...prev]);
+    setLoans(prev => [mapDbLoanToClient(data), ...prev]);
   };
 
   const updateLoan = async (loanId: string, updates: Partial<Loan>) => {
@@ -421,7 +991,7 @@ export const useFinancialData = () => {
     
     const { data, error } = await supabase
       .from('loans')
-      .update(updates)
+      .update(mapClientLoanToDb(updates))
       .eq('id', loanId)
       .eq('user_id', user.id)
       .select()
@@ -432,7 +1002,7 @@ export const useFinancialData = () => {
       return;
     }
     
-    setLoans(prev => prev.map(loan => loan.id === loanId ? data : loan));
+    setLoans(prev => prev.map(loan => loan.id === loanId ? mapDbLoanToClient(data) : loan));
   };
 
   const deleteLoan = async (loanId: string) => {
@@ -450,32 +1020,130 @@ export const useFinancialData = () => {
     }
     
     setLoans(prev => prev.filter(loan => loan.id !== loanId));
+    setLoanPayments(prev => prev.filter(payment => payment.loanId !== loanId));
+    await removeAttachmentsOf('loan', loanId);
+    await refreshBalances();
+  };
+
+  // Pays towards a loan from an account. The payment is split into penalty, interest and
+  // principal by the loan's terms; the principal comes off the loan balance.
+  const recordLoanPayment = async (
+    loanId: string,
+    payment: { amount: number; paidDate: string; bankAccountId?: string }
+  ) => {
+    if (!user) return;
+    
+    const loan = loans.find(l => l.id === loanId);
+    if (!loan) return;
+    
+    const amount = Math.round(payment.amount * 100) / 100;
+    const split = splitLoanPayment(loan, amount, payment.paidDate, loanPayments);
+    
+    const { data, error } = await supabase.rpc('record_loan_payment', {
+      p_loan_id: loanId,
+      p_amount: amount,
+      p_interest: split.interest,
+      p_principal: split.principal,
+      p_penalty: split.penalty,
+      p_paid_date: payment.paidDate,
+      p_bank_account_id: payment.bankAccountId || null,
+      p_next_due_date: getNextLoanDueDate(loan, amount, loanPayments) || null
+    });
+    
+    if (error) {
+      console.error('Error recording loan payment:', error);
+      return;
+    }
+    
+    setLoans(prev => prev.map(l => l.id === loanId ? mapDbLoanToClient(data.loan) : l));
+    setLoanPayments(prev => [mapDbLoanPaymentToClient(data.payment), ...prev]);
+    await refreshBalances();
+  };
+
+  // Deletes a payment; its principal goes back on the loan and its ledger entry is reversed
+  const undoLoanPayment = async (paymentId: string) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase.rpc('undo_loan_payment', { p_payment_id: paymentId });
+    
+    if (error) {
+      console.error('Error undoing loan payment:', error);
+      return;
+    }
+    
+    const loan = mapDbLoanToClient(data.loan);
+    setLoans(prev => prev.map(l => l.id === loan.id ? loan : l));
+    setLoanPayments(prev => prev.filter(payment => payment.id !== paymentId));
+    await refreshBalances();
   };
 
   // Bills
+  const sortBills = (list: Bill[]) => [...list].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
   const loadBills = async () => {
     if (!user) return;
     
-    const { data, error } = await supabase
-      .from('bills')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('due_date', { ascending: true });
+    const [billResult, instanceResult] = await Promise.all([
+      supabase
+        .from('bills')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('due_date', { ascending: true }),
+      supabase
+        .from('bill_instances')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('due_date', { ascending: true })
+    ]);
+    
+    if (billResult.error) {
+      console.error('Error loading bills:', billResult.error);
+      return;
+    }
     
-    if (error) {
-      console.error('Error loading bills:', error);
+    if (instanceResult.error) {
+      console.error('Error loading bill instances:', instanceResult.error);
       return;
     }
     
-    setBills(data || []);
+    setBills((billResult.data || []).map(mapDbBillToClient));
+    setBillInstances((instanceResult.data || []).map(mapDbBillInstanceToClient));
   };
 
+  // Puts a bill and all of its instances, as returned by the database, into state
+  const applyBillResult = (dbBill: Database['public']['Tables']['bills']['Row'], dbInstances: Database['public']['Tables']['bill_instances']['Row'][]) => {
+    const bill = mapDbBillToClient(dbBill);
+    setBills(prev => sortBills([...prev.filter(b => b.id !== bill.id), bill]));
+    setBillInstances(prev => [
+      ...prev.filter(instance => instance.billId !== bill.id),
+      ...dbInstances.map(mapDbBillInstanceToClient)
+    ]);
+  };
+
+  const loadBill = async (billId: string) => {
+    if (!user) return;
+    
+    const [billResult, instanceResult] = await Promise.all([
+      supabase.from('bills').select('*').eq('id', billId).eq('user_id', user.id).single(),
+      supabase.from('bill_instances').select('*').eq('bill_id', billId).eq('user_id', user.id)
+    ]);
+    
+    if (billResult.error || instanceResult.error) {
+      console.error('Error loading bill:', billResult.error || instanceResult.error);
+      return;
+    }
+    
+    applyBillResult(billResult.data, instanceResult.data || []);
+  };
+
+  // The database opens the bill's first instance. A repeating bill that is added as
+  // already paid rolls forward to its next instance straight away.
   const addBill = async (bill: Omit<Bill, 'id'>) => {
     if (!user) return;
     
     const { data, error } = await supabase
       .from('bills')
-      .insert([{ ...bill, user_id: user.id }])
+      .insert([{ ...mapClientBillToDb(bill), user_id: user.id }])
       .select()
       .single();
     
@@ -484,31 +1152,97 @@ export const useFinancialData = () => {
       return;
     }
     
-    setBills(prev => [...prev, data].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()));
+    const added = mapDbBillToClient(data);
+    const nextDueDate = added.isPaid
+      ? getNextBillDueDate(added, { id: '', billId: added.id, dueDate: added.dueDate, expectedAmount: added.amount })
+      : undefined;
+    
+    if (nextDueDate) {
+      const { error: instanceError } = await supabase
+        .from('bill_instances')
+        .insert([{
+          user_id: user.id,
+          bill_id: added.id,
+          due_date: nextDueDate,
+          expected_amount: added.amount,
+          bank_account_id: added.bankAccountId || null
+        }]);
+      
+      if (instanceError) {
+        console.error('Error opening next bill instance:', instanceError);
+      }
+    }
+    
+    await loadBill(added.id);
+    await refreshBalances();
   };
 
   const updateBill = async (billId: string, updates: Partial<Bill>) => {
     if (!user) return;
     
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('bills')
-      .update(updates)
+      .update(mapClientBillToDb(updates))
       .eq('id', billId)
-      .eq('user_id', user.id)
-      .select()
-      .single();
+      .eq('user_id', user.id);
     
     if (error) {
       console.error('Error updating bill:', error);
       return;
     }
     
-    setBills(prev => prev.map(bill => bill.id === billId ? data : bill)
-      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()));
+    // A new amount carries over to the bill's open instances
+    await loadBill(billId);
+  };
+
+  // Pays the instance and opens the bill's next one, in one transaction
+  const recordBillPayment = async (
+    instanceId: string,
+    payment: { amountPaid: number; paidDate: string; bankAccountId?: string }
+  ) => {
+    if (!user) return;
+    
+    const instance = billInstances.find(i => i.id === instanceId);
+    const bill = instance && bills.find(b => b.id === instance.billId);
+    if (!instance || !bill) return;
+    
+    const { data, error } = await supabase.rpc('record_bill_payment', {
+      p_instance_id: instanceId,
+      p_amount_paid: payment.amountPaid,
+      p_paid_date: payment.paidDate,
+      p_bank_account_id: payment.bankAccountId || null,
+      p_next_due_date: getNextBillDueDate(bill, instance) || null
+    });
+    
+    if (error) {
+      console.error('Error recording bill payment:', error);
+      return;
+    }
+    
+    applyBillResult(data.bill, data.instances);
+    await refreshBalances();
   };
 
-  const updateBillPayment = async (billId: string, isPaid: boolean) => {
-    return updateBill(billId, { isPaid });
+  // Reopens a paid instance; its ledger entry is reversed
+  const undoBillPayment = async (instanceId: string) => {
+    if (!user) return;
+    
+    const instance = billInstances.find(i => i.id === instanceId);
+    if (!instance) return;
+    
+    const { error } = await supabase
+      .from('bill_instances')
+      .update({ amount_paid: null, paid_date: null })
+      .eq('id', instanceId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error undoing bill payment:', error);
+      return;
+    }
+    
+    await loadBill(instance.billId);
+    await refreshBalances();
   };
 
   const deleteBill = async (billId: string) => {
@@ -526,6 +1260,9 @@ export const useFinancialData = () => {
     }
     
     setBills(prev => prev.filter(bill => bill.id !== billId));
+    setBillInstances(prev => prev.filter(instance => instance.billId !== billId));
+    await removeAttachmentsOf('bill', billId);
+    await refreshBalances();
   };
 
   // Daily Entries
@@ -536,30 +1273,31 @@ export const useFinancialData = () => {
       .from('daily_entries')
       .select('*')
       .eq('user_id', user.id)
-      .order('date', { ascending: false });
+      .order('date', { ascending: false })
+      .order('time', { ascending: false });
     
     if (error) {
       console.error('Error loading daily entries:', error);
       return;
     }
     
-    setDailyEntries(data || []);
+    setDailyEntries((data || []).map(mapDbDailyEntryToClient));
   };
 
   const addDailyEntry = async (entry: Omit<DailyEntry, 'id'>) => {
     if (!user) return;
     
-    // Check if entry for this date already exists
-    const existingEntry = dailyEntries.find(e => e.date === entry.date);
-    
-    if (existingEntry) {
-      // Update existing entry
-      return updateDailyEntry(existingEntry.id, entry);
+    const splitError = getSplitError(entry);
+    if (splitError) {
+      console.error('Error adding daily entry:', splitError);
+      return;
     }
     
+    // Every entry is its own transaction, so several can share a date
+    const ruled = withSpendingCategory(applyTransactionRules(runnableRules, entry));
     const { data, error } = await supabase
       .from('daily_entries')
-      .insert([{ ...entry, user_id: user.id }])
+      .insert([{ ...mapClientDailyEntryToDb(ruled), user_id: user.id }])
       .select()
       .single();
     
@@ -568,23 +1306,22 @@ export const useFinancialData = () => {
       return;
     }
     
-    setDailyEntries(prev => [data, ...prev]);
+    const newEntry = mapDbDailyEntryToClient(data);
+    setDailyEntries(prev => [newEntry, ...prev]);
+    await refreshBalances();
+    await refreshGoalContributions([newEntry]);
+    await trainCategorizer([getEntryExample(newEntry)]);
     
-    // Update user progress - increment streak
+    // Update user progress - a day counts towards the streak once it has at least one transaction
     if (userProgress) {
       const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-      
-      let streak = userProgress.streak;
-      let longestStreak = userProgress.longestStreak;
       
       if (entry.date === today) {
-        // Check if yesterday had an entry
-        const hasYesterdayEntry = dailyEntries.some(e => e.date === yesterday);
+        const hadEntryToday = dailyEntries.some(e => e.date === today);
         
-        if (hasYesterdayEntry || streak === 0) {
-          streak += 1;
-          longestStreak = Math.max(longestStreak, streak);
+        if (!hadEntryToday) {
+          const streak = calculateActivityStreak([...dailyEntries.map(e => e.date), today], today);
+          const longestStreak = Math.max(userProgress.longestStreak, streak);
           
           await supabase
             .from('user_progress')
@@ -601,12 +1338,47 @@ export const useFinancialData = () => {
     }
   };
 
+  // Insert imported transactions in a single request, skipping external references already imported
+  const importDailyEntries = async (entries: Omit<DailyEntry, 'id'>[]) => {
+    if (!user || entries.length === 0) return 0;
+    
+    const { data, error } = await supabase
+      .from('daily_entries')
+      .upsert(
+        entries
+          .map(entry => withSpendingCategory(applyTransactionRules(runnableRules, entry)))
+          .map(entry => ({ ...mapClientDailyEntryToDb(entry), user_id: user.id })),
+        { onConflict: 'user_id,external_reference', ignoreDuplicates: true }
+      )
+      .select();
+    
+    if (error) {
+      console.error('Error importing daily entries:', error);
+      return 0;
+    }
+    
+    const importedEntries = (data || []).map(mapDbDailyEntryToClient);
+    setDailyEntries(prev => [...importedEntries, ...prev]
+      .sort((a, b) => b.date.localeCompare(a.date) || (b.time || '').localeCompare(a.time || '')));
+    await refreshBalances();
+    await refreshGoalContributions(importedEntries);
+    await trainCategorizer(importedEntries.map(getEntryExample));
+    return importedEntries.length;
+  };
+
   const updateDailyEntry = async (entryId: string, updates: Partial<DailyEntry>) => {
     if (!user) return;
     
+    const previousEntry = dailyEntries.find(entry => entry.id === entryId);
+    const splitError = previousEntry && getSplitError({ ...previousEntry, ...updates });
+    if (splitError) {
+      console.error('Error updating daily entry:', splitError);
+      return;
+    }
+    
     const { data, error } = await supabase
       .from('daily_entries')
-      .update(updates)
+      .update(mapClientDailyEntryToDb(updates))
       .eq('id', entryId)
       .eq('user_id', user.id)
       .select()
@@ -617,7 +1389,19 @@ export const useFinancialData = () => {
       return;
     }
     
-    setDailyEntries(prev => prev.map(entry => entry.id === entryId ? data : entry));
+    const updatedEntry = mapDbDailyEntryToClient(data);
+    setDailyEntries(prev => prev.map(entry => entry.id === entryId ? updatedEntry : entry));
+    await refreshBalances();
+    await refreshGoalContributions([previousEntry, updatedEntry]);
+    
+    // A changed category is a correction the categoriser should learn from
+    if (previousEntry && (
+      previousEntry.category !== updatedEntry.category
+      || previousEntry.description !== updatedEntry.description
+      || previousEntry.expenses !== updatedEntry.expenses
+    )) {
+      await trainCategorizer([getEntryExample(updatedEntry)], [getEntryExample(previousEntry)]);
+    }
   };
 
   const deleteDailyEntry = async (entryId: string) => {
@@ -634,7 +1418,12 @@ export const useFinancialData = () => {
       return;
     }
     
+    const deletedEntry = dailyEntries.find(entry => entry.id === entryId);
     setDailyEntries(prev => prev.filter(entry => entry.id !== entryId));
+    await removeAttachmentsOf('dailyEntry', entryId);
+    await refreshBalances();
+    await refreshGoalContributions([deletedEntry]);
+    if (deletedEntry) await trainCategorizer([], [getEntryExample(deletedEntry)]);
   };
 
   // Business Entries
@@ -670,6 +1459,7 @@ export const useFinancialData = () => {
     }
     
     setBusinessEntries(prev => [data, ...prev]);
+    await refreshBalances();
   };
 
   const updateBusinessEntry = async (entryId: string, updates: Partial<BusinessEntry>) => {
@@ -689,6 +1479,7 @@ export const useFinancialData = () => {
     }
     
     setBusinessEntries(prev => prev.map(entry => entry.id === entryId ? data : entry));
+    await refreshBalances();
   };
 
   const deleteBusinessEntry = async (entryId: string) => {
@@ -706,6 +1497,8 @@ export const useFinancialData = () => {
     }
     
     setBusinessEntries(prev => prev.filter(entry => entry.id !== entryId));
+    await removeAttachmentsOf('businessEntry', entryId);
+    await refreshBalances();
   };
 
   // Transfers
@@ -723,176 +1516,810 @@ export const useFinancialData = () => {
       return;
     }
     
-    setTransfers(data || []);
+    setTransfers((data || []).map(mapDbTransferToClient));
+  };
+
+  // Reconcile local state with the rows returned by a transfer RPC
+  const applyTransferResult = (result: TransferResult) => {
+    const updatedAccounts = [result.from_account, result.to_account]
+      .filter(Boolean)
+      .map(mapDbBankAccountToClient);
+    
+    setBankAccounts(prev => prev.map(acc => 
+      updatedAccounts.find(updated => updated.id === acc.id) || acc
+    ));
   };
 
+  // Errors are thrown for the transfer manager to show
   const addTransfer = async (transfer: Omit<Transfer, 'id'>) => {
     if (!user) return;
     
-    // Start a transaction to update account balances
-    const fromAccount = bankAccounts.find(acc => acc.id === transfer.fromAccountId);
-    const toAccount = bankAccounts.find(acc => acc.id === transfer.toAccountId);
+    // Balances and overdraft usage are updated in the same transaction as the insert
+    const { data, error } = await supabase.rpc('create_transfer', {
+      p_from_account_id: transfer.fromAccountId,
+      p_to_account_id: transfer.toAccountId,
+      p_amount: transfer.amount,
+      p_description: transfer.description,
+      p_is_loan: transfer.isLoan,
+      p_date: transfer.date,
+      p_exchange_rate: transfer.exchangeRate
+    });
     
-    if (!fromAccount || !toAccount) {
-      console.error('Source or destination account not found');
-      return;
+    if (error) {
+      console.error('Error processing transfer:', error);
+      throw new Error(error.message);
     }
     
-    // Calculate new balances
-    const fromBalance = fromAccount.balance - transfer.amount;
-    let fromOverdraftUsed = fromAccount.overdraftUsed || 0;
-    
-    // If balance goes negative and account has overdraft
-    if (fromBalance < 0 && fromAccount.hasOverdraft) {
-      const overdraftNeeded = Math.abs(fromBalance);
-      fromOverdraftUsed = Math.min(fromOverdraftUsed + overdraftNeeded, fromAccount.overdraftLimit || 0);
-    }
+    setTransfers(prev => [mapDbTransferToClient(data.transfer), ...prev]);
+    applyTransferResult(data);
+    await loadLedger();
+  };
+
+  // Errors are thrown for the transfer manager to show
+  const deleteTransfer = async (transferId: string) => {
+    if (!user) return;
     
-    const toBalance = toAccount.balance + transfer.amount;
+    const { data, error } = await supabase.rpc('delete_transfer', {
+      p_transfer_id: transferId
+    });
     
-    try {
-      // Insert transfer record
-      const { data, error } = await supabase
-        .from('transfers')
-        .insert([{ ...transfer, user_id: user.id }])
-        .select()
-        .single();
-      
-      if (error) throw error;
-      
-      // Update source account
-      const { error: fromError } = await supabase
-        .from('bank_accounts')
-        .update({ 
-          balance: fromBalance,
-          overdraft_used: fromAccount.hasOverdraft ? fromOverdraftUsed : undefined
-        })
-        .eq('id', fromAccount.id)
-        .eq('user_id', user.id);
-      
-      if (fromError) throw fromError;
-      
-      // Update destination account
-      const { error: toError } = await supabase
-        .from('bank_accounts')
-        .update({ balance: toBalance })
-        .eq('id', toAccount.id)
-        .eq('user_id', user.id);
-      
-      if (toError) throw toError;
-      
-      // Update local state
-      setTransfers(prev => [data, ...prev]);
-      setBankAccounts(prev => prev.map(acc => {
-        if (acc.id === fromAccount.id) {
-          return { 
-            ...acc, 
-            balance: fromBalance,
-            overdraftUsed: fromAccount.hasOverdraft ? fromOverdraftUsed : acc.overdraftUsed
-          };
-        }
-        if (acc.id === toAccount.id) {
-          return { ...acc, balance: toBalance };
-        }
-        return acc;
-      }));
-      
-    } catch (error) {
-      console.error('Error processing transfer:', error);
+    if (error) {
+      console.error('Error deleting transfer:', error);
+      throw new Error(error.message);
     }
+    
+    setTransfers(prev => prev.filter(t => t.id !== transferId));
+    applyTransferResult(data);
+    await loadLedger();
   };
 
-  const deleteTransfer = async (transferId: string) => {
+  // Exchange Rates
+  const loadExchangeRates = async () => {
     if (!user) return;
     
-    // Get the transfer details
-    const transfer = transfers.find(t => t.id === transferId);
-    if (!transfer) {
-      console.error('Transfer not found');
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('rate_date', { ascending: false });
+    
+    if (error) {
+      console.error('Error loading exchange rates:', error);
       return;
     }
     
-    // Get the accounts
-    const fromAccount = bankAccounts.find(acc => acc.id === transfer.fromAccountId);
-    const toAccount = bankAccounts.find(acc => acc.id === transfer.toAccountId);
+    setExchangeRates((data || []).map(mapDbExchangeRateToClient));
+  };
+
+  // A pair has one rate per day, so saving a rate for the same day replaces it
+  const importExchangeRates = async (rates: Omit<ExchangeRate, 'id'>[]) => {
+    if (!user || rates.length === 0) return 0;
+    
+    const rows = rates.map(rate => ({
+      user_id: user.id,
+      from_currency: rate.fromCurrency,
+      to_currency: rate.toCurrency,
+      rate: rate.rate,
+      rate_date: rate.date,
+      source: rate.source
+    }));
+    
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(rows, { onConflict: 'user_id,from_currency,to_currency,rate_date' })
+      .select();
     
-    if (!fromAccount || !toAccount) {
-      console.error('Source or destination account not found');
+    if (error) {
+      console.error('Error saving exchange rates:', error);
       return;
     }
     
-    // Calculate reversed balances
-    const fromBalance = fromAccount.balance + transfer.amount;
-    let fromOverdraftUsed = fromAccount.overdraftUsed || 0;
+    const saved = (data || []).map(mapDbExchangeRateToClient);
+    setExchangeRates(prev => [
+      ...saved,
+      ...prev.filter(rate => !saved.some(s => s.fromCurrency === rate.fromCurrency && s.toCurrency === rate.toCurrency && s.date === rate.date))
+    ].sort((a, b) => b.date.localeCompare(a.date)));
+    return saved.length;
+  };
+
+  const addExchangeRate = async (rate: Omit<ExchangeRate, 'id'>) => {
+    await importExchangeRates([rate]);
+  };
+
+  const deleteExchangeRate = async (rateId: string) => {
+    if (!user) return;
     
-    // If account has overdraft and was using it, reduce the overdraft used
-    if (fromAccount.hasOverdraft && fromOverdraftUsed > 0) {
-      const currentNegativeBalance = Math.min(0, fromAccount.balance);
-      if (currentNegativeBalance < 0) {
-        // First apply to negative balance
-        const remainingAmount = transfer.amount - Math.abs(currentNegativeBalance);
-        if (remainingAmount > 0) {
-          // Then reduce overdraft used
-          fromOverdraftUsed = Math.max(0, fromOverdraftUsed - remainingAmount);
-        }
-      } else {
-        // Just reduce overdraft used
-        fromOverdraftUsed = Math.max(0, fromOverdraftUsed - transfer.amount);
-      }
-    }
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', rateId)
+      .eq('user_id', user.id);
     
-    const toBalance = toAccount.balance - transfer.amount;
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      return;
+    }
     
-    try {
-      // Delete transfer record
-      const { error } = await supabase
-        .from('transfers')
-        .delete()
-        .eq('id', transferId)
-        .eq('user_id', user.id);
+    setExchangeRates(prev => prev.filter(rate => rate.id !== rateId));
+  };
+
+  // Recurring Rules
+  const loadRecurringRules = async () => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('next_occurrence', { ascending: true });
+    
+    if (error) {
+      console.error('Error loading recurring rules:', error);
+      return;
+    }
+    
+    const rules = (data || []).map(mapDbRecurringRuleToClient);
+    setRecurringRules(rules);
+    await generateRecurringEntries(rules);
+  };
+
+  const addRecurringRule = async (rule: Omit<RecurringTransaction, 'id' | 'lastGenerated'>) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .insert([{ ...mapClientRecurringRuleToDb(rule), user_id: user.id }])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error adding recurring rule:', error);
+      return;
+    }
+    
+    const newRule = mapDbRecurringRuleToClient(data);
+    setRecurringRules(prev => [...prev, newRule].sort((a, b) => a.nextOccurrence.localeCompare(b.nextOccurrence)));
+    await generateRecurringEntries([newRule]);
+  };
+
+  const updateRecurringRule = async (ruleId: string, updates: Partial<RecurringTransaction>) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .update(mapClientRecurringRuleToDb(updates))
+      .eq('id', ruleId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating recurring rule:', error);
+      return;
+    }
+    
+    const updatedRule = mapDbRecurringRuleToClient(data);
+    setRecurringRules(prev => prev.map(rule => rule.id === ruleId ? updatedRule : rule));
+    await generateRecurringEntries([updatedRule]);
+  };
+
+  const deleteRecurringRule = async (ruleId: string) => {
+    if (!user) return;
+    
+    const { error } = await supabase
+      .from('recurring_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error deleting recurring rule:', error);
+      return;
+    }
+    
+    setRecurringRules(prev => prev.filter(rule => rule.id !== ruleId));
+  };
+
+  // Materialise every occurrence that has come due since each rule last ran. Entries carry
+  // a per-occurrence reference and are upserted with ignoreDuplicates, so running this
+  // again after a reload, or from a second tab, never posts anything twice.
+  const generateRecurringEntries = async (rules: RecurringTransaction[] = recurringRules) => {
+    if (!user) return 0;
+    
+    let generated = 0;
+    
+    for (const rule of rules) {
+      const catchUp = buildRecurringCatchUp(rule);
+      if (!catchUp) continue;
       
-      if (error) throw error;
+      if (catchUp.dailyEntries.length > 0) {
+        const { data, error } = await supabase
+          .from('daily_entries')
+          .upsert(
+            catchUp.dailyEntries.map(entry => ({ ...mapClientDailyEntryToDb(entry), user_id: user.id })),
+            { onConflict: 'user_id,external_reference', ignoreDuplicates: true }
+          )
+          .select();
+        
+        if (error) {
+          console.error('Error generating recurring entries:', error);
+          continue;
+        }
+        generated += (data || []).length;
+      }
       
-      // Update source account
-      const { error: fromError } = await supabase
-        .from('bank_accounts')
-        .update({ 
-          balance: fromBalance,
-          overdraft_used: fromAccount.hasOverdraft ? fromOverdraftUsed : undefined
+      if (catchUp.bills.length > 0) {
+        const { data, error } = await supabase
+          .from('bills')
+          .upsert(
+            catchUp.bills.map(bill => ({
+              name: bill.name,
+              amount: bill.amount,
+              due_date: bill.dueDate,
+              frequency: bill.frequency,
+              category: bill.category,
+              is_paid: bill.isPaid,
+              bank_account_id: bill.bankAccountId,
+              recurring_rule_id: bill.recurringRuleId,
+              user_id: user.id
+            })),
+            { onConflict: 'recurring_rule_id,due_date', ignoreDuplicates: true }
+          )
+          .select();
+        
+        if (error) {
+          console.error('Error generating recurring bills:', error);
+          continue;
+        }
+        generated += (data || []).length;
+      }
+      
+      const { error } = await supabase
+        .from('recurring_rules')
+        .update({
+          next_occurrence: catchUp.nextOccurrence,
+          last_generated: catchUp.lastGenerated,
+          recurrence: catchUp.recurrence
         })
-        .eq('id', fromAccount.id)
+        .eq('id', rule.id)
         .eq('user_id', user.id);
       
-      if (fromError) throw fromError;
+      if (error) {
+        console.error('Error advancing recurring rule:', error);
+        continue;
+      }
       
-      // Update destination account
-      const { error: toError } = await supabase
-        .from('bank_accounts')
-        .update({ balance: toBalance })
-        .eq('id', toAccount.id)
-        .eq('user_id', user.id);
+      setRecurringRules(prev => prev.map(r => r.id === rule.id
+        ? { ...r, nextOccurrence: catchUp.nextOccurrence, lastGenerated: catchUp.lastGenerated, recurrence: catchUp.recurrence }
+        : r
+      ));
+    }
+    
+    if (generated > 0) {
+      await Promise.all([loadDailyEntries(), loadBills(), refreshBalances()]);
+    }
+    
+    return generated;
+  };
+
+  // Transaction categoriser
+  const loadCategorizerModel = async () => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('categorizer_models')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    
+    if (error) {
+      console.error('Error loading categorizer model:', error);
+      return;
+    }
+    
+    if (data?.model.calibration) {
+      categorizerModelRef.current = data.model;
+      setCategorizerModel(data.model);
+      return;
+    }
+    
+    // First run, or a model saved before calibration was kept: learn from everything
+    // the user has already categorised
+    const [entriesResult, expensesResult] = await Promise.all([
+      supabase
+        .from('daily_entries')
+        .select('description, expenses, category')
+        .eq('user_id', user.id)
+        .gt('expenses', 0),
+      supabase
+        .from('expenses')
+        .select('name, amount, category')
+        .eq('user_id', user.id)
+    ]);
+    
+    if (entriesResult.error || expensesResult.error) {
+      console.error('Error loading categorizer history:', entriesResult.error || expensesResult.error);
+      return;
+    }
+    
+    const examples = [
+      ...(entriesResult.data || []).map(entry => getEntryExample({ ...entry, expenses: Number(entry.expenses) || 0 })),
+      ...(expensesResult.data || []).map(expense => getExpenseExample({ ...expense, amount: Number(expense.amount) || 0 }))
+    ].filter((example): example is CategorizerExample => !!example);
+    
+    await saveCategorizerModel(buildCategorizerModel(examples));
+  };
+
+  const saveCategorizerModel = async (model: CategorizerModel) => {
+    if (!user) return;
+    
+    categorizerModelRef.current = model;
+    setCategorizerModel(model);
+    
+    const { error } = await supabase
+      .from('categorizer_models')
+      .upsert(
+        { user_id: user.id, model, trained_examples: countCategorizerExamples(model) },
+        { onConflict: 'user_id' }
+      );
+    
+    if (error) {
+      console.error('Error saving categorizer model:', error);
+    }
+  };
+
+  // Keep the categoriser in step with the categorised history: learn the added
+  // transactions and forget the removed ones (the old version of a corrected one)
+  const trainCategorizer = async (
+    added: (CategorizerExample | null)[],
+    removed: (CategorizerExample | null)[] = []
+  ) => {
+    if (!categorizerModelRef.current) return;
+    
+    const isExample = (example: CategorizerExample | null): example is CategorizerExample => !!example;
+    const toAdd = added.filter(isExample);
+    const toRemove = removed.filter(isExample);
+    if (toAdd.length === 0 && toRemove.length === 0) return;
+    
+    await saveCategorizerModel(updateCategorizerModel(categorizerModelRef.current, toAdd, toRemove));
+  };
+
+  // Transaction Rules
+  const loadTransactionRules = async () => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('transaction_rules')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('priority', { ascending: true });
+    
+    if (error) {
+      console.error('Error loading transaction rules:', error);
+      return;
+    }
+    
+    setTransactionRules((data || []).map(mapDbTransactionRuleToClient));
+  };
+
+  const sortRules = (rules: TransactionRule[]) => [...rules].sort((a, b) => a.priority - b.priority);
+
+  const addTransactionRule = async (rule: Omit<TransactionRule, 'id'>) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('transaction_rules')
+      .insert([{ ...mapClientTransactionRuleToDb(rule), user_id: user.id }])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error adding transaction rule:', error);
+      return;
+    }
+    
+    setTransactionRules(prev => sortRules([...prev, mapDbTransactionRuleToClient(data)]));
+  };
+
+  const updateTransactionRule = async (ruleId: string, updates: Partial<TransactionRule>) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('transaction_rules')
+      .update(mapClientTransactionRuleToDb(updates))
+      .eq('id', ruleId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating transaction rule:', error);
+      return;
+    }
+    
+    setTransactionRules(prev => sortRules(prev.map(rule => rule.id === ruleId ? mapDbTransactionRuleToClient(data) : rule)));
+  };
+
+  const deleteTransactionRule = async (ruleId: string) => {
+    if (!user) return;
+    
+    const { error } = await supabase
+      .from('transaction_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error deleting transaction rule:', error);
+      return;
+    }
+    
+    setTransactionRules(prev => prev.filter(rule => rule.id !== ruleId));
+  };
+
+  // The rules as they run on new entries, without links to deleted budgets and goals
+  const runnableRules = useMemo(() => {
+    const budgetIds = new Set(storedBudgets.map(budget => budget.id));
+    const goalIds = new Set(goals.map(goal => goal.id));
+    const categoryIds = new Set(spendingCategories.map(category => category.id));
+    return transactionRules.map(rule => dropMissingRuleLinks(rule, budgetIds, goalIds, categoryIds));
+  }, [transactionRules, storedBudgets, goals, spendingCategories]);
+
+  const previewTransactionRuleChanges = () => previewTransactionRules(runnableRules, dailyEntries);
+
+  // Write a previewed re-apply back to the history. Split shares live on the entry
+  // itself, so one upsert statement writes every change or none of them. Errors are
+  // thrown for the caller to show.
+  const applyTransactionRulePreviews = async (previews: TransactionRulePreview[]) => {
+    if (!user || previews.length === 0) return 0;
+    
+    const { error } = await supabase
+      .from('daily_entries')
+      .upsert(previews.map(({ updated }) => ({ ...mapClientDailyEntryToDb(updated), id: updated.id, user_id: user.id })));
+    
+    if (error) {
+      console.error('Error applying transaction rules:', error);
+      throw new Error(error.message);
+    }
+    
+    await Promise.all([loadDailyEntries(), refreshBalances()]);
+    await refreshGoalContributions(previews.flatMap(({ entry, updated }) => [entry, updated]));
+    await trainCategorizer(
+      previews.map(({ updated }) => getEntryExample(updated)),
+      previews.map(({ entry }) => getEntryExample(entry))
+    );
+    return previews.length;
+  };
+
+  // Spending Categories
+  const loadSpendingCategories = async () => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('spending_categories')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('sort_order', { ascending: true });
+    
+    if (error) {
+      console.error('Error loading spending categories:', error);
+      return;
+    }
+    
+    if (!data || data.length === 0) {
+      await createDefaultSpendingCategories();
+      return;
+    }
+    
+    setSpendingCategories(data.map(mapDbSpendingCategoryToClient));
+  };
+
+  const createDefaultSpendingCategories = async () => {
+    if (!user) return;
+    
+    const { error } = await supabase.rpc('create_default_spending_categories');
+    
+    if (error) {
+      console.error('Error creating default spending categories:', error);
+      return;
+    }
+    
+    const { data, error: loadError } = await supabase
+      .from('spending_categories')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('sort_order', { ascending: true });
+    
+    if (loadError) {
+      console.error('Error loading spending categories:', loadError);
+      return;
+    }
+    
+    setSpendingCategories((data || []).map(mapDbSpendingCategoryToClient));
+  };
+
+  const addSpendingCategory = async (category: Omit<SpendingCategory, 'id'>) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('spending_categories')
+      .insert([{ ...mapClientSpendingCategoryToDb(category), user_id: user.id }])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error adding spending category:', error);
+      return;
+    }
+    
+    setSpendingCategories(prev => [...prev, mapDbSpendingCategoryToClient(data)]);
+  };
+
+  // Entries filed under a category take its need/want type, so a changed type is
+  // carried over to them
+  const updateSpendingCategory = async (categoryId: string, updates: Partial<SpendingCategory>) => {
+    if (!user) return;
+    
+    const current = spendingCategories.find(category => category.id === categoryId);
+    
+    const { data, error } = await supabase
+      .from('spending_categories')
+      .update(mapClientSpendingCategoryToDb(updates))
+      .eq('id', categoryId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating spending category:', error);
+      return;
+    }
+    
+    const updated = mapDbSpendingCategoryToClient(data);
+    setSpendingCategories(prev => prev.map(category => category.id === categoryId ? updated : category));
+    
+    if (current && current.type !== updated.type) {
+      // Split lines filed under the category take its new type too
+      const splitEntries = dailyEntries
+        .filter(entry => entry.splits?.some(line => line.categoryId === categoryId))
+        .map(entry => ({
+          id: entry.id,
+          splits: (entry.splits || []).map(line => line.categoryId === categoryId ? { ...line, category: updated.type } : line)
+        }));
       
-      if (toError) throw toError;
+      const results = await Promise.all([
+        supabase
+          .from('daily_entries')
+          .update({ category: updated.type })
+          .eq('category_id', categoryId)
+          .eq('user_id', user.id),
+        supabase
+          .from('expenses')
+          .update({ category: updated.type })
+          .eq('category_id', categoryId)
+          .eq('user_id', user.id),
+        supabase
+          .from('recurring_rules')
+          .update({ category: updated.type })
+          .eq('category_id', categoryId)
+          .eq('user_id', user.id),
+        ...splitEntries.map(entry =>
+          supabase
+            .from('daily_entries')
+            .update({ splits: entry.splits })
+            .eq('id', entry.id)
+            .eq('user_id', user.id)
+        )
+      ]);
       
-      // Update local state
-      setTransfers(prev => prev.filter(t => t.id !== transferId));
-      setBankAccounts(prev => prev.map(acc => {
-        if (acc.id === fromAccount.id) {
-          return { 
-            ...acc, 
-            balance: fromBalance,
-            overdraftUsed: fromAccount.hasOverdraft ? fromOverdraftUsed : acc.overdraftUsed
-          };
-        }
-        if (acc.id === toAccount.id) {
-          return { ...acc, balance: toBalance };
-        }
-        return acc;
-      }));
+      const failed = results.find(result => result.error);
+      if (failed) {
+        console.error('Error updating category type:', failed.error);
+        return;
+      }
       
-    } catch (error) {
-      console.error('Error deleting transfer:', error);
+      setDailyEntries(prev => prev.map(entry => {
+        const splitEntry = splitEntries.find(split => split.id === entry.id);
+        const withSplits = splitEntry ? { ...entry, splits: splitEntry.splits } : entry;
+        return withSplits.categoryId === categoryId ? { ...withSplits, category: updated.type } : withSplits;
+      }));
+      setExpenses(prev => prev.map(expense => expense.categoryId === categoryId ? { ...expense, category: updated.type } : expense));
+      setRecurringRules(prev => prev.map(rule => rule.categoryId === categoryId ? { ...rule, category: updated.type } : rule));
+    }
+  };
+
+  // Subcategories are deleted with their parent and anything filed under them becomes
+  // uncategorised, keeping its need/want type
+  const deleteSpendingCategory = async (categoryId: string) => {
+    if (!user) return;
+    
+    const { error } = await supabase
+      .from('spending_categories')
+      .delete()
+      .eq('id', categoryId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error deleting spending category:', error);
+      return;
+    }
+    
+    const removed = getCategoryDescendantIds(spendingCategories, categoryId);
+    const uncategorise = <T extends { categoryId?: string }>(item: T): T =>
+      item.categoryId && removed.has(item.categoryId) ? { ...item, categoryId: undefined } : item;
+    
+    setSpendingCategories(prev => prev.filter(category => !removed.has(category.id)));
+    setDailyEntries(prev => prev.map(uncategorise));
+    setExpenses(prev => prev.map(uncategorise));
+    setRecurringRules(prev => prev.map(uncategorise));
+  };
+
+  // New expense entries the categoriser has a suggestion for are filed under the
+  // category standing for it, unless a category was chosen already
+  const withSpendingCategory = <T extends Omit<DailyEntry, 'id'>>(entry: T): T => {
+    if (entry.categoryId || entry.expenses <= 0) return entry;
+    
+    const category = getCategoryForAiCategory(spendingCategories, entry.aiCategory, entry.category);
+    return category ? { ...entry, categoryId: category.id } : entry;
+  };
+
+  // Attachments
+  const loadAttachments = async () => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error loading attachments:', error);
+      return;
+    }
+    
+    setAttachments((data || []).map(mapDbAttachmentToClient));
+  };
+
+  // Uploads the file (and a thumbnail of an image) before recording it, and removes the
+  // upload again if it can't be recorded. Returns why the file was refused, if it was.
+  const addAttachment = async (parentType: AttachmentParentType, parentId: string, file: File) => {
+    if (!user) return;
+    
+    const fileError = getAttachmentError(file);
+    if (fileError) return fileError;
+    
+    const id = crypto.randomUUID();
+    const storagePath = getAttachmentPath(user.id, id, file.name);
+    const { error: uploadError } = await attachmentStorage.upload(storagePath, file);
+    
+    if (uploadError) {
+      console.error('Error uploading attachment:', uploadError);
+      return `${file.name} could not be uploaded.`;
+    }
+    
+    // A missing thumbnail only means the list shows an icon instead
+    let thumbnailPath: string | null = null;
+    if (isImageAttachment({ contentType: file.type })) {
+      const thumbnail = await createImageThumbnail(file);
+      if (thumbnail && !(await attachmentStorage.upload(getThumbnailPath(user.id, id), thumbnail)).error) {
+        thumbnailPath = getThumbnailPath(user.id, id);
+      }
+    }
+    
+    const { data, error } = await supabase
+      .from('attachments')
+      .insert([{
+        id,
+        user_id: user.id,
+        [ATTACHMENT_PARENT_COLUMNS[parentType]]: parentId,
+        file_name: file.name,
+        content_type: file.type,
+        size: file.size,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath
+      }])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error adding attachment:', error);
+      await attachmentStorage.remove(thumbnailPath ? [storagePath, thumbnailPath] : [storagePath]);
+      return `${file.name} could not be attached.`;
+    }
+    
+    setAttachments(prev => [...prev, mapDbAttachmentToClient(data)]);
+  };
+
+  const deleteAttachment = async (attachmentId: string) => {
+    if (!user) return;
+    
+    const attachment = attachments.find(a => a.id === attachmentId);
+    const { error } = await supabase
+      .from('attachments')
+      .delete()
+      .eq('id', attachmentId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error deleting attachment:', error);
+      return;
+    }
+    
+    if (attachment) await removeAttachmentFiles([attachment]);
+    setAttachments(prev => prev.filter(a => a.id !== attachmentId));
+  };
+
+  // The database deletes a record's attachments along with it; their files are removed here
+  const removeAttachmentsOf = async (parentType: AttachmentParentType, parentId: string) => {
+    const removed = attachments.filter(a => a.parentType === parentType && a.parentId === parentId);
+    if (removed.length === 0) return;
+    
+    await removeAttachmentFiles(removed);
+    setAttachments(prev => prev.filter(a => !removed.some(r => r.id === a.id)));
+  };
+
+  const removeAttachmentFiles = async (removed: Attachment[]) => {
+    const { error } = await attachmentStorage.remove(getAttachmentFilePaths(removed));
+    if (error) {
+      console.error('Error removing attachment files:', error);
+    }
+  };
+
+  // Ledger
+  const loadLedger = async () => {
+    if (!user) return;
+    
+    const [ledgerResult, reconciliationResult] = await Promise.all([
+      supabase
+        .from('account_ledger')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('account_reconciliation')
+        .select('*')
+        .eq('user_id', user.id)
+    ]);
+    
+    if (ledgerResult.error) {
+      console.error('Error loading ledger entries:', ledgerResult.error);
+    } else {
+      setLedgerEntries((ledgerResult.data || []).map(mapDbLedgerEntryToClient));
+    }
+    
+    if (reconciliationResult.error) {
+      console.error('Error loading account reconciliation:', reconciliationResult.error);
+    } else {
+      setReconciliations((reconciliationResult.data || []).map(mapDbReconciliationToClient));
+    }
+  };
+
+  // Balances are maintained by the ledger triggers, so reload both after a balance-affecting change
+  const refreshBalances = async () => {
+    await Promise.all([loadBankAccounts(), loadLedger()]);
+  };
+
+  // Split lines linked to a goal add to its current amount in the database
+  const refreshGoalContributions = async (entries: (Omit<DailyEntry, 'id'> | undefined)[]) => {
+    if (entries.some(entry => entry?.splits?.some(line => line.linkedGoalId))) await loadGoals();
+  };
+
+  const reconcileAccount = async (accountId: string, mode: 'ledger' | 'stored') => {
+    if (!user) return;
+    
+    const { error } = await supabase.rpc('reconcile_account', {
+      p_account_id: accountId,
+      p_mode: mode
+    });
+    
+    if (error) {
+      console.error('Error reconciling account:', error);
+      return;
     }
+    
+    await refreshBalances();
   };
 
   // Expected Payments
@@ -1047,6 +2474,7 @@ export const useFinancialData = () => {
     }
     
     setExpectedPayments(prev => prev.filter(payment => payment.id !== paymentId));
+    await removeAttachmentsOf('expectedPayment', paymentId);
   };
 
   // Financial Goals
@@ -1121,21 +2549,196 @@ export const useFinancialData = () => {
       alert('This goal is used in business entries. Please update those entries first.');
       return;
     }
-    
+    
+    const { error } = await supabase
+      .from('financial_goals')
+      .delete()
+      .eq('id', goalId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error deleting goal:', error);
+      return;
+    }
+    
+    setGoals(prev => prev.filter(goal => goal.id !== goalId));
+  };
+
+  // Budgets
+  const loadBudgets = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading budgets:', error);
+      return;
+    }
+
+    setStoredBudgets((data || []).map(mapDbBudgetToClient));
+  };
+
+  const addBudget = async (budget: Omit<Budget, 'id' | 'spentAmount' | 'remainingAmount'>) => {
+    if (!user) return;
+
+    const dbBudget = mapClientBudgetToDb(budget);
+    dbBudget.user_id = user.id;
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .insert([dbBudget])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding budget:', error);
+      return;
+    }
+
+    setStoredBudgets(prev => [mapDbBudgetToClient(data), ...prev]);
+  };
+
+  const updateBudget = async (budgetId: string, updates: Partial<Budget>) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .update(mapClientBudgetToDb(updates))
+      .eq('id', budgetId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating budget:', error);
+      return;
+    }
+
+    setStoredBudgets(prev => prev.map(budget => budget.id === budgetId ? mapDbBudgetToClient(data) : budget));
+  };
+
+  const deleteBudget = async (budgetId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('budgets')
+      .delete()
+      .eq('id', budgetId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting budget:', error);
+      return;
+    }
+
+    setStoredBudgets(prev => prev.filter(budget => budget.id !== budgetId));
+    setBudgetAlerts(prev => prev.filter(alert => alert.budgetId !== budgetId));
+  };
+
+  // Roll spending from daily entries, expenses and business costs up into each budget's current period
+  const budgets = useMemo(() =>
+    applyBudgetSpending(storedBudgets, dailyEntries, expenses, businessEntries),
+    [storedBudgets, dailyEntries, expenses, businessEntries]
+  );
+
+  // Budget Alerts
+  const loadBudgetAlerts = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('budget_alerts')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading budget alerts:', error);
+      return;
+    }
+
+    setBudgetAlerts((data || []).map(mapDbBudgetAlertToClient));
+  };
+
+  // Record an alert whenever a budget crosses its threshold in the current period
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const drafts = generateBudgetAlerts(budgets, budgetAlerts);
+    if (drafts.length === 0) return;
+
+    const recordAlerts = async () => {
+      const { data, error } = await supabase
+        .from('budget_alerts')
+        .upsert(drafts.map(draft => ({
+          user_id: user.id,
+          budget_id: draft.budgetId,
+          budget_name: draft.budgetName,
+          type: draft.type,
+          message: draft.message,
+          percentage: draft.percentage,
+          period_start: draft.periodStart
+        })), { onConflict: 'budget_id,type,period_start', ignoreDuplicates: true })
+        .select();
+
+      if (error) {
+        console.error('Error recording budget alerts:', error);
+        return;
+      }
+
+      const newAlerts = (data || []).map(mapDbBudgetAlertToClient);
+      if (newAlerts.length === 0) return;
+      
+      setBudgetAlerts(prev => [
+        ...newAlerts.filter(alert => !prev.some(existing => existing.id === alert.id)),
+        ...prev
+      ]);
+    };
+
+    recordAlerts();
+  }, [user, loading, budgets, budgetAlerts]);
+
+  const markBudgetAlertAsRead = async (alertId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('budget_alerts')
+      .update({ is_read: true })
+      .eq('id', alertId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error updating budget alert:', error);
+      return;
+    }
+
+    setBudgetAlerts(prev => prev.map(alert => alert.id === alertId ? { ...alert, isRead: true } : alert));
+  };
+
+  // Dismissed alerts stay stored, so the alert effect sees them and doesn't raise them again
+  const dismissBudgetAlert = async (alertId: string) => {
+    if (!user) return;
+
+    const dismissedAt = new Date().toISOString();
     const { error } = await supabase
-      .from('financial_goals')
-      .delete()
-      .eq('id', goalId)
+      .from('budget_alerts')
+      .update({ dismissed_at: dismissedAt })
+      .eq('id', alertId)
       .eq('user_id', user.id);
-    
+
     if (error) {
-      console.error('Error deleting goal:', error);
+      console.error('Error dismissing budget alert:', error);
       return;
     }
-    
-    setGoals(prev => prev.filter(goal => goal.id !== goalId));
+
+    setBudgetAlerts(prev => prev.map(alert => alert.id === alertId ? { ...alert, dismissedAt } : alert));
   };
 
+  const visibleBudgetAlerts = useMemo(() => budgetAlerts.filter(alert => !alert.dismissedAt), [budgetAlerts]);
+
   // User Preferences
   const loadPreferences = async () => {
     if (!user) return;
@@ -1244,6 +2847,25 @@ export const useFinancialData = () => {
   };
 
   // Challenges
+  const mapDbChallengeToClient = (dbChallenge: Database['public']['Tables']['user_challenges']['Row']): Challenge => ({
+    id: dbChallenge.id,
+    title: dbChallenge.title,
+    description: dbChallenge.description,
+    type: dbChallenge.challenge_type,
+    category: dbChallenge.category,
+    target: dbChallenge.target,
+    current: dbChallenge.current,
+    points: dbChallenge.points,
+    deadline: dbChallenge.deadline,
+    isCompleted: dbChallenge.is_completed,
+    isActive: dbChallenge.is_active,
+    difficulty: dbChallenge.difficulty,
+    // Challenges without a metric were archived when specs were introduced and aren't loaded
+    metric: dbChallenge.metric as ChallengeMetric,
+    startDate: dbChallenge.started_at,
+    completedAt: dbChallenge.completed_at || undefined
+  });
+
   const loadChallenges = async () => {
     if (!user) return;
     
@@ -1252,6 +2874,7 @@ export const useFinancialData = () => {
       .select('*')
       .eq('user_id', user.id)
       .eq('is_active', true)
+      .not('metric', 'is', null)
       .order('deadline', { ascending: true });
     
     if (error) {
@@ -1259,65 +2882,23 @@ export const useFinancialData = () => {
       return;
     }
     
-    setChallenges(data || []);
-  };
-
-  const completeChallenge = async (challengeId: string) => {
-    if (!user || !userProgress) return;
-    
-    const challenge = challenges.find(c => c.id === challengeId);
-    if (!challenge) return;
-    
-    // Update challenge
-    const { error: challengeError } = await supabase
-      .from('user_challenges')
-      .update({
-        is_completed: true,
-        current: challenge.target
-      })
-      .eq('id', challengeId)
-      .eq('user_id', user.id);
-    
-    if (challengeError) {
-      console.error('Error completing challenge:', challengeError);
-      return;
-    }
-    
-    // Update user progress
-    const newPoints = userProgress.totalPoints + challenge.points;
-    const { level, currentLevelPoints, nextLevelPoints } = calculateUserLevel(newPoints);
-    
-    const { error: progressError } = await supabase
-      .from('user_progress')
-      .update({
-        total_points: newPoints,
-        level,
-        current_level_points: currentLevelPoints,
-        next_level_points: nextLevelPoints,
-        challenges_completed: userProgress.challengesCompleted + 1,
-        last_activity_date: new Date().toISOString().split('T')[0]
-      })
-      .eq('user_id', user.id);
-    
-    if (progressError) {
-      console.error('Error updating user progress:', progressError);
-      return;
-    }
-    
-    // Update local state
-    setChallenges(prev => prev.map(c => c.id === challengeId ? { ...c, isCompleted: true, current: c.target } : c));
-    setUserProgress({
-      ...userProgress,
-      totalPoints: newPoints,
-      level,
-      currentLevelPoints,
-      nextLevelPoints,
-      challengesCompleted: userProgress.challengesCompleted + 1,
-      lastActivityDate: new Date().toISOString().split('T')[0]
-    });
+    setChallenges((data || []).map(mapDbChallengeToClient));
   };
 
   // User Progress
+  const mapDbUserProgressToClient = (dbProgress: Database['public']['Tables']['user_progress']['Row']): UserProgress => ({
+    totalPoints: dbProgress.total_points,
+    level: dbProgress.level,
+    currentLevelPoints: dbProgress.current_level_points,
+    nextLevelPoints: dbProgress.next_level_points,
+    streak: dbProgress.streak,
+    longestStreak: dbProgress.longest_streak,
+    challengesCompleted: dbProgress.challenges_completed,
+    achievementsUnlocked: dbProgress.achievements_unlocked,
+    financialHealthImprovement: dbProgress.financial_health_improvement,
+    lastActivityDate: dbProgress.last_activity_date || undefined
+  });
+
   const loadUserProgress = async () => {
     if (!user) return;
     
@@ -1333,18 +2914,7 @@ export const useFinancialData = () => {
     }
     
     if (data) {
-      setUserProgress({
-        totalPoints: data.total_points,
-        level: data.level,
-        currentLevelPoints: data.current_level_points,
-        nextLevelPoints: data.next_level_points,
-        streak: data.streak,
-        longestStreak: data.longest_streak,
-        challengesCompleted: data.challenges_completed,
-        achievementsUnlocked: data.achievements_unlocked,
-        financialHealthImprovement: data.financial_health_improvement,
-        lastActivityDate: data.last_activity_date
-      });
+      setUserProgress(mapDbUserProgressToClient(data));
     } else {
       // Create default progress
       createDefaultUserProgress();
@@ -1378,42 +2948,526 @@ export const useFinancialData = () => {
       return;
     }
     
-    setUserProgress({
-      totalPoints: data.total_points,
-      level: data.level,
-      currentLevelPoints: data.current_level_points,
-      nextLevelPoints: data.next_level_points,
-      streak: data.streak,
-      longestStreak: data.longest_streak,
-      challengesCompleted: data.challenges_completed,
-      achievementsUnlocked: data.achievements_unlocked,
-      financialHealthImprovement: data.financial_health_improvement
-    });
+    setUserProgress(mapDbUserProgressToClient(data));
+  };
+
+  // Achievements and celebrations
+  const mapDbCelebrationToClient = (dbCelebration: Database['public']['Tables']['celebrations']['Row']): Celebration => ({
+    id: dbCelebration.celebration_key,
+    type: dbCelebration.type,
+    title: dbCelebration.title,
+    message: dbCelebration.message || '',
+    amount: dbCelebration.amount ?? undefined,
+    icon: dbCelebration.icon || '',
+    color: dbCelebration.color || '',
+    timestamp: dbCelebration.created_at,
+    acknowledged: !!dbCelebration.acknowledged_at
+  });
+
+  const loadAchievements = async () => {
+    if (!user) return;
+    
+    const [achievementResult, celebrationResult] = await Promise.all([
+      supabase
+        .from('achievements')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('unlocked_at', { ascending: true }),
+      supabase
+        .from('celebrations')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true })
+    ]);
+    
+    if (achievementResult.error) {
+      console.error('Error loading achievements:', achievementResult.error);
+      return;
+    }
+    
+    if (celebrationResult.error) {
+      console.error('Error loading celebrations:', celebrationResult.error);
+      return;
+    }
+    
+    setUnlockedAchievements((achievementResult.data || []).map(row => ({
+      id: row.achievement_key,
+      points: row.points,
+      unlockedAt: row.unlocked_at
+    })));
+    setCelebrations((celebrationResult.data || []).map(mapDbCelebrationToClient));
+  };
+
+  // Health score history
+  const mapDbHealthSnapshotToClient = (dbSnapshot: Database['public']['Tables']['health_score_snapshots']['Row']): HealthScoreSnapshot => ({
+    id: dbSnapshot.id,
+    date: dbSnapshot.snapshot_date,
+    score: dbSnapshot.score,
+    level: dbSnapshot.level,
+    factors: dbSnapshot.factors || []
+  });
+
+  const loadHealthSnapshots = async () => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('health_score_snapshots')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('snapshot_date', { ascending: true });
+    
+    if (error) {
+      console.error('Error loading health score history:', error);
+      return;
+    }
+    
+    setHealthSnapshots((data || []).map(mapDbHealthSnapshotToClient));
   };
 
-  // Helper function to calculate user level
-  const calculateUserLevel = (totalPoints: number) => {
-    // Level progression: 100, 250, 500, 1000, 1500, 2500, 4000, 6000, 9000, 13000, etc.
-    const levelThresholds = [0, 100, 250, 500, 1000, 1500, 2500, 4000, 6000, 9000, 13000];
-    
-    let level = 1;
-    let currentLevelPoints = totalPoints;
-    let nextLevelPoints = 100;
-    
-    for (let i = 1; i < levelThresholds.length; i++) {
-      if (totalPoints >= levelThresholds[i]) {
-        level = i + 1;
-        currentLevelPoints = totalPoints - levelThresholds[i];
-        nextLevelPoints = i + 1 < levelThresholds.length 
-          ? levelThresholds[i + 1] - levelThresholds[i]
-          : levelThresholds[i] * 1.5; // For levels beyond predefined thresholds
-      } else {
-        nextLevelPoints = levelThresholds[i] - levelThresholds[i - 1];
-        break;
+  // Aggregates convert foreign-currency accounts and loans into the preferred currency
+  const financialHealth = useMemo(() =>
+    calculateFinancialHealth(
+      incomes, expenses, loans, dailyEntries, businessEntries, goals, bankAccounts, expectedPayments,
+      { baseCurrency: preferences.currency.code, rates: exchangeRates }
+    ),
+    [incomes, expenses, loans, dailyEntries, businessEntries, goals, bankAccounts, expectedPayments, preferences.currency.code, exchangeRates]
+  );
+
+  const achievements = useMemo(() => getAchievementGallery(unlockedAchievements), [unlockedAchievements]);
+
+  const newlyEarnedAchievements = useMemo(() =>
+    getNewlyEarnedAchievements(
+      { dailyEntries, goals, loans, loanPayments, billInstances, userProgress, financialHealth },
+      unlockedAchievements.map(achievement => achievement.id)
+    ),
+    [dailyEntries, goals, loans, loanPayments, billInstances, userProgress, financialHealth, unlockedAchievements]
+  );
+
+  // Unlock the achievements the data has earned, then record what there is to celebrate.
+  // Rows already stored are skipped, so points are never counted twice and each
+  // celebration is shown once.
+  useEffect(() => {
+    if (!user || loading || !userProgress) return;
+
+    const unlockAchievements = async (earned: { id: string; points: number }[]) => {
+      const { data, error } = await supabase
+        .from('achievements')
+        .upsert(
+          earned.map(achievement => ({ user_id: user.id, achievement_key: achievement.id, points: achievement.points })),
+          { onConflict: 'user_id,achievement_key', ignoreDuplicates: true }
+        )
+        .select();
+    
+      if (error) {
+        console.error('Error unlocking achievements:', error);
+        return;
+      }
+    
+      const unlocked: UnlockedAchievement[] = (data || []).map(row => ({
+        id: row.achievement_key,
+        points: row.points,
+        unlockedAt: row.unlocked_at
+      }));
+      if (unlocked.length === 0) return;
+    
+      setUnlockedAchievements(prev => [...prev.filter(a => !unlocked.some(u => u.id === a.id)), ...unlocked]);
+    
+      const { data: progress, error: progressError } = await awardPoints({
+        points: unlocked.reduce((sum, achievement) => sum + achievement.points, 0),
+        achievementsUnlocked: unlocked.length
+      });
+    
+      if (progressError) {
+        console.error('Error updating user progress:', progressError);
+        return;
+      }
+    
+      setUserProgress(mapDbUserProgressToClient(progress));
+    };
+
+    const recordCelebrations = async (newCelebrations: Celebration[]) => {
+      const { data, error } = await supabase
+        .from('celebrations')
+        .upsert(
+          newCelebrations.map(celebration => ({
+            user_id: user.id,
+            celebration_key: celebration.id,
+            type: celebration.type,
+            title: celebration.title,
+            message: celebration.message,
+            amount: celebration.amount ?? null,
+            icon: celebration.icon,
+            color: celebration.color
+          })),
+          { onConflict: 'user_id,celebration_key', ignoreDuplicates: true }
+        )
+        .select();
+    
+      if (error) {
+        console.error('Error recording celebrations:', error);
+        return;
+      }
+    
+      const recorded = (data || []).map(mapDbCelebrationToClient);
+      setCelebrations(prev => [...prev.filter(c => !recorded.some(r => r.id === c.id)), ...recorded]);
+    };
+
+    if (newlyEarnedAchievements.length > 0) {
+      unlockAchievements(newlyEarnedAchievements);
+      return;
+    }
+
+    const newCelebrations = generateCelebrations(goals, userProgress, achievements, celebrations.map(c => c.id));
+    if (newCelebrations.length > 0) recordCelebrations(newCelebrations);
+  }, [user, loading, goals, userProgress, newlyEarnedAchievements, achievements, celebrations]);
+
+  // Measure active challenges against live data one step at a time: archive the ones
+  // past their deadline, store progress, complete the ones that are met and award their
+  // points, then start new challenges in place of archived ones
+  useEffect(() => {
+    if (!user || loading || !userProgress) return;
+
+    const today = new Date().toISOString().split('T')[0];
+    const evaluations = challenges.map(challenge => ({
+      challenge,
+      ...evaluateChallenge(challenge, { dailyEntries, goals, loans }, today)
+    }));
+
+    const archiveChallenges = async (challengeIds: string[]) => {
+      const { error } = await supabase
+        .from('user_challenges')
+        .update({ is_active: false, archived_at: new Date().toISOString() })
+        .in('id', challengeIds)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error archiving challenges:', error);
+        return;
+      }
+
+      setChallenges(prev => prev.filter(c => !challengeIds.includes(c.id)));
+    };
+
+    const updateProgress = async (updates: { id: string; current: number }[]) => {
+      const results = await Promise.all(updates.map(update =>
+        supabase
+          .from('user_challenges')
+          .update({ current: update.current })
+          .eq('id', update.id)
+          .eq('user_id', user.id)
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed) {
+        console.error('Error updating challenge progress:', failed.error);
+        return;
+      }
+
+      setChallenges(prev => prev.map(c => {
+        const update = updates.find(u => u.id === c.id);
+        return update ? { ...c, current: update.current } : c;
+      }));
+    };
+
+    const completeChallenges = async (challengeIds: string[]) => {
+      const { data, error } = await markChallengesCompleted(user.id, challengeIds);
+
+      if (error) {
+        console.error('Error completing challenges:', error);
+        return;
+      }
+
+      const completed = (data || []).map(mapDbChallengeToClient);
+      if (completed.length === 0) return;
+
+      setChallenges(prev => prev.map(c => completed.find(done => done.id === c.id) || c));
+
+      const { data: progress, error: progressError } = await awardPoints({
+        points: completed.reduce((sum, c) => sum + c.points, 0),
+        challengesCompleted: completed.length
+      });
+
+      if (progressError) {
+        console.error('Error updating user progress:', progressError);
+        return;
+      }
+
+      setUserProgress(mapDbUserProgressToClient(progress));
+    };
+
+    const startChallenges = async (drafts: ChallengeDraft[]) => {
+      const { data, error } = await supabase
+        .from('user_challenges')
+        .upsert(drafts.map(draft => ({
+          user_id: user.id,
+          challenge_key: draft.key,
+          challenge_type: draft.type,
+          title: draft.title,
+          description: draft.description,
+          category: draft.category,
+          target: draft.target,
+          current: draft.current,
+          points: draft.points,
+          difficulty: draft.difficulty,
+          deadline: draft.deadline,
+          metric: draft.metric,
+          started_at: draft.startDate
+        })), { onConflict: 'user_id,challenge_key', ignoreDuplicates: true })
+        .select();
+
+      if (error) {
+        console.error('Error starting challenges:', error);
+        return;
+      }
+
+      const started = (data || []).map(mapDbChallengeToClient);
+      if (started.length === 0) return;
+
+      setChallenges(prev => [...prev, ...started].sort((a, b) => a.deadline.localeCompare(b.deadline)));
+    };
+
+    const expired = evaluations.filter(e => today > e.challenge.deadline && (e.challenge.isCompleted || e.status === 'expired'));
+    if (expired.length > 0) {
+      archiveChallenges(expired.map(e => e.challenge.id));
+      return;
+    }
+
+    const changed = evaluations.filter(e => !e.challenge.isCompleted && e.current !== e.challenge.current);
+    if (changed.length > 0) {
+      updateProgress(changed.map(e => ({ id: e.challenge.id, current: e.current })));
+      return;
+    }
+
+    const completed = evaluations.filter(e => !e.challenge.isCompleted && e.status === 'completed');
+    if (completed.length > 0) {
+      completeChallenges(completed.map(e => e.challenge.id));
+      return;
+    }
+
+    const drafts = generateChallenges(incomes, expenses, loans, dailyEntries, goals, financialHealth, challenges);
+    if (drafts.length > 0) startChallenges(drafts);
+  }, [user, loading, userProgress, challenges, incomes, expenses, loans, dailyEntries, goals, financialHealth]);
+
+  // Keep today's snapshot of the health score in step with the data, then the
+  // improvement since the first snapshot in step with the history
+  useEffect(() => {
+    if (!user || loading || financialHealth.factors.length === 0) return;
+
+    const today = new Date().toISOString().split('T')[0];
+
+    const saveSnapshot = async () => {
+      const { data, error } = await supabase
+        .from('health_score_snapshots')
+        .upsert({
+          user_id: user.id,
+          snapshot_date: today,
+          score: financialHealth.score,
+          level: financialHealth.level,
+          factors: financialHealth.factors
+        }, { onConflict: 'user_id,snapshot_date' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving health score snapshot:', error);
+        return;
+      }
+
+      const snapshot = mapDbHealthSnapshotToClient(data);
+      setHealthSnapshots(prev => [...prev.filter(s => s.date !== snapshot.date), snapshot]);
+    };
+
+    const updateImprovement = async (improvement: number) => {
+      const { error } = await supabase
+        .from('user_progress')
+        .update({ financial_health_improvement: improvement })
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating user progress:', error);
+        return;
       }
+
+      // Other updates to user progress may be in flight; only touch this field
+      setUserProgress(prev => prev && { ...prev, financialHealthImprovement: improvement });
+    };
+
+    const todaysSnapshot = healthSnapshots.find(snapshot => snapshot.date === today);
+    if (!todaysSnapshot || isSnapshotOutdated(todaysSnapshot, financialHealth)) {
+      saveSnapshot();
+      return;
+    }
+
+    const improvement = calculateHealthImprovement(healthSnapshots, financialHealth.score);
+    if (userProgress && userProgress.financialHealthImprovement !== improvement) updateImprovement(improvement);
+  }, [user, loading, financialHealth, healthSnapshots, userProgress]);
+
+  // Claims a challenge whose target has been met but that hasn't been completed yet
+  const completeChallenge = async (challengeId: string) => {
+    if (!user) return;
+    
+    const challenge = challenges.find(c => c.id === challengeId);
+    if (!challenge || challenge.isCompleted) return;
+    
+    if (evaluateChallenge(challenge, { dailyEntries, goals, loans }).status !== 'completed') return;
+    
+    const { data, error } = await markChallengesCompleted(user.id, [challengeId]);
+    
+    if (error) {
+      console.error('Error completing challenge:', error);
+      return;
+    }
+    
+    const completed = (data || []).map(mapDbChallengeToClient);
+    if (completed.length === 0) return;
+    
+    setChallenges(prev => prev.map(c => completed.find(done => done.id === c.id) || c));
+    
+    const { data: progress, error: progressError } = await awardPoints({ points: challenge.points, challengesCompleted: 1 });
+    
+    if (progressError) {
+      console.error('Error updating user progress:', progressError);
+      return;
+    }
+    
+    setUserProgress(mapDbUserProgressToClient(progress));
+  };
+
+  const acknowledgeCelebration = async (celebrationId: string) => {
+    if (!user) return;
+    
+    const { error } = await supabase
+      .from('celebrations')
+      .update({ acknowledged_at: new Date().toISOString() })
+      .eq('celebration_key', celebrationId)
+      .eq('user_id', user.id);
+    
+    if (error) {
+      console.error('Error acknowledging celebration:', error);
+      return;
     }
     
-    return { level, currentLevelPoints, nextLevelPoints };
+    setCelebrations(prev => prev.map(c => c.id === celebrationId ? { ...c, acknowledged: true } : c));
+  };
+
+  // Export every table as raw rows so it can be restored into another account
+  const exportAllData = async (): Promise<DataExport | null> => {
+    if (!user) return null;
+
+    const results = await Promise.all(
+      EXPORT_TABLES.map(table => supabase.from(table).select('*').eq('user_id', user.id))
+    );
+
+    const tables: Partial<Record<ExportTable, Record<string, unknown>[]>> = {};
+    for (let i = 0; i < EXPORT_TABLES.length; i++) {
+      const { data, error } = results[i];
+      if (error) {
+        console.error(`Error exporting ${EXPORT_TABLES[i]}:`, error);
+        return null;
+      }
+      tables[EXPORT_TABLES[i]] = data || [];
+    }
+
+    // Attachment files go into the export too, so a restore has them
+    const paths = (tables.attachments || []).flatMap(row => [row.storage_path, row.thumbnail_path]).filter(Boolean).map(String);
+    const files: Record<string, string> = {};
+    for (const path of paths) {
+      const { data, error } = await attachmentStorage.download(path);
+      if (error || !data) {
+        console.error(`Error exporting attachment ${path}:`, error);
+        return null;
+      }
+      files[path] = await blobToDataUrl(data);
+    }
+
+    return createDataExport(tables, files);
+  };
+
+  // Restore an export into an account with no data of its own. Rows get new ids, and a
+  // failed restore removes whatever it had already inserted.
+  const importAllData = async (archive: DataExport) => {
+    if (!user) return;
+
+    // Every account starts with the default categories, so they don't count as data
+    const dataTables = EXPORT_TABLES.filter(table =>
+      !SINGLETON_TABLES.includes(table) && table !== 'ledger_entries' && table !== 'spending_categories'
+    );
+    const counts = await Promise.all(
+      dataTables.map(table => supabase.from(table).select('id', { count: 'exact', head: true }).eq('user_id', user.id))
+    );
+    if (counts.some(({ count }) => (count || 0) > 0)) {
+      console.error('Error importing data: the account already has data');
+      return;
+    }
+
+    // The archive's own category tree replaces the defaults once everything is restored,
+    // and the rows restored in place are kept to put back if the restore fails
+    const { data: defaultCategories } = await supabase.from('spending_categories').select('id').eq('user_id', user.id);
+    const previousSingletons = await Promise.all(SINGLETON_TABLES.map(async table => ({
+      table,
+      rows: (await supabase.from(table).select('*').eq('user_id', user.id)).data || []
+    })));
+
+    const inserted: { table: ExportTable; ids: string[] }[] = [];
+    const uploaded: string[] = [];
+    let restored = 0;
+
+    for (const { table, rows, files } of remapDataExport(archive, user.id)) {
+      if (rows.length === 0) continue;
+
+      // Attachment files are uploaded before the rows that point at them
+      let uploadError: Error | null = null;
+      for (const file of files) {
+        uploadError = (await attachmentStorage.upload(file.path, await dataUrlToBlob(file.dataUrl))).error;
+        if (uploadError) break;
+        uploaded.push(file.path);
+      }
+
+      // Restored bills open their first instance, which the archive's own instances replace
+      if (table === 'bill_instances') {
+        await supabase.from('bill_instances').delete().eq('user_id', user.id);
+      }
+
+      const { error } = uploadError
+        ? { error: uploadError }
+        : SINGLETON_TABLES.includes(table)
+          ? await supabase.from(table).upsert(rows.slice(0, 1), { onConflict: 'user_id' })
+          : await supabase.from(table).insert(rows);
+
+      if (error) {
+        console.error(`Error importing ${table}:`, error);
+        for (const { table: insertedTable, ids } of inserted.reverse()) {
+          await supabase.from(insertedTable).delete().in('id', ids);
+        }
+        for (const { table: singletonTable, rows: previousRows } of previousSingletons) {
+          if (previousRows.length > 0) {
+            await supabase.from(singletonTable).upsert(previousRows, { onConflict: 'user_id' });
+          } else {
+            await supabase.from(singletonTable).delete().eq('user_id', user.id);
+          }
+        }
+        await attachmentStorage.remove(uploaded);
+        await loadAllData();
+        return;
+      }
+
+      if (!SINGLETON_TABLES.includes(table)) {
+        inserted.push({ table, ids: rows.map(row => String(row.id)) });
+      }
+      restored += rows.length;
+    }
+
+    if (archive.tables.spending_categories?.length && defaultCategories?.length) {
+      await supabase.from('spending_categories').delete().in('id', defaultCategories.map(category => category.id));
+    }
+
+    // Older exports have no categoriser, so it is learned again from the restored history
+    if (!archive.tables.categorizer_models?.length) {
+      await supabase.from('categorizer_models').delete().eq('user_id', user.id);
+    }
+
+    await loadAllData();
+    return restored;
   };
 
   // Reset all data (for testing)
@@ -1422,17 +3476,30 @@ export const useFinancialData = () => {
     
     try {
       // Delete all data in reverse order of dependencies
+      await removeAttachmentFiles(attachments);
+      await supabase.from('attachments').delete().eq('user_id', user.id);
+      await supabase.from('budget_alerts').delete().eq('user_id', user.id);
       await supabase.from('expected_payments').delete().eq('user_id', user.id);
       await supabase.from('transfers').delete().eq('user_id', user.id);
       await supabase.from('business_entries').delete().eq('user_id', user.id);
       await supabase.from('daily_entries').delete().eq('user_id', user.id);
+      await supabase.from('transaction_rules').delete().eq('user_id', user.id);
       await supabase.from('bills').delete().eq('user_id', user.id);
+      await supabase.from('recurring_rules').delete().eq('user_id', user.id);
       await supabase.from('loans').delete().eq('user_id', user.id);
       await supabase.from('expenses').delete().eq('user_id', user.id);
+      await supabase.from('spending_categories').delete().eq('user_id', user.id);
+      await supabase.from('spending_category_seeds').delete().eq('user_id', user.id);
       await supabase.from('incomes').delete().eq('user_id', user.id);
+      await supabase.from('budgets').delete().eq('user_id', user.id);
+      await supabase.from('exchange_rates').delete().eq('user_id', user.id);
       await supabase.from('financial_goals').delete().eq('user_id', user.id);
       await supabase.from('user_challenges').delete().eq('user_id', user.id);
+      await supabase.from('achievements').delete().eq('user_id', user.id);
+      await supabase.from('celebrations').delete().eq('user_id', user.id);
+      await supabase.from('health_score_snapshots').delete().eq('user_id', user.id);
       await supabase.from('user_progress').delete().eq('user_id', user.id);
+      await supabase.from('categorizer_models').delete().eq('user_id', user.id);
       await supabase.from('bank_accounts').delete().eq('user_id', user.id);
       await supabase.from('user_preferences').delete().eq('user_id', user.id);
       
@@ -1441,14 +3508,30 @@ export const useFinancialData = () => {
       setIncomes([]);
       setExpenses([]);
       setLoans([]);
+      setLoanPayments([]);
       setBills([]);
+      setBillInstances([]);
       setDailyEntries([]);
       setBusinessEntries([]);
       setTransfers([]);
       setGoals([]);
       setExpectedPayments([]);
+      setStoredBudgets([]);
+      setBudgetAlerts([]);
+      setLedgerEntries([]);
+      setReconciliations([]);
+      setExchangeRates([]);
+      setRecurringRules([]);
+      categorizerModelRef.current = null;
+      setCategorizerModel(null);
+      setTransactionRules([]);
+      setSpendingCategories([]);
+      setAttachments([]);
       setChallenges([]);
       setUserProgress(null);
+      setUnlockedAchievements([]);
+      setCelebrations([]);
+      setHealthSnapshots([]);
       setPreferences({
         strategy: 'balanced',
         riskTolerance: 'moderate',
@@ -1459,9 +3542,11 @@ export const useFinancialData = () => {
         autoSuggestStrategy: false
       });
       
-      // Create default preferences and progress
+      // Create default preferences, progress and categories, and start the categoriser from scratch
       await createDefaultPreferences();
       await createDefaultUserProgress();
+      await createDefaultSpendingCategories();
+      await saveCategorizerModel(buildCategorizerModel([]));
       
       return true;
     } catch (error) {
@@ -1476,15 +3561,31 @@ export const useFinancialData = () => {
     incomes,
     expenses,
     loans,
+    loanPayments,
     bills,
+    billInstances,
     dailyEntries,
     businessEntries,
     transfers,
     goals,
     expectedPayments,
+    budgets,
+    budgetAlerts: visibleBudgetAlerts,
+    ledgerEntries,
+    reconciliations,
+    exchangeRates,
+    recurringRules,
+    categorizerModel,
+    transactionRules,
+    spendingCategories,
+    attachments,
     preferences,
     challenges,
     userProgress,
+    financialHealth,
+    healthSnapshots,
+    achievements,
+    celebrations,
     addBankAccount,
     updateBankAccount,
     deleteBankAccount,
@@ -1492,16 +3593,21 @@ export const useFinancialData = () => {
     updateIncome,
     deleteIncome,
     addExpense,
+    importExpenses,
     updateExpense,
     deleteExpense,
     addLoan,
     updateLoan,
     deleteLoan,
+    recordLoanPayment,
+    undoLoanPayment,
     addBill,
     updateBill,
-    updateBillPayment,
+    recordBillPayment,
+    undoBillPayment,
     deleteBill,
     addDailyEntry,
+    importDailyEntries,
     updateDailyEntry,
     deleteDailyEntry,
     addBusinessEntry,
@@ -1509,6 +3615,24 @@ export const useFinancialData = () => {
     deleteBusinessEntry,
     addTransfer,
     deleteTransfer,
+    reconcileAccount,
+    addExchangeRate,
+    importExchangeRates,
+    deleteExchangeRate,
+    addRecurringRule,
+    updateRecurringRule,
+    deleteRecurringRule,
+    generateRecurringEntries,
+    addTransactionRule,
+    updateTransactionRule,
+    deleteTransactionRule,
+    previewTransactionRuleChanges,
+    applyTransactionRulePreviews,
+    addSpendingCategory,
+    updateSpendingCategory,
+    deleteSpendingCategory,
+    addAttachment,
+    deleteAttachment,
     addGoal,
     updateGoal,
     deleteGoal,
@@ -1516,8 +3640,16 @@ export const useFinancialData = () => {
     updateExpectedPayment,
     markExpectedPaymentAsPaid,
     deleteExpectedPayment,
+    addBudget,
+    updateBudget,
+    deleteBudget,
+    markBudgetAlertAsRead,
+    dismissBudgetAlert,
     updatePreferences,
     completeChallenge,
+    acknowledgeCelebration,
+    exportAllData,
+    importAllData,
     resetAllData
   };
 };
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+
+export const ATTACHMENT_BUCKET = 'attachments';
+
+// Where attachment files live. Records of the attachments are kept in the database
+// either way.
+export interface AttachmentStorage {
+  upload: (path: string, file: Blob) => Promise<{ error: Error | null }>;
+  remove: (paths: string[]) => Promise<{ error: Error | null }>;
+  download: (path: string) => Promise<{ data: Blob | null; error: Error | null }>;
+  // A short-lived URL to show or download the file
+  getUrl: (path: string) => Promise<string | null>;
+}
+
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const supabaseAttachmentStorage: AttachmentStorage = {
+  upload: async (path, file) => {
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+    return { error };
+  },
+  remove: async (paths) => {
+    if (paths.length === 0) return { error: null };
+    const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+    return { error };
+  },
+  download: async (path) => {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(path);
+    return { data, error };
+  },
+  getUrl: async (path) => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+    if (error) {
+      console.error('Error getting attachment URL:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  }
+};
+
+// Stand-in for local development and tests, so attachments work without a storage
+// server. Files are kept in memory for the session.
+export const createLocalAttachmentStorage = (): AttachmentStorage => {
+  const files = new Map<string, Blob>();
+  const urls = new Map<string, string>();
+
+  return {
+    upload: async (path, file) => {
+      if (files.has(path)) return { error: new Error(`The resource already exists: ${path}`) };
+      files.set(path, file);
+      return { error: null };
+    },
+    remove: async (paths) => {
+      paths.forEach(path => {
+        const url = urls.get(path);
+        if (url) URL.revokeObjectURL(url);
+        urls.delete(path);
+        files.delete(path);
+      });
+      return { error: null };
+    },
+    download: async (path) => {
+      const file = files.get(path);
+      return file ? { data: file, error: null } : { data: null, error: new Error(`Object not found: ${path}`) };
+    },
+    getUrl: async (path) => {
+      const file = files.get(path);
+      if (!file) return null;
+      if (!urls.has(path)) urls.set(path, URL.createObjectURL(file));
+      return urls.get(path) || null;
+    }
+  };
+};
+
+// Set VITE_ATTACHMENT_STORAGE=local to use the in-memory stand-in
+export const attachmentStorage: AttachmentStorage = import.meta.env.VITE_ATTACHMENT_STORAGE === 'local'
+  ? createLocalAttachmentStorage()
+  : supabaseAttachmentStorage;
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { Recurrence, CategorizerModel, TransactionRuleConditions, TransactionRuleActions, DailyEntrySplit, ChallengeMetric, HealthScoreFactor } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -54,6 +55,7 @@ export type Database = {
           frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
           monthly_amount: number;
           bank_account_id: string;
+          recurrence: Recurrence | null;
           created_at: string;
           updated_at: string;
         };
@@ -65,6 +67,7 @@ export type Database = {
           frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
           monthly_amount: number;
           bank_account_id: string;
+          recurrence?: Recurrence | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -76,6 +79,7 @@ export type Database = {
           frequency?: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
           monthly_amount?: number;
           bank_account_id?: string;
+          recurrence?: Recurrence | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -90,6 +94,10 @@ export type Database = {
           frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
           monthly_amount: number;
           bank_account_id: string;
+          recurrence: Recurrence | null;
+          category_id: string | null;
+          linked_budget_id: string | null;
+          linked_goal_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -102,6 +110,10 @@ export type Database = {
           frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
           monthly_amount: number;
           bank_account_id: string;
+          recurrence?: Recurrence | null;
+          category_id?: string | null;
+          linked_budget_id?: string | null;
+          linked_goal_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -114,6 +126,10 @@ export type Database = {
           frequency?: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
           monthly_amount?: number;
           bank_account_id?: string;
+          recurrence?: Recurrence | null;
+          category_id?: string | null;
+          linked_budget_id?: string | null;
+          linked_goal_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -133,6 +149,9 @@ export type Database = {
           lender: string;
           start_date: string;
           loan_period_months: number;
+          currency: string | null;
+          interest_method: 'reducing' | 'flat';
+          bank_account_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -150,6 +169,9 @@ export type Database = {
           lender?: string;
           start_date?: string;
           loan_period_months?: number;
+          currency?: string | null;
+          interest_method?: 'reducing' | 'flat';
+          bank_account_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -167,6 +189,9 @@ export type Database = {
           lender?: string;
           start_date?: string;
           loan_period_months?: number;
+          currency?: string | null;
+          interest_method?: 'reducing' | 'flat';
+          bank_account_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -182,6 +207,9 @@ export type Database = {
           category: 'utility' | 'subscription' | 'insurance' | 'other';
           is_paid: boolean;
           bank_account_id: string | null;
+          recurring_rule_id: string | null;
+          average_amount: number | null;
+          recurrence: Recurrence | null;
           created_at: string;
           updated_at: string;
         };
@@ -195,6 +223,9 @@ export type Database = {
           category: 'utility' | 'subscription' | 'insurance' | 'other';
           is_paid?: boolean;
           bank_account_id?: string | null;
+          recurring_rule_id?: string | null;
+          average_amount?: number | null;
+          recurrence?: Recurrence | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -208,6 +239,65 @@ export type Database = {
           category?: 'utility' | 'subscription' | 'insurance' | 'other';
           is_paid?: boolean;
           bank_account_id?: string | null;
+          recurring_rule_id?: string | null;
+          average_amount?: number | null;
+          recurrence?: Recurrence | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      recurring_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'income' | 'expense' | 'bill';
+          name: string;
+          amount: number;
+          frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+          next_occurrence: string;
+          bank_account_id: string;
+          category: string | null;
+          is_active: boolean;
+          auto_generate: boolean;
+          last_generated: string | null;
+          recurrence: Recurrence | null;
+          category_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'income' | 'expense' | 'bill';
+          name: string;
+          amount: number;
+          frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+          next_occurrence: string;
+          bank_account_id: string;
+          category?: string | null;
+          is_active?: boolean;
+          auto_generate?: boolean;
+          last_generated?: string | null;
+          recurrence?: Recurrence | null;
+          category_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: 'income' | 'expense' | 'bill';
+          name?: string;
+          amount?: number;
+          frequency?: 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+          next_occurrence?: string;
+          bank_account_id?: string;
+          category?: string | null;
+          is_active?: boolean;
+          auto_generate?: boolean;
+          last_generated?: string | null;
+          recurrence?: Recurrence | null;
+          category_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -225,6 +315,12 @@ export type Database = {
           frequency: string | null;
           income_bank_account_id: string | null;
           expense_bank_account_id: string | null;
+          ai_categorized: boolean;
+          ai_category: string | null;
+          confidence: number | null;
+          applied_rule_id: string | null;
+          category_id: string | null;
+          splits: DailyEntrySplit[] | null;
           created_at: string;
           updated_at: string;
         };
@@ -240,6 +336,12 @@ export type Database = {
           frequency?: string | null;
           income_bank_account_id?: string | null;
           expense_bank_account_id?: string | null;
+          ai_categorized?: boolean;
+          ai_category?: string | null;
+          confidence?: number | null;
+          applied_rule_id?: string | null;
+          category_id?: string | null;
+          splits?: DailyEntrySplit[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -255,6 +357,12 @@ export type Database = {
           frequency?: string | null;
           income_bank_account_id?: string | null;
           expense_bank_account_id?: string | null;
+          ai_categorized?: boolean;
+          ai_category?: string | null;
+          confidence?: number | null;
+          applied_rule_id?: string | null;
+          category_id?: string | null;
+          splits?: DailyEntrySplit[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -447,6 +555,11 @@ export type Database = {
           deadline: string;
           is_completed: boolean;
           is_active: boolean;
+          challenge_key: string | null;
+          metric: ChallengeMetric | null;
+          started_at: string;
+          completed_at: string | null;
+          archived_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -464,6 +577,11 @@ export type Database = {
           deadline: string;
           is_completed?: boolean;
           is_active?: boolean;
+          challenge_key?: string | null;
+          metric?: ChallengeMetric | null;
+          started_at?: string;
+          completed_at?: string | null;
+          archived_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -481,6 +599,11 @@ export type Database = {
           deadline?: string;
           is_completed?: boolean;
           is_active?: boolean;
+          challenge_key?: string | null;
+          metric?: ChallengeMetric | null;
+          started_at?: string;
+          completed_at?: string | null;
+          archived_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -535,6 +658,341 @@ export type Database = {
           updated_at?: string;
         };
       };
+      categorizer_models: {
+        Row: {
+          id: string;
+          user_id: string;
+          model: CategorizerModel;
+          trained_examples: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          model?: CategorizerModel;
+          trained_examples?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          model?: CategorizerModel;
+          trained_examples?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      transaction_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          priority: number;
+          is_active: boolean;
+          conditions: TransactionRuleConditions;
+          actions: TransactionRuleActions;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          priority?: number;
+          is_active?: boolean;
+          conditions?: TransactionRuleConditions;
+          actions?: TransactionRuleActions;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          priority?: number;
+          is_active?: boolean;
+          conditions?: TransactionRuleConditions;
+          actions?: TransactionRuleActions;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      spending_categories: {
+        Row: {
+          id: string;
+          user_id: string;
+          parent_id: string | null;
+          name: string;
+          type: 'need' | 'want';
+          ai_category: string | null;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          parent_id?: string | null;
+          name: string;
+          type: 'need' | 'want';
+          ai_category?: string | null;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          parent_id?: string | null;
+          name?: string;
+          type?: 'need' | 'want';
+          ai_category?: string | null;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      spending_category_seeds: {
+        Row: {
+          user_id: string;
+          seeded_at: string;
+        };
+        Insert: {
+          user_id: string;
+          seeded_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          seeded_at?: string;
+        };
+      };
+      attachments: {
+        Row: {
+          id: string;
+          user_id: string;
+          daily_entry_id: string | null;
+          bill_id: string | null;
+          loan_id: string | null;
+          expected_payment_id: string | null;
+          business_entry_id: string | null;
+          file_name: string;
+          content_type: string;
+          size: number;
+          storage_path: string;
+          thumbnail_path: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          daily_entry_id?: string | null;
+          bill_id?: string | null;
+          loan_id?: string | null;
+          expected_payment_id?: string | null;
+          business_entry_id?: string | null;
+          file_name: string;
+          content_type: string;
+          size: number;
+          storage_path: string;
+          thumbnail_path?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          daily_entry_id?: string | null;
+          bill_id?: string | null;
+          loan_id?: string | null;
+          expected_payment_id?: string | null;
+          business_entry_id?: string | null;
+          file_name?: string;
+          content_type?: string;
+          size?: number;
+          storage_path?: string;
+          thumbnail_path?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      bill_instances: {
+        Row: {
+          id: string;
+          user_id: string;
+          bill_id: string;
+          due_date: string;
+          expected_amount: number;
+          amount_paid: number | null;
+          paid_date: string | null;
+          bank_account_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          bill_id: string;
+          due_date: string;
+          expected_amount?: number;
+          amount_paid?: number | null;
+          paid_date?: string | null;
+          bank_account_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          bill_id?: string;
+          due_date?: string;
+          expected_amount?: number;
+          amount_paid?: number | null;
+          paid_date?: string | null;
+          bank_account_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      loan_payments: {
+        Row: {
+          id: string;
+          user_id: string;
+          loan_id: string;
+          bank_account_id: string | null;
+          amount: number;
+          interest: number;
+          principal: number;
+          penalty: number;
+          paid_date: string;
+          previous_due_date: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          loan_id: string;
+          bank_account_id?: string | null;
+          amount: number;
+          interest?: number;
+          principal?: number;
+          penalty?: number;
+          paid_date?: string;
+          previous_due_date?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          loan_id?: string;
+          bank_account_id?: string | null;
+          amount?: number;
+          interest?: number;
+          principal?: number;
+          penalty?: number;
+          paid_date?: string;
+          previous_due_date?: string | null;
+          created_at?: string;
+        };
+      };
+      achievements: {
+        Row: {
+          id: string;
+          user_id: string;
+          achievement_key: string;
+          points: number;
+          unlocked_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          achievement_key: string;
+          points?: number;
+          unlocked_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          achievement_key?: string;
+          points?: number;
+          unlocked_at?: string;
+        };
+      };
+      celebrations: {
+        Row: {
+          id: string;
+          user_id: string;
+          celebration_key: string;
+          type: 'milestone' | 'goal_achieved' | 'debt_paid' | 'streak' | 'level_up';
+          title: string;
+          message: string;
+          amount: number | null;
+          icon: string;
+          color: string;
+          acknowledged_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          celebration_key: string;
+          type: 'milestone' | 'goal_achieved' | 'debt_paid' | 'streak' | 'level_up';
+          title: string;
+          message?: string;
+          amount?: number | null;
+          icon?: string;
+          color?: string;
+          acknowledged_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          celebration_key?: string;
+          type?: 'milestone' | 'goal_achieved' | 'debt_paid' | 'streak' | 'level_up';
+          title?: string;
+          message?: string;
+          amount?: number | null;
+          icon?: string;
+          color?: string;
+          acknowledged_at?: string | null;
+          created_at?: string;
+        };
+      };
+      health_score_snapshots: {
+        Row: {
+          id: string;
+          user_id: string;
+          snapshot_date: string;
+          score: number;
+          level: 'poor' | 'fair' | 'good' | 'excellent';
+          factors: HealthScoreFactor[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          snapshot_date?: string;
+          score: number;
+          level: 'poor' | 'fair' | 'good' | 'excellent';
+          factors?: HealthScoreFactor[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          snapshot_date?: string;
+          score?: number;
+          level?: 'poor' | 'fair' | 'good' | 'excellent';
+          factors?: HealthScoreFactor[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
   };
 };
\ No newline at end of file
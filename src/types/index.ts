@@ -1,3 +1,36 @@
+// An RRULE-style schedule. Negative month days count back from the end of the month
+// (-1 is the last day) and a negative weekday ordinal picks from the end (-1 is the last)
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday
+  ordinal?: number;
+}
+
+export interface Recurrence {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  startDate: string;
+  byWeekday?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1 = January
+  // Move occurrences that land on a weekend or public holiday
+  roll?: 'none' | 'previous' | 'next';
+  count?: number;
+  until?: string;
+}
+
+// Inclusive range of dates, as YYYY-MM-DD strings
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface PeriodTotals {
+  income: number;
+  expenses: number;
+  bills: number;
+  net: number;
+}
+
 export interface Income {
   id: string;
   source: string;
@@ -8,6 +41,8 @@ export interface Income {
   isRecurring?: boolean;
   nextOccurrence?: string;
   autoGenerated?: boolean;
+  recurrence?: Recurrence;
+  createdAt?: string;
 }
 
 export interface Expense {
@@ -23,8 +58,41 @@ export interface Expense {
   isRecurring?: boolean;
   nextOccurrence?: string;
   autoGenerated?: boolean;
+  recurrence?: Recurrence;
   aiCategory?: string;
   confidence?: number;
+  categoryId?: string;
+  createdAt?: string;
+}
+
+// A node in the user's spending category tree. Its type decides whether entries filed
+// under it count as a need or a want.
+export interface SpendingCategory {
+  id: string;
+  name: string;
+  parentId?: string;
+  type: 'need' | 'want';
+  // The suggested spending category (food, transportation, ...) this node stands for
+  aiCategory?: string;
+  sortOrder: number;
+}
+
+// The kinds of record a file can be attached to
+export type AttachmentParentType = 'dailyEntry' | 'bill' | 'loan' | 'expectedPayment' | 'businessEntry';
+
+// A receipt, statement or agreement kept with a record
+export interface Attachment {
+  id: string;
+  parentType: AttachmentParentType;
+  parentId: string;
+  fileName: string;
+  contentType: string;
+  // In bytes
+  size: number;
+  storagePath: string;
+  // A small preview of an image
+  thumbnailPath?: string;
+  createdAt: string;
 }
 
 export interface BankAccount {
@@ -36,6 +104,10 @@ export interface BankAccount {
   hasOverdraft?: boolean;
   overdraftLimit?: number;
   overdraftUsed?: number;
+  // ISO code; stored for every new row, and read as the base currency when missing
+  currency?: string;
+  // Warn when the projected balance drops below this
+  lowBalanceFloor?: number;
 }
 
 export interface Loan {
@@ -53,6 +125,53 @@ export interface Loan {
   lender: string;
   negotiable?: boolean;
   lastNegotiated?: string;
+  // ISO code; stored for every new row, and read as the base currency when missing
+  currency?: string;
+  // Reducing balance charges interest on what is still owed; flat rate charges it on the
+  // original principal every month, as many local lenders do. Defaults to reducing.
+  interestMethod?: 'reducing' | 'flat';
+  // Account the instalments are paid from
+  bankAccountId?: string;
+}
+
+export interface LoanPayment {
+  id: string;
+  loanId: string;
+  // The whole payment is the sum of its interest, principal and penalty
+  amount: number;
+  interest: number;
+  principal: number;
+  penalty: number;
+  paidDate: string;
+  bankAccountId?: string;
+  // The loan's due date before the payment moved it on
+  previousDueDate?: string;
+}
+
+export interface AmortizationRow {
+  period: number;
+  date: string;
+  payment: number;
+  extraPayment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  scheduledPayment: number;
+  totalInterest: number;
+  totalPaid: number;
+  payoffDate?: string;
+  // False when the scheduled payment never covers the interest
+  isPaidOff: boolean;
+}
+
+export interface ExtraPaymentPlan {
+  oneOffAmount: number;
+  oneOffPeriod: number;
+  recurringAmount: number;
 }
 
 export interface Bill {
@@ -69,7 +188,24 @@ export interface Bill {
   autoGenerated?: boolean;
   negotiable?: boolean;
   lastNegotiated?: string;
+  // Average of the amounts actually paid
   averageAmount?: number;
+  recurrence?: Recurrence;
+  // Set when the bill was generated from a recurring rule
+  recurringRuleId?: string;
+}
+
+// One dated occurrence of a bill. The bill's dueDate and isPaid follow its instances.
+export interface BillInstance {
+  id: string;
+  billId: string;
+  dueDate: string;
+  expectedAmount: number;
+  // Set once the instance is paid
+  amountPaid?: number;
+  paidDate?: string;
+  // The account it was (or will be) paid from
+  bankAccountId?: string;
 }
 
 export interface DailyEntry {
@@ -83,8 +219,47 @@ export interface DailyEntry {
   frequency?: 'once' | 'daily' | 'weekly' | 'monthly';
   incomeBankAccountId?: string;
   expenseBankAccountId?: string;
+  linkedBudgetId?: string;
+  linkedGoalId?: string;
+  externalReference?: string;
   aiCategorized?: boolean;
+  aiCategory?: string;
   confidence?: number;
+  // The transaction rule that last categorised the entry
+  appliedRuleId?: string;
+  // Node in the user's spending category tree; its need/want type is the entry's category
+  categoryId?: string;
+  // The lines of a split transaction, adding up to its income or expenses. The fields
+  // above describe the whole transaction; aggregates go by the lines.
+  splits?: DailyEntrySplit[];
+}
+
+// One line of a split transaction. Unset links fall back to none, and an unset account
+// to the transaction's own account.
+export interface DailyEntrySplit {
+  amount: number;
+  category: 'need' | 'want';
+  categoryId?: string;
+  aiCategory?: string;
+  bankAccountId?: string;
+  linkedBudgetId?: string;
+  // The line's amount is added to the goal's current amount
+  linkedGoalId?: string;
+}
+
+// A split line, or an unsplit transaction's money in or out, as aggregates count it
+export interface DailyEntryLine extends DailyEntrySplit {
+  type: 'income' | 'expense';
+  date: string;
+  description: string;
+}
+
+export interface DailyEntryGroup {
+  date: string;
+  entries: DailyEntry[];
+  totalIncome: number;
+  totalExpenses: number;
+  net: number;
 }
 
 export interface BusinessEntry {
@@ -120,6 +295,57 @@ export interface Transfer {
   description: string;
   isLoan: boolean;
   date: string;
+  // Units of the destination currency per unit of the source currency
+  exchangeRate: number;
+  // Amount credited to the destination account, in its currency
+  convertedAmount: number;
+}
+
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  // Units of toCurrency for one unit of fromCurrency
+  rate: number;
+  date: string;
+  source: 'manual' | 'csv';
+}
+
+export interface CurrencyConversion {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+// Raw database rows for every table, as written by the data export
+export interface DataExport {
+  version: number;
+  exportedAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+  // The attachment files, as data URLs keyed by their storage path
+  files: Record<string, string>;
+}
+
+export interface LedgerEntry {
+  id: string;
+  accountId: string;
+  amount: number;
+  entryType: 'opening_balance' | 'transfer' | 'daily_income' | 'daily_expense' | 'bill_payment' | 'loan_payment' | 'business_profit' | 'adjustment' | 'reconciliation';
+  sourceId?: string;
+  isReversal: boolean;
+  description: string;
+  date: string;
+  runningBalance: number;
+  createdAt: string;
+}
+
+export interface AccountReconciliation {
+  accountId: string;
+  accountName: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  drift: number;
+  entryCount: number;
+  lastEntryDate?: string;
 }
 
 export interface ExpectedPayment {
@@ -190,7 +416,10 @@ export interface BudgetAlert {
   type: 'warning' | 'exceeded' | 'depleted';
   message: string;
   percentage: number;
+  periodStart: string;
   isRead: boolean;
+  // Dismissed alerts are kept so the same alert isn't raised again
+  dismissedAt?: string;
   createdAt: string;
 }
 
@@ -213,6 +442,10 @@ export interface Currency {
   code: string;
   symbol: string;
   name: string;
+  // Digits shown after the decimal point; derived from the code when missing
+  decimals?: number;
+  // BCP 47 locale used for grouping and separators, e.g. en-KE
+  locale?: string;
 }
 
 export interface UserPreferences {
@@ -286,10 +519,31 @@ export interface FinancialHealth {
   businessContribution: number;
   recommendations: string[];
   suggestedStrategy: 'debt-focused' | 'balanced' | 'savings-focused';
+  // How each factor contributed to the score; empty when there is no data to score
+  factors: HealthScoreFactor[];
   improvementSteps?: HealthImprovementStep[];
   emergencyPreparedness?: EmergencyPreparedness;
 }
 
+export interface HealthScoreFactor {
+  id: 'debt_to_income' | 'savings_rate' | 'emergency_fund' | 'net_worth' | 'income_diversity' | 'business_contribution' | 'overdraft_usage';
+  label: string;
+  // The measurement the points were given for, e.g. a savings rate of 12 (%)
+  value: number;
+  points: number;
+  // Most points the factor can give; penalties like overdraft usage have 0 and take points away
+  maxPoints: number;
+}
+
+// The financial health score as it stood at the end of a day
+export interface HealthScoreSnapshot {
+  id: string;
+  date: string;
+  score: number;
+  level: FinancialHealth['level'];
+  factors: HealthScoreFactor[];
+}
+
 export interface HealthImprovementStep {
   id: string;
   title: string;
@@ -321,10 +575,59 @@ export interface SpendingAllowance {
   restrictions: string[];
 }
 
+// A categorised outgoing transaction the categoriser learns from
+export interface CategorizerExample {
+  description: string;
+  amount: number;
+  merchant?: string;
+  category: 'need' | 'want';
+}
+
+// Naive Bayes counts learned from the user's own categorised transactions
+export interface CategorizerModel {
+  // Examples seen per category
+  categoryCounts: Record<string, number>;
+  // How often each feature (word or amount bucket) appeared per category
+  featureCounts: Record<string, Record<string, number>>;
+  // Features seen per category, summed over every example
+  featureTotals: Record<string, number>;
+  // Held-out guesses per confidence band and how many were right; missing on models
+  // saved before calibration was kept
+  calibration?: { guesses: number[]; correct: number[] };
+}
+
+export interface CategorizationResult {
+  category: 'need' | 'want';
+  confidence: number;
+  aiCategory: string;
+  // Whether the learned model or the cold-start keyword rules decided
+  source: 'model' | 'rules';
+}
+
+// One dated outgoing amount from any source, tagged with its spending category
+export interface SpendingRecord {
+  date: string;
+  amount: number;
+  type: 'need' | 'want';
+  category: string;
+}
+
+export interface MonthlySpending {
+  // YYYY-MM
+  month: string;
+  needs: number;
+  wants: number;
+  byCategory: Record<string, number>;
+}
+
 export interface SpendingPattern {
   category: string;
+  // Whether most of the category's spending is needs or wants
+  type: 'need' | 'want';
   averageMonthly: number;
   trend: 'increasing' | 'decreasing' | 'stable';
+  // Fitted change per month as a percentage of the average month
+  trendPercentage: number;
   seasonality: boolean;
   peakMonths: string[];
   optimizationPotential: number;
@@ -339,11 +642,34 @@ export interface CashFlowEvent {
   amount: number;
   category: string;
   bankAccountId: string;
+  // The amount in the account's own currency, when that is not the base currency
+  accountAmount?: number;
   isRecurring: boolean;
   status: 'scheduled' | 'completed' | 'overdue';
   confidence: number;
 }
 
+export interface ProjectedBalanceDay {
+  date: string;
+  // End-of-day balance; below zero once the overdraft is in use
+  balance: number;
+  change: number;
+}
+
+// Day-by-day position of one account over the cash flow horizon, with the first day
+// each warning threshold is crossed
+export interface AccountBalanceProjection {
+  accountId: string;
+  startingBalance: number;
+  days: ProjectedBalanceDay[];
+  lowestBalance: number;
+  lowestBalanceDate: string;
+  belowFloorDate?: string;
+  overdrawnDate?: string;
+  overLimitDate?: string;
+}
+
+// A persisted recurring rule; its occurrences are materialised as daily entries or bills
 export interface RecurringTransaction {
   id: string;
   type: 'income' | 'expense' | 'bill';
@@ -356,6 +682,59 @@ export interface RecurringTransaction {
   isActive: boolean;
   autoGenerate: boolean;
   lastGenerated?: string;
+  recurrence?: Recurrence;
+  // Spending category of the entries an expense rule generates
+  categoryId?: string;
+}
+
+// What a transaction must satisfy for a rule to apply; unset conditions match anything
+export interface TransactionRuleConditions {
+  descriptionContains?: string;
+  // Regular expression, matched case-insensitively against the description
+  descriptionPattern?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  transactionType?: 'income' | 'expense';
+  bankAccountId?: string;
+  // Days of the week, 0 = Sunday
+  weekdays?: number[];
+}
+
+// One share of a split transaction
+export interface TransactionRuleSplit {
+  percentage: number;
+  category: 'need' | 'want';
+  categoryId?: string;
+  aiCategory?: string;
+  linkedBudgetId?: string;
+  linkedGoalId?: string;
+}
+
+export interface TransactionRuleActions {
+  category?: 'need' | 'want';
+  categoryId?: string;
+  aiCategory?: string;
+  linkedBudgetId?: string;
+  linkedGoalId?: string;
+  // Splits the transaction into one line per share
+  splits?: TransactionRuleSplit[];
+}
+
+// A user-defined rule that categorises matching transactions on entry and import
+export interface TransactionRule {
+  id: string;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  conditions: TransactionRuleConditions;
+  actions: TransactionRuleActions;
+}
+
+// What re-applying a rule would do to one existing transaction
+export interface TransactionRulePreview {
+  entry: DailyEntry;
+  rule: TransactionRule;
+  updated: DailyEntry;
 }
 
 export interface BillNegotiation {
@@ -399,6 +778,7 @@ export interface NotificationState {
 }
 
 export interface Celebration {
+  // What is celebrated, e.g. 'level-3'; each is shown to a user only once
   id: string;
   type: 'milestone' | 'goal_achieved' | 'debt_paid' | 'streak' | 'level_up';
   title: string;
@@ -424,6 +804,30 @@ export interface Challenge {
   isCompleted: boolean;
   isActive: boolean;
   difficulty: 'easy' | 'medium' | 'hard';
+  // What the challenge measures; progress is computed from it, never from the title
+  metric: ChallengeMetric;
+  startDate: string;
+  completedAt?: string;
+}
+
+export type ChallengeMetricId =
+  | 'tracking_streak'
+  | 'wants_spending'
+  | 'emergency_fund'
+  | 'loan_repaid'
+  | 'goal_saved'
+  | 'investment_contributions';
+
+export interface ChallengeMetric {
+  metric: ChallengeMetricId;
+  // The loan or goal measured, for metrics about a single one
+  targetEntityId?: string;
+  // 'at_least' completes once the target is reached, 'at_most' if the value is still
+  // within the target when the challenge ends
+  comparator: 'at_least' | 'at_most';
+  // 'current' is the value today; the others count activity since the challenge
+  // started or over the trailing days up to today (or the deadline, once passed)
+  window: 'current' | 'since_start' | 'last_7_days' | 'last_30_days';
 }
 
 export interface Achievement {
@@ -434,11 +838,18 @@ export interface Achievement {
   icon: string;
   color: string;
   points: number;
-  unlockedAt: string;
+  unlockedAt?: string;
   isUnlocked: boolean;
   requirements: string[];
 }
 
+// An entry of the achievement catalogue a user has unlocked
+export interface UnlockedAchievement {
+  id: string;
+  points: number;
+  unlockedAt: string;
+}
+
 export interface UserProgress {
   totalPoints: number;
   level: number;
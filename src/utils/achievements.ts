@@ -0,0 +1,185 @@
+import {
+  Achievement,
+  BillInstance,
+  DailyEntry,
+  FinancialGoal,
+  FinancialHealth,
+  Loan,
+  LoanPayment,
+  UserProgress
+} from '../types';
+
+// What achievements are judged on
+export interface AchievementData {
+  dailyEntries: DailyEntry[];
+  goals: FinancialGoal[];
+  loans: Loan[];
+  loanPayments: LoanPayment[];
+  billInstances: BillInstance[];
+  userProgress: UserProgress | null;
+  financialHealth: Pick<FinancialHealth, 'score' | 'savingsRate'>;
+}
+
+interface AchievementDefinition extends Omit<Achievement, 'unlockedAt' | 'isUnlocked'> {
+  isEarned: (data: AchievementData) => boolean;
+}
+
+const isGoalReached = (goal: FinancialGoal) => goal.targetAmount > 0 && goal.currentAmount >= goal.targetAmount;
+
+const isPaidOnTime = (instance: BillInstance) =>
+  instance.paidDate !== undefined && instance.paidDate <= instance.dueDate;
+
+export const ACHIEVEMENT_CATALOGUE: AchievementDefinition[] = [
+  {
+    id: 'first-transaction',
+    title: 'First Steps',
+    description: 'Recorded your first transaction.',
+    category: 'milestone',
+    icon: '👣',
+    color: 'from-blue-500 to-blue-600',
+    points: 10,
+    requirements: ['Record a transaction in the daily tracker'],
+    isEarned: ({ dailyEntries }) => dailyEntries.length > 0
+  },
+  {
+    id: 'hundred-transactions',
+    title: 'Diligent Tracker',
+    description: 'Recorded 100 transactions.',
+    category: 'mastery',
+    icon: '📒',
+    color: 'from-indigo-500 to-indigo-600',
+    points: 50,
+    requirements: ['Record 100 transactions in the daily tracker'],
+    isEarned: ({ dailyEntries }) => dailyEntries.length >= 100
+  },
+  {
+    id: 'first-goal',
+    title: 'Goal Setter',
+    description: 'Set your first financial goal.',
+    category: 'milestone',
+    icon: '🎯',
+    color: 'from-blue-500 to-blue-600',
+    points: 10,
+    requirements: ['Create a goal'],
+    isEarned: ({ goals }) => goals.length > 0
+  },
+  {
+    id: 'goal-reached',
+    title: 'Goal Getter',
+    description: 'Reached the target of a goal.',
+    category: 'milestone',
+    icon: '🏆',
+    color: 'from-green-500 to-green-600',
+    points: 50,
+    requirements: ['Save the full target amount of a goal'],
+    isEarned: ({ goals }) => goals.some(isGoalReached)
+  },
+  {
+    id: 'week-streak',
+    title: 'Week Warrior',
+    description: 'Tracked your finances seven days in a row.',
+    category: 'streak',
+    icon: '🔥',
+    color: 'from-orange-500 to-orange-600',
+    points: 25,
+    requirements: ['Keep a 7 day tracking streak'],
+    isEarned: ({ userProgress }) => (userProgress?.longestStreak || 0) >= 7
+  },
+  {
+    id: 'month-streak',
+    title: 'Creature of Habit',
+    description: 'Tracked your finances thirty days in a row.',
+    category: 'streak',
+    icon: '📅',
+    color: 'from-red-500 to-red-600',
+    points: 100,
+    requirements: ['Keep a 30 day tracking streak'],
+    isEarned: ({ userProgress }) => (userProgress?.longestStreak || 0) >= 30
+  },
+  {
+    id: 'first-loan-payment',
+    title: 'Debt Fighter',
+    description: 'Recorded a payment towards a loan.',
+    category: 'improvement',
+    icon: '🥊',
+    color: 'from-purple-500 to-purple-600',
+    points: 20,
+    requirements: ['Record a loan payment'],
+    isEarned: ({ loanPayments }) => loanPayments.length > 0
+  },
+  {
+    id: 'loan-cleared',
+    title: 'Debt Free',
+    description: 'Paid a loan off in full.',
+    category: 'improvement',
+    icon: '⚡',
+    color: 'from-yellow-500 to-yellow-600',
+    points: 100,
+    requirements: ['Record loan payments until nothing is owed'],
+    isEarned: ({ loans, loanPayments }) =>
+      loans.some(loan => loan.currentBalance <= 0 && loanPayments.some(payment => payment.loanId === loan.id))
+  },
+  {
+    id: 'bills-on-time',
+    title: 'Right On Time',
+    description: 'Paid five bills on or before their due date.',
+    category: 'mastery',
+    icon: '⏰',
+    color: 'from-teal-500 to-teal-600',
+    points: 30,
+    requirements: ['Pay 5 bills by their due date'],
+    isEarned: ({ billInstances }) => billInstances.filter(isPaidOnTime).length >= 5
+  },
+  {
+    id: 'healthy-savings',
+    title: 'Super Saver',
+    description: 'Saved a fifth of your income.',
+    category: 'improvement',
+    icon: '💰',
+    color: 'from-emerald-500 to-emerald-600',
+    points: 40,
+    requirements: ['Reach a savings rate of 20%'],
+    isEarned: ({ financialHealth }) => financialHealth.savingsRate >= 20
+  },
+  {
+    id: 'excellent-health',
+    title: 'Picture of Health',
+    description: 'Reached a financial health score of 80.',
+    category: 'mastery',
+    icon: '💪',
+    color: 'from-green-500 to-green-600',
+    points: 50,
+    requirements: ['Reach a financial health score of 80'],
+    isEarned: ({ financialHealth }) => financialHealth.score >= 80
+  }
+];
+
+// Catalogue entries the data earns that have not been unlocked yet
+export const getNewlyEarnedAchievements = (
+  data: AchievementData,
+  unlockedIds: string[]
+): AchievementDefinition[] =>
+  ACHIEVEMENT_CATALOGUE.filter(definition => !unlockedIds.includes(definition.id) && definition.isEarned(data));
+
+// The whole catalogue with the user's unlocks, unlocked first and most recent first
+export const getAchievementGallery = (unlocked: { id: string; unlockedAt: string }[]): Achievement[] =>
+  ACHIEVEMENT_CATALOGUE
+    .map(({ id, title, description, category, icon, color, points, requirements }) => {
+      const unlock = unlocked.find(u => u.id === id);
+      return {
+        id,
+        title,
+        description,
+        category,
+        icon,
+        color,
+        points,
+        requirements,
+        isUnlocked: !!unlock,
+        unlockedAt: unlock?.unlockedAt
+      };
+    })
+    .sort((a, b) => {
+      if (a.isUnlocked !== b.isUnlocked) return a.isUnlocked ? -1 : 1;
+      return (b.unlockedAt || '').localeCompare(a.unlockedAt || '');
+    });
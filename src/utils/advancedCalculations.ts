@@ -3,121 +3,37 @@ import {
   Expense, 
   Loan, 
   Bill, 
-  DailyEntry, 
+  BillInstance,
   BusinessEntry, 
   FinancialGoal, 
   BankAccount,
   ExpectedPayment,
   Currency,
   UserPreferences,
-  SpendingPattern,
   CashFlowEvent,
-  RecurringTransaction,
+  AccountBalanceProjection,
+  ProjectedBalanceDay,
   BillNegotiation,
   GoalForecast,
   HealthImprovementStep,
   EmergencyPreparedness,
-  Celebration
+  Celebration,
+  Achievement,
+  CurrencyConversion
 } from '../types';
-
-// Recurring Transactions Automation
-export const generateRecurringTransactions = (
-  incomes: Income[],
-  expenses: Expense[],
-  bills: Bill[]
-): RecurringTransaction[] => {
-  const recurring: RecurringTransaction[] = [];
-  const today = new Date();
-
-  // Process recurring incomes
-  incomes.forEach(income => {
-    if (income.isRecurring) {
-      const nextOccurrence = calculateNextOccurrence(today, income.frequency);
-      recurring.push({
-        id: `income-${income.id}`,
-        type: 'income',
-        name: income.source,
-        amount: income.amount,
-        frequency: income.frequency,
-        nextOccurrence: nextOccurrence.toISOString().split('T')[0],
-        bankAccountId: income.bankAccountId,
-        isActive: true,
-        autoGenerate: true
-      });
-    }
-  });
-
-  // Process recurring expenses
-  expenses.forEach(expense => {
-    if (expense.isRecurring) {
-      const nextOccurrence = calculateNextOccurrence(today, expense.frequency);
-      recurring.push({
-        id: `expense-${expense.id}`,
-        type: 'expense',
-        name: expense.name,
-        amount: expense.amount,
-        frequency: expense.frequency,
-        nextOccurrence: nextOccurrence.toISOString().split('T')[0],
-        bankAccountId: expense.bankAccountId,
-        category: expense.category,
-        isActive: true,
-        autoGenerate: true
-      });
-    }
-  });
-
-  // Process recurring bills
-  bills.forEach(bill => {
-    if (bill.isRecurring) {
-      const nextOccurrence = calculateNextOccurrence(today, bill.frequency);
-      recurring.push({
-        id: `bill-${bill.id}`,
-        type: 'bill',
-        name: bill.name,
-        amount: bill.amount,
-        frequency: bill.frequency,
-        nextOccurrence: nextOccurrence.toISOString().split('T')[0],
-        bankAccountId: bill.bankAccountId || '',
-        category: bill.category,
-        isActive: true,
-        autoGenerate: true
-      });
-    }
-  });
-
-  return recurring;
-};
-
-const calculateNextOccurrence = (
-  lastDate: Date, 
-  frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly'
-): Date => {
-  const next = new Date(lastDate);
-  
-  switch (frequency) {
-    case 'weekly':
-      next.setDate(next.getDate() + 7);
-      break;
-    case 'biweekly':
-      next.setDate(next.getDate() + 14);
-      break;
-    case 'monthly':
-      next.setMonth(next.getMonth() + 1);
-      break;
-    case 'yearly':
-      next.setFullYear(next.getFullYear() + 1);
-      break;
-  }
-  
-  return next;
-};
+import { formatCurrency } from './currency';
+import { fromBaseCurrency, toBaseCurrency } from './exchangeRates';
+import { addDays, frequencyToRecurrence, getOccurrences } from './recurrence';
+import { getBillInstances } from './bills';
+import { getItemSchedule } from './periods';
 
 // Financial Goal Forecasting
 export const generateGoalForecast = (
   goal: FinancialGoal,
   monthlyIncome: number,
   monthlyExpenses: number,
-  currentSavingsRate: number
+  currentSavingsRate: number,
+  currency?: Currency
 ): GoalForecast => {
   const remainingAmount = goal.targetAmount - goal.currentAmount;
   const targetDate = new Date(goal.targetDate);
@@ -155,7 +71,7 @@ export const generateGoalForecast = (
   // Generate recommendations
   const recommendedAdjustments: string[] = [];
   if (probabilityOfSuccess < 80) {
-    recommendedAdjustments.push(`Increase monthly contribution by KSh ${((monthlyContributionNeeded - availableForGoals) * 1.1).toFixed(0)} to improve success rate`);
+    recommendedAdjustments.push(`Increase monthly contribution by ${formatCurrency((monthlyContributionNeeded - availableForGoals) * 1.1, currency)} to improve success rate`);
     recommendedAdjustments.push('Consider extending target date by 3-6 months');
     recommendedAdjustments.push('Review and reduce non-essential expenses');
   }
@@ -178,83 +94,115 @@ export const generateGoalForecast = (
   };
 };
 
+// Account that pays for events with no account of their own: the first active checking
+// account, otherwise the first active cash or savings account
+export const getDefaultPaymentAccountId = (bankAccounts: BankAccount[]): string => {
+  const active = bankAccounts.filter(account => account.isActive);
+  const account = active.find(a => a.type === 'checking')
+    || active.find(a => a.type === 'cash' || a.type === 'savings');
+  return account ? account.id : '';
+};
+
 // Cash Flow Calendar
 export const generateCashFlowCalendar = (
   incomes: Income[],
   expenses: Expense[],
   bills: Bill[],
+  billInstances: BillInstance[],
   loans: Loan[],
   expectedPayments: ExpectedPayment[],
   goals: FinancialGoal[],
+  bankAccounts: BankAccount[] = [],
+  conversion?: CurrencyConversion,
   daysAhead: number = 90
 ): CashFlowEvent[] => {
   const events: CashFlowEvent[] = [];
+  const defaultAccountId = getDefaultPaymentAccountId(bankAccounts);
   const today = new Date();
   const endDate = new Date();
   endDate.setDate(today.getDate() + daysAhead);
   
-  // Generate recurring income events
+  const startDate = today.toISOString().split('T')[0];
+  const endDateString = endDate.toISOString().split('T')[0];
+  
+  // Every income and expense repeats on its schedule, anchored the way period totals are
   incomes.forEach(income => {
-    if (income.isRecurring) {
-      let currentDate = new Date(income.nextOccurrence || today);
-      while (currentDate <= endDate) {
-        events.push({
-          id: `income-${income.id}-${currentDate.getTime()}`,
-          date: currentDate.toISOString().split('T')[0],
-          type: 'income',
-          name: income.source,
-          amount: income.amount,
-          category: 'income',
-          bankAccountId: income.bankAccountId,
-          isRecurring: true,
-          status: 'scheduled',
-          confidence: 0.9
-        });
-        currentDate = calculateNextOccurrence(currentDate, income.frequency);
-      }
-    }
+    getOccurrences(getItemSchedule(income), startDate, endDateString).forEach(date => {
+      events.push({
+        id: `income-${income.id}-${date}`,
+        date,
+        type: 'income',
+        name: income.source,
+        amount: income.amount,
+        category: 'income',
+        bankAccountId: income.bankAccountId || defaultAccountId,
+        isRecurring: true,
+        status: 'scheduled',
+        confidence: 0.9
+      });
+    });
   });
   
-  // Generate recurring expense events
   expenses.forEach(expense => {
-    if (expense.isRecurring) {
-      let currentDate = new Date(expense.nextOccurrence || today);
-      while (currentDate <= endDate) {
-        events.push({
-          id: `expense-${expense.id}-${currentDate.getTime()}`,
-          date: currentDate.toISOString().split('T')[0],
-          type: 'expense',
-          name: expense.name,
-          amount: expense.amount,
-          category: expense.category,
-          bankAccountId: expense.bankAccountId,
-          isRecurring: true,
-          status: 'scheduled',
-          confidence: 0.85
-        });
-        currentDate = calculateNextOccurrence(currentDate, expense.frequency);
-      }
-    }
+    getOccurrences(getItemSchedule(expense), startDate, endDateString).forEach(date => {
+      events.push({
+        id: `expense-${expense.id}-${date}`,
+        date,
+        type: 'expense',
+        name: expense.name,
+        amount: expense.amount,
+        category: expense.category,
+        bankAccountId: expense.bankAccountId || defaultAccountId,
+        isRecurring: true,
+        status: 'scheduled',
+        confidence: 0.85
+      });
+    });
   });
   
-  // Add bill events
+  // Add bill events, one per open instance
   bills.forEach(bill => {
-    if (!bill.isPaid) {
-      const billDate = new Date(bill.dueDate);
-      if (billDate <= endDate) {
+    const instances = getBillInstances(billInstances, bill.id);
+    
+    instances.forEach(instance => {
+      if (instance.amountPaid !== undefined) return;
+      
+      const dueDate = new Date(instance.dueDate);
+      if (dueDate <= endDate) {
         events.push({
-          id: `bill-${bill.id}`,
-          date: bill.dueDate,
+          id: `bill-${instance.id}`,
+          date: instance.dueDate,
           type: 'bill',
           name: bill.name,
-          amount: bill.amount,
+          amount: instance.expectedAmount,
           category: bill.category,
-          bankAccountId: bill.bankAccountId || '',
+          bankAccountId: instance.bankAccountId || bill.bankAccountId || defaultAccountId,
           isRecurring: bill.isRecurring || false,
-          status: billDate < today ? 'overdue' : 'scheduled',
+          status: dueDate < today ? 'overdue' : 'scheduled',
           confidence: 0.95
         });
       }
+    });
+    
+    // Instances the bill will roll forward to after its latest one. Bills from a
+    // recurring rule are projected by the rule instead.
+    const latest = instances[instances.length - 1];
+    if (latest && !bill.recurringRuleId) {
+      const recurrence = bill.recurrence || frequencyToRecurrence(bill.frequency, latest.dueDate);
+      getOccurrences(recurrence, addDays(latest.dueDate, 1), endDateString).forEach(date => {
+        events.push({
+          id: `bill-${bill.id}-${date}`,
+          date,
+          type: 'bill',
+          name: bill.name,
+          amount: bill.averageAmount ?? bill.amount,
+          category: bill.category,
+          bankAccountId: bill.bankAccountId || defaultAccountId,
+          isRecurring: true,
+          status: 'scheduled',
+          confidence: 0.9
+        });
+      });
     }
   });
   
@@ -268,14 +216,31 @@ export const generateCashFlowCalendar = (
           date: loan.dueDate,
           type: 'loan_payment',
           name: `${loan.name} Payment`,
-          amount: loan.minimumPayment,
+          amount: toBaseCurrency(loan.minimumPayment, loan.currency, conversion, loan.dueDate),
           category: 'debt',
-          bankAccountId: '',
+          bankAccountId: loan.bankAccountId || defaultAccountId,
           isRecurring: true,
           status: dueDate < today ? 'overdue' : 'scheduled',
           confidence: 0.98
         });
       }
+      
+      // Instalments after the next one fall on the same day of later months
+      const laterDueDates = getOccurrences(frequencyToRecurrence('monthly', loan.dueDate), addDays(loan.dueDate, 1), endDateString);
+      laterDueDates.filter(date => date >= startDate).forEach(date => {
+        events.push({
+          id: `loan-${loan.id}-${date}`,
+          date,
+          type: 'loan_payment',
+          name: `${loan.name} Payment`,
+          amount: toBaseCurrency(loan.minimumPayment, loan.currency, conversion, date),
+          category: 'debt',
+          bankAccountId: loan.bankAccountId || defaultAccountId,
+          isRecurring: true,
+          status: 'scheduled',
+          confidence: 0.9
+        });
+      });
     }
   });
   
@@ -291,7 +256,7 @@ export const generateCashFlowCalendar = (
           name: payment.name,
           amount: payment.amount,
           category: payment.type,
-          bankAccountId: payment.bankAccountId,
+          bankAccountId: payment.bankAccountId || defaultAccountId,
           isRecurring: false,
           status: paymentDate < today ? 'overdue' : 'scheduled',
           confidence: 0.7
@@ -315,7 +280,7 @@ export const generateCashFlowCalendar = (
           name: `${goal.name} Contribution`,
           amount: monthlyContribution,
           category: 'savings',
-          bankAccountId: '',
+          bankAccountId: defaultAccountId,
           isRecurring: true,
           status: 'scheduled',
           confidence: 0.6
@@ -325,72 +290,70 @@ export const generateCashFlowCalendar = (
     }
   });
   
-  return events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // Amounts are in the base currency; events on a foreign-currency account also carry
+  // the amount in that account's currency for its balance projection
+  return events
+    .map(event => {
+      const accountCurrency = bankAccounts.find(account => account.id === event.bankAccountId)?.currency;
+      if (!conversion || !accountCurrency || accountCurrency === conversion.baseCurrency) return event;
+      return { ...event, accountAmount: fromBaseCurrency(event.amount, accountCurrency, conversion, event.date) };
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 };
 
-// Spending Pattern Analysis
-export const analyzeSpendingPatterns = (
-  expenses: Expense[],
-  dailyEntries: DailyEntry[]
-): SpendingPattern[] => {
-  const patterns: SpendingPattern[] = [];
-  const categories = ['need', 'want'];
-  
-  categories.forEach(category => {
-    const categoryExpenses = expenses.filter(e => e.category === category);
-    const categoryDailyEntries = dailyEntries.filter(e => e.category === category);
-    
-    // Calculate average monthly spending
-    const monthlyFromExpenses = categoryExpenses.reduce((sum, e) => sum + e.monthlyAmount, 0);
-    const monthlyFromDaily = categoryDailyEntries.reduce((sum, e) => sum + e.expenses, 0);
-    const averageMonthly = monthlyFromExpenses + (monthlyFromDaily / 12);
-    
-    // Analyze trend (simplified - would need more historical data)
-    const recentSpending = categoryDailyEntries
-      .filter(e => new Date(e.date) > new Date(Date.now() - 30 * 24 * 60 * 60 * 1000))
-      .reduce((sum, e) => sum + e.expenses, 0);
-    
-    const olderSpending = categoryDailyEntries
-      .filter(e => {
-        const date = new Date(e.date);
-        const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-        const sixtyDaysAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
-        return date <= thirtyDaysAgo && date > sixtyDaysAgo;
-      })
-      .reduce((sum, e) => sum + e.expenses, 0);
-    
-    let trend: 'increasing' | 'decreasing' | 'stable' = 'stable';
-    if (recentSpending > olderSpending * 1.1) trend = 'increasing';
-    else if (recentSpending < olderSpending * 0.9) trend = 'decreasing';
-    
-    // Generate optimization suggestions
-    const suggestions: string[] = [];
-    if (category === 'want' && trend === 'increasing') {
-      suggestions.push('Consider setting a monthly limit for discretionary spending');
-      suggestions.push('Review recent purchases to identify unnecessary expenses');
-    }
-    
-    if (category === 'need' && averageMonthly > 0) {
-      suggestions.push('Look for opportunities to negotiate bills or find better deals');
-      suggestions.push('Consider bulk purchasing for frequently used items');
+// Runs each active account forward day by day from its current position, applying the
+// events charged to it. Overdue events land today; other past events are already settled.
+export const projectAccountBalances = (
+  bankAccounts: BankAccount[],
+  events: CashFlowEvent[],
+  daysAhead: number = 90
+): AccountBalanceProjection[] => {
+  const startDate = new Date().toISOString().split('T')[0];
+  const endDate = addDays(startDate, daysAhead);
+
+  return bankAccounts.filter(account => account.isActive).map(account => {
+    const changes = new Map<string, number>();
+    events
+      .filter(event => event.bankAccountId === account.id)
+      .forEach(event => {
+        const date = event.date < startDate ? (event.status === 'overdue' ? startDate : '') : event.date;
+        if (!date || date > endDate) return;
+        const amount = event.accountAmount ?? event.amount;
+        const signed = event.type === 'income' ? amount : -amount;
+        changes.set(date, (changes.get(date) || 0) + signed);
+      });
+
+    // A balance below zero already is the overdraft drawn, so it is not subtracted again
+    const startingBalance = account.balance;
+    const overdraftLimit = account.hasOverdraft ? account.overdraftLimit || 0 : 0;
+    const projection: AccountBalanceProjection = {
+      accountId: account.id,
+      startingBalance,
+      days: [],
+      lowestBalance: startingBalance,
+      lowestBalanceDate: startDate
+    };
+
+    let balance = startingBalance;
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const change = changes.get(date) || 0;
+      balance += change;
+      const day: ProjectedBalanceDay = { date, balance, change };
+      projection.days.push(day);
+
+      if (balance < projection.lowestBalance) {
+        projection.lowestBalance = balance;
+        projection.lowestBalanceDate = date;
+      }
+      if (!projection.belowFloorDate && account.lowBalanceFloor !== undefined && balance < account.lowBalanceFloor) {
+        projection.belowFloorDate = date;
+      }
+      if (!projection.overdrawnDate && balance < 0) projection.overdrawnDate = date;
+      if (!projection.overLimitDate && balance < -overdraftLimit) projection.overLimitDate = date;
     }
-    
-    const optimizationPotential = category === 'want' ? 
-      Math.min(30, averageMonthly * 0.2) : 
-      Math.min(15, averageMonthly * 0.1);
-    
-    patterns.push({
-      category,
-      averageMonthly,
-      trend,
-      seasonality: false, // Would need more data to determine
-      peakMonths: [],
-      optimizationPotential,
-      suggestions
-    });
+
+    return projection;
   });
-  
-  return patterns;
 };
 
 // Financial Health Score Improvement Suggestions
@@ -399,7 +362,8 @@ export const generateHealthImprovementSteps = (
   incomes: Income[],
   expenses: Expense[],
   loans: Loan[],
-  bankAccounts: BankAccount[]
+  bankAccounts: BankAccount[],
+  currency?: Currency
 ): HealthImprovementStep[] => {
   const steps: HealthImprovementStep[] = [];
   
@@ -450,7 +414,7 @@ export const generateHealthImprovementSteps = (
     steps.push({
       id: 'reduce-debt',
       title: `Pay Down ${highestInterestLoan.name}`,
-      description: `Focus on paying down your ${highestInterestLoan.name} with ${highestInterestLoan.interestRate}% interest rate. Current balance: KSh ${highestInterestLoan.currentBalance.toFixed(0)}.`,
+      description: `Focus on paying down your ${highestInterestLoan.name} with ${highestInterestLoan.interestRate}% interest rate. Current balance: ${formatCurrency(highestInterestLoan.currentBalance, currency)}.`,
       impact: 'high',
       difficulty: 'hard',
       estimatedTimeframe: '12-24 months',
@@ -480,7 +444,7 @@ export const generateHealthImprovementSteps = (
     steps.push({
       id: `account-debt-${worstAccount.id}`,
       title: `Clear ${worstAccount.name} Account Debt`,
-      description: `Pay off the negative balance and overdraft in your ${worstAccount.name} account. Current debt: KSh ${accountDebt.toFixed(0)}.`,
+      description: `Pay off the negative balance and overdraft in your ${worstAccount.name} account. Current debt: ${formatCurrency(accountDebt, currency)}.`,
       impact: 'high',
       difficulty: 'medium',
       estimatedTimeframe: '1-3 months',
@@ -508,7 +472,7 @@ export const generateHealthImprovementSteps = (
     steps.push({
       id: 'increase-savings',
       title: 'Increase Savings Rate',
-      description: `Your current savings rate is ${currentSavingsRate.toFixed(1)}% of income, below the recommended 20%. Consider reducing discretionary expenses like ${expenseNames} to save approximately KSh ${potentialSavings.toFixed(0)}/month more.`,
+      description: `Your current savings rate is ${currentSavingsRate.toFixed(1)}% of income, below the recommended 20%. Consider reducing discretionary expenses like ${expenseNames} to save approximately ${formatCurrency(potentialSavings, currency)}/month more.`,
       impact: 'medium',
       difficulty: 'medium',
       estimatedTimeframe: '3-6 months',
@@ -549,7 +513,7 @@ export const generateHealthImprovementSteps = (
       steps.push({
         id: `optimize-expense-${largestWantExpense.id}`,
         title: `Reduce ${largestWantExpense.name} Expense`,
-        description: `Your ${largestWantExpense.name} expense of KSh ${largestWantExpense.monthlyAmount.toFixed(0)}/month is significant. Consider ways to reduce this cost by 20% to improve your wants-to-income ratio.`,
+        description: `Your ${largestWantExpense.name} expense of ${formatCurrency(largestWantExpense.monthlyAmount, currency)}/month is significant. Consider ways to reduce this cost by 20% to improve your wants-to-income ratio.`,
         impact: 'medium',
         difficulty: 'easy',
         estimatedTimeframe: '1-3 months',
@@ -576,7 +540,8 @@ export const calculateEmergencyPreparedness = (
   bankAccounts: BankAccount[],
   incomes: Income[],
   expenses: Expense[],
-  loans: Loan[]
+  loans: Loan[],
+  currency?: Currency
 ): EmergencyPreparedness => {
   // If there's no data, return a default score of 0
   if (bankAccounts.length === 0 && incomes.length === 0 && expenses.length === 0 && loans.length === 0) {
@@ -648,7 +613,7 @@ export const calculateEmergencyPreparedness = (
     const emergencyFundGap = targetEmergencyFund - currentEmergencyFund;
     
     if (emergencyFundGap > 0) {
-      recommendations.push(`Build emergency fund by adding KSh ${emergencyFundGap.toFixed(0)} to reach 3 months of expenses (KSh ${targetEmergencyFund.toFixed(0)})`);
+      recommendations.push(`Build emergency fund by adding ${formatCurrency(emergencyFundGap, currency)} to reach 3 months of expenses (${formatCurrency(targetEmergencyFund, currency)})`);
     }
   }
   
@@ -671,7 +636,7 @@ export const calculateEmergencyPreparedness = (
   
   if (liquidAssets < totalExpenses) {
     const liquidityGap = totalExpenses - liquidAssets;
-    recommendations.push(`Increase liquid savings by at least KSh ${liquidityGap.toFixed(0)} for immediate access to funds`);
+    recommendations.push(`Increase liquid savings by at least ${formatCurrency(liquidityGap, currency)} for immediate access to funds`);
   }
   
   return {
@@ -823,15 +788,20 @@ export const categorizeExpenseWithAI = (
   };
 };
 
-// Milestone Celebrations
+// Milestone Celebrations. Ones already celebrated are left out, so each is shown once.
 export const generateCelebrations = (
   goals: FinancialGoal[],
   userProgress: any,
-  financialHealth: any,
-  recentAchievements: string[]
+  achievements: Achievement[],
+  celebratedIds: string[]
 ): Celebration[] => {
   const celebrations: Celebration[] = [];
   const now = new Date().toISOString();
+  const addCelebration = (celebration: Omit<Celebration, 'timestamp' | 'acknowledged'>) => {
+    if (!celebratedIds.includes(celebration.id)) {
+      celebrations.push({ ...celebration, timestamp: now, acknowledged: false });
+    }
+  };
   
   // Goal milestone celebrations
   goals.forEach(goal => {
@@ -839,17 +809,15 @@ export const generateCelebrations = (
     const milestones = [25, 50, 75, 100];
     
     milestones.forEach(milestone => {
-      if (progress >= milestone && !recentAchievements.includes(`goal-${goal.id}-${milestone}`)) {
-        celebrations.push({
+      if (progress >= milestone) {
+        addCelebration({
           id: `goal-${goal.id}-${milestone}`,
-          type: 'milestone',
+          type: milestone === 100 ? 'goal_achieved' : 'milestone',
           title: `${milestone}% Goal Achievement!`,
           message: `You've reached ${milestone}% of your ${goal.name} goal!`,
           amount: goal.currentAmount,
           icon: milestone === 100 ? '🎉' : '🎯',
-          color: milestone === 100 ? 'from-green-500 to-green-600' : 'from-blue-500 to-blue-600',
-          timestamp: now,
-          acknowledged: false
+          color: milestone === 100 ? 'from-green-500 to-green-600' : 'from-blue-500 to-blue-600'
         });
       }
     });
@@ -857,64 +825,43 @@ export const generateCelebrations = (
   
   // Level up celebrations
   if (userProgress && userProgress.level > 1) {
-    celebrations.push({
+    addCelebration({
       id: `level-${userProgress.level}`,
       type: 'level_up',
       title: `Level ${userProgress.level} Achieved!`,
       message: `You've reached Level ${userProgress.level} in your financial journey!`,
       icon: '⭐',
-      color: 'from-purple-500 to-purple-600',
-      timestamp: now,
-      acknowledged: false
+      color: 'from-purple-500 to-purple-600'
     });
   }
   
   // Streak celebrations
   if (userProgress && userProgress.streak > 0 && userProgress.streak % 7 === 0) {
-    celebrations.push({
+    addCelebration({
       id: `streak-${userProgress.streak}`,
       type: 'streak',
       title: `${userProgress.streak} Day Streak!`,
       message: `Amazing! You've tracked your finances for ${userProgress.streak} consecutive days!`,
       icon: '🔥',
-      color: 'from-orange-500 to-orange-600',
-      timestamp: now,
-      acknowledged: false
+      color: 'from-orange-500 to-orange-600'
     });
   }
   
-  // Financial health improvements
-  if (financialHealth.score >= 80 && !recentAchievements.includes('excellent-health')) {
-    celebrations.push({
-      id: 'excellent-health',
-      type: 'milestone',
-      title: 'Excellent Financial Health!',
-      message: `Your financial health score has reached ${financialHealth.score}!`,
-      icon: '💪',
-      color: 'from-green-500 to-green-600',
-      timestamp: now,
-      acknowledged: false
+  // Unlocked achievements
+  achievements.filter(achievement => achievement.isUnlocked).forEach(achievement => {
+    addCelebration({
+      id: `achievement-${achievement.id}`,
+      type: achievement.id === 'loan-cleared' ? 'debt_paid' : 'milestone',
+      title: `Achievement Unlocked: ${achievement.title}`,
+      message: `${achievement.description} +${achievement.points} points`,
+      icon: achievement.icon,
+      color: achievement.color
     });
-  }
+  });
   
   return celebrations;
 };
 
-export const formatCurrency = (amount: number, currency: Currency): string => {
-  const absAmount = Math.abs(amount);
-  
-  // Use KES formatting
-  const formatted = new Intl.NumberFormat('en-KE', {
-    style: 'currency',
-    currency: 'KES',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(absAmount);
-  
-  // Add minus prefix for negative amounts
-  return amount < 0 ? `-${formatted}` : formatted;
-};
-
 export const formatDate = (dateString: string): string => {
   return new Date(dateString).toLocaleDateString('en-US', {
     year: 'numeric',
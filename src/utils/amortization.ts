@@ -0,0 +1,160 @@
+import { Loan, LoanPayment, AmortizationRow, AmortizationSchedule, ExtraPaymentPlan } from '../types';
+
+// Stop simulating after 50 years so loans that barely amortise still finish
+const MAX_PERIODS = 600;
+
+export const noExtraPayments: ExtraPaymentPlan = { oneOffAmount: 0, oneOffPeriod: 1, recurringAmount: 0 };
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// Same day of month n months later, clamped to the last day of shorter months
+const addMonths = (dateString: string, months: number): string => {
+  const date = new Date(dateString);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return toDateString(target);
+};
+
+const getMonthlyRate = (loan: Loan): number => (loan.interestRate || 0) / 100;
+
+// Months of the agreed term still to run, counting from the start date
+const getRemainingTerm = (loan: Loan, today: Date = new Date()): number => {
+  if (!loan.startDate) return Math.max(loan.loanPeriodMonths || 1, 1);
+
+  const start = new Date(loan.startDate);
+  const elapsed = (today.getUTCFullYear() - start.getUTCFullYear()) * 12 + today.getUTCMonth() - start.getUTCMonth();
+  return Math.max((loan.loanPeriodMonths || 1) - Math.max(elapsed, 0), 1);
+};
+
+// Interest charged for one period given what is still owed
+export const getPeriodInterest = (loan: Loan, balance: number): number =>
+  loan.interestMethod === 'flat'
+    ? loan.principal * getMonthlyRate(loan)
+    : balance * getMonthlyRate(loan);
+
+// The regular instalment: the minimum payment when set, otherwise the instalment that
+// clears the current balance over the rest of the term
+export const getScheduledPayment = (loan: Loan): number => {
+  if (loan.minimumPayment > 0) return loan.minimumPayment;
+
+  const balance = loan.currentBalance;
+  const periods = getRemainingTerm(loan);
+  const rate = getMonthlyRate(loan);
+
+  if (loan.interestMethod === 'flat') return roundMoney(balance / periods + loan.principal * rate);
+  if (rate === 0) return roundMoney(balance / periods);
+  return roundMoney((balance * rate) / (1 - Math.pow(1 + rate, -periods)));
+};
+
+// Period-by-period schedule from the current balance, starting at the next due date
+export const buildAmortizationSchedule = (
+  loan: Loan,
+  extraPayments: ExtraPaymentPlan = noExtraPayments
+): AmortizationSchedule => {
+  const scheduledPayment = getScheduledPayment(loan);
+  const firstDate = loan.dueDate || addMonths(toDateString(new Date()), 1);
+  const rows: AmortizationRow[] = [];
+
+  let balance = loan.currentBalance;
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let period = 1; balance > 0.005 && period <= MAX_PERIODS; period++) {
+    const interest = roundMoney(getPeriodInterest(loan, balance));
+    const payment = Math.min(scheduledPayment, roundMoney(balance + interest));
+    const plannedExtra = extraPayments.recurringAmount + (period === extraPayments.oneOffPeriod ? extraPayments.oneOffAmount : 0);
+    const extraPayment = Math.max(Math.min(plannedExtra, roundMoney(balance + interest - payment)), 0);
+    const principal = roundMoney(payment + extraPayment - interest);
+
+    // The balance would only grow, so the loan is never repaid on this plan
+    if (principal <= 0) break;
+
+    balance = Math.max(roundMoney(balance - principal), 0);
+    totalInterest += interest;
+    totalPaid += payment + extraPayment;
+
+    rows.push({
+      period,
+      date: addMonths(firstDate, period - 1),
+      payment,
+      extraPayment,
+      interest,
+      principal,
+      balance
+    });
+  }
+
+  const isPaidOff = balance <= 0.005;
+
+  return {
+    rows,
+    scheduledPayment,
+    totalInterest: roundMoney(totalInterest),
+    totalPaid: roundMoney(totalPaid),
+    payoffDate: isPaidOff && rows.length > 0 ? rows[rows.length - 1].date : undefined,
+    isPaidOff
+  };
+};
+
+// How extra payments change the payoff date and interest compared with the plain schedule
+export const compareExtraPayments = (loan: Loan, extraPayments: ExtraPaymentPlan) => {
+  const baseline = buildAmortizationSchedule(loan);
+  const withExtra = buildAmortizationSchedule(loan, extraPayments);
+
+  return {
+    baseline,
+    withExtra,
+    monthsSaved: baseline.isPaidOff && withExtra.isPaidOff ? baseline.rows.length - withExtra.rows.length : 0,
+    interestSaved: baseline.isPaidOff && withExtra.isPaidOff ? roundMoney(baseline.totalInterest - withExtra.totalInterest) : 0
+  };
+};
+
+// How a payment is applied: the late payment penalty first, then the period's interest,
+// then the balance. The penalty is the penalty rate on the instalment that was due.
+// Partial payments leave the due date where it is, so whatever earlier payments towards
+// the same instalment already covered is not charged again.
+export const splitLoanPayment = (
+  loan: Loan,
+  amount: number,
+  paidDate: string,
+  loanPayments: LoanPayment[] = []
+): Pick<LoanPayment, 'interest' | 'principal' | 'penalty'> => {
+  const periodPayments = loan.dueDate
+    ? loanPayments.filter(payment => payment.loanId === loan.id && payment.previousDueDate === loan.dueDate)
+    : [];
+  const interestPaid = periodPayments.reduce((sum, payment) => sum + payment.interest, 0);
+  const penaltyPaid = periodPayments.reduce((sum, payment) => sum + payment.penalty, 0);
+
+  const isLate = !!loan.dueDate && paidDate > loan.dueDate;
+  const penaltyDue = isLate
+    ? Math.max(0, roundMoney(getScheduledPayment(loan) * (loan.penaltyRate || 0) / 100 - penaltyPaid))
+    : 0;
+  const interestDue = Math.max(0, roundMoney(getPeriodInterest(loan, loan.currentBalance) - interestPaid));
+
+  const penalty = Math.min(amount, penaltyDue);
+  const interest = Math.min(amount - penalty, interestDue);
+
+  return {
+    interest: roundMoney(interest),
+    principal: roundMoney(amount - penalty - interest),
+    penalty: roundMoney(penalty)
+  };
+};
+
+// A payment that, with earlier partial payments towards the same instalment, covers it
+// (or clears the loan) moves the due date on a month
+export const getNextLoanDueDate = (
+  loan: Loan,
+  amount: number,
+  loanPayments: LoanPayment[] = []
+): string | undefined => {
+  if (!loan.dueDate) return undefined;
+  const paidThisPeriod = loanPayments
+    .filter(payment => payment.loanId === loan.id && payment.previousDueDate === loan.dueDate)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  if (paidThisPeriod + amount < getScheduledPayment(loan) && amount < loan.currentBalance) return undefined;
+  return addMonths(loan.dueDate, 1);
+};
@@ -0,0 +1,78 @@
+import { Attachment, AttachmentParentType } from '../types';
+
+// Matches the limits of the attachments bucket
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'application/pdf'];
+
+const THUMBNAIL_SIZE = 160;
+
+// Why a file can't be attached, or null when it can
+export const getAttachmentError = (file: Pick<File, 'name' | 'type' | 'size'>): string | null => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) return `${file.name} is not an image or a PDF.`;
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > MAX_ATTACHMENT_SIZE) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`;
+  return null;
+};
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'contentType'>): boolean =>
+  attachment.contentType.startsWith('image/');
+
+export const isPdfAttachment = (attachment: Pick<Attachment, 'contentType'>): boolean =>
+  attachment.contentType === 'application/pdf';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Files sit in the owner's folder of the bucket, which is what the storage policies check
+export const getAttachmentPath = (userId: string, attachmentId: string, fileName: string): string =>
+  `${userId}/${attachmentId}/${fileName.replace(/[^\w.-]+/g, '_') || 'file'}`;
+
+export const getThumbnailPath = (userId: string, attachmentId: string): string =>
+  `${userId}/${attachmentId}/thumbnail.jpg`;
+
+export const getAttachmentsFor = (
+  attachments: Attachment[],
+  parentType: AttachmentParentType,
+  parentId: string
+): Attachment[] =>
+  attachments.filter(attachment => attachment.parentType === parentType && attachment.parentId === parentId);
+
+// Every stored file of the attachments, thumbnails included
+export const getAttachmentFilePaths = (attachments: Attachment[]): string[] =>
+  attachments.flatMap(attachment =>
+    attachment.thumbnailPath ? [attachment.storagePath, attachment.thumbnailPath] : [attachment.storagePath]
+  );
+
+// Files travel inside data exports as data URLs
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+// A small JPEG of an image for lists, or null when the browser can't read the image
+export const createImageThumbnail = async (file: Blob): Promise<Blob | null> => {
+  try {
+    const image = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.close();
+
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,25 @@
+import { Bill, BillInstance } from '../types';
+import { frequencyToRecurrence, getNextOccurrence } from './recurrence';
+
+const byDueDate = (a: BillInstance, b: BillInstance) => a.dueDate.localeCompare(b.dueDate);
+
+// The bill's instances, oldest first
+export const getBillInstances = (instances: BillInstance[], billId: string): BillInstance[] =>
+  instances.filter(instance => instance.billId === billId).sort(byDueDate);
+
+// The earliest instance still to be paid
+export const getOpenBillInstance = (instances: BillInstance[], billId: string): BillInstance | undefined =>
+  getBillInstances(instances, billId).find(instance => instance.amountPaid === undefined);
+
+export const getPaidBillInstances = (instances: BillInstance[], billId: string): BillInstance[] =>
+  getBillInstances(instances, billId).filter(instance => instance.amountPaid !== undefined).reverse();
+
+// When the instance after this one falls due, or undefined when the bill doesn't roll
+// forward. Bills generated from a recurring rule get their next bill from the rule.
+// Bills saved before schedules existed repeat on their frequency from the instance.
+export const getNextBillDueDate = (bill: Bill, instance: BillInstance): string | undefined => {
+  if (bill.recurringRuleId) return undefined;
+
+  const recurrence = bill.recurrence || frequencyToRecurrence(bill.frequency, instance.dueDate);
+  return getNextOccurrence(recurrence, instance.dueDate);
+};
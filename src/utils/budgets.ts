@@ -0,0 +1,183 @@
+import { Budget, BudgetAlert, BusinessEntry, DailyEntry, Expense } from '../types';
+import { calculateMonthlyAmount, getDailyEntryLines } from './calculations';
+
+export type BudgetAlertDraft = Omit<BudgetAlert, 'id' | 'isRead' | 'createdAt'>;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// Get the start and end (inclusive) of the budget period containing the given date
+export const getBudgetPeriodRange = (
+  period: Budget['period'],
+  referenceDate: string = new Date().toISOString().split('T')[0]
+): { start: string; end: string } => {
+  const date = new Date(referenceDate);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (period) {
+    case 'weekly': {
+      // Weeks run Monday to Sunday
+      const dayOffset = (date.getUTCDay() + 6) % 7;
+      const start = new Date(Date.UTC(year, month, date.getUTCDate() - dayOffset));
+      const end = new Date(Date.UTC(year, month, date.getUTCDate() - dayOffset + 6));
+      return { start: toDateString(start), end: toDateString(end) };
+    }
+    case 'yearly':
+      return {
+        start: toDateString(new Date(Date.UTC(year, 0, 1))),
+        end: toDateString(new Date(Date.UTC(year, 11, 31)))
+      };
+    case 'monthly':
+    default:
+      return {
+        start: toDateString(new Date(Date.UTC(year, month, 1))),
+        end: toDateString(new Date(Date.UTC(year, month + 1, 0)))
+      };
+  }
+};
+
+// Convert a recurring expense into its cost over one budget period
+const getExpenseAmountForPeriod = (expense: Expense, period: Budget['period']): number => {
+  const monthlyAmount = calculateMonthlyAmount(expense.amount, expense.frequency, expense.recurrence);
+
+  switch (period) {
+    case 'weekly':
+      return (monthlyAmount * 12) / 52;
+    case 'yearly':
+      return monthlyAmount * 12;
+    case 'monthly':
+    default:
+      return monthlyAmount;
+  }
+};
+
+// What a business entry cost to run: the stock sold and its budget items
+const getBusinessCosts = (entry: BusinessEntry): number =>
+  entry.stockValue + (entry.budgetItems || []).reduce((sum, item) => sum + item.amount, 0);
+
+// Decide whether a piece of personal spending counts towards a budget.
+// An explicit budget link always wins; otherwise need/want budgets collect
+// unlinked spending of the same category and goal budgets collect spending
+// linked to their goal. Business budgets collect business costs only, so
+// personal spending reaches them through an explicit link.
+const belongsToBudget = (
+  budget: Budget,
+  item: { category?: 'need' | 'want'; linkedBudgetId?: string; linkedGoalId?: string }
+): boolean => {
+  if (item.linkedBudgetId) return item.linkedBudgetId === budget.id;
+
+  switch (budget.category) {
+    case 'need':
+    case 'want':
+      return item.category === budget.category && !item.linkedGoalId;
+    case 'goal':
+      return !!budget.linkedGoalId && item.linkedGoalId === budget.linkedGoalId;
+    case 'business':
+      return false;
+    default:
+      return false;
+  }
+};
+
+// Calculate how much has been spent against a budget in its current period
+export const calculateBudgetSpending = (
+  budget: Budget,
+  dailyEntries: DailyEntry[],
+  expenses: Expense[],
+  businessEntries: BusinessEntry[],
+  referenceDate?: string
+): number => {
+  const { start, end } = getBudgetPeriodRange(budget.period, referenceDate);
+
+  // Each line of a split transaction counts towards its own budget
+  const dailySpending = dailyEntries
+    .filter(entry => entry.date >= start && entry.date <= end)
+    .flatMap(getDailyEntryLines)
+    .filter(line => line.type === 'expense' && belongsToBudget(budget, line))
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  const recurringSpending = expenses
+    .filter(expense => belongsToBudget(budget, expense))
+    .reduce((sum, expense) => sum + getExpenseAmountForPeriod(expense, budget.period), 0);
+
+  const businessSpending = budget.category === 'business'
+    ? businessEntries
+      .filter(entry => entry.date >= start && entry.date <= end)
+      .reduce((sum, entry) => sum + getBusinessCosts(entry), 0)
+    : 0;
+
+  return dailySpending + recurringSpending + businessSpending;
+};
+
+// Fill in spentAmount and remainingAmount for every budget
+export const applyBudgetSpending = (
+  budgets: Budget[],
+  dailyEntries: DailyEntry[],
+  expenses: Expense[],
+  businessEntries: BusinessEntry[],
+  referenceDate?: string
+): Budget[] => {
+  return budgets.map(budget => {
+    const spentAmount = budget.isActive
+      ? calculateBudgetSpending(budget, dailyEntries, expenses, businessEntries, referenceDate)
+      : 0;
+
+    return {
+      ...budget,
+      spentAmount,
+      remainingAmount: budget.allocatedAmount - spentAmount
+    };
+  });
+};
+
+// Generate alerts for budgets that crossed a threshold and have not yet been
+// alerted on in the current period
+export const generateBudgetAlerts = (
+  budgets: Budget[],
+  existingAlerts: BudgetAlert[],
+  referenceDate?: string
+): BudgetAlertDraft[] => {
+  const drafts: BudgetAlertDraft[] = [];
+
+  budgets
+    .filter(budget => budget.isActive && budget.allocatedAmount > 0)
+    .forEach(budget => {
+      const { start } = getBudgetPeriodRange(budget.period, referenceDate);
+      const percentage = (budget.spentAmount / budget.allocatedAmount) * 100;
+
+      let type: BudgetAlert['type'] | null = null;
+      let message = '';
+
+      if (percentage > 100) {
+        type = 'exceeded';
+        message = `You've exceeded your ${budget.name} budget by ${(percentage - 100).toFixed(0)}% this ${budget.period.replace('ly', '')}`;
+      } else if (percentage === 100) {
+        type = 'depleted';
+        message = `Your ${budget.name} budget is fully used for this ${budget.period.replace('ly', '')}`;
+      } else if (percentage >= budget.alertThreshold) {
+        type = 'warning';
+        message = `You've used ${percentage.toFixed(0)}% of your ${budget.name} budget`;
+      }
+
+      if (!type) return;
+
+      const alreadyAlerted = existingAlerts.some(alert =>
+        alert.budgetId === budget.id &&
+        alert.type === type &&
+        alert.periodStart === start
+      );
+
+      if (!alreadyAlerted) {
+        drafts.push({
+          budgetId: budget.id,
+          budgetName: budget.name,
+          type,
+          message,
+          percentage,
+          periodStart: start
+        });
+      }
+    });
+
+  return drafts;
+};
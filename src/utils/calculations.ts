@@ -9,34 +9,26 @@ import {
   BankAccount,
   AutoAllocation,
   FinancialHealth,
+  HealthScoreFactor,
   DebtRecommendation,
   SpendingAllowance,
   UserPreferences,
   PaymentSuggestion,
   ExpectedPayment,
-  Currency
+  Currency,
+  CurrencyConversion,
+  DailyEntryGroup,
+  DailyEntryLine,
+  Recurrence,
+  DateRange,
+  LoanPayment,
+  LedgerEntry
 } from '../types';
-
-// Default currencies with KES as default
-export const defaultCurrencies: Currency[] = [
-  { code: 'KES', symbol: 'KSh', name: 'Kenyan Shilling' },
-  { code: 'USD', symbol: '$', name: 'US Dollar' },
-  { code: 'EUR', symbol: '€', name: 'Euro' },
-  { code: 'GBP', symbol: '£', name: 'British Pound' }
-];
-
-// Format currency
-export const formatCurrency = (amount: number, currency: Currency = defaultCurrencies[0]): string => {
-  const absAmount = Math.abs(amount);
-  const formatted = new Intl.NumberFormat('en-KE', {
-    style: 'currency',
-    currency: 'KES',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(absAmount);
-  
-  return amount < 0 ? `-${formatted}` : formatted;
-};
+import { formatCurrency } from './currency';
+import { convertAccountsToBase, convertLoansToBase } from './exchangeRates';
+import { getPeriodInterest } from './amortization';
+import { frequencyToRecurrence, getAverageOccurrencesPerMonth } from './recurrence';
+import { calculateIncomeForPeriod, calculateExpensesForPeriod } from './periods';
 
 // Format date
 export const formatDate = (dateString: string): string => {
@@ -47,39 +39,48 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
-// Calculate monthly amount based on frequency
-export const calculateMonthlyAmount = (amount: number, frequency: string): number => {
+// Average monthly amount over a year of the item's schedule, for long-term planning
+export const calculateMonthlyAmount = (amount: number, frequency: string, recurrence?: Recurrence): number => {
+  if (recurrence) return amount * getAverageOccurrencesPerMonth(recurrence);
+
   switch (frequency) {
     case 'weekly':
-      return amount * 4.33; // Average weeks in a month
     case 'biweekly':
-      return amount * 2.17; // Average bi-weeks in a month
     case 'monthly':
-      return amount;
     case 'yearly':
-      return amount / 12;
+      return amount * getAverageOccurrencesPerMonth(frequencyToRecurrence(frequency, ''));
     default:
       return amount;
   }
 };
 
-// Calculate total monthly income
-export const calculateTotalMonthlyIncome = (incomes: Income[]): number => {
-  return incomes.reduce((total, income) => total + income.monthlyAmount, 0);
+// Calculate total monthly income: what lands in the period when one is given,
+// otherwise the averaged monthly figure
+export const calculateTotalMonthlyIncome = (incomes: Income[], period?: DateRange): number => {
+  if (period) return calculateIncomeForPeriod(incomes, period);
+  return incomes.reduce((total, income) => total + calculateMonthlyAmount(income.amount, income.frequency, income.recurrence), 0);
 };
 
-// Calculate total monthly expenses
-export const calculateTotalMonthlyExpenses = (expenses: Expense[]): number => {
-  return expenses.reduce((total, expense) => total + expense.monthlyAmount, 0);
+// Calculate total monthly expenses, for the period when one is given
+export const calculateTotalMonthlyExpenses = (expenses: Expense[], period?: DateRange): number => {
+  if (period) return calculateExpensesForPeriod(expenses, period);
+  return expenses.reduce((total, expense) => total + calculateMonthlyAmount(expense.amount, expense.frequency, expense.recurrence), 0);
 };
 
 // Calculate total debt
-export const calculateTotalDebt = (loans: Loan[], bankAccounts: BankAccount[] = []): number => {
+export const calculateTotalDebt = (
+  loans: Loan[],
+  bankAccounts: BankAccount[] = [],
+  conversion?: CurrencyConversion
+): number => {
+  const baseLoans = convertLoansToBase(loans, conversion);
+  const baseAccounts = convertAccountsToBase(bankAccounts, conversion);
+
   // Sum loan balances
-  const loanDebt = loans.reduce((total, loan) => total + loan.currentBalance, 0);
+  const loanDebt = baseLoans.reduce((total, loan) => total + loan.currentBalance, 0);
   
   // Add negative bank account balances (credit cards, overdrafts)
-  const accountDebt = bankAccounts
+  const accountDebt = baseAccounts
     .filter(account => account.isActive)
     .reduce((total, account) => {
       let accountDebt = 0;
@@ -100,13 +101,57 @@ export const calculateTotalDebt = (loans: Loan[], bankAccounts: BankAccount[] =
   return loanDebt + accountDebt;
 };
 
+// Total debt as it stood at the end of a date. Loans are rolled back by the principal
+// repaid since and loans started later are left out; account balances come from the
+// ledger. Overdraft use is not recorded over time, so the current figure is used.
+export const calculateDebtAt = (
+  date: string,
+  loans: Loan[],
+  loanPayments: LoanPayment[],
+  bankAccounts: BankAccount[] = [],
+  ledgerEntries: LedgerEntry[] = [],
+  conversion?: CurrencyConversion
+): number => {
+  const loansThen = loans
+    .filter(loan => !loan.startDate || loan.startDate <= date)
+    .map(loan => ({
+      ...loan,
+      currentBalance: loan.currentBalance + loanPayments
+        .filter(payment => payment.loanId === loan.id && payment.paidDate > date)
+        .reduce((total, payment) => total + payment.principal, 0)
+    }));
+
+  const accountsThen = bankAccounts.map(account => {
+    const entries = ledgerEntries.filter(entry => entry.accountId === account.id);
+    if (entries.length === 0) return account;
+
+    // The running balance after the last entry on or before the date, in ledger order
+    const latest = entries
+      .filter(entry => entry.date <= date)
+      .reduce<LedgerEntry | undefined>((last, entry) =>
+        !last || entry.date > last.date || (entry.date === last.date && entry.createdAt > last.createdAt) ? entry : last,
+        undefined
+      );
+    return { ...account, balance: latest ? latest.runningBalance : 0 };
+  });
+
+  return calculateTotalDebt(loansThen, accountsThen, conversion);
+};
+
 // Calculate minimum payments
-export const calculateMinimumPayments = (loans: Loan[], bankAccounts: BankAccount[] = []): number => {
+export const calculateMinimumPayments = (
+  loans: Loan[],
+  bankAccounts: BankAccount[] = [],
+  conversion?: CurrencyConversion
+): number => {
+  const baseLoans = convertLoansToBase(loans, conversion);
+  const baseAccounts = convertAccountsToBase(bankAccounts, conversion);
+
   // Sum loan minimum payments
-  const loanPayments = loans.reduce((total, loan) => total + loan.minimumPayment, 0);
+  const loanPayments = baseLoans.reduce((total, loan) => total + loan.minimumPayment, 0);
   
   // Calculate minimum payments for negative bank accounts
-  const accountPayments = bankAccounts
+  const accountPayments = baseAccounts
     .filter(account => account.isActive)
     .reduce((total, account) => {
       let payment = 0;
@@ -129,7 +174,60 @@ export const calculateMinimumPayments = (loans: Loan[], bankAccounts: BankAccoun
 
 // Calculate interest per month
 export const calculateInterestPerMonth = (loan: Loan): number => {
-  return (loan.currentBalance * loan.interestRate) / 100;
+  return getPeriodInterest(loan, loan.currentBalance);
+};
+
+// Round to the cent, as split lines are compared with their total
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// The lines a daily entry is counted by: one per line of a split, otherwise one for the
+// money in and one for the money out it records. Split lines without an account use the
+// transaction's own.
+export const getDailyEntryLines = (entry: Omit<DailyEntry, 'id'>): DailyEntryLine[] => {
+  const { date, description } = entry;
+
+  if (entry.splits?.length) {
+    const type = entry.income > 0 ? 'income' : 'expense';
+    const bankAccountId = type === 'income' ? entry.incomeBankAccountId : entry.expenseBankAccountId;
+    return entry.splits.map(split => ({ ...split, bankAccountId: split.bankAccountId || bankAccountId, type, date, description }));
+  }
+
+  const line = {
+    category: entry.category,
+    categoryId: entry.categoryId,
+    aiCategory: entry.aiCategory,
+    linkedBudgetId: entry.linkedBudgetId,
+    linkedGoalId: entry.linkedGoalId,
+    date,
+    description
+  };
+  const lines: DailyEntryLine[] = [];
+  if (entry.income > 0) lines.push({ ...line, type: 'income', amount: entry.income, bankAccountId: entry.incomeBankAccountId });
+  if (entry.expenses > 0) lines.push({ ...line, type: 'expense', amount: entry.expenses, bankAccountId: entry.expenseBankAccountId });
+  return lines;
+};
+
+// Total money in or out across daily entries, line by line
+export const sumDailyEntryLines = (dailyEntries: DailyEntry[], type: DailyEntryLine['type']): number =>
+  dailyEntries
+    .flatMap(getDailyEntryLines)
+    .filter(line => line.type === type)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+// Why a split can't be saved, or null when it is fine (or the entry isn't split)
+export const getSplitError = (entry: Pick<DailyEntry, 'income' | 'expenses' | 'splits'>): string | null => {
+  if (!entry.splits) return null;
+  if (entry.income > 0 && entry.expenses > 0) return 'A split transaction records either money in or money out, not both.';
+  if (entry.splits.length < 2) return 'Split a transaction into at least two lines.';
+  if (entry.splits.some(split => !(split.amount > 0))) return 'Every line needs an amount above zero.';
+
+  const total = entry.income + entry.expenses;
+  const linesTotal = roundToCents(entry.splits.reduce((sum, split) => sum + split.amount, 0));
+  if (Math.abs(linesTotal - total) >= 0.005) {
+    return `The lines add up to ${linesTotal.toFixed(2)} but the transaction is ${total.toFixed(2)}.`;
+  }
+
+  return null;
 };
 
 // Calculate daily average
@@ -143,8 +241,8 @@ export const calculateDailyAverage = (dailyEntries: DailyEntry[], days: number =
     return entryDate >= startDate && entryDate <= now;
   });
   
-  const totalIncome = recentEntries.reduce((sum, entry) => sum + entry.income, 0);
-  const totalExpenses = recentEntries.reduce((sum, entry) => sum + entry.expenses, 0);
+  const totalIncome = sumDailyEntryLines(recentEntries, 'income');
+  const totalExpenses = sumDailyEntryLines(recentEntries, 'expense');
   
   return {
     income: totalIncome / days,
@@ -152,6 +250,45 @@ export const calculateDailyAverage = (dailyEntries: DailyEntry[], days: number =
   };
 };
 
+// Group daily transactions by day, newest day first, with per-day totals
+export const groupDailyEntriesByDate = (dailyEntries: DailyEntry[]): DailyEntryGroup[] => {
+  const groups: Record<string, DailyEntry[]> = {};
+  
+  dailyEntries.forEach(entry => {
+    if (!groups[entry.date]) groups[entry.date] = [];
+    groups[entry.date].push(entry);
+  });
+  
+  return Object.entries(groups)
+    .map(([date, entries]) => {
+      const totalIncome = sumDailyEntryLines(entries, 'income');
+      const totalExpenses = sumDailyEntryLines(entries, 'expense');
+      
+      return {
+        date,
+        entries: entries.sort((a, b) => (b.time || '').localeCompare(a.time || '')),
+        totalIncome,
+        totalExpenses,
+        net: totalIncome - totalExpenses
+      };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Count consecutive days with at least one transaction, ending on the given day
+export const calculateActivityStreak = (dates: string[], endDate: string): number => {
+  const activeDays = new Set(dates);
+  const cursor = new Date(endDate);
+  let streak = 0;
+  
+  while (activeDays.has(cursor.toISOString().split('T')[0])) {
+    streak += 1;
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+  
+  return streak;
+};
+
 // Calculate business contribution
 export const calculateBusinessContribution = (businessEntries: BusinessEntry[]): number => {
   // Get entries from the last 30 days
@@ -291,13 +428,13 @@ export const calculateSpendingAllowance = (
   const restrictions: string[] = [];
   
   if (remainingWantsAllowance < 0) {
-    restrictions.push(`You've exceeded your monthly wants budget by KES ${Math.abs(remainingWantsAllowance).toFixed(0)}`);
+    restrictions.push(`You've exceeded your monthly wants budget by ${formatCurrency(Math.abs(remainingWantsAllowance), preferences.currency)}`);
     restrictions.push('Consider reducing non-essential spending for the rest of the month');
   } else if (remainingWantsAllowance < allowedWantsSpending * 0.2) {
-    recommendations.push(`You have KES ${remainingWantsAllowance.toFixed(0)} left for wants this month (less than 20% of your budget)`);
+    recommendations.push(`You have ${formatCurrency(remainingWantsAllowance, preferences.currency)} left for wants this month (less than 20% of your budget)`);
     recommendations.push('Be mindful of additional discretionary spending');
   } else {
-    recommendations.push(`You have KES ${remainingWantsAllowance.toFixed(0)} available for wants this month`);
+    recommendations.push(`You have ${formatCurrency(remainingWantsAllowance, preferences.currency)} available for wants this month`);
   }
   
   // Add debt-related recommendations
@@ -341,10 +478,14 @@ export const calculateNetWorth = (
   bankAccounts: BankAccount[] = [],
   loans: Loan[] = [],
   goals: FinancialGoal[] = [],
-  expectedPayments: ExpectedPayment[] = []
+  expectedPayments: ExpectedPayment[] = [],
+  conversion?: CurrencyConversion
 ): number => {
+  const baseLoans = convertLoansToBase(loans, conversion);
+  const baseAccounts = convertAccountsToBase(bankAccounts, conversion);
+
   // Assets: positive bank account balances + goal progress + expected income
-  const assets = bankAccounts
+  const assets = baseAccounts
     .filter(account => account.isActive)
     .reduce((sum, account) => sum + Math.max(0, account.balance), 0);
   
@@ -357,9 +498,9 @@ export const calculateNetWorth = (
     .reduce((sum, payment) => sum + payment.amount, 0);
   
   // Liabilities: loans + negative bank account balances + overdrafts + expected expenses
-  const loanLiabilities = loans.reduce((sum, loan) => sum + loan.currentBalance, 0);
+  const loanLiabilities = baseLoans.reduce((sum, loan) => sum + loan.currentBalance, 0);
   
-  const accountLiabilities = bankAccounts
+  const accountLiabilities = baseAccounts
     .filter(account => account.isActive)
     .reduce((sum, account) => {
       let liability = 0;
@@ -389,7 +530,8 @@ export const generateDebtRecommendations = (
   loans: Loan[],
   extraPayment: number,
   strategy: 'avalanche' | 'snowball' | 'hybrid',
-  bankAccounts: BankAccount[] = []
+  bankAccounts: BankAccount[] = [],
+  currency?: Currency
 ): DebtRecommendation[] => {
   const recommendations: DebtRecommendation[] = [];
   
@@ -445,7 +587,7 @@ export const generateDebtRecommendations = (
     if (strategy === 'avalanche') {
       reason = `High interest rate of ${loan.interestRate}% makes this a priority for the avalanche method`;
     } else if (strategy === 'snowball') {
-      reason = `Small balance of KES ${loan.currentBalance.toFixed(0)} makes this a good quick win for the snowball method`;
+      reason = `Small balance of ${formatCurrency(loan.currentBalance, currency)} makes this a good quick win for the snowball method`;
     } else {
       reason = `Optimized based on both interest rate and balance for maximum financial benefit`;
     }
@@ -575,7 +717,7 @@ export const generatePaymentSuggestions = (
   
   // Handle loans based on strategy
   const strategy = preferences.debtStrategy || 'avalanche';
-  const debtRecommendations = generateDebtRecommendations(loans, availableAmount, strategy, []);
+  const debtRecommendations = generateDebtRecommendations(loans, availableAmount, strategy, [], preferences.currency);
   
   debtRecommendations.slice(0, 2).forEach((rec, index) => {
     const loan = loans.find(l => l.id === rec.loanId);
@@ -719,16 +861,20 @@ export const calculateFinancialHealth = (
   businessEntries: BusinessEntry[],
   goals: FinancialGoal[],
   bankAccounts: BankAccount[] = [],
-  expectedPayments: ExpectedPayment[] = []
+  expectedPayments: ExpectedPayment[] = [],
+  conversion?: CurrencyConversion
 ): FinancialHealth => {
+  const baseLoans = convertLoansToBase(loans, conversion);
+  const baseAccounts = convertAccountsToBase(bankAccounts, conversion);
+
   // Calculate key metrics
   const totalIncome = calculateTotalMonthlyIncome(incomes) + calculateBusinessContribution(businessEntries);
   const totalExpenses = calculateTotalMonthlyExpenses(expenses);
-  const totalDebt = calculateTotalDebt(loans, bankAccounts);
-  const minimumPayments = calculateMinimumPayments(loans, bankAccounts);
+  const totalDebt = calculateTotalDebt(baseLoans, baseAccounts);
+  const minimumPayments = calculateMinimumPayments(baseLoans, baseAccounts);
   
   // Calculate net worth
-  const netWorth = calculateNetWorth(bankAccounts, loans, goals, expectedPayments);
+  const netWorth = calculateNetWorth(baseAccounts, baseLoans, goals, expectedPayments);
   
   // Calculate debt-to-income ratio
   const debtToIncomeRatio = totalIncome > 0 ? (minimumPayments / totalIncome) * 100 : 100;
@@ -738,7 +884,7 @@ export const calculateFinancialHealth = (
   
   // Calculate emergency fund ratio
   const monthlyExpenses = totalExpenses + minimumPayments;
-  const emergencyFunds = bankAccounts
+  const emergencyFunds = baseAccounts
     .filter(account => account.isActive && account.type === 'savings')
     .reduce((sum, account) => sum + Math.max(0, account.balance), 0);
   
@@ -747,54 +893,74 @@ export const calculateFinancialHealth = (
   // Calculate business contribution
   const businessContribution = calculateBusinessContribution(businessEntries);
   
-  // Calculate financial health score (0-100)
-  let score = 0;
+  // Share of the overdraft limits that is drawn
+  const overdraftAccounts = baseAccounts.filter(account => account.isActive && account.hasOverdraft && (account.overdraftLimit || 0) > 0);
+  const overdraftLimit = overdraftAccounts.reduce((sum, account) => sum + (account.overdraftLimit || 0), 0);
+  const overdraftUsage = overdraftLimit > 0
+    ? (overdraftAccounts.reduce((sum, account) => sum + (account.overdraftUsed || 0), 0) / overdraftLimit) * 100
+    : 0;
   
-  // If there's no data, set score to 0
-  if (totalIncome === 0 && totalExpenses === 0 && totalDebt === 0 && emergencyFunds === 0) {
-    score = 0;
-  } else {
+  // Calculate financial health score (0-100), factor by factor so the score can be explained
+  const factors: HealthScoreFactor[] = [];
+  
+  // If there's no data, there is nothing to score
+  if (totalIncome !== 0 || totalExpenses !== 0 || totalDebt !== 0 || emergencyFunds !== 0) {
     // Debt-to-income component (30 points)
-    if (debtToIncomeRatio <= 10) score += 30;
-    else if (debtToIncomeRatio <= 20) score += 25;
-    else if (debtToIncomeRatio <= 30) score += 20;
-    else if (debtToIncomeRatio <= 40) score += 15;
-    else if (debtToIncomeRatio <= 50) score += 10;
-    else score += 5;
+    let points: number;
+    if (debtToIncomeRatio <= 10) points = 30;
+    else if (debtToIncomeRatio <= 20) points = 25;
+    else if (debtToIncomeRatio <= 30) points = 20;
+    else if (debtToIncomeRatio <= 40) points = 15;
+    else if (debtToIncomeRatio <= 50) points = 10;
+    else points = 5;
+    factors.push({ id: 'debt_to_income', label: 'Debt-to-income', value: debtToIncomeRatio, points, maxPoints: 30 });
     
     // Savings rate component (30 points)
-    if (savingsRate >= 20) score += 30;
-    else if (savingsRate >= 15) score += 25;
-    else if (savingsRate >= 10) score += 20;
-    else if (savingsRate >= 5) score += 15;
-    else if (savingsRate >= 0) score += 10;
-    else score += 0;
+    if (savingsRate >= 20) points = 30;
+    else if (savingsRate >= 15) points = 25;
+    else if (savingsRate >= 10) points = 20;
+    else if (savingsRate >= 5) points = 15;
+    else if (savingsRate >= 0) points = 10;
+    else points = 0;
+    factors.push({ id: 'savings_rate', label: 'Savings rate', value: savingsRate, points, maxPoints: 30 });
     
     // Emergency fund component (20 points)
-    if (emergencyFundRatio >= 1) score += 20;
-    else if (emergencyFundRatio >= 0.75) score += 15;
-    else if (emergencyFundRatio >= 0.5) score += 10;
-    else if (emergencyFundRatio >= 0.25) score += 5;
-    else score += 0;
+    if (emergencyFundRatio >= 1) points = 20;
+    else if (emergencyFundRatio >= 0.75) points = 15;
+    else if (emergencyFundRatio >= 0.5) points = 10;
+    else if (emergencyFundRatio >= 0.25) points = 5;
+    else points = 0;
+    factors.push({ id: 'emergency_fund', label: 'Emergency fund', value: emergencyFundRatio, points, maxPoints: 20 });
     
     // Net worth component (10 points)
-    if (netWorth > totalIncome * 12) score += 10;
-    else if (netWorth > totalIncome * 6) score += 8;
-    else if (netWorth > totalIncome * 3) score += 6;
-    else if (netWorth > 0) score += 4;
-    else score += 0;
+    if (netWorth > totalIncome * 12) points = 10;
+    else if (netWorth > totalIncome * 6) points = 8;
+    else if (netWorth > totalIncome * 3) points = 6;
+    else if (netWorth > 0) points = 4;
+    else points = 0;
+    factors.push({ id: 'net_worth', label: 'Net worth', value: netWorth, points, maxPoints: 10 });
     
     // Income diversity component (5 points)
-    if (incomes.length > 2) score += 5;
-    else if (incomes.length > 1) score += 3;
-    else score += 0;
+    if (incomes.length > 2) points = 5;
+    else if (incomes.length > 1) points = 3;
+    else points = 0;
+    factors.push({ id: 'income_diversity', label: 'Income streams', value: incomes.length, points, maxPoints: 5 });
     
     // Business income component (5 points)
-    if (businessContribution > totalIncome * 0.2) score += 5;
-    else if (businessContribution > 0) score += 3;
-    else score += 0;
+    if (businessContribution > totalIncome * 0.2) points = 5;
+    else if (businessContribution > 0) points = 3;
+    else points = 0;
+    factors.push({ id: 'business_contribution', label: 'Business contribution', value: businessContribution, points, maxPoints: 5 });
+    
+    // Overdraft usage penalty (up to 10 points off)
+    if (overdraftUsage > 50) points = -10;
+    else if (overdraftUsage > 0) points = -5;
+    else points = 0;
+    factors.push({ id: 'overdraft_usage', label: 'Overdraft usage', value: overdraftUsage, points, maxPoints: 0 });
   }
   
+  const score = Math.max(0, factors.reduce((sum, factor) => sum + factor.points, 0));
+  
   // Determine financial health level
   let level: 'poor' | 'fair' | 'good' | 'excellent';
   if (score >= 80) level = 'excellent';
@@ -825,6 +991,10 @@ export const calculateFinancialHealth = (
     recommendations.push('Consider developing additional income streams to increase financial security');
   }
   
+  if (overdraftUsage > 0) {
+    recommendations.push('Clear your overdraft; drawing on it costs fees and lowers your score');
+  }
+  
   // Suggest optimal strategy
   let suggestedStrategy: 'debt-focused' | 'balanced' | 'savings-focused';
   
@@ -845,7 +1015,8 @@ export const calculateFinancialHealth = (
     netWorth,
     businessContribution,
     recommendations,
-    suggestedStrategy
+    suggestedStrategy,
+    factors
   };
 };
 
@@ -858,8 +1029,12 @@ export const calculateAutoAllocation = (
   businessEntries: BusinessEntry[],
   preferences: UserPreferences,
   financialHealth: FinancialHealth,
-  bankAccounts: BankAccount[] = []
+  bankAccounts: BankAccount[] = [],
+  conversion?: CurrencyConversion
 ): AutoAllocation => {
+  const baseLoans = convertLoansToBase(loans, conversion);
+  const baseAccounts = convertAccountsToBase(bankAccounts, conversion);
+
   // Calculate business profit contribution
   const businessProfit = calculateBusinessContribution(businessEntries);
   
@@ -867,10 +1042,10 @@ export const calculateAutoAllocation = (
   const totalIncome = monthlyIncome + businessProfit;
   
   // Calculate minimum debt payments
-  const minimumDebtPayments = calculateMinimumPayments(loans, bankAccounts);
+  const minimumDebtPayments = calculateMinimumPayments(baseLoans, baseAccounts);
   
   // Calculate account debt payment (negative balances and overdrafts)
-  const accountDebtPayment = bankAccounts
+  const accountDebtPayment = baseAccounts
     .filter(account => account.isActive)
     .reduce((total, account) => {
       let payment = 0;
@@ -0,0 +1,208 @@
+import { CategorizerExample, CategorizerModel, CategorizationResult, DailyEntry, Expense } from '../types';
+import { categorizeExpenseWithAI } from './advancedCalculations';
+
+const CATEGORIES: CategorizationResult['category'][] = ['need', 'want'];
+
+// Below this many examples, or with no example of one category, the keyword rules decide
+const MIN_TRAINING_EXAMPLES = 10;
+
+const MAX_CONFIDENCE = 0.99;
+
+// Raw confidences from 0.5 to 1 are calibrated in this many equal bands
+const CALIBRATION_BUCKETS = 5;
+
+// Pseudo-guesses at the raw confidence added to each band, so a band with few
+// held-out guesses isn't swung to 0% or 100% by them
+const CALIBRATION_PRIOR = 2;
+
+// Words too common to say anything about the category
+const STOP_WORDS = new Set(['the', 'and', 'for', 'to', 'of', 'at', 'in', 'on', 'from', 'with', 'by', 'payment', 'paid']);
+
+export const createCategorizerModel = (): CategorizerModel => ({
+  categoryCounts: {},
+  featureCounts: {},
+  featureTotals: {}
+});
+
+// Distinct words of the description and merchant, plus a half-decade amount bucket.
+// Words with digits are dropped: they are mostly references and transaction codes.
+const getFeatures = (description: string, amount: number, merchant?: string): string[] => {
+  const words = `${description} ${merchant || ''}`
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2 && !/\d/.test(word) && !STOP_WORDS.has(word));
+  const amountBucket = Math.floor(Math.log10(Math.max(Math.abs(amount), 1)) * 2);
+
+  return [...Array.from(new Set(words)), `amount:${amountBucket}`];
+};
+
+const getTrainedExamples = (model: CategorizerModel): number =>
+  Object.values(model.categoryCounts).reduce((sum, count) => sum + count, 0);
+
+const getVocabulary = (model: CategorizerModel): Set<string> =>
+  new Set(Object.values(model.featureCounts).flatMap(counts => Object.keys(counts)));
+
+// Add (weight 1) or take away (weight -1) one example's counts, in place
+const applyExample = (model: CategorizerModel, example: CategorizerExample, weight: number) => {
+  const { category } = example;
+  const features = getFeatures(example.description, example.amount, example.merchant);
+  const counts = model.featureCounts[category] || (model.featureCounts[category] = {});
+
+  model.categoryCounts[category] = Math.max((model.categoryCounts[category] || 0) + weight, 0);
+  features.forEach(feature => {
+    const count = Math.max((counts[feature] || 0) + weight, 0);
+    if (count > 0) counts[feature] = count;
+    else delete counts[feature];
+  });
+  model.featureTotals[category] = Math.max((model.featureTotals[category] || 0) + weight * features.length, 0);
+};
+
+// Multinomial naive Bayes with add-one smoothing over the features the model has seen.
+// Naive Bayes counts correlated words as independent evidence, which pushes raw
+// posteriors towards 0 and 1; dividing the evidence by the square root of the number
+// of features tempers that. With `heldOut`, the features belong to an example already in
+// the counts under that category, and it is taken back out so the guess is a fair test.
+const guessCategory = (
+  model: CategorizerModel,
+  vocabulary: Set<string>,
+  allFeatures: string[],
+  heldOut?: CategorizationResult['category']
+) => {
+  const countOf = (category: string, feature: string) =>
+    (model.featureCounts[category]?.[feature] || 0) - (category === heldOut ? 1 : 0);
+  const features = allFeatures.filter(feature => CATEGORIES.some(category => countOf(category, feature) > 0));
+  const vocabularySize = vocabulary.size - allFeatures.filter(feature => vocabulary.has(feature)).length + features.length;
+  const totalExamples = getTrainedExamples(model) - (heldOut ? 1 : 0);
+  const temperature = Math.sqrt(Math.max(features.length, 1));
+
+  const scores = CATEGORIES.map(category => {
+    const isHeldOut = category === heldOut;
+    const denominator = (model.featureTotals[category] || 0) - (isHeldOut ? allFeatures.length : 0) + vocabularySize;
+    const evidence = features.reduce((sum, feature) => sum + Math.log((countOf(category, feature) + 1) / denominator), 0);
+    const examples = (model.categoryCounts[category] || 0) - (isHeldOut ? 1 : 0);
+    return Math.log(examples / totalExamples) + evidence / temperature;
+  });
+
+  // Softmax, shifted by the best score to stay clear of underflow
+  const best = Math.max(...scores);
+  const weights = scores.map(score => Math.exp(score - best));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const winner = scores.indexOf(best);
+
+  return { category: CATEGORIES[winner], confidence: weights[winner] / total };
+};
+
+// With two categories the winner's raw confidence is between 0.5 and 1
+const getCalibrationBucket = (confidence: number): number =>
+  Math.max(0, Math.min(Math.floor((confidence - 0.5) * 2 * CALIBRATION_BUCKETS), CALIBRATION_BUCKETS - 1));
+
+const recordGuess = (
+  calibration: NonNullable<CategorizerModel['calibration']>,
+  guess: { category: string; confidence: number },
+  category: string
+) => {
+  const bucket = getCalibrationBucket(guess.confidence);
+  calibration.guesses[bucket] += 1;
+  if (guess.category === category) calibration.correct[bucket] += 1;
+};
+
+const createCalibration = (): NonNullable<CategorizerModel['calibration']> => ({
+  guesses: Array(CALIBRATION_BUCKETS).fill(0),
+  correct: Array(CALIBRATION_BUCKETS).fill(0)
+});
+
+// Add examples to the counts and take others away, returning a new model. Counts never
+// go below zero, so removing an example that was never learned is harmless. Each added
+// example is first guessed by the model as it stood, which is a fair test of it, and the
+// outcome goes into the calibration; removals leave the calibration alone.
+export const updateCategorizerModel = (
+  model: CategorizerModel,
+  added: CategorizerExample[],
+  removed: CategorizerExample[] = []
+): CategorizerModel => {
+  const next: CategorizerModel = {
+    categoryCounts: { ...model.categoryCounts },
+    featureCounts: Object.fromEntries(Object.entries(model.featureCounts).map(([category, counts]) => [category, { ...counts }])),
+    featureTotals: { ...model.featureTotals },
+    calibration: model.calibration
+      ? { guesses: [...model.calibration.guesses], correct: [...model.calibration.correct] }
+      : undefined
+  };
+
+  removed.forEach(example => applyExample(next, example, -1));
+
+  const vocabulary = getVocabulary(next);
+  added.forEach(example => {
+    const features = getFeatures(example.description, example.amount, example.merchant);
+    if (next.calibration && isCategorizerTrained(next)) {
+      recordGuess(next.calibration, guessCategory(next, vocabulary, features), example.category);
+    }
+    applyExample(next, example, 1);
+    features.forEach(feature => vocabulary.add(feature));
+  });
+  return next;
+};
+
+// Learn the examples, then calibrate by guessing each one with itself left out
+export const buildCategorizerModel = (examples: CategorizerExample[]): CategorizerModel => {
+  const calibration = createCalibration();
+  const model: CategorizerModel = { ...createCategorizerModel(), calibration };
+  examples.forEach(example => applyExample(model, example, 1));
+  if (!isCategorizerTrained(model)) return model;
+
+  const vocabulary = getVocabulary(model);
+  examples.forEach(example => {
+    const features = getFeatures(example.description, example.amount, example.merchant);
+    recordGuess(calibration, guessCategory(model, vocabulary, features, example.category), example.category);
+  });
+  return model;
+};
+
+export const isCategorizerTrained = (model: CategorizerModel | null): model is CategorizerModel =>
+  !!model
+  && getTrainedExamples(model) >= MIN_TRAINING_EXAMPLES
+  && CATEGORIES.every(category => (model.categoryCounts[category] || 0) > 0);
+
+export const countCategorizerExamples = (model: CategorizerModel | null): number =>
+  model ? getTrainedExamples(model) : 0;
+
+// Only spending teaches the categoriser; income entries carry a category but no signal,
+// and a split transaction covers several categories so it says nothing about any one
+export const getEntryExample = (
+  entry: Pick<DailyEntry, 'description' | 'expenses' | 'category' | 'splits'>
+): CategorizerExample | null =>
+  entry.expenses > 0 && entry.category && !entry.splits?.length
+    ? { description: entry.description || '', amount: entry.expenses, category: entry.category }
+    : null;
+
+export const getExpenseExample = (expense: Pick<Expense, 'name' | 'amount' | 'category'>): CategorizerExample | null =>
+  expense.category ? { description: expense.name || '', amount: expense.amount, category: expense.category } : null;
+
+// The model's guess, with its raw confidence replaced by how often held-out guesses at
+// that level were right. Sparse levels lean on the raw confidence through a few
+// pseudo-guesses; models saved before calibration was kept use it as it is.
+export const categorizeTransaction = (
+  model: CategorizerModel | null,
+  description: string,
+  amount: number,
+  merchant?: string
+): CategorizationResult => {
+  const rules = categorizeExpenseWithAI(description, amount, merchant);
+  if (!isCategorizerTrained(model)) {
+    return { ...rules, source: 'rules' };
+  }
+
+  const guess = guessCategory(model, getVocabulary(model), getFeatures(description, amount, merchant));
+  const bucket = getCalibrationBucket(guess.confidence);
+  const confidence = model.calibration
+    ? (model.calibration.correct[bucket] + CALIBRATION_PRIOR * guess.confidence)
+      / (model.calibration.guesses[bucket] + CALIBRATION_PRIOR)
+    : guess.confidence;
+
+  return {
+    category: guess.category,
+    confidence: Math.min(confidence, MAX_CONFIDENCE),
+    aiCategory: rules.aiCategory,
+    source: 'model'
+  };
+};
@@ -0,0 +1,95 @@
+import { Currency } from '../types';
+
+// Default currencies with KES as default
+export const defaultCurrencies: Currency[] = [
+  { code: 'KES', symbol: 'KSh', name: 'Kenyan Shilling', decimals: 0, locale: 'en-KE' },
+  { code: 'USD', symbol: '$', name: 'US Dollar', decimals: 2, locale: 'en-US' },
+  { code: 'EUR', symbol: '€', name: 'Euro', decimals: 2, locale: 'en-IE' },
+  { code: 'GBP', symbol: '£', name: 'British Pound', decimals: 2, locale: 'en-GB' }
+];
+
+const FALLBACK_LOCALE = 'en-US';
+const FALLBACK_DECIMALS = 2;
+
+const formatterCache = new Map<string, Intl.NumberFormat | null>();
+
+// Intl rejects codes that are not three letters, which custom currencies may use
+const getFormatter = (code: string, locale: string, decimals: number): Intl.NumberFormat | null => {
+  const key = `${locale}|${code}|${decimals}`;
+
+  if (!formatterCache.has(key)) {
+    let formatter: Intl.NumberFormat | null;
+    try {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      });
+    } catch {
+      formatter = null;
+    }
+    formatterCache.set(key, formatter);
+  }
+
+  return formatterCache.get(key) || null;
+};
+
+const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+// Minor units for an ISO code, e.g. 0 for JPY and 2 for USD
+const getIsoDecimals = (code: string, locale: string): number => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? FALLBACK_DECIMALS;
+  } catch {
+    return FALLBACK_DECIMALS;
+  }
+};
+
+// Fill in decimals and locale for preferences saved before they were stored
+export const resolveCurrency = (currency: Currency = defaultCurrencies[0]): Required<Currency> => {
+  const preset = defaultCurrencies.find(c => c.code === currency.code);
+
+  let locale = currency.locale || preset?.locale || FALLBACK_LOCALE;
+  if (!isSupportedLocale(locale)) locale = FALLBACK_LOCALE;
+
+  const decimals = currency.decimals ?? preset?.decimals ?? getIsoDecimals(currency.code, locale);
+
+  return { ...currency, locale, decimals: Math.min(Math.max(decimals, 0), 4) };
+};
+
+// Format an amount in the given currency, always showing the currency's own symbol
+export const formatCurrency = (amount: number, currency: Currency = defaultCurrencies[0]): string => {
+  const { code, symbol, locale, decimals } = resolveCurrency(currency);
+  const absAmount = Math.abs(amount);
+  const formatter = getFormatter(code, locale, decimals);
+
+  let formatted: string;
+  if (formatter) {
+    formatted = formatter
+      .formatToParts(absAmount)
+      .map(part => (part.type === 'currency' ? symbol : part.value))
+      .join('');
+  } else {
+    const number = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(absAmount);
+    formatted = `${symbol} ${number}`;
+  }
+
+  return amount < 0 ? `-${formatted}` : formatted;
+};
+
+
+// Currency details for an account or loan currency code, falling back to the base currency
+export const getCurrencyForCode = (code: string | undefined, baseCurrency: Currency): Currency => {
+  if (!code || code === baseCurrency.code) return baseCurrency;
+  return defaultCurrencies.find(c => c.code === code) || { code, symbol: code, name: code };
+};
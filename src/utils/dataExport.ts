@@ -0,0 +1,320 @@
+import { DataExport } from '../types';
+import { getAttachmentPath, getThumbnailPath } from './attachments';
+
+// Version 2 carries attachment files
+export const DATA_EXPORT_VERSION = 2;
+
+type Row = Record<string, unknown>;
+
+// Tables in the order they must be restored so referenced rows exist first
+export const EXPORT_TABLES = [
+  'bank_accounts',
+  'spending_categories',
+  'recurring_rules',
+  'financial_goals',
+  'budgets',
+  'incomes',
+  'expenses',
+  'loans',
+  'loan_payments',
+  'bills',
+  'bill_instances',
+  'transaction_rules',
+  'daily_entries',
+  'business_entries',
+  'transfers',
+  'expected_payments',
+  'attachments',
+  'exchange_rates',
+  'budget_alerts',
+  'user_challenges',
+  'achievements',
+  'celebrations',
+  'health_score_snapshots',
+  'user_preferences',
+  'user_progress',
+  'categorizer_models',
+  'ledger_entries'
+] as const;
+
+export type ExportTable = typeof EXPORT_TABLES[number];
+
+export const EXPORT_TABLE_LABELS: Record<ExportTable, string> = {
+  bank_accounts: 'Accounts',
+  spending_categories: 'Categories',
+  recurring_rules: 'Recurring Rules',
+  financial_goals: 'Goals',
+  budgets: 'Budgets',
+  incomes: 'Incomes',
+  expenses: 'Expenses',
+  loans: 'Loans',
+  loan_payments: 'Loan Payments',
+  bills: 'Bills',
+  bill_instances: 'Bill Payments',
+  transaction_rules: 'Transaction Rules',
+  daily_entries: 'Daily Entries',
+  business_entries: 'Business Entries',
+  transfers: 'Transfers',
+  expected_payments: 'Expected Payments',
+  attachments: 'Attachments',
+  exchange_rates: 'Exchange Rates',
+  budget_alerts: 'Budget Alerts',
+  user_challenges: 'Challenges',
+  achievements: 'Achievements',
+  celebrations: 'Celebrations',
+  health_score_snapshots: 'Health Score History',
+  user_preferences: 'Preferences',
+  user_progress: 'Progress',
+  categorizer_models: 'Categoriser',
+  ledger_entries: 'Ledger'
+};
+
+// Columns holding the id of a row in another exported table
+const FOREIGN_KEYS: Partial<Record<ExportTable, Record<string, ExportTable>>> = {
+  spending_categories: { parent_id: 'spending_categories' },
+  recurring_rules: { bank_account_id: 'bank_accounts', category_id: 'spending_categories' },
+  budgets: { linked_goal_id: 'financial_goals' },
+  incomes: { bank_account_id: 'bank_accounts' },
+  loans: { bank_account_id: 'bank_accounts' },
+  loan_payments: { loan_id: 'loans', bank_account_id: 'bank_accounts' },
+  expenses: {
+    bank_account_id: 'bank_accounts',
+    linked_budget_id: 'budgets',
+    linked_goal_id: 'financial_goals',
+    category_id: 'spending_categories'
+  },
+  bills: { bank_account_id: 'bank_accounts', recurring_rule_id: 'recurring_rules' },
+  bill_instances: { bill_id: 'bills', bank_account_id: 'bank_accounts' },
+  daily_entries: {
+    income_bank_account_id: 'bank_accounts',
+    expense_bank_account_id: 'bank_accounts',
+    linked_budget_id: 'budgets',
+    linked_goal_id: 'financial_goals',
+    applied_rule_id: 'transaction_rules',
+    category_id: 'spending_categories'
+  },
+  business_entries: { profit_account_id: 'bank_accounts', selected_goal_id: 'financial_goals' },
+  transfers: { from_account_id: 'bank_accounts', to_account_id: 'bank_accounts' },
+  expected_payments: { bank_account_id: 'bank_accounts' },
+  attachments: {
+    daily_entry_id: 'daily_entries',
+    bill_id: 'bills',
+    loan_id: 'loans',
+    expected_payment_id: 'expected_payments',
+    business_entry_id: 'business_entries'
+  },
+  budget_alerts: { budget_id: 'budgets' }
+};
+
+type IdMaps = Map<ExportTable, Map<string, string>>;
+
+const remapId = (idMaps: IdMaps, table: ExportTable, id: unknown) => (id ? idMaps.get(table)?.get(String(id)) : undefined);
+
+// Budget, goal and category ids held in the jsonb of rule actions and split lines
+const remapLinks = (idMaps: IdMaps, links: Record<string, unknown>) => ({
+  ...links,
+  linkedBudgetId: remapId(idMaps, 'budgets', links.linkedBudgetId),
+  linkedGoalId: remapId(idMaps, 'financial_goals', links.linkedGoalId),
+  categoryId: remapId(idMaps, 'spending_categories', links.categoryId)
+});
+
+// Ids held inside a transaction rule's conditions and actions, which live in jsonb columns
+const remapRuleReferences = (row: Row, idMaps: IdMaps): Row => {
+  const conditions = (row.conditions || {}) as Record<string, unknown>;
+  const actions = (row.actions || {}) as Record<string, unknown>;
+
+  return {
+    conditions: { ...conditions, bankAccountId: remapId(idMaps, 'bank_accounts', conditions.bankAccountId) },
+    actions: {
+      ...remapLinks(idMaps, actions),
+      splits: Array.isArray(actions.splits) ? actions.splits.map(split => remapLinks(idMaps, split)) : undefined
+    }
+  };
+};
+
+// Ids held inside the lines of a split transaction
+const remapSplitReferences = (row: Row, idMaps: IdMaps): Row => ({
+  splits: Array.isArray(row.splits)
+    ? row.splits.map(split => ({
+        ...remapLinks(idMaps, split),
+        bankAccountId: remapId(idMaps, 'bank_accounts', split.bankAccountId)
+      }))
+    : null
+});
+
+// One row per user, so they are upserted over the defaults a new account starts with
+export const SINGLETON_TABLES: ExportTable[] = ['user_preferences', 'user_progress', 'categorizer_models'];
+
+// The ledger is rebuilt by database triggers as the other tables are restored
+const DERIVED_TABLES: ExportTable[] = ['ledger_entries'];
+
+// Ledger entry types that are posted again when their source rows are restored
+const REPLAYED_ENTRY_TYPES = ['transfer', 'daily_income', 'daily_expense', 'bill_payment', 'loan_payment', 'business_profit'];
+
+export const createDataExport = (
+  tables: Partial<Record<ExportTable, Row[]>>,
+  files: Record<string, string> = {}
+): DataExport => ({
+  version: DATA_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  tables: Object.fromEntries(EXPORT_TABLES.map(table => [table, tables[table] || []])),
+  files
+});
+
+// Read an export file, returning null when it is not an export this version can restore
+export const parseDataExport = (text: string): DataExport | null => {
+  try {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object' || typeof data.tables !== 'object' || data.tables === null) return null;
+    if (typeof data.version !== 'number' || data.version > DATA_EXPORT_VERSION) return null;
+
+    const tables = Object.fromEntries(EXPORT_TABLES.map(table => {
+      const rows = data.tables[table];
+      return [table, Array.isArray(rows) ? rows.filter(row => row && typeof row === 'object') : []];
+    }));
+
+    const files = Object.fromEntries(
+      Object.entries(typeof data.files === 'object' && data.files !== null ? data.files : {})
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].startsWith('data:'))
+    );
+
+    return { version: data.version, exportedAt: String(data.exportedAt || ''), tables, files };
+  } catch {
+    return null;
+  }
+};
+
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serialise rows to CSV with a header covering every column that appears in any row
+export const rowsToCsv = (rows: Row[]): string => {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return [
+    columns.join(','),
+    ...rows.map(row => columns.map(column => toCsvValue(row[column])).join(','))
+  ].join('\n');
+};
+
+// Sum of ledger activity per account that restoring the other tables will post again
+const getReplayedActivity = (ledgerRows: Row[]): Map<string, number> => {
+  const activity = new Map<string, number>();
+
+  ledgerRows.forEach(entry => {
+    if (!REPLAYED_ENTRY_TYPES.includes(String(entry.entry_type))) return;
+    const accountId = String(entry.account_id);
+    activity.set(accountId, (activity.get(accountId) || 0) + Number(entry.amount || 0));
+  });
+
+  return activity;
+};
+
+// Amounts the restored split lines will add to each goal again
+const getReplayedGoalContributions = (dailyEntryRows: Row[]): Map<string, number> => {
+  const contributions = new Map<string, number>();
+
+  dailyEntryRows.forEach(entry => {
+    if (!Array.isArray(entry.splits)) return;
+    entry.splits.forEach(line => {
+      if (!line?.linkedGoalId) return;
+      const goalId = String(line.linkedGoalId);
+      contributions.set(goalId, (contributions.get(goalId) || 0) + Number(line.amount || 0));
+    });
+  });
+
+  return contributions;
+};
+
+// A file to upload when restoring: the archived copy and the path it goes to
+export interface RestoredFile {
+  path: string;
+  dataUrl: string;
+}
+
+// Attachments move into the new user's folder under their new id. One whose file isn't
+// in the archive is left out; a missing thumbnail only means the list shows an icon.
+const remapAttachment = (row: Row, remapped: Row, archive: DataExport, userId: string, files: RestoredFile[]): Row | null => {
+  const file = archive.files[String(row.storage_path)];
+  if (!file) return null;
+
+  const id = String(remapped.id);
+  const storagePath = getAttachmentPath(userId, id, String(row.file_name || ''));
+  const thumbnail = row.thumbnail_path ? archive.files[String(row.thumbnail_path)] : undefined;
+  const thumbnailPath = thumbnail ? getThumbnailPath(userId, id) : null;
+
+  files.push({ path: storagePath, dataUrl: file });
+  if (thumbnail && thumbnailPath) files.push({ path: thumbnailPath, dataUrl: thumbnail });
+
+  return { ...remapped, storage_path: storagePath, thumbnail_path: thumbnailPath };
+};
+
+// Rows ready to insert for another user: every id is replaced with a fresh one, references
+// follow the new ids, and opening balances and goal amounts are set so replayed activity
+// lands on the exported figures. Tables come back in restore order, with the files to
+// upload for attachments; the ledger is left out.
+export const remapDataExport = (
+  archive: DataExport,
+  userId: string,
+  generateId: () => string = () => crypto.randomUUID()
+): { table: ExportTable; rows: Row[]; files: RestoredFile[] }[] => {
+  const idMaps: IdMaps = new Map();
+  const activity = getReplayedActivity(archive.tables.ledger_entries || []);
+  const contributions = getReplayedGoalContributions(archive.tables.daily_entries || []);
+
+  EXPORT_TABLES.forEach(table => {
+    const ids = new Map<string, string>();
+    (archive.tables[table] || []).forEach(row => {
+      if (row.id) ids.set(String(row.id), generateId());
+    });
+    idMaps.set(table, ids);
+  });
+
+  return EXPORT_TABLES
+    .filter(table => !DERIVED_TABLES.includes(table))
+    .map(table => {
+      const foreignKeys = FOREIGN_KEYS[table] || {};
+      const files: RestoredFile[] = [];
+
+      const rows = (archive.tables[table] || []).flatMap(row => {
+        const { id, ...rest } = row;
+        const remapped: Row = { ...rest, user_id: userId };
+
+        if (!SINGLETON_TABLES.includes(table) && id) {
+          remapped.id = idMaps.get(table)?.get(String(id));
+        }
+
+        Object.entries(foreignKeys).forEach(([column, referencedTable]) => {
+          const oldId = row[column];
+          if (oldId) remapped[column] = idMaps.get(referencedTable)?.get(String(oldId)) ?? null;
+        });
+
+        if (table === 'bank_accounts') {
+          remapped.balance = Number(row.balance || 0) - (activity.get(String(id)) || 0);
+        }
+
+        if (table === 'financial_goals') {
+          remapped.current_amount = Number(row.current_amount || 0) - (contributions.get(String(id)) || 0);
+        }
+
+        if (table === 'transaction_rules') {
+          Object.assign(remapped, remapRuleReferences(row, idMaps));
+        }
+
+        if (table === 'daily_entries') {
+          Object.assign(remapped, remapSplitReferences(row, idMaps));
+        }
+
+        if (table === 'attachments') {
+          const attachment = remapAttachment(row, remapped, archive, userId, files);
+          return attachment ? [attachment] : [];
+        }
+
+        return [remapped];
+      });
+
+      return { table, rows, files };
+    });
+};
@@ -0,0 +1,127 @@
+import { BankAccount, Loan, ExchangeRate, CurrencyConversion } from '../types';
+import { normalizeStatementDate, parseCsv, parseDecimalNumber } from './statementImport';
+
+// Latest rate for a currency pair on or before the given date, trying the inverse pair
+// when only that has been entered. Returns null when no usable rate exists.
+export const findExchangeRate = (
+  fromCurrency: string,
+  toCurrency: string,
+  rates: ExchangeRate[],
+  date: string = new Date().toISOString().split('T')[0]
+): number | null => {
+  if (fromCurrency === toCurrency) return 1;
+
+  const latest = (from: string, to: string) =>
+    rates
+      .filter(rate => rate.fromCurrency === from && rate.toCurrency === to && rate.date <= date && rate.rate > 0)
+      .sort((a, b) => b.date.localeCompare(a.date))[0];
+
+  const direct = latest(fromCurrency, toCurrency);
+  if (direct) return direct.rate;
+
+  const inverse = latest(toCurrency, fromCurrency);
+  if (inverse) return 1 / inverse.rate;
+
+  return null;
+};
+
+// Convert an amount held in `currency` into the base currency. Amounts with no currency
+// are already in the base currency. An amount with no known rate can't be expressed in
+// the base currency, so it counts as nothing; getMissingRateCurrencies flags it.
+export const toBaseCurrency = (
+  amount: number,
+  currency: string | undefined,
+  conversion?: CurrencyConversion,
+  date?: string
+): number => {
+  if (!conversion || !currency || currency === conversion.baseCurrency) return amount;
+
+  const rate = findExchangeRate(currency, conversion.baseCurrency, conversion.rates, date);
+  return rate === null ? 0 : amount * rate;
+};
+
+// Convert a base-currency amount into `currency`, the reverse of toBaseCurrency, which
+// also counts amounts with no known rate as nothing
+export const fromBaseCurrency = (
+  amount: number,
+  currency: string | undefined,
+  conversion?: CurrencyConversion,
+  date?: string
+): number => {
+  if (!conversion || !currency || currency === conversion.baseCurrency) return amount;
+
+  const rate = findExchangeRate(conversion.baseCurrency, currency, conversion.rates, date);
+  return rate === null ? 0 : amount * rate;
+};
+
+// Currencies used by accounts and loans that have no rate into the base currency
+export const getMissingRateCurrencies = (
+  bankAccounts: BankAccount[],
+  loans: Loan[],
+  conversion: CurrencyConversion
+): string[] => {
+  const currencies = new Set<string>();
+
+  [...bankAccounts, ...loans].forEach(item => {
+    if (item.currency && item.currency !== conversion.baseCurrency) currencies.add(item.currency);
+  });
+
+  return Array.from(currencies).filter(
+    currency => findExchangeRate(currency, conversion.baseCurrency, conversion.rates) === null
+  );
+};
+
+// Copies of the accounts with balances and overdrafts expressed in the base currency
+export const convertAccountsToBase = (
+  bankAccounts: BankAccount[],
+  conversion?: CurrencyConversion
+): BankAccount[] => {
+  if (!conversion) return bankAccounts;
+
+  return bankAccounts.map(account => ({
+    ...account,
+    balance: toBaseCurrency(account.balance, account.currency, conversion),
+    overdraftLimit: account.overdraftLimit !== undefined
+      ? toBaseCurrency(account.overdraftLimit, account.currency, conversion)
+      : undefined,
+    overdraftUsed: account.overdraftUsed !== undefined
+      ? toBaseCurrency(account.overdraftUsed, account.currency, conversion)
+      : undefined,
+    currency: conversion.baseCurrency
+  }));
+};
+
+// Copies of the loans with amounts expressed in the base currency
+export const convertLoansToBase = (loans: Loan[], conversion?: CurrencyConversion): Loan[] => {
+  if (!conversion) return loans;
+
+  return loans.map(loan => ({
+    ...loan,
+    principal: toBaseCurrency(loan.principal, loan.currency, conversion),
+    currentBalance: toBaseCurrency(loan.currentBalance, loan.currency, conversion),
+    minimumPayment: toBaseCurrency(loan.minimumPayment, loan.currency, conversion),
+    otherCharges: loan.otherCharges !== undefined
+      ? toBaseCurrency(loan.otherCharges, loan.currency, conversion)
+      : undefined,
+    currency: conversion.baseCurrency
+  }));
+};
+
+// Parse a rates CSV with date, from, to and rate columns, e.g. "2025-07-01,USD,KES,129.25".
+// A header row is skipped and dates may also be written DD/MM/YYYY.
+export const parseExchangeRateCsv = (text: string): Omit<ExchangeRate, 'id'>[] => {
+  const rates: Omit<ExchangeRate, 'id'>[] = [];
+
+  parseCsv(text).forEach(([rawDate = '', rawFrom = '', rawTo = '', rawRate = '']) => {
+    const rate = parseDecimalNumber(rawRate);
+    const fromCurrency = rawFrom.toUpperCase();
+    const toCurrency = rawTo.toUpperCase();
+    const date = normalizeStatementDate(rawDate, 'DD/MM/YYYY');
+
+    if (!date || isNaN(rate) || rate <= 0 || !fromCurrency || !toCurrency || fromCurrency === toCurrency) return;
+
+    rates.push({ fromCurrency, toCurrency, rate, date, source: 'csv' });
+  });
+
+  return rates;
+};
@@ -1,23 +1,130 @@
-import { Income, Expense, Loan, Bill, DailyEntry, BusinessEntry, FinancialGoal, Challenge, UserProgress, FinancialHealth } from '../types';
-import { calculateTotalMonthlyIncome, calculateTotalMonthlyExpenses, calculateTotalDebt } from './calculations';
+import { Income, Expense, Loan, DailyEntry, FinancialGoal, Challenge, FinancialHealth } from '../types';
+import { calculateTotalMonthlyIncome, calculateTotalMonthlyExpenses, getDailyEntryLines } from './calculations';
+import { addDays } from './recurrence';
+
+// What challenges are measured against
+export interface ChallengeData {
+  dailyEntries: DailyEntry[];
+  goals: FinancialGoal[];
+  loans: Loan[];
+}
+
+// A challenge ready to be stored; the key keeps the same one from being created twice
+export type ChallengeDraft = Omit<Challenge, 'id' | 'isCompleted' | 'isActive' | 'completedAt'> & { key: string };
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// The dates a window covers, up to today or the deadline once it has passed
+const getWindowRange = (challenge: Pick<Challenge, 'metric' | 'startDate' | 'deadline'>, today: string) => {
+  const end = today < challenge.deadline ? today : challenge.deadline;
+  switch (challenge.metric.window) {
+    case 'last_7_days':
+      return { start: addDays(end, -6), end };
+    case 'last_30_days':
+      return { start: addDays(end, -29), end };
+    default:
+      return { start: challenge.startDate, end };
+  }
+};
+
+// The current value of a challenge's metric
+export const measureChallengeMetric = (
+  challenge: Pick<Challenge, 'metric' | 'startDate' | 'deadline'>,
+  data: ChallengeData,
+  today: string = toDateString(new Date())
+): number => {
+  const { metric, targetEntityId } = challenge.metric;
+  const { start, end } = getWindowRange(challenge, today);
+  const entriesInWindow = data.dailyEntries.filter(entry => entry.date >= start && entry.date <= end);
+
+  switch (metric) {
+    case 'tracking_streak': {
+      // The longest run of consecutive days with at least one entry
+      const trackedDates = new Set(entriesInWindow.map(entry => entry.date));
+      let longest = 0;
+      let run = 0;
+      for (let date = start; date <= end; date = addDays(date, 1)) {
+        run = trackedDates.has(date) ? run + 1 : 0;
+        longest = Math.max(longest, run);
+      }
+      return longest;
+    }
+
+    case 'wants_spending':
+      return entriesInWindow
+        .flatMap(getDailyEntryLines)
+        .filter(line => line.type === 'expense' && line.category === 'want')
+        .reduce((sum, line) => sum + line.amount, 0);
+
+    case 'emergency_fund':
+      return data.goals
+        .filter(goal => goal.category === 'emergency')
+        .reduce((sum, goal) => sum + goal.currentAmount, 0);
+
+    case 'loan_repaid': {
+      const loan = data.loans.find(l => l.id === targetEntityId);
+      return loan ? Math.max(0, loan.principal - loan.currentBalance) : 0;
+    }
+
+    case 'goal_saved':
+      return data.goals.find(goal => goal.id === targetEntityId)?.currentAmount || 0;
+
+    case 'investment_contributions': {
+      const investmentGoalIds = data.goals.filter(goal => goal.category === 'investment').map(goal => goal.id);
+      return entriesInWindow
+        .flatMap(getDailyEntryLines)
+        .filter(line => line.type === 'expense' && line.linkedGoalId && investmentGoalIds.includes(line.linkedGoalId))
+        .reduce((sum, line) => sum + line.amount, 0);
+    }
+
+    default:
+      return 0;
+  }
+};
+
+// Where an active challenge stands: 'at_least' challenges complete as soon as the
+// target is reached, 'at_most' ones only if they are still within it at the deadline.
+// Past the deadline anything not completed has expired.
+export const evaluateChallenge = (
+  challenge: Challenge,
+  data: ChallengeData,
+  today: string = toDateString(new Date())
+): { current: number; status: 'in_progress' | 'completed' | 'expired' } => {
+  const current = measureChallengeMetric(challenge, data, today);
+  const isPastDeadline = today > challenge.deadline;
+  const isMet = challenge.metric.comparator === 'at_least'
+    ? current >= challenge.target
+    : isPastDeadline && current <= challenge.target;
+
+  if (challenge.isCompleted || isMet) return { current, status: 'completed' };
+  return { current, status: isPastDeadline ? 'expired' : 'in_progress' };
+};
+
+// Progress towards the target as a percentage; staying within an 'at_most' target is 100%
+export const getChallengeProgress = (challenge: Pick<Challenge, 'metric' | 'target' | 'current' | 'isCompleted'>): number => {
+  if (challenge.isCompleted) return 100;
+  if (challenge.metric.comparator === 'at_most') {
+    return challenge.current <= challenge.target ? 100 : Math.max(0, (challenge.target / challenge.current) * 100);
+  }
+  return challenge.target > 0 ? Math.min(100, (challenge.current / challenge.target) * 100) : 100;
+};
 
 export const generateChallenges = (
   incomes: Income[],
   expenses: Expense[],
   loans: Loan[],
-  bills: Bill[],
   dailyEntries: DailyEntry[],
-  businessEntries: BusinessEntry[],
   goals: FinancialGoal[],
   financialHealth: FinancialHealth,
   existingChallenges: Challenge[]
-): Challenge[] => {
-  const challenges: Challenge[] = [];
-  const today = new Date();
+): ChallengeDraft[] => {
+  const drafts: ChallengeDraft[] = [];
+  const today = toDateString(new Date());
+  const data: ChallengeData = { dailyEntries, goals, loans };
   
   // Only generate challenges if user has some financial data
   const hasData = incomes.length > 0 || expenses.length > 0 || loans.length > 0 || 
-                  dailyEntries.length > 0 || businessEntries.length > 0 || goals.length > 0;
+                  dailyEntries.length > 0 || goals.length > 0;
   
   if (!hasData) {
     return [];
@@ -25,125 +132,111 @@ export const generateChallenges = (
 
   const totalIncome = calculateTotalMonthlyIncome(incomes);
   const totalExpenses = calculateTotalMonthlyExpenses(expenses);
-  const totalDebt = calculateTotalDebt(loans);
-  const wants = expenses.filter(e => e.category === 'want');
-  const totalWants = wants.reduce((sum, expense) => sum + expense.monthlyAmount, 0);
+  const lastWeekWants = dailyEntries
+    .filter(entry => entry.date > addDays(today, -7) && entry.date <= today)
+    .flatMap(getDailyEntryLines)
+    .filter(line => line.type === 'expense' && line.category === 'want')
+    .reduce((sum, line) => sum + line.amount, 0);
 
-  // Check if challenge already exists
+  // A new challenge only replaces one of the same kind once it has been archived
   const challengeExists = (type: string, category: string) => {
     return existingChallenges.some(c => 
       c.type === type && 
       c.category === category && 
-      c.isActive && 
-      !c.isCompleted
+      c.isActive
     );
   };
 
-  // Daily challenge - Track expenses (only if user has income)
-  if (totalIncome > 0 && !challengeExists('daily', 'tracking')) {
-    const recentEntries = dailyEntries.filter(entry => {
-      const entryDate = new Date(entry.date);
-      const daysDiff = Math.floor((today.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24));
-      return daysDiff <= 7;
+  const addDraft = (draft: Omit<ChallengeDraft, 'key' | 'startDate' | 'current'>) => {
+    const challenge = { ...draft, startDate: today };
+    drafts.push({
+      ...challenge,
+      key: `${draft.type}-${draft.category}-${today}`,
+      current: measureChallengeMetric(challenge, data, today)
     });
+  };
 
-    challenges.push({
-      id: `daily-track-${Date.now()}`,
+  // Daily challenge - Track expenses (only if user has income)
+  if (totalIncome > 0 && !challengeExists('daily', 'tracking')) {
+    addDraft({
       title: 'Daily Expense Tracker',
       description: 'Log your daily expenses for 7 consecutive days',
       type: 'daily',
       category: 'tracking',
       target: 7,
-      current: recentEntries.length,
       points: 50,
-      deadline: new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      isCompleted: false,
-      isActive: true,
-      difficulty: 'easy'
+      deadline: addDays(today, 7),
+      difficulty: 'easy',
+      metric: { metric: 'tracking_streak', comparator: 'at_least', window: 'since_start' }
     });
   }
 
-  // Weekly challenge - Reduce wants spending (only if user has wants)
-  if (totalWants > 0 && !challengeExists('weekly', 'savings')) {
-    const targetReduction = totalWants * 0.8;
-    challenges.push({
-      id: `weekly-reduce-wants-${Date.now()}`,
+  // Weekly challenge - Reduce wants spending (only if user spent on wants last week)
+  if (lastWeekWants > 0 && !challengeExists('weekly', 'savings')) {
+    addDraft({
       title: 'Wants Spending Challenge',
       description: `Reduce wants spending by 20% this week`,
       type: 'weekly',
       category: 'savings',
-      target: targetReduction,
-      current: totalWants,
+      target: lastWeekWants * 0.8,
       points: 100,
-      deadline: new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      isCompleted: false,
-      isActive: true,
-      difficulty: 'medium'
+      deadline: addDays(today, 7),
+      difficulty: 'medium',
+      metric: { metric: 'wants_spending', comparator: 'at_most', window: 'since_start' }
     });
   }
 
   // Monthly challenge - Emergency fund (only if user doesn't have adequate emergency fund)
-  if (financialHealth.emergencyFundRatio < 1 && !challengeExists('monthly', 'savings')) {
-    const emergencyTarget = totalExpenses * 6;
-    const currentEmergency = goals.find(g => g.category === 'emergency')?.currentAmount || 0;
-    
-    challenges.push({
-      id: `monthly-emergency-${Date.now()}`,
+  if (financialHealth.emergencyFundRatio < 1 && totalExpenses > 0 && !challengeExists('monthly', 'savings')) {
+    addDraft({
       title: 'Emergency Fund Builder',
       description: `Build emergency fund to cover 6 months of expenses`,
       type: 'monthly',
       category: 'savings',
-      target: emergencyTarget,
-      current: currentEmergency,
+      target: totalExpenses * 6,
       points: 200,
-      deadline: new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      isCompleted: false,
-      isActive: true,
-      difficulty: 'hard'
+      deadline: addDays(today, 30),
+      difficulty: 'hard',
+      metric: { metric: 'emergency_fund', comparator: 'at_least', window: 'current' }
     });
   }
 
-  // Debt payoff challenge (only if user has loans)
-  if (loans.length > 0 && !challengeExists('monthly', 'debt')) {
-    const smallestLoan = loans.reduce((min, loan) => 
+  // Debt payoff challenge (only if user still owes on a loan)
+  const openLoans = loans.filter(loan => loan.currentBalance > 0);
+  if (openLoans.length > 0 && !challengeExists('monthly', 'debt')) {
+    const smallestLoan = openLoans.reduce((min, loan) => 
       loan.currentBalance < min.currentBalance ? loan : min
     );
     
-    challenges.push({
-      id: `debt-payoff-${Date.now()}`,
+    addDraft({
       title: 'Debt Destroyer',
       description: `Pay off ${smallestLoan.name} completely`,
       type: 'monthly',
       category: 'debt',
-      target: smallestLoan.currentBalance,
-      current: smallestLoan.principal - smallestLoan.currentBalance,
+      target: smallestLoan.principal,
       points: 300,
-      deadline: new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      isCompleted: false,
-      isActive: true,
-      difficulty: 'hard'
+      deadline: addDays(today, 30),
+      difficulty: 'hard',
+      metric: { metric: 'loan_repaid', targetEntityId: smallestLoan.id, comparator: 'at_least', window: 'current' }
     });
   }
 
-  // Investment challenge for financially healthy users
+  // Investment challenge for financially healthy users who have an investment goal to pay into
+  const hasInvestmentGoal = goals.some(goal => goal.category === 'investment');
   if ((financialHealth.level === 'good' || financialHealth.level === 'excellent') && 
-      totalIncome > totalExpenses && !challengeExists('monthly', 'investment')) {
+      totalIncome > totalExpenses && hasInvestmentGoal && !challengeExists('monthly', 'investment')) {
     const netIncome = totalIncome - totalExpenses;
-    const investmentTarget = netIncome * 0.2;
     
-    challenges.push({
-      id: `investment-starter-${Date.now()}`,
+    addDraft({
       title: 'Investment Pioneer',
       description: 'Allocate 20% of surplus income to investments',
       type: 'monthly',
       category: 'investment',
-      target: investmentTarget,
-      current: 0,
+      target: netIncome * 0.2,
       points: 150,
-      deadline: new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      isCompleted: false,
-      isActive: true,
-      difficulty: 'medium'
+      deadline: addDays(today, 30),
+      difficulty: 'medium',
+      metric: { metric: 'investment_contributions', comparator: 'at_least', window: 'since_start' }
     });
   }
 
@@ -153,23 +246,20 @@ export const generateChallenges = (
     const goal = highPriorityGoals[0];
     const monthlyRequired = (goal.targetAmount - goal.currentAmount) / 3; // 3 months to achieve
     
-    challenges.push({
-      id: `goal-achievement-${Date.now()}`,
+    addDraft({
       title: 'Goal Achiever',
       description: `Make progress on ${goal.name}`,
       type: 'monthly',
       category: 'goals',
       target: goal.currentAmount + monthlyRequired,
-      current: goal.currentAmount,
       points: 120,
-      deadline: new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      isCompleted: false,
-      isActive: true,
-      difficulty: 'medium'
+      deadline: addDays(today, 30),
+      difficulty: 'medium',
+      metric: { metric: 'goal_saved', targetEntityId: goal.id, comparator: 'at_least', window: 'current' }
     });
   }
 
-  return challenges.filter(c => c.isActive);
+  return drafts;
 };
 
 export const calculateUserLevel = (totalPoints: number): { level: number; currentLevelPoints: number; nextLevelPoints: number } => {
@@ -204,66 +294,4 @@ export const calculateUserLevel = (totalPoints: number): { level: number; curren
   }
   
   return { level, currentLevelPoints, nextLevelPoints };
-};
-
-export const updateChallengeProgress = (
-  challenge: Challenge,
-  incomes: Income[],
-  expenses: Expense[],
-  loans: Loan[],
-  dailyEntries: DailyEntry[],
-  goals: FinancialGoal[]
-): number => {
-  const today = new Date();
-  
-  switch (challenge.category) {
-    case 'tracking':
-      if (challenge.title.includes('Daily Expense Tracker')) {
-        const recentEntries = dailyEntries.filter(entry => {
-          const entryDate = new Date(entry.date);
-          const daysDiff = Math.floor((today.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24));
-          return daysDiff <= 7;
-        });
-        return recentEntries.length;
-      }
-      break;
-      
-    case 'savings':
-      if (challenge.title.includes('Wants Spending')) {
-        const currentWants = expenses
-          .filter(e => e.category === 'want')
-          .reduce((sum, expense) => sum + expense.monthlyAmount, 0);
-        return currentWants;
-      }
-      if (challenge.title.includes('Emergency Fund')) {
-        const emergencyGoal = goals.find(g => g.category === 'emergency');
-        return emergencyGoal?.currentAmount || 0;
-      }
-      break;
-      
-    case 'debt':
-      if (challenge.title.includes('Debt Destroyer')) {
-        const targetLoan = loans.find(l => challenge.description.includes(l.name));
-        if (targetLoan) {
-          return targetLoan.principal - targetLoan.currentBalance;
-        }
-      }
-      break;
-      
-    case 'goals':
-      if (challenge.title.includes('Goal Achiever')) {
-        const targetGoal = goals.find(g => challenge.description.includes(g.name));
-        return targetGoal?.currentAmount || 0;
-      }
-      break;
-      
-    case 'investment':
-      // This would need to be tracked through investment goals or accounts
-      return challenge.current;
-      
-    default:
-      return challenge.current;
-  }
-  
-  return challenge.current;
 };
\ No newline at end of file
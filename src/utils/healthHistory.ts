@@ -0,0 +1,101 @@
+import { FinancialHealth, HealthScoreFactor, HealthScoreSnapshot } from '../types';
+import { addDays } from './recurrence';
+
+export interface HealthFactorChange {
+  id: HealthScoreFactor['id'];
+  label: string;
+  previousPoints: number;
+  currentPoints: number;
+  change: number;
+  explanation: string;
+}
+
+export interface HealthScoreChange {
+  previous: HealthScoreSnapshot;
+  change: number;
+  // Only the factors whose points moved, biggest move first
+  factorChanges: HealthFactorChange[];
+}
+
+type ScoredHealth = Pick<FinancialHealth, 'score' | 'factors'>;
+
+const formatPercent = (value: number): string => `${value.toFixed(0)}%`;
+
+// What moved a factor's value, in words
+const describeFactorChange = (previous: HealthScoreFactor, current: HealthScoreFactor): string => {
+  const direction = current.value > previous.value ? 'rose' : 'fell';
+
+  switch (current.id) {
+    case 'debt_to_income':
+      return `Debt payments went from ${formatPercent(previous.value)} to ${formatPercent(current.value)} of income`;
+    case 'savings_rate':
+      return `Savings rate went from ${formatPercent(previous.value)} to ${formatPercent(current.value)}`;
+    case 'emergency_fund':
+      return `Emergency fund went from ${formatPercent(previous.value * 100)} to ${formatPercent(current.value * 100)} of six months' expenses`;
+    case 'net_worth':
+      return `Net worth ${direction} compared with your income`;
+    case 'income_diversity':
+      return `Income streams went from ${previous.value} to ${current.value}`;
+    case 'business_contribution':
+      return `Business profit ${direction}`;
+    case 'overdraft_usage':
+      return `Overdraft use went from ${formatPercent(previous.value)} to ${formatPercent(current.value)} of the limit`;
+    default:
+      return `${current.label} ${direction}`;
+  }
+};
+
+// The latest snapshot taken at least `days` days before `date`
+export const getSnapshotBefore = (
+  snapshots: HealthScoreSnapshot[],
+  date: string,
+  days: number = 7
+): HealthScoreSnapshot | undefined => {
+  const cutoff = addDays(date, -days);
+  return snapshots
+    .filter(snapshot => snapshot.date <= cutoff)
+    .reduce<HealthScoreSnapshot | undefined>((latest, snapshot) => !latest || snapshot.date > latest.date ? snapshot : latest, undefined);
+};
+
+// Why the score moved since an earlier snapshot, factor by factor
+export const explainScoreChange = (current: ScoredHealth, previous: HealthScoreSnapshot): HealthScoreChange => {
+  const ids = [...new Set([...previous.factors, ...current.factors].map(factor => factor.id))];
+
+  const factorChanges = ids
+    .map(id => {
+      const before = previous.factors.find(factor => factor.id === id);
+      const after = current.factors.find(factor => factor.id === id);
+      const previousPoints = before?.points || 0;
+      const currentPoints = after?.points || 0;
+      const label = after?.label || before?.label || id;
+
+      let explanation: string;
+      if (!before) explanation = `${label} is now scored`;
+      else if (!after) explanation = `${label} is no longer scored`;
+      else explanation = describeFactorChange(before, after);
+
+      return { id, label, previousPoints, currentPoints, change: currentPoints - previousPoints, explanation };
+    })
+    .filter(factorChange => factorChange.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return { previous, change: current.score - previous.score, factorChanges };
+};
+
+// Whether a snapshot no longer matches the score and its breakdown
+export const isSnapshotOutdated = (snapshot: HealthScoreSnapshot, health: ScoredHealth): boolean =>
+  snapshot.score !== health.score ||
+  snapshot.factors.length !== health.factors.length ||
+  health.factors.some(factor => {
+    const stored = snapshot.factors.find(s => s.id === factor.id);
+    return !stored || stored.points !== factor.points || stored.value !== factor.value;
+  });
+
+// Points gained (or lost) since the first snapshot
+export const calculateHealthImprovement = (snapshots: HealthScoreSnapshot[], currentScore: number): number => {
+  const first = snapshots.reduce<HealthScoreSnapshot | undefined>(
+    (earliest, snapshot) => !earliest || snapshot.date < earliest.date ? snapshot : earliest,
+    undefined
+  );
+  return first ? currentScore - first.score : 0;
+};
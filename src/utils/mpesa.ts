@@ -0,0 +1,315 @@
+import { DailyEntry, CategorizerModel } from '../types';
+import { categorizeTransaction } from './categorizer';
+import { parseCsv } from './statementImport';
+
+export interface MpesaTransaction {
+  code: string;
+  date: string;
+  time?: string;
+  type: 'received' | 'sent' | 'paybill' | 'buygoods' | 'withdraw' | 'deposit' | 'airtime' | 'other';
+  counterparty: string;
+  // Signed: positive is money into M-Pesa, negative is money out
+  amount: number;
+  fee: number;
+  balance?: number;
+}
+
+// M-Pesa transaction codes are ten uppercase letters and digits, e.g. QGH7XK2L1P
+const CODE_PATTERN = /\b([A-Z0-9]{10})\b/;
+
+const parseKsh = (value: string | undefined): number => {
+  if (!value) return 0;
+  const numeric = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return isNaN(numeric) ? 0 : numeric;
+};
+
+// SMS dates are D/M/YY and times are 12-hour, e.g. "5/7/25 at 3:45 PM"
+const parseSmsDateTime = (text: string): { date: string; time?: string } | null => {
+  const match = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:\s*at\s*(\d{1,2}):(\d{2})\s*(AM|PM))?/i);
+  if (!match) return null;
+
+  const [, day, month, rawYear, rawHour, minute, meridiem] = match;
+  const year = rawYear.length === 2 ? `20${rawYear}` : rawYear;
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+
+  if (!rawHour) return { date };
+
+  let hour = parseInt(rawHour) % 12;
+  if (meridiem.toUpperCase() === 'PM') hour += 12;
+
+  return { date, time: `${hour.toString().padStart(2, '0')}:${minute}` };
+};
+
+// Trim trailing phone numbers, account references and punctuation from a counterparty name
+const cleanCounterparty = (value: string): string =>
+  value
+    .replace(/\s+(?:for account|account)\s+.*$/i, '')
+    .replace(/\s+0\d{9}\b.*$/, '')
+    .replace(/\s+\d{3,}\*+\d+.*$/, '')
+    .replace(/[.\s]+$/, '')
+    .trim();
+
+// Parse a single confirmation SMS
+export const parseMpesaSms = (message: string): MpesaTransaction | null => {
+  const codeMatch = message.match(CODE_PATTERN);
+  const dateTime = parseSmsDateTime(message);
+  if (!codeMatch || !dateTime || !/confirmed/i.test(message)) return null;
+
+  const text = message.replace(/\s+/g, ' ');
+  const fee = parseKsh(text.match(/Transaction cost,?\s*Ksh\s?([\d,]+\.?\d*)/i)?.[1]);
+  const balance = text.match(/balance is\s*Ksh\s?([\d,]+\.?\d*)/i)?.[1];
+
+  let type: MpesaTransaction['type'] = 'other';
+  let amount = 0;
+  let counterparty = '';
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/received\s*Ksh\s?([\d,]+\.?\d*)\s*from\s+(.+?)\s+on\s+\d/i))) {
+    type = 'received';
+    amount = parseKsh(match[1]);
+    counterparty = match[2];
+  } else if ((match = text.match(/Ksh\s?([\d,]+\.?\d*)\s*sent to\s+(.+?)\s+for account\s+(\S+)/i))) {
+    type = 'paybill';
+    amount = -parseKsh(match[1]);
+    counterparty = match[2];
+  } else if ((match = text.match(/Ksh\s?([\d,]+\.?\d*)\s*sent to\s+(.+?)\s+on\s+\d/i))) {
+    type = 'sent';
+    amount = -parseKsh(match[1]);
+    counterparty = match[2];
+  } else if ((match = text.match(/Ksh\s?([\d,]+\.?\d*)\s*paid to\s+(.+?)\s*\.?\s*on\s+\d/i))) {
+    type = 'buygoods';
+    amount = -parseKsh(match[1]);
+    counterparty = match[2];
+  } else if ((match = text.match(/Withdraw\s*Ksh\s?([\d,]+\.?\d*)\s*from\s+(?:\d+\s*-\s*)?(.+?)\s+New/i))) {
+    type = 'withdraw';
+    amount = -parseKsh(match[1]);
+    counterparty = match[2];
+  } else if ((match = text.match(/Give\s*Ksh\s?([\d,]+\.?\d*)\s*cash to\s+(.+?)\s+New/i))) {
+    type = 'deposit';
+    amount = parseKsh(match[1]);
+    counterparty = match[2];
+  } else if ((match = text.match(/bought\s*Ksh\s?([\d,]+\.?\d*)\s*of airtime/i))) {
+    type = 'airtime';
+    amount = -parseKsh(match[1]);
+    counterparty = 'Airtime';
+  } else {
+    return null;
+  }
+
+  return {
+    code: codeMatch[1],
+    date: dateTime.date,
+    time: dateTime.time,
+    type,
+    counterparty: cleanCounterparty(counterparty),
+    amount,
+    fee,
+    balance: balance ? parseKsh(balance) : undefined
+  };
+};
+
+// Split pasted text holding one or more SMS messages and parse each one
+export const parseMpesaSmsBatch = (text: string): MpesaTransaction[] => {
+  const messages = text
+    .split(/(?=\b[A-Z0-9]{10}\s+[Cc]onfirmed)/)
+    .map(message => message.trim())
+    .filter(Boolean);
+
+  return messages
+    .map(parseMpesaSms)
+    .filter((transaction): transaction is MpesaTransaction => transaction !== null);
+};
+
+// Infer the transaction type from statement "Details" text
+const getStatementType = (details: string, amount: number): MpesaTransaction['type'] => {
+  const lower = details.toLowerCase();
+  if (lower.includes('pay bill')) return 'paybill';
+  if (lower.includes('merchant payment') || lower.includes('buy goods')) return 'buygoods';
+  if (lower.includes('withdrawal')) return 'withdraw';
+  if (lower.includes('deposit')) return 'deposit';
+  if (lower.includes('airtime')) return 'airtime';
+  if (lower.includes('received')) return 'received';
+  if (lower.includes('transfer') || lower.includes('sent')) return 'sent';
+  return amount >= 0 ? 'received' : 'other';
+};
+
+// Statement details read like "Customer Transfer to - 0712****78 JANE DOE"
+const getStatementCounterparty = (details: string): string => {
+  const separator = details.match(/^.*(?:\s-\s|\sto\s|\sfrom\s)/i);
+  const counterparty = separator ? details.slice(separator[0].length) : details;
+  return cleanCounterparty(counterparty.replace(/^\d+\**\d*\s*/, ''));
+};
+
+// Fold statement rows into transactions; charge rows share the receipt number of the
+// transaction they belong to and become its fee
+const foldStatementRows = (
+  rows: { code: string; completionTime: string; details: string; status: string; amount: number; balance?: number }[]
+): MpesaTransaction[] => {
+  const transactions = new Map<string, MpesaTransaction>();
+
+  rows
+    .filter(row => CODE_PATTERN.test(row.code) && (!row.status || /completed/i.test(row.status)))
+    .forEach(row => {
+      const isCharge = /charge/i.test(row.details);
+      const existing = transactions.get(row.code);
+
+      if (isCharge) {
+        if (existing) existing.fee += Math.abs(row.amount);
+        else transactions.set(row.code, {
+          code: row.code,
+          date: row.completionTime.slice(0, 10),
+          time: row.completionTime.slice(11, 16) || undefined,
+          type: 'other',
+          counterparty: '',
+          amount: 0,
+          fee: Math.abs(row.amount),
+          balance: row.balance
+        });
+        return;
+      }
+
+      const transaction: MpesaTransaction = {
+        code: row.code,
+        date: row.completionTime.slice(0, 10),
+        time: row.completionTime.slice(11, 16) || undefined,
+        type: getStatementType(row.details, row.amount),
+        counterparty: getStatementCounterparty(row.details),
+        amount: row.amount,
+        fee: existing?.fee || 0,
+        balance: row.balance
+      };
+      transactions.set(row.code, transaction);
+    });
+
+  return Array.from(transactions.values()).filter(transaction => transaction.amount !== 0);
+};
+
+// Parse an exported M-Pesa CSV statement
+export const parseMpesaCsvStatement = (text: string): MpesaTransaction[] => {
+  const [headers = [], ...rows] = parseCsv(text);
+  const find = (name: string) => headers.findIndex(header => header.toLowerCase().includes(name));
+
+  const columns = {
+    code: find('receipt'),
+    completionTime: find('completion'),
+    details: find('details'),
+    status: find('status'),
+    paidIn: find('paid in'),
+    withdrawn: find('withdraw'),
+    balance: find('balance')
+  };
+
+  return foldStatementRows(rows.map(row => ({
+    code: row[columns.code] || '',
+    completionTime: row[columns.completionTime] || '',
+    details: row[columns.details] || '',
+    status: columns.status >= 0 ? row[columns.status] : 'Completed',
+    amount: Math.abs(parseKsh(row[columns.paidIn])) - Math.abs(parseKsh(row[columns.withdrawn])),
+    balance: columns.balance >= 0 ? parseKsh(row[columns.balance]) : undefined
+  })));
+};
+
+// Parse text copied out of an M-Pesa PDF statement, one transaction per line:
+// "QGH7XK2L1P 2025-07-05 15:45:12 Customer Transfer to - 0712****78 JANE DOE Completed -500.00 1,845.00"
+export const parseMpesaStatementText = (text: string): MpesaTransaction[] => {
+  const linePattern = /^([A-Z0-9]{10})\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}(?::\d{2})?)\s+(.+?)\s+(Completed|Failed|Reversed|Cancelled)\s+(-?[\d,]+\.\d{2})(?:\s+(-?[\d,]+\.\d{2}))?/i;
+
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim().match(linePattern))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({
+      code: match[1],
+      completionTime: match[2],
+      details: match[3],
+      status: match[4],
+      amount: parseKsh(match[5]),
+      balance: match[6] ? parseKsh(match[6]) : undefined
+    }));
+
+  return foldStatementRows(rows);
+};
+
+// Detect the input kind and parse it
+export const parseMpesaInput = (text: string): MpesaTransaction[] => {
+  if (/receipt\s*no/i.test(text.split(/\r?\n/)[0] || '')) return parseMpesaCsvStatement(text);
+
+  const statementTransactions = parseMpesaStatementText(text);
+  if (statementTransactions.length > 0) return statementTransactions;
+
+  return parseMpesaSmsBatch(text);
+};
+
+const getFeeReference = (code: string) => `${code}-FEE`;
+
+// Whether a transaction has already been imported, judged by its transaction code
+export const isMpesaDuplicate = (transaction: MpesaTransaction, existingEntries: DailyEntry[]): boolean =>
+  existingEntries.some(entry => entry.externalReference === transaction.code);
+
+const describeTransaction = (transaction: MpesaTransaction): string => {
+  switch (transaction.type) {
+    case 'received': return `M-Pesa from ${transaction.counterparty}`;
+    case 'sent': return `M-Pesa to ${transaction.counterparty}`;
+    case 'paybill': return `Paybill: ${transaction.counterparty}`;
+    case 'buygoods': return `Buy goods: ${transaction.counterparty}`;
+    case 'withdraw': return `M-Pesa withdrawal at ${transaction.counterparty}`;
+    case 'deposit': return `M-Pesa deposit at ${transaction.counterparty}`;
+    case 'airtime': return 'Airtime purchase';
+    default: return `M-Pesa ${transaction.counterparty}`.trim();
+  }
+};
+
+// Convert parsed transactions into daily entries against the M-Pesa account.
+// Fees become their own entries so they can be tracked separately from the payment.
+export const mpesaToDailyEntries = (
+  transactions: MpesaTransaction[],
+  bankAccountId: string,
+  existingEntries: DailyEntry[],
+  categorizerModel: CategorizerModel | null = null
+): Omit<DailyEntry, 'id'>[] => {
+  const existingReferences = new Set(existingEntries.map(entry => entry.externalReference).filter(Boolean));
+  const entries: Omit<DailyEntry, 'id'>[] = [];
+
+  transactions.forEach(transaction => {
+    const description = describeTransaction(transaction);
+
+    if (!existingReferences.has(transaction.code)) {
+      existingReferences.add(transaction.code);
+      const { category, confidence, aiCategory } = categorizeTransaction(categorizerModel, description, Math.abs(transaction.amount), transaction.counterparty);
+
+      entries.push({
+        date: transaction.date,
+        time: transaction.time,
+        income: transaction.amount > 0 ? transaction.amount : 0,
+        expenses: transaction.amount < 0 ? Math.abs(transaction.amount) : 0,
+        category,
+        description,
+        frequency: 'once',
+        incomeBankAccountId: transaction.amount > 0 ? bankAccountId : undefined,
+        expenseBankAccountId: transaction.amount < 0 ? bankAccountId : undefined,
+        externalReference: transaction.code,
+        aiCategorized: true,
+        aiCategory,
+        confidence
+      });
+    }
+
+    if (transaction.fee > 0 && !existingReferences.has(getFeeReference(transaction.code))) {
+      existingReferences.add(getFeeReference(transaction.code));
+
+      entries.push({
+        date: transaction.date,
+        time: transaction.time,
+        income: 0,
+        expenses: transaction.fee,
+        category: 'need',
+        description: `M-Pesa transaction cost (${transaction.code})`,
+        frequency: 'once',
+        expenseBankAccountId: bankAccountId,
+        externalReference: getFeeReference(transaction.code)
+      });
+    }
+  });
+
+  return entries;
+};
@@ -0,0 +1,52 @@
+import { Income, Expense, Bill, Recurrence, DateRange, PeriodTotals } from '../types';
+import { frequencyToRecurrence, getOccurrences } from './recurrence';
+
+type ScheduledItem = Pick<Income, 'amount' | 'frequency' | 'recurrence' | 'nextOccurrence' | 'createdAt'>;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// The calendar month containing a date, optionally shifted by whole months
+export const getMonthRange = (date: Date = new Date(), offset: number = 0): DateRange => ({
+  from: toDateString(new Date(Date.UTC(date.getFullYear(), date.getMonth() + offset, 1))),
+  to: toDateString(new Date(Date.UTC(date.getFullYear(), date.getMonth() + offset + 1, 0)))
+});
+
+// Items without a schedule or next date repeat from the anchor given, else from the day
+// they were added (today for items not saved yet)
+export const getItemSchedule = (item: ScheduledItem, anchor?: string): Recurrence =>
+  item.recurrence || frequencyToRecurrence(
+    item.frequency,
+    item.nextOccurrence || anchor || (item.createdAt ? item.createdAt.split('T')[0] : toDateString(new Date()))
+  );
+
+// What actually lands in the range: the amount times the occurrences that fall in it
+export const getAmountInPeriod = (item: ScheduledItem, period: DateRange, anchor?: string): number =>
+  item.amount * getOccurrences(getItemSchedule(item, anchor), period.from, period.to).length;
+
+export const calculateIncomeForPeriod = (incomes: Income[], period: DateRange): number =>
+  incomes.reduce((total, income) => total + getAmountInPeriod(income, period), 0);
+
+export const calculateExpensesForPeriod = (expenses: Expense[], period: DateRange): number =>
+  expenses.reduce((total, expense) => total + getAmountInPeriod(expense, period), 0);
+
+// Bills repeat from their due date
+export const calculateBillsForPeriod = (bills: Bill[], period: DateRange): number =>
+  bills.reduce((total, bill) => total + getAmountInPeriod(bill, period, bill.dueDate), 0);
+
+export const calculatePeriodTotals = (
+  incomes: Income[],
+  expenses: Expense[],
+  bills: Bill[],
+  period: DateRange
+): PeriodTotals => {
+  const income = calculateIncomeForPeriod(incomes, period);
+  const expenseTotal = calculateExpensesForPeriod(expenses, period);
+  const billTotal = calculateBillsForPeriod(bills, period);
+
+  return {
+    income,
+    expenses: expenseTotal,
+    bills: billTotal,
+    net: income - expenseTotal - billTotal
+  };
+};
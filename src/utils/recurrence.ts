@@ -0,0 +1,311 @@
+import { Recurrence } from '../types';
+
+type LegacyFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+// Upper bound on periods walked for one schedule, about 27 years of a daily rule
+const MAX_PERIODS = 10000;
+
+// Rolling to a business day moves a date by at most a few days, so periods starting
+// this far past the end of a range can no longer land inside it
+const ROLL_SLACK_DAYS = 7;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last', [-2]: 'second-last' };
+
+// Kenyan public holidays that fall on the same date every year (month, day)
+const FIXED_HOLIDAYS: [number, number][] = [[1, 1], [5, 1], [6, 1], [10, 10], [10, 20], [12, 12], [12, 25], [12, 26]];
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month, day));
+
+export const addDays = (dateString: string, days: number): string => {
+  const date = new Date(dateString);
+  return toDateString(utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+};
+
+const daysInMonth = (year: number, month: number): number => utcDate(year, month + 1, 0).getUTCDate();
+
+// Easter Sunday by the anonymous Gregorian algorithm
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+};
+
+const holidayCache = new Map<number, Set<string>>();
+
+// Public holidays observed in a year, including Monday when a fixed holiday falls on a Sunday
+const getPublicHolidays = (year: number): Set<string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Set<string>();
+  FIXED_HOLIDAYS.forEach(([month, day]) => {
+    const date = utcDate(year, month - 1, day);
+    holidays.add(toDateString(date));
+    if (date.getUTCDay() === 0) holidays.add(addDays(toDateString(date), 1));
+  });
+
+  const easter = toDateString(getEasterSunday(year));
+  holidays.add(addDays(easter, -2));
+  holidays.add(addDays(easter, 1));
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+export const isPublicHoliday = (dateString: string): boolean =>
+  getPublicHolidays(new Date(dateString).getUTCFullYear()).has(dateString);
+
+export const isBusinessDay = (dateString: string): boolean => {
+  const weekday = new Date(dateString).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !isPublicHoliday(dateString);
+};
+
+// Move a date off weekends and public holidays in the given direction
+export const rollToBusinessDay = (dateString: string, roll: Recurrence['roll'] = 'none'): string => {
+  if (roll === 'none' || !roll) return dateString;
+
+  let date = dateString;
+  while (!isBusinessDay(date)) {
+    date = addDays(date, roll === 'previous' ? -1 : 1);
+  }
+  return date;
+};
+
+export const createDefaultRecurrence = (startDate: string = toDateString(new Date())): Recurrence => ({
+  frequency: 'monthly',
+  interval: 1,
+  startDate,
+  roll: 'none'
+});
+
+// The schedule the old frequency field describes, anchored on a start date
+export const frequencyToRecurrence = (frequency: LegacyFrequency, startDate: string): Recurrence => ({
+  frequency: frequency === 'biweekly' ? 'weekly' : frequency,
+  interval: frequency === 'biweekly' ? 2 : 1,
+  startDate
+});
+
+// The closest of the old frequencies, kept on rows for the summaries that still use it
+export const recurrenceToFrequency = (recurrence: Recurrence): LegacyFrequency => {
+  switch (recurrence.frequency) {
+    case 'daily':
+      return 'weekly';
+    case 'weekly':
+      return recurrence.interval === 1 ? 'weekly' : recurrence.interval === 2 ? 'biweekly' : 'monthly';
+    case 'monthly':
+      return recurrence.interval >= 12 ? 'yearly' : 'monthly';
+    default:
+      return 'yearly';
+  }
+};
+
+// Day of a month from a month day that may count back from the end; days past the
+// end of a short month fall on its last day
+const resolveMonthDay = (year: number, month: number, day: number): number => {
+  const lastDay = daysInMonth(year, month);
+  return day > 0 ? Math.min(day, lastDay) : Math.max(lastDay + day + 1, 1);
+};
+
+// Day of the nth (or nth-from-last) given weekday in a month, or null when there is none
+const resolveNthWeekday = (year: number, month: number, weekday: number, ordinal: number): number | null => {
+  const lastDay = daysInMonth(year, month);
+
+  if (ordinal > 0) {
+    const first = 1 + ((weekday - utcDate(year, month, 1).getUTCDay() + 7) % 7);
+    const day = first + (ordinal - 1) * 7;
+    return day <= lastDay ? day : null;
+  }
+
+  const last = lastDay - ((utcDate(year, month, lastDay).getUTCDay() - weekday + 7) % 7);
+  const day = last + (ordinal + 1) * 7;
+  return day >= 1 ? day : null;
+};
+
+const getMonthCandidates = (recurrence: Recurrence, year: number, month: number, startDay: number): Date[] => {
+  if (recurrence.byMonthDay?.length) {
+    return recurrence.byMonthDay.map(day => utcDate(year, month, resolveMonthDay(year, month, day)));
+  }
+
+  if (recurrence.byWeekday?.length) {
+    return recurrence.byWeekday.flatMap(({ weekday, ordinal }) => {
+      if (ordinal) {
+        const day = resolveNthWeekday(year, month, weekday, ordinal);
+        return day ? [utcDate(year, month, day)] : [];
+      }
+
+      const days: Date[] = [];
+      for (let day = resolveNthWeekday(year, month, weekday, 1) as number; day <= daysInMonth(year, month); day += 7) {
+        days.push(utcDate(year, month, day));
+      }
+      return days;
+    });
+  }
+
+  return [utcDate(year, month, resolveMonthDay(year, month, startDay))];
+};
+
+// Unrolled dates the schedule produces in its nth period, in order
+const getPeriodCandidates = (recurrence: Recurrence, start: Date, period: number): Date[] => {
+  const interval = Math.max(recurrence.interval || 1, 1);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  let candidates: Date[];
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      candidates = [utcDate(year, month, day + period * interval)];
+      break;
+    case 'weekly': {
+      const weekStart = day - ((start.getUTCDay() + 6) % 7) + period * interval * 7;
+      candidates = recurrence.byWeekday?.length
+        ? recurrence.byWeekday.map(({ weekday }) => utcDate(year, month, weekStart + ((weekday + 6) % 7)))
+        : [utcDate(year, month, day + period * interval * 7)];
+      break;
+    }
+    case 'monthly': {
+      const target = utcDate(year, month + period * interval, 1);
+      candidates = getMonthCandidates(recurrence, target.getUTCFullYear(), target.getUTCMonth(), day);
+      break;
+    }
+    default: {
+      const months = recurrence.byMonth?.length ? recurrence.byMonth.map(m => m - 1) : [month];
+      candidates = months.flatMap(m => getMonthCandidates(recurrence, year + period * interval, m, day));
+    }
+  }
+
+  const unique = Array.from(new Set(candidates.map(toDateString)));
+  return unique.sort().map(date => new Date(date));
+};
+
+// Walk the schedule in order, handing each occurrence (unrolled and rolled) to the
+// visitor until it returns false or the schedule ends
+const forEachOccurrence = (
+  recurrence: Recurrence,
+  visit: (date: string, scheduledDate: string) => boolean | void
+) => {
+  if (!recurrence.startDate) return;
+
+  const start = new Date(recurrence.startDate);
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const candidate of getPeriodCandidates(recurrence, start, period)) {
+      const scheduledDate = toDateString(candidate);
+      if (scheduledDate < recurrence.startDate) continue;
+      if (recurrence.until && scheduledDate > recurrence.until) return;
+      if (recurrence.count && generated >= recurrence.count) return;
+
+      generated++;
+      if (visit(rollToBusinessDay(scheduledDate, recurrence.roll), scheduledDate) === false) return;
+    }
+  }
+};
+
+// Every occurrence that lands between two dates, inclusive
+export const getOccurrences = (recurrence: Recurrence, from: string, to: string): string[] => {
+  const occurrences: string[] = [];
+  const stopAfter = addDays(to, ROLL_SLACK_DAYS);
+
+  forEachOccurrence(recurrence, (date, scheduledDate) => {
+    if (scheduledDate > stopAfter) return false;
+    if (date >= from && date <= to) occurrences.push(date);
+  });
+
+  return Array.from(new Set(occurrences)).sort();
+};
+
+// The schedule's first occurrence, if it has any
+export const getFirstOccurrence = (recurrence: Recurrence): string | undefined => {
+  let first: string | undefined;
+  forEachOccurrence(recurrence, date => {
+    first = date;
+    return false;
+  });
+  return first;
+};
+
+// The first occurrence strictly after a date, if the schedule has not ended
+export const getNextOccurrence = (recurrence: Recurrence, after: string): string | undefined => {
+  let next: string | undefined;
+  const stopAfter = addDays(after, ROLL_SLACK_DAYS);
+
+  forEachOccurrence(recurrence, (date, scheduledDate) => {
+    if (date > after && (!next || date < next)) next = date;
+    return !(next && scheduledDate > stopAfter);
+  });
+
+  return next;
+};
+
+// Average occurrences per month, for figures that are normalised to a month
+export const getAverageOccurrencesPerMonth = (recurrence: Recurrence): number => {
+  const interval = Math.max(recurrence.interval || 1, 1);
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      return 365.25 / 12 / interval;
+    case 'weekly':
+      return (365.25 / 7 / 12) * Math.max(recurrence.byWeekday?.length || 1, 1) / interval;
+    case 'monthly': {
+      const perMonth = recurrence.byMonthDay?.length
+        || recurrence.byWeekday?.reduce((total, { ordinal }) => total + (ordinal ? 1 : 365.25 / 7 / 12), 0)
+        || 1;
+      return perMonth / interval;
+    }
+    default:
+      return Math.max(recurrence.byMonth?.length || 1, 1) / 12 / interval;
+  }
+};
+
+const describeMonthDay = (day: number): string => {
+  if (day === -1) return 'the last day';
+  if (day < 0) return `${-day - 1} days before month end`;
+  return `day ${day}`;
+};
+
+// Short human-readable summary, e.g. "Monthly on the last Friday, previous business day"
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  const interval = Math.max(recurrence.interval || 1, 1);
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[recurrence.frequency];
+  const labels = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' };
+  const parts = [interval === 1 ? labels[recurrence.frequency] : `Every ${interval} ${units}s`];
+
+  if (recurrence.frequency === 'yearly' && recurrence.byMonth?.length) {
+    parts.push(`in ${recurrence.byMonth.map(month => MONTH_NAMES[month - 1]).join(', ')}`);
+  }
+
+  if (recurrence.byMonthDay?.length && recurrence.frequency !== 'daily' && recurrence.frequency !== 'weekly') {
+    parts.push(`on ${recurrence.byMonthDay.map(describeMonthDay).join(', ')}`);
+  } else if (recurrence.byWeekday?.length && recurrence.frequency !== 'daily') {
+    parts.push(`on ${recurrence.byWeekday.map(({ weekday, ordinal }) =>
+      ordinal && recurrence.frequency !== 'weekly'
+        ? `the ${ORDINAL_NAMES[ordinal] || ordinal} ${WEEKDAY_NAMES[weekday]}`
+        : WEEKDAY_NAMES[weekday]
+    ).join(', ')}`);
+  }
+
+  let summary = parts.join(' ');
+  if (recurrence.roll === 'previous') summary += ', previous business day';
+  if (recurrence.roll === 'next') summary += ', next business day';
+  if (recurrence.count) summary += `, ${recurrence.count} times`;
+  if (recurrence.until) summary += `, until ${recurrence.until}`;
+
+  return summary;
+};
@@ -0,0 +1,82 @@
+import { RecurringTransaction, DailyEntry, Bill, Recurrence } from '../types';
+import { addDays, frequencyToRecurrence, getNextOccurrence, getOccurrences } from './recurrence';
+
+// Never materialise more than this many missed occurrences of one rule in a single catch-up
+const MAX_CATCH_UP_OCCURRENCES = 400;
+
+const BILL_CATEGORIES: Bill['category'][] = ['utility', 'subscription', 'insurance', 'other'];
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// Stable reference for one occurrence of a rule, so it can only ever be posted once
+export const getRecurringReference = (ruleId: string, date: string): string => `recurring:${ruleId}:${date}`;
+
+// The rule's schedule; rules saved before schedules existed repeat on their frequency
+// from their next occurrence
+export const getRuleRecurrence = (rule: RecurringTransaction): Recurrence =>
+  rule.recurrence || frequencyToRecurrence(rule.frequency, rule.nextOccurrence);
+
+// Every occurrence of the rule from its next occurrence up to and including `today`
+export const getDueOccurrences = (
+  rule: RecurringTransaction,
+  today: string = toDateString(new Date())
+): string[] => {
+  if (!rule.isActive || !rule.autoGenerate || !rule.nextOccurrence) return [];
+
+  return getOccurrences(getRuleRecurrence(rule), rule.nextOccurrence, today).slice(0, MAX_CATCH_UP_OCCURRENCES);
+};
+
+export interface RecurringCatchUp {
+  dailyEntries: Omit<DailyEntry, 'id'>[];
+  bills: Omit<Bill, 'id'>[];
+  nextOccurrence: string;
+  lastGenerated: string;
+  recurrence: Recurrence;
+}
+
+// Entries to materialise for every missed occurrence of the rule, and where the rule
+// should resume. Returns null when nothing is due.
+export const buildRecurringCatchUp = (
+  rule: RecurringTransaction,
+  today: string = toDateString(new Date())
+): RecurringCatchUp | null => {
+  const occurrences = getDueOccurrences(rule, today);
+  if (occurrences.length === 0) return null;
+
+  const dailyEntries: Omit<DailyEntry, 'id'>[] = rule.type === 'bill' ? [] : occurrences.map(date => ({
+    date,
+    income: rule.type === 'income' ? rule.amount : 0,
+    expenses: rule.type === 'expense' ? rule.amount : 0,
+    category: rule.category === 'want' ? 'want' : 'need',
+    description: rule.name,
+    frequency: 'once',
+    incomeBankAccountId: rule.type === 'income' ? rule.bankAccountId : undefined,
+    expenseBankAccountId: rule.type === 'expense' ? rule.bankAccountId : undefined,
+    categoryId: rule.type === 'expense' ? rule.categoryId : undefined,
+    externalReference: getRecurringReference(rule.id, date)
+  }));
+
+  const bills: Omit<Bill, 'id'>[] = rule.type !== 'bill' ? [] : occurrences.map(date => ({
+    name: rule.name,
+    amount: rule.amount,
+    dueDate: date,
+    frequency: rule.frequency,
+    category: BILL_CATEGORIES.find(category => category === rule.category) || 'other',
+    isPaid: false,
+    bankAccountId: rule.bankAccountId,
+    recurringRuleId: rule.id
+  }));
+
+  const lastGenerated = occurrences[occurrences.length - 1];
+  // Pin the schedule so later catch-ups keep the original day of month
+  const recurrence = getRuleRecurrence(rule);
+
+  return {
+    dailyEntries,
+    bills,
+    // A finished schedule parks the next occurrence past the last one so nothing more is due
+    nextOccurrence: getNextOccurrence(recurrence, lastGenerated) || addDays(lastGenerated, 1),
+    lastGenerated,
+    recurrence
+  };
+};
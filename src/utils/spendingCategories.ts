@@ -0,0 +1,81 @@
+import { SpendingCategory } from '../types';
+
+export interface SpendingCategoryOption {
+  category: SpendingCategory;
+  depth: number;
+  path: string;
+}
+
+const PATH_SEPARATOR = ' > ';
+
+const bySortOrder = (a: SpendingCategory, b: SpendingCategory) =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+// Every category depth-first, parents before their children, for pickers and lists.
+// Categories whose parent is missing are listed at the top level.
+export const getCategoryOptions = (categories: SpendingCategory[]): SpendingCategoryOption[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const options: SpendingCategoryOption[] = [];
+
+  const visit = (parentId: string | undefined, depth: number, parentPath: string) => {
+    categories
+      .filter(category => (parentId ? category.parentId === parentId : !category.parentId || !ids.has(category.parentId)))
+      .sort(bySortOrder)
+      .forEach(category => {
+        const path = parentPath ? `${parentPath}${PATH_SEPARATOR}${category.name}` : category.name;
+        options.push({ category, depth, path });
+        visit(category.id, depth + 1, path);
+      });
+  };
+
+  visit(undefined, 0, '');
+  return options;
+};
+
+// "Housing > Rent" for a category, or undefined when it no longer exists
+export const getCategoryPath = (categories: SpendingCategory[], categoryId?: string): string | undefined => {
+  if (!categoryId) return undefined;
+
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let category = categories.find(c => c.id === categoryId);
+
+  while (category && !seen.has(category.id)) {
+    seen.add(category.id);
+    names.unshift(category.name);
+    const parentId = category.parentId;
+    category = parentId ? categories.find(c => c.id === parentId) : undefined;
+  }
+
+  return names.length > 0 ? names.join(PATH_SEPARATOR) : undefined;
+};
+
+// The category and everything below it
+export const getCategoryDescendantIds = (categories: SpendingCategory[], categoryId: string): Set<string> => {
+  const ids = new Set([categoryId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    categories.forEach(category => {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+
+  return ids;
+};
+
+// The top-level category standing for a suggested spending category, so suggestions
+// from the categoriser land in the user's tree. Only a category of the given need/want
+// type is returned, so filing an entry never changes its type.
+export const getCategoryForAiCategory = (
+  categories: SpendingCategory[],
+  aiCategory: string | undefined,
+  type: SpendingCategory['type']
+): SpendingCategory | undefined =>
+  aiCategory
+    ? categories.find(category => !category.parentId && category.aiCategory === aiCategory && category.type === type)
+    : undefined;
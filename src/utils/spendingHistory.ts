@@ -0,0 +1,251 @@
+import { Expense, DailyEntry, DailyEntryLine, BusinessEntry, DateRange, SpendingRecord, MonthlySpending, SpendingPattern, SpendingCategory } from '../types';
+import { categorizeExpenseWithAI } from './advancedCalculations';
+import { getCategoryPath } from './spendingCategories';
+import { getDailyEntryLines } from './calculations';
+import { addDays, getOccurrences } from './recurrence';
+import { getItemSchedule } from './periods';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Months fitted for the trend, and the history needed to compare a month with the
+// same month a year earlier
+const TREND_MONTHS = 12;
+const SEASONAL_MONTHS = 24;
+
+// A fitted change smaller than this share of the average month counts as stable
+const TREND_THRESHOLD = 0.02;
+
+// A month is a seasonal peak when it beats the year's average by this much in both years
+const PEAK_THRESHOLD = 1.25;
+
+// Business stock and running costs count as needs
+const BUSINESS_CATEGORY = 'business';
+
+// A daily expense of the same amount within this many days of a scheduled expense's
+// occurrence may be the same payment recorded as it happened
+const PAYMENT_MATCH_DAYS = 3;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const getMonthKey = (date: string): string => date.slice(0, 7);
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// The user's own category ("Housing > Rent") when the item is filed under one, otherwise
+// the stored AI category, or the categoriser's guess for items saved without one
+const getSpendingCategory = (
+  spendingCategories: SpendingCategory[],
+  item: { categoryId?: string; aiCategory?: string },
+  description: string,
+  amount: number
+): string =>
+  getCategoryPath(spendingCategories, item.categoryId)
+  || item.aiCategory
+  || categorizeExpenseWithAI(description, amount).aiCategory;
+
+// The last `days` days up to and including today
+export const getTrailingRange = (days: number, today: Date = new Date()): DateRange => {
+  const to = toDateString(today);
+  return { from: addDays(to, 1 - days), to };
+};
+
+// The calendar months ending with the current one, oldest first
+const getTrailingMonths = (count: number, today: Date = new Date()): string[] =>
+  Array.from({ length: count }, (_, i) =>
+    toDateString(new Date(Date.UTC(today.getFullYear(), today.getMonth() - count + 1 + i, 1))).slice(0, 7)
+  );
+
+// Whether a daily expense line records this occurrence of a scheduled expense: same
+// amount, close to the date, and the expense's name in its description or the same
+// spending category
+const isRecordedOccurrence = (expense: Expense, date: string, line: DailyEntryLine): boolean => {
+  const name = expense.name.trim().toLowerCase();
+  return Math.abs(line.amount - expense.amount) < 0.005
+    && line.date >= addDays(date, -PAYMENT_MATCH_DAYS)
+    && line.date <= addDays(date, PAYMENT_MATCH_DAYS)
+    && ((!!expense.categoryId && line.categoryId === expense.categoryId)
+      || (!!name && line.description.toLowerCase().includes(name)));
+};
+
+// Everything spent in the range: daily entries line by line, each occurrence of a
+// scheduled expense, and the cost side of business entries (sales less profit).
+// An occurrence already recorded as a daily entry is counted once, as the entry.
+export const getSpendingRecords = (
+  expenses: Expense[],
+  dailyEntries: DailyEntry[],
+  businessEntries: BusinessEntry[],
+  range: DateRange,
+  spendingCategories: SpendingCategory[] = []
+): SpendingRecord[] => {
+  const records: SpendingRecord[] = [];
+  const inRange = (date: string) => date >= range.from && date <= range.to;
+
+  const spendingLines = dailyEntries
+    .filter(entry => inRange(entry.date))
+    .flatMap(getDailyEntryLines)
+    .filter(line => line.type === 'expense');
+
+  spendingLines.forEach(line => {
+    records.push({
+      date: line.date,
+      amount: line.amount,
+      type: line.category,
+      category: getSpendingCategory(spendingCategories, line, line.description, line.amount)
+    });
+  });
+
+  // Each daily line stands for at most one occurrence
+  const unmatchedLines = [...spendingLines];
+  expenses.forEach(expense => {
+    const category = getSpendingCategory(spendingCategories, expense, expense.name, expense.amount);
+    getOccurrences(getItemSchedule(expense), range.from, range.to).forEach(date => {
+      const match = unmatchedLines.findIndex(line => isRecordedOccurrence(expense, date, line));
+      if (match >= 0) {
+        unmatchedLines.splice(match, 1);
+        return;
+      }
+      records.push({ date, amount: expense.amount, type: expense.category, category });
+    });
+  });
+
+  businessEntries.forEach(entry => {
+    const costs = entry.sales - entry.profit;
+    if (costs > 0 && inRange(entry.date)) {
+      records.push({ date: entry.date, amount: costs, type: 'need', category: BUSINESS_CATEGORY });
+    }
+  });
+
+  return records;
+};
+
+// Month-by-month totals for the last `months` calendar months, oldest first; months
+// with no spending are kept as zeros so the series stays evenly spaced
+export const getMonthlySpending = (
+  records: SpendingRecord[],
+  months: number,
+  today: Date = new Date()
+): MonthlySpending[] => {
+  const totals = new Map<string, MonthlySpending>(
+    getTrailingMonths(months, today).map(month => [month, { month, needs: 0, wants: 0, byCategory: {} }])
+  );
+
+  records.forEach(record => {
+    const month = totals.get(getMonthKey(record.date));
+    if (!month) return;
+    if (record.type === 'need') month.needs += record.amount;
+    else month.wants += record.amount;
+    month.byCategory[record.category] = (month.byCategory[record.category] || 0) + record.amount;
+  });
+
+  return Array.from(totals.values());
+};
+
+// Least-squares slope over evenly spaced months, as a share of the average month.
+// Skipped months (seasonal peaks) keep their place on the time axis but are not fitted.
+export const getSpendingTrend = (
+  values: number[],
+  skip: (index: number) => boolean = () => false
+): { trend: SpendingPattern['trend']; trendPercentage: number } => {
+  const points = values.map((value, x) => ({ x, value })).filter(point => !skip(point.x));
+  const mean = average(points.map(point => point.value));
+  if (points.filter(point => point.value > 0).length < 3 || mean <= 0) {
+    return { trend: 'stable', trendPercentage: 0 };
+  }
+
+  const xMean = average(points.map(point => point.x));
+  let covariance = 0;
+  let variance = 0;
+  points.forEach(({ x, value }) => {
+    covariance += (x - xMean) * (value - mean);
+    variance += (x - xMean) * (x - xMean);
+  });
+
+  const relativeSlope = covariance / variance / mean;
+  const trend = relativeSlope > TREND_THRESHOLD ? 'increasing' : relativeSlope < -TREND_THRESHOLD ? 'decreasing' : 'stable';
+  return { trend, trendPercentage: Math.round(relativeSlope * 1000) / 10 };
+};
+
+// Calendar months that stood out against their own year in both of the last two years.
+// `values` holds 24 monthly totals ending with `lastMonth`, oldest first.
+export const getPeakMonths = (values: number[], lastMonth: string): string[] => {
+  if (values.length < SEASONAL_MONTHS) return [];
+
+  const previousYear = values.slice(-SEASONAL_MONTHS, -TREND_MONTHS);
+  const currentYear = values.slice(-TREND_MONTHS);
+  const previousAverage = average(previousYear);
+  const currentAverage = average(currentYear);
+  if (previousAverage <= 0 || currentAverage <= 0) return [];
+
+  // Month index (0 = January) of the first entry in each year's slice
+  const firstMonth = parseInt(lastMonth.slice(5, 7)) % 12;
+
+  return currentYear
+    .map((value, i) => ({ value, previous: previousYear[i], month: MONTH_NAMES[(firstMonth + i) % 12] }))
+    .filter(({ value, previous }) =>
+      value >= currentAverage * PEAK_THRESHOLD && previous >= previousAverage * PEAK_THRESHOLD
+    )
+    .map(({ month }) => month);
+};
+
+// Trend, seasonality and savings suggestions for every spending category with history
+export const analyzeSpendingPatterns = (
+  expenses: Expense[],
+  dailyEntries: DailyEntry[],
+  businessEntries: BusinessEntry[] = [],
+  spendingCategories: SpendingCategory[] = [],
+  today: Date = new Date()
+): SpendingPattern[] => {
+  // Only complete months are compared; the current one would look low until it ends
+  const lastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  const months = getTrailingMonths(SEASONAL_MONTHS, lastMonth);
+  const range: DateRange = {
+    from: `${months[0]}-01`,
+    to: toDateString(new Date(Date.UTC(today.getFullYear(), today.getMonth(), 0)))
+  };
+  const records = getSpendingRecords(expenses, dailyEntries, businessEntries, range, spendingCategories);
+  const monthly = getMonthlySpending(records, SEASONAL_MONTHS, lastMonth);
+  const categories = Array.from(new Set(records.map(record => record.category)));
+
+  return categories.map(category => {
+    const categoryRecords = records.filter(record => record.category === category);
+    const needTotal = categoryRecords.filter(record => record.type === 'need').reduce((sum, record) => sum + record.amount, 0);
+    const wantTotal = categoryRecords.filter(record => record.type === 'want').reduce((sum, record) => sum + record.amount, 0);
+    const type: SpendingPattern['type'] = needTotal >= wantTotal ? 'need' : 'want';
+
+    const values = monthly.map(month => month.byCategory[category] || 0);
+    const recent = values.slice(-TREND_MONTHS);
+    const averageMonthly = average(recent);
+    const peakMonths = getPeakMonths(values, months[months.length - 1]);
+    const recentMonths = months.slice(-TREND_MONTHS);
+    const { trend, trendPercentage } = getSpendingTrend(
+      recent,
+      index => peakMonths.includes(MONTH_NAMES[parseInt(recentMonths[index].slice(5, 7)) - 1])
+    );
+
+    const suggestions: string[] = [];
+    if (type === 'want' && trend === 'increasing') {
+      suggestions.push('Consider setting a monthly limit for discretionary spending');
+      suggestions.push('Review recent purchases to identify unnecessary expenses');
+    }
+    if (type === 'need' && averageMonthly > 0) {
+      suggestions.push('Look for opportunities to negotiate bills or find better deals');
+      suggestions.push('Consider bulk purchasing for frequently used items');
+    }
+    if (peakMonths.length > 0) {
+      suggestions.push(`Set money aside ahead of ${peakMonths.join(', ')}, when this spending peaks every year`);
+    }
+
+    return {
+      category,
+      type,
+      averageMonthly,
+      trend,
+      trendPercentage,
+      seasonality: peakMonths.length > 0,
+      peakMonths,
+      optimizationPotential: type === 'want' ? Math.min(30, averageMonthly * 0.2) : Math.min(15, averageMonthly * 0.1),
+      suggestions
+    };
+  }).sort((a, b) => b.averageMonthly - a.averageMonthly);
+};
@@ -0,0 +1,344 @@
+import { DailyEntry, Expense, CategorizerModel } from '../types';
+import { categorizeTransaction } from './categorizer';
+
+export interface ParsedStatement {
+  format: 'csv' | 'ofx';
+  headers: string[];
+  rows: string[][];
+}
+
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export type ImportTarget = 'daily' | 'expense';
+
+export interface ColumnMapping {
+  date: number;
+  description: number;
+  // Either a single signed amount column or separate debit/credit columns
+  amount: number;
+  debit: number;
+  credit: number;
+  dateFormat: DateFormat;
+}
+
+export interface ImportRow {
+  rowIndex: number;
+  date: string;
+  description: string;
+  // Signed: positive is money in, negative is money out
+  amount: number;
+  category: 'need' | 'want';
+  aiCategory: string;
+  confidence: number;
+  isDuplicate: boolean;
+  include: boolean;
+  error?: string;
+}
+
+// Column index used when a field is not mapped
+export const UNMAPPED = -1;
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// The delimiter used most often in the header row (outside quotes), or a comma
+const detectCsvDelimiter = (text: string): string => {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    (counts.get(delimiter) || 0) > (counts.get(best) || 0) ? delimiter : best
+  );
+};
+
+// Split CSV text into rows, honouring quoted fields with embedded delimiters, quotes and
+// newlines. The delimiter (comma, semicolon or tab) is detected from the header row.
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectCsvDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+};
+
+// Read a single OFX/QFX tag value, which may or may not have a closing tag (SGML vs XML)
+const readOfxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+// Extract STMTTRN blocks from an OFX or QFX statement
+export const parseOfx = (text: string): string[][] => {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+
+  return blocks.map(block => {
+    const body = block.split(/<\/STMTTRN>/i)[0];
+    const posted = readOfxTag(body, 'DTPOSTED');
+    const date = posted.length >= 8
+      ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+      : posted;
+
+    return [
+      date,
+      readOfxTag(body, 'TRNAMT'),
+      readOfxTag(body, 'NAME'),
+      readOfxTag(body, 'MEMO'),
+      readOfxTag(body, 'FITID')
+    ];
+  });
+};
+
+// Parse a statement file by its extension or content
+export const parseStatementFile = (fileName: string, text: string): ParsedStatement => {
+  const isOfx = /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text);
+
+  if (isOfx) {
+    return {
+      format: 'ofx',
+      headers: ['Date', 'Amount', 'Name', 'Memo', 'Transaction ID'],
+      rows: parseOfx(text)
+    };
+  }
+
+  const [headers = [], ...rows] = parseCsv(text);
+  return { format: 'csv', headers, rows };
+};
+
+// Guess a column mapping from header names
+export const guessColumnMapping = (statement: ParsedStatement): ColumnMapping => {
+  const headers = statement.headers.map(header => header.toLowerCase().trim());
+  const find = (...names: string[]) =>
+    headers.findIndex(header => names.some(name => header.includes(name)));
+  // Money columns: a header that is exactly the name wins, and a "Value Date" is never one
+  const findMoney = (...names: string[]) => {
+    const exact = headers.findIndex(header => names.includes(header));
+    return exact !== UNMAPPED
+      ? exact
+      : headers.findIndex(header => !header.includes('date') && names.some(name => header.includes(name)));
+  };
+
+  const firstDate = statement.rows[0]?.[Math.max(0, find('date'))] || '';
+
+  return {
+    date: find('date', 'posted'),
+    description: find('description', 'name', 'details', 'narrative', 'payee', 'memo'),
+    amount: findMoney('amount', 'value'),
+    debit: findMoney('debit', 'withdrawal', 'paid out'),
+    credit: findMoney('credit', 'deposit', 'paid in'),
+    dateFormat: /^\d{4}-\d{2}-\d{2}/.test(firstDate) ? 'YYYY-MM-DD' : 'DD/MM/YYYY'
+  };
+};
+
+// Convert a statement date to YYYY-MM-DD, returning '' when it cannot be read
+export const normalizeStatementDate = (value: string, format: DateFormat): string => {
+  const trimmed = value.trim();
+  const pad = (part: string) => part.padStart(2, '0');
+
+  if (/^\d{8}/.test(trimmed)) {
+    return `${trimmed.slice(0, 4)}-${trimmed.slice(4, 6)}-${trimmed.slice(6, 8)}`;
+  }
+
+  const parts = trimmed.split(/[/.\-\s]/).filter(Boolean);
+  if (parts.length < 3) return '';
+
+  let year: string;
+  let month: string;
+  let day: string;
+
+  if (format === 'YYYY-MM-DD' || parts[0].length === 4) {
+    [year, month, day] = parts;
+  } else if (format === 'MM/DD/YYYY') {
+    [month, day, year] = parts;
+  } else {
+    [day, month, year] = parts;
+  }
+
+  if (year.length === 2) year = `20${year}`;
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return '';
+
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Read a number written with either a decimal point or a decimal comma, e.g. "129.25",
+// "129,25", "1,290.50", "1.290,50" or "1 290,50". A lone comma before exactly three
+// digits, or several points, separate thousands. Returns NaN when it is not a number.
+export const parseDecimalNumber = (value: string): number => {
+  const compact = value.replace(/\s/g, '');
+  const lastComma = compact.lastIndexOf(',');
+  const lastPoint = compact.lastIndexOf('.');
+
+  let normalized = compact;
+  if (lastComma !== -1 && lastPoint !== -1) {
+    normalized = lastComma > lastPoint
+      ? compact.replace(/\./g, '').replace(',', '.')
+      : compact.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    normalized = /^\d{1,3}(,\d{3})+$/.test(compact) ? compact.replace(/,/g, '') : compact.replace(',', '.');
+  } else if (compact.indexOf('.') !== lastPoint) {
+    normalized = compact.replace(/\./g, '');
+  }
+
+  return /^\d*\.?\d+$/.test(normalized) ? Number(normalized) : NaN;
+};
+
+// Parse a statement amount such as "1,200.50", "-3,50", "(45.00)", "KES -300", "300-" or
+// "250 DR". Only a minus before or after the number makes it negative, not one inside it.
+export const parseStatementAmount = (value: string): number => {
+  if (!value) return 0;
+
+  const trimmed = value.trim();
+  const isNegative = /^\(.*\)$/.test(trimmed)
+    || /^[^\d-]*-/.test(trimmed)
+    || /\d[\d.,\s]*-[^\d]*$/.test(trimmed)
+    || /\bDR\b/i.test(trimmed);
+  const numeric = parseDecimalNumber(trimmed.replace(/[^\d.,\s]/g, ''));
+
+  if (isNaN(numeric)) return 0;
+  return isNegative ? -numeric : numeric;
+};
+
+const normalizeDescription = (description: string): string =>
+  description.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Recurring expenses have no date, so they are matched on amount and name only
+const getDuplicateKey = (target: ImportTarget, date: string, amount: number, description: string): string =>
+  target === 'expense'
+    ? `${Math.abs(amount).toFixed(2)}|${normalizeDescription(description)}`
+    : `${date}|${Math.abs(amount).toFixed(2)}|${normalizeDescription(description)}`;
+
+// Build import rows from a mapped statement, categorising each one and flagging duplicates
+// against existing records of the target type and earlier rows in the same file
+export const buildImportRows = (
+  statement: ParsedStatement,
+  mapping: ColumnMapping,
+  target: ImportTarget,
+  existingEntries: DailyEntry[],
+  existingExpenses: Expense[],
+  categorizerModel: CategorizerModel | null = null
+): ImportRow[] => {
+  const seen = new Set<string>();
+
+  if (target === 'expense') {
+    existingExpenses.forEach(expense => seen.add(getDuplicateKey(target, '', expense.amount, expense.name)));
+  } else {
+    existingEntries.forEach(entry => {
+      if (entry.income > 0) seen.add(getDuplicateKey(target, entry.date, entry.income, entry.description));
+      if (entry.expenses > 0) seen.add(getDuplicateKey(target, entry.date, entry.expenses, entry.description));
+    });
+  }
+
+  const cell = (row: string[], index: number) => (index === UNMAPPED ? '' : row[index] || '');
+
+  return statement.rows.map((row, rowIndex) => {
+    const date = normalizeStatementDate(cell(row, mapping.date), mapping.dateFormat);
+    const description = cell(row, mapping.description);
+
+    let amount: number;
+    if (mapping.amount !== UNMAPPED) {
+      amount = parseStatementAmount(cell(row, mapping.amount));
+    } else {
+      amount = Math.abs(parseStatementAmount(cell(row, mapping.credit)))
+        - Math.abs(parseStatementAmount(cell(row, mapping.debit)));
+    }
+
+    const { category, confidence, aiCategory } = categorizeTransaction(categorizerModel, description, Math.abs(amount));
+
+    let error: string | undefined;
+    if (!date && target === 'daily') error = 'Unreadable date';
+    else if (amount === 0) error = 'Missing amount';
+    else if (target === 'expense' && amount > 0) error = 'Incoming payments cannot be imported as expenses';
+
+    const key = getDuplicateKey(target, date, amount, description);
+    const isDuplicate = !error && seen.has(key);
+    seen.add(key);
+
+    return {
+      rowIndex,
+      date,
+      description,
+      amount,
+      category,
+      aiCategory,
+      confidence,
+      isDuplicate,
+      include: !error && !isDuplicate,
+      error
+    };
+  });
+};
+
+// Convert included rows into daily entries against the chosen account
+export const toDailyEntries = (rows: ImportRow[], bankAccountId: string): Omit<DailyEntry, 'id'>[] =>
+  rows
+    .filter(row => row.include)
+    .map(row => ({
+      date: row.date,
+      income: row.amount > 0 ? row.amount : 0,
+      expenses: row.amount < 0 ? Math.abs(row.amount) : 0,
+      category: row.category,
+      description: row.description,
+      frequency: 'once',
+      incomeBankAccountId: row.amount > 0 ? bankAccountId : undefined,
+      expenseBankAccountId: row.amount < 0 ? bankAccountId : undefined,
+      aiCategorized: true,
+      aiCategory: row.aiCategory,
+      confidence: row.confidence
+    }));
+
+// Convert included outgoing rows into recurring expenses against the chosen account
+export const toExpenses = (
+  rows: ImportRow[],
+  bankAccountId: string,
+  frequency: Expense['frequency']
+): Omit<Expense, 'id' | 'monthlyAmount'>[] =>
+  rows
+    .filter(row => row.include && row.amount < 0)
+    .map(row => ({
+      name: row.description || 'Imported expense',
+      amount: Math.abs(row.amount),
+      category: row.category,
+      frequency,
+      bankAccountId,
+      aiCategory: row.aiCategory,
+      confidence: row.confidence
+    }));
@@ -0,0 +1,164 @@
+import { DailyEntry, DailyEntrySplit, TransactionRule, TransactionRulePreview, TransactionRuleSplit } from '../types';
+
+type EntryDraft = Omit<DailyEntry, 'id'>;
+
+// Fields a rule can change on a transaction, compared when previewing a re-apply
+const RULE_FIELDS = ['category', 'categoryId', 'aiCategory', 'linkedBudgetId', 'linkedGoalId'] as const;
+const SPLIT_FIELDS = ['amount', 'category', 'categoryId', 'aiCategory', 'bankAccountId', 'linkedBudgetId', 'linkedGoalId'] as const;
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Each entry records money in or money out, so its side decides the amount and account
+const getTransaction = (entry: EntryDraft) =>
+  entry.income > 0
+    ? { type: 'income' as const, amount: entry.income, bankAccountId: entry.incomeBankAccountId }
+    : { type: 'expense' as const, amount: entry.expenses, bankAccountId: entry.expenseBankAccountId };
+
+export const isValidRulePattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Shares with a positive percentage; a single share is not a split
+export const getRuleSplits = (rule: TransactionRule): TransactionRuleSplit[] => {
+  const splits = (rule.actions.splits || []).filter(split => split.percentage > 0);
+  return splits.length >= 2 ? splits : [];
+};
+
+export const matchesTransactionRule = (rule: TransactionRule, entry: EntryDraft): boolean => {
+  const { conditions } = rule;
+  const transaction = getTransaction(entry);
+
+  if (!rule.isActive || transaction.amount <= 0) return false;
+  if (conditions.descriptionContains
+    && !entry.description.toLowerCase().includes(conditions.descriptionContains.toLowerCase())) return false;
+  // An invalid pattern never matches rather than matching everything
+  if (conditions.descriptionPattern && !(isValidRulePattern(conditions.descriptionPattern)
+    && new RegExp(conditions.descriptionPattern, 'i').test(entry.description))) return false;
+  if (conditions.minAmount !== undefined && transaction.amount < conditions.minAmount) return false;
+  if (conditions.maxAmount !== undefined && transaction.amount > conditions.maxAmount) return false;
+  if (conditions.transactionType && transaction.type !== conditions.transactionType) return false;
+  if (conditions.bankAccountId && transaction.bankAccountId !== conditions.bankAccountId) return false;
+  if (conditions.weekdays?.length && !conditions.weekdays.includes(new Date(entry.date).getUTCDay())) return false;
+
+  return true;
+};
+
+// Rules run in priority order and the first one that matches wins
+export const findTransactionRule = (rules: TransactionRule[], entry: EntryDraft): TransactionRule | undefined =>
+  [...rules]
+    .sort((a, b) => a.priority - b.priority)
+    .find(rule => matchesTransactionRule(rule, entry));
+
+// The entry with the rule's actions applied, split into one line per share when the rule
+// splits it. A rule's category is the user's own decision, so it replaces any suggested
+// one. A rule that only sets need/want leaves the entry's spending category unless the
+// type clashes.
+export const applyTransactionRule = (rule: TransactionRule, entry: EntryDraft): EntryDraft => {
+  const { actions } = rule;
+  const splits = getRuleSplits(rule);
+  const ruled: EntryDraft = { ...entry, appliedRuleId: rule.id };
+
+  // Only a transaction on one side can be split
+  if (splits.length === 0 || (entry.income > 0 && entry.expenses > 0)) {
+    return {
+      ...ruled,
+      category: actions.category || entry.category,
+      categoryId: actions.categoryId
+        || (actions.category && actions.category !== entry.category ? undefined : entry.categoryId),
+      aiCategory: actions.aiCategory || entry.aiCategory,
+      linkedBudgetId: actions.linkedBudgetId || entry.linkedBudgetId,
+      linkedGoalId: actions.linkedGoalId || entry.linkedGoalId,
+      ...(actions.category ? { aiCategorized: false, confidence: undefined } : {})
+    };
+  }
+
+  const { amount } = getTransaction(entry);
+  const totalPercentage = splits.reduce((sum, split) => sum + split.percentage, 0);
+  let remaining = amount;
+
+  const lines: DailyEntrySplit[] = splits.map((split, index) => {
+    // The last share takes whatever rounding left over so the shares add up exactly
+    const share = index === splits.length - 1
+      ? remaining
+      : roundToCents(amount * split.percentage / totalPercentage);
+    remaining = roundToCents(remaining - share);
+
+    return {
+      amount: share,
+      category: split.category,
+      categoryId: split.categoryId,
+      aiCategory: split.aiCategory || actions.aiCategory || entry.aiCategory,
+      linkedBudgetId: split.linkedBudgetId,
+      linkedGoalId: split.linkedGoalId
+    };
+  });
+  // The transaction as a whole takes the category of its largest share
+  const largest = lines.reduce((max, line) => (line.amount > max.amount ? line : max));
+
+  return {
+    ...ruled,
+    category: largest.category,
+    categoryId: largest.categoryId,
+    aiCategory: largest.aiCategory,
+    linkedBudgetId: undefined,
+    linkedGoalId: undefined,
+    aiCategorized: false,
+    confidence: undefined,
+    splits: lines
+  };
+};
+
+// A transaction the user split by hand is kept as they split it
+export const applyTransactionRules = (rules: TransactionRule[], entry: EntryDraft): EntryDraft => {
+  const rule = entry.splits?.length ? undefined : findTransactionRule(rules, entry);
+  return rule ? applyTransactionRule(rule, entry) : entry;
+};
+
+const sameSplits = (a: DailyEntrySplit[] = [], b: DailyEntrySplit[] = []): boolean =>
+  a.length === b.length && a.every((line, i) => SPLIT_FIELDS.every(field => line[field] === b[i][field]));
+
+// What re-applying the rules would change in existing transactions. Transactions the
+// user split by hand are left as they are.
+export const previewTransactionRules = (
+  rules: TransactionRule[],
+  entries: DailyEntry[]
+): TransactionRulePreview[] =>
+  entries.flatMap(entry => {
+    const rule = findTransactionRule(rules, entry);
+    if (!rule || (entry.splits?.length && entry.appliedRuleId !== rule.id)) return [];
+
+    const updated: DailyEntry = { ...applyTransactionRule(rule, entry), id: entry.id };
+    const changed = !sameSplits(updated.splits, entry.splits)
+      || RULE_FIELDS.some(field => updated[field] !== entry[field]);
+
+    return changed ? [{ entry, rule, updated }] : [];
+  });
+
+// Rules keep budget, goal and category ids in their actions, which nothing clears when
+// those are deleted; dropping the stale ones keeps them off new entries
+export const dropMissingRuleLinks = (
+  rule: TransactionRule,
+  budgetIds: Set<string>,
+  goalIds: Set<string>,
+  categoryIds: Set<string>
+): TransactionRule => {
+  const dropMissing = <T extends { linkedBudgetId?: string; linkedGoalId?: string; categoryId?: string }>(links: T): T => ({
+    ...links,
+    linkedBudgetId: links.linkedBudgetId && budgetIds.has(links.linkedBudgetId) ? links.linkedBudgetId : undefined,
+    linkedGoalId: links.linkedGoalId && goalIds.has(links.linkedGoalId) ? links.linkedGoalId : undefined,
+    categoryId: links.categoryId && categoryIds.has(links.categoryId) ? links.categoryId : undefined
+  });
+
+  return {
+    ...rule,
+    actions: {
+      ...dropMissing(rule.actions),
+      splits: rule.actions.splits?.map(dropMissing)
+    }
+  };
+};
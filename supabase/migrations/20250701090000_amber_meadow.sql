@@ -0,0 +1,138 @@
+/*
+  # Create Budgets System
+
+  1. New Tables
+    - `budgets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text)
+      - `category` (text) - 'need', 'want', 'business' or 'goal'
+      - `allocated_amount` (numeric)
+      - `period` (text) - 'weekly', 'monthly' or 'yearly'
+      - `linked_goal_id` (uuid, references financial_goals)
+      - `is_active` (boolean)
+      - `alert_threshold` (numeric) - percentage of the allocation that triggers a warning
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+    - `budget_alerts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `budget_id` (uuid, references budgets)
+      - `budget_name` (text)
+      - `type` (text) - 'warning', 'depleted' or 'exceeded'
+      - `message` (text)
+      - `percentage` (numeric)
+      - `period_start` (date) - start of the budget period the alert belongs to
+      - `is_read` (boolean)
+      - `dismissed_at` (timestamp) - set when the user dismisses the alert; the row is kept
+        so the alert isn't raised again for the same period
+      - `created_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `linked_budget_id` and `linked_goal_id` to `expenses` and `daily_entries`
+
+  3. Security
+    - Enable RLS on new tables
+    - Add policies for authenticated users to manage their own data
+*/
+
+-- Create budgets table
+CREATE TABLE IF NOT EXISTS budgets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  name text NOT NULL,
+  category text NOT NULL CHECK (category IN ('need', 'want', 'business', 'goal')),
+  allocated_amount numeric NOT NULL DEFAULT 0,
+  period text NOT NULL DEFAULT 'monthly' CHECK (period IN ('weekly', 'monthly', 'yearly')),
+  linked_goal_id uuid REFERENCES financial_goals ON DELETE SET NULL,
+  is_active boolean DEFAULT true,
+  alert_threshold numeric NOT NULL DEFAULT 80,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own budgets"
+  ON budgets
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create budget_alerts table
+CREATE TABLE IF NOT EXISTS budget_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  budget_id uuid REFERENCES budgets ON DELETE CASCADE NOT NULL,
+  budget_name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('warning', 'depleted', 'exceeded')),
+  message text NOT NULL,
+  percentage numeric NOT NULL DEFAULT 0,
+  period_start date NOT NULL,
+  is_read boolean DEFAULT false,
+  dismissed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (budget_id, type, period_start)
+);
+
+ALTER TABLE budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own budget alerts"
+  ON budget_alerts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Link spending to budgets and goals
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'expenses' AND column_name = 'linked_budget_id'
+  ) THEN
+    ALTER TABLE expenses ADD COLUMN linked_budget_id uuid REFERENCES budgets ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'expenses' AND column_name = 'linked_goal_id'
+  ) THEN
+    ALTER TABLE expenses ADD COLUMN linked_goal_id uuid REFERENCES financial_goals ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'linked_budget_id'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN linked_budget_id uuid REFERENCES budgets ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'linked_goal_id'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN linked_goal_id uuid REFERENCES financial_goals ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+CREATE INDEX IF NOT EXISTS idx_budget_alerts_user_id ON budget_alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_budget_alerts_budget_id ON budget_alerts(budget_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_linked_budget_id ON expenses(linked_budget_id);
+CREATE INDEX IF NOT EXISTS idx_daily_entries_linked_budget_id ON daily_entries(linked_budget_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_budgets_updated_at BEFORE UPDATE ON budgets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
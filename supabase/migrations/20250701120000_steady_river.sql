@@ -0,0 +1,164 @@
+/*
+  # Atomic Transfers
+
+  1. New Functions
+    - `create_transfer` - moves money between two of the caller's accounts,
+      applies overdraft rules to both sides and records the transfer, all in
+      one transaction
+    - `delete_transfer` - reverses a transfer's effect on both accounts and
+      removes the transfer record in one transaction
+
+  Both functions return the affected rows as JSON:
+    { "transfer": {...}, "from_account": {...}, "to_account": {...} }
+
+  2. Security
+    - Functions run with the caller's privileges, so existing RLS policies on
+      `transfers` and `bank_accounts` still apply
+    - Every row is additionally checked against `auth.uid()`
+*/
+
+-- Recalculate overdraft usage from an account's balance
+CREATE OR REPLACE FUNCTION calculate_overdraft_used(p_balance numeric, p_has_overdraft boolean)
+RETURNS numeric AS $$
+BEGIN
+  IF p_has_overdraft AND p_balance < 0 THEN
+    RETURN -p_balance;
+  END IF;
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Move money between two accounts and record the transfer
+CREATE OR REPLACE FUNCTION create_transfer(
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_description text,
+  p_is_loan boolean,
+  p_date date
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_from bank_accounts%ROWTYPE;
+  v_to bank_accounts%ROWTYPE;
+  v_transfer transfers%ROWTYPE;
+  v_from_balance numeric;
+  v_to_balance numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Transfer amount must be greater than zero';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'Source and destination accounts must be different';
+  END IF;
+
+  -- Lock both accounts in a stable order so concurrent transfers cannot deadlock
+  PERFORM 1 FROM bank_accounts
+  WHERE id IN (p_from_account_id, p_to_account_id) AND user_id = v_user_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_from FROM bank_accounts WHERE id = p_from_account_id AND user_id = v_user_id;
+  SELECT * INTO v_to FROM bank_accounts WHERE id = p_to_account_id AND user_id = v_user_id;
+
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Source or destination account not found';
+  END IF;
+
+  v_from_balance := v_from.balance - p_amount;
+  v_to_balance := v_to.balance + p_amount;
+
+  IF v_from_balance < 0 THEN
+    IF NOT COALESCE(v_from.has_overdraft, false) THEN
+      RAISE EXCEPTION 'Insufficient funds in %', v_from.name;
+    END IF;
+
+    IF -v_from_balance > COALESCE(v_from.overdraft_limit, 0) THEN
+      RAISE EXCEPTION 'Transfer exceeds the overdraft limit for %', v_from.name;
+    END IF;
+  END IF;
+
+  UPDATE bank_accounts
+  SET balance = v_from_balance,
+      overdraft_used = calculate_overdraft_used(v_from_balance, COALESCE(has_overdraft, false))
+  WHERE id = v_from.id
+  RETURNING * INTO v_from;
+
+  UPDATE bank_accounts
+  SET balance = v_to_balance,
+      overdraft_used = calculate_overdraft_used(v_to_balance, COALESCE(has_overdraft, false))
+  WHERE id = v_to.id
+  RETURNING * INTO v_to;
+
+  INSERT INTO transfers (user_id, from_account_id, to_account_id, amount, description, is_loan, date)
+  VALUES (v_user_id, p_from_account_id, p_to_account_id, p_amount, COALESCE(p_description, ''), COALESCE(p_is_loan, false), p_date)
+  RETURNING * INTO v_transfer;
+
+  RETURN jsonb_build_object(
+    'transfer', to_jsonb(v_transfer),
+    'from_account', to_jsonb(v_from),
+    'to_account', to_jsonb(v_to)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reverse a transfer and remove its record
+CREATE OR REPLACE FUNCTION delete_transfer(p_transfer_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transfer transfers%ROWTYPE;
+  v_from bank_accounts%ROWTYPE;
+  v_to bank_accounts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM transfers
+  WHERE id = p_transfer_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_transfer.id IS NULL THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  PERFORM 1 FROM bank_accounts
+  WHERE id IN (v_transfer.from_account_id, v_transfer.to_account_id) AND user_id = v_user_id
+  ORDER BY id
+  FOR UPDATE;
+
+  UPDATE bank_accounts
+  SET balance = balance + v_transfer.amount,
+      overdraft_used = calculate_overdraft_used(balance + v_transfer.amount, COALESCE(has_overdraft, false))
+  WHERE id = v_transfer.from_account_id AND user_id = v_user_id
+  RETURNING * INTO v_from;
+
+  UPDATE bank_accounts
+  SET balance = balance - v_transfer.amount,
+      overdraft_used = calculate_overdraft_used(balance - v_transfer.amount, COALESCE(has_overdraft, false))
+  WHERE id = v_transfer.to_account_id AND user_id = v_user_id
+  RETURNING * INTO v_to;
+
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Source or destination account not found';
+  END IF;
+
+  DELETE FROM transfers WHERE id = v_transfer.id;
+
+  RETURN jsonb_build_object(
+    'transfer', to_jsonb(v_transfer),
+    'from_account', to_jsonb(v_from),
+    'to_account', to_jsonb(v_to)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_transfer(uuid, uuid, numeric, text, boolean, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_transfer(uuid) TO authenticated;
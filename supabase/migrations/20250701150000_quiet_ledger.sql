@@ -0,0 +1,473 @@
+/*
+  # Account Ledger
+
+  1. New Tables
+    - `ledger_entries` (append-only)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `account_id` (uuid, references bank_accounts)
+      - `amount` (numeric) - signed; positive adds to the balance, negative removes from it
+      - `entry_type` (text) - 'opening_balance', 'transfer', 'daily_income', 'daily_expense',
+        'bill_payment', 'business_profit', 'adjustment' or 'reconciliation'
+      - `source_id` (uuid) - the transfer, daily entry, bill or business entry that caused it
+      - `is_reversal` (boolean) - true when the entry undoes an earlier one
+      - `description` (text)
+      - `date` (date)
+      - `created_at` (timestamp)
+
+  2. New Views
+    - `account_ledger` - every ledger entry with a running balance per account
+    - `account_reconciliation` - stored balance vs ledger balance per account
+
+  3. Triggers
+    - Transfers, daily entries, business entries and bill payments post ledger entries
+      on insert, update and delete; changes are recorded as reversals, never edits
+    - Posting a ledger entry applies it to `bank_accounts.balance`, so the stored
+      balance is derived from the ledger. `opening_balance` and `reconciliation`
+      entries document a balance the account row already holds and are not applied
+    - New accounts get an opening balance entry
+
+  4. New Functions
+    - `reconcile_account` - resolves drift either by resetting the stored balance to
+      the ledger balance or by recording the stored balance in the ledger
+    - `adjust_account_balance` - records a manual balance edit as an adjustment of the
+      difference from the ledger balance, worked out with the account locked
+    - `create_transfer` / `delete_transfer` now leave balance changes to the ledger
+
+  5. Security
+    - Enable RLS on `ledger_entries` with select and insert policies only; entries can
+      only be added to the user's own accounts
+    - Updates are rejected by trigger
+*/
+
+-- Create ledger_entries table
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  account_id uuid REFERENCES bank_accounts ON DELETE CASCADE NOT NULL,
+  amount numeric NOT NULL,
+  entry_type text NOT NULL CHECK (entry_type IN (
+    'opening_balance', 'transfer', 'daily_income', 'daily_expense',
+    'bill_payment', 'business_profit', 'adjustment', 'reconciliation'
+  )),
+  source_id uuid,
+  is_reversal boolean DEFAULT false,
+  description text DEFAULT '',
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger entries"
+  ON ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own ledger entries"
+  ON ledger_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM bank_accounts WHERE bank_accounts.id = account_id AND bank_accounts.user_id = auth.uid())
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_id ON ledger_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account_date ON ledger_entries(account_id, date, created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_source_id ON ledger_entries(source_id);
+
+-- Ledger history cannot be rewritten
+CREATE OR REPLACE FUNCTION prevent_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger entries are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_ledger_entries_update BEFORE UPDATE ON ledger_entries FOR EACH ROW EXECUTE FUNCTION prevent_ledger_update();
+
+-- Record the balance every existing account starts its ledger history with, dated when
+-- the account was created or at its earliest transaction if that is earlier, so entries
+-- posted for past dates come after it
+INSERT INTO ledger_entries (user_id, account_id, amount, entry_type, description, date)
+SELECT user_id, id, balance, 'opening_balance', 'Opening balance', LEAST(
+  COALESCE(created_at::date, CURRENT_DATE),
+  (SELECT MIN(date) FROM daily_entries
+   WHERE daily_entries.income_bank_account_id = bank_accounts.id OR daily_entries.expense_bank_account_id = bank_accounts.id),
+  (SELECT MIN(date) FROM transfers
+   WHERE transfers.from_account_id = bank_accounts.id OR transfers.to_account_id = bank_accounts.id)
+)
+FROM bank_accounts
+WHERE NOT EXISTS (
+  SELECT 1 FROM ledger_entries WHERE ledger_entries.account_id = bank_accounts.id
+);
+
+-- Apply posted entries to the stored balance
+CREATE OR REPLACE FUNCTION apply_ledger_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.entry_type IN ('opening_balance', 'reconciliation') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE bank_accounts
+  SET balance = balance + NEW.amount,
+      overdraft_used = calculate_overdraft_used(balance + NEW.amount, COALESCE(has_overdraft, false))
+  WHERE id = NEW.account_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_ledger_entries AFTER INSERT ON ledger_entries FOR EACH ROW EXECUTE FUNCTION apply_ledger_entry();
+
+-- Post a single ledger entry, skipping empty amounts and missing accounts
+CREATE OR REPLACE FUNCTION post_ledger_entry(
+  p_user_id uuid,
+  p_account_id uuid,
+  p_amount numeric,
+  p_entry_type text,
+  p_source_id uuid,
+  p_is_reversal boolean,
+  p_description text,
+  p_date date
+)
+RETURNS void AS $$
+BEGIN
+  IF p_account_id IS NULL OR COALESCE(p_amount, 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ledger_entries (user_id, account_id, amount, entry_type, source_id, is_reversal, description, date)
+  VALUES (
+    p_user_id,
+    p_account_id,
+    CASE WHEN p_is_reversal THEN -p_amount ELSE p_amount END,
+    p_entry_type,
+    p_source_id,
+    p_is_reversal,
+    COALESCE(p_description, ''),
+    COALESCE(p_date, CURRENT_DATE)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- New accounts start their history with an opening balance
+CREATE OR REPLACE FUNCTION post_opening_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO ledger_entries (user_id, account_id, amount, entry_type, description, date)
+  VALUES (NEW.user_id, NEW.id, COALESCE(NEW.balance, 0), 'opening_balance', 'Opening balance', CURRENT_DATE);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_bank_account_opening_balance AFTER INSERT ON bank_accounts FOR EACH ROW EXECUTE FUNCTION post_opening_balance();
+
+-- Transfers
+CREATE OR REPLACE FUNCTION post_transfer_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_ledger_entry(OLD.user_id, OLD.from_account_id, -OLD.amount, 'transfer', OLD.id, true, OLD.description, OLD.date);
+    PERFORM post_ledger_entry(OLD.user_id, OLD.to_account_id, OLD.amount, 'transfer', OLD.id, true, OLD.description, OLD.date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_ledger_entry(NEW.user_id, NEW.from_account_id, -NEW.amount, 'transfer', NEW.id, false, NEW.description, NEW.date);
+    PERFORM post_ledger_entry(NEW.user_id, NEW.to_account_id, NEW.amount, 'transfer', NEW.id, false, NEW.description, NEW.date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_transfers_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF from_account_id, to_account_id, amount, date ON transfers
+  FOR EACH ROW EXECUTE FUNCTION post_transfer_ledger_entries();
+
+-- Daily entries
+CREATE OR REPLACE FUNCTION post_daily_entry_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_ledger_entry(OLD.user_id, OLD.income_bank_account_id, OLD.income, 'daily_income', OLD.id, true, OLD.description, OLD.date);
+    PERFORM post_ledger_entry(OLD.user_id, OLD.expense_bank_account_id, -OLD.expenses, 'daily_expense', OLD.id, true, OLD.description, OLD.date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_ledger_entry(NEW.user_id, NEW.income_bank_account_id, NEW.income, 'daily_income', NEW.id, false, NEW.description, NEW.date);
+    PERFORM post_ledger_entry(NEW.user_id, NEW.expense_bank_account_id, -NEW.expenses, 'daily_expense', NEW.id, false, NEW.description, NEW.date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_daily_entries_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF income, expenses, income_bank_account_id, expense_bank_account_id, date ON daily_entries
+  FOR EACH ROW EXECUTE FUNCTION post_daily_entry_ledger_entries();
+
+-- Business entries
+CREATE OR REPLACE FUNCTION post_business_entry_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_ledger_entry(OLD.user_id, OLD.profit_account_id, OLD.profit, 'business_profit', OLD.id, true, OLD.description, OLD.date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_ledger_entry(NEW.user_id, NEW.profit_account_id, NEW.profit, 'business_profit', NEW.id, false, NEW.description, NEW.date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_business_entries_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF profit, profit_account_id, date ON business_entries
+  FOR EACH ROW EXECUTE FUNCTION post_business_entry_ledger_entries();
+
+-- Bill payments are posted when a bill is marked paid and reversed when unmarked
+CREATE OR REPLACE FUNCTION post_bill_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND COALESCE(OLD.is_paid, false) THEN
+    PERFORM post_ledger_entry(OLD.user_id, OLD.bank_account_id, -OLD.amount, 'bill_payment', OLD.id, true, OLD.name, OLD.due_date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND COALESCE(NEW.is_paid, false) THEN
+    PERFORM post_ledger_entry(NEW.user_id, NEW.bank_account_id, -NEW.amount, 'bill_payment', NEW.id, false, NEW.name, NEW.due_date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_bills_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF is_paid, amount, bank_account_id ON bills
+  FOR EACH ROW EXECUTE FUNCTION post_bill_ledger_entries();
+
+-- Running balance per account
+CREATE OR REPLACE VIEW account_ledger WITH (security_invoker = true) AS
+SELECT
+  ledger_entries.*,
+  SUM(amount) OVER (
+    PARTITION BY account_id
+    ORDER BY date, created_at, id
+    ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+  ) AS running_balance
+FROM ledger_entries;
+
+-- Stored vs ledger balance per account
+CREATE OR REPLACE VIEW account_reconciliation WITH (security_invoker = true) AS
+SELECT
+  bank_accounts.id AS account_id,
+  bank_accounts.user_id,
+  bank_accounts.name AS account_name,
+  bank_accounts.balance AS stored_balance,
+  COALESCE(SUM(ledger_entries.amount), 0) AS ledger_balance,
+  bank_accounts.balance - COALESCE(SUM(ledger_entries.amount), 0) AS drift,
+  COUNT(ledger_entries.id) AS entry_count,
+  MAX(ledger_entries.date) AS last_entry_date
+FROM bank_accounts
+LEFT JOIN ledger_entries ON ledger_entries.account_id = bank_accounts.id
+GROUP BY bank_accounts.id;
+
+-- Resolve drift on an account.
+-- 'ledger' resets the stored balance to the ledger balance;
+-- 'stored' records the stored balance in the ledger as a reconciliation entry.
+CREATE OR REPLACE FUNCTION reconcile_account(p_account_id uuid, p_mode text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_account bank_accounts%ROWTYPE;
+  v_ledger_balance numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_account FROM bank_accounts
+  WHERE id = p_account_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_ledger_balance
+  FROM ledger_entries WHERE account_id = p_account_id;
+
+  IF p_mode = 'ledger' THEN
+    UPDATE bank_accounts
+    SET balance = v_ledger_balance,
+        overdraft_used = calculate_overdraft_used(v_ledger_balance, COALESCE(has_overdraft, false))
+    WHERE id = p_account_id
+    RETURNING * INTO v_account;
+  ELSIF p_mode = 'stored' THEN
+    INSERT INTO ledger_entries (user_id, account_id, amount, entry_type, description)
+    VALUES (v_user_id, p_account_id, v_account.balance - v_ledger_balance, 'reconciliation', 'Reconciled to stored balance');
+  ELSE
+    RAISE EXCEPTION 'Unknown reconciliation mode %', p_mode;
+  END IF;
+
+  RETURN to_jsonb(v_account);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Set an account to a new balance by posting the difference from the ledger balance.
+-- The account is locked first so a concurrent posting can't make the difference stale.
+CREATE OR REPLACE FUNCTION adjust_account_balance(p_account_id uuid, p_balance numeric)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_account bank_accounts%ROWTYPE;
+  v_ledger_balance numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_balance IS NULL THEN
+    RAISE EXCEPTION 'Balance is required';
+  END IF;
+
+  SELECT * INTO v_account FROM bank_accounts
+  WHERE id = p_account_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_ledger_balance
+  FROM ledger_entries WHERE account_id = p_account_id;
+
+  PERFORM post_ledger_entry(
+    v_user_id, p_account_id, p_balance - v_ledger_balance, 'adjustment', NULL, false,
+    'Manual balance adjustment', CURRENT_DATE
+  );
+
+  SELECT * INTO v_account FROM bank_accounts WHERE id = p_account_id;
+  RETURN to_jsonb(v_account);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Transfers no longer write balances directly; the transfer triggers post to the ledger
+CREATE OR REPLACE FUNCTION create_transfer(
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_description text,
+  p_is_loan boolean,
+  p_date date
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_from bank_accounts%ROWTYPE;
+  v_to bank_accounts%ROWTYPE;
+  v_transfer transfers%ROWTYPE;
+  v_from_balance numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Transfer amount must be greater than zero';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'Source and destination accounts must be different';
+  END IF;
+
+  -- Lock both accounts in a stable order so concurrent transfers cannot deadlock
+  PERFORM 1 FROM bank_accounts
+  WHERE id IN (p_from_account_id, p_to_account_id) AND user_id = v_user_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_from FROM bank_accounts WHERE id = p_from_account_id AND user_id = v_user_id;
+  SELECT * INTO v_to FROM bank_accounts WHERE id = p_to_account_id AND user_id = v_user_id;
+
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Source or destination account not found';
+  END IF;
+
+  v_from_balance := v_from.balance - p_amount;
+
+  IF v_from_balance < 0 THEN
+    IF NOT COALESCE(v_from.has_overdraft, false) THEN
+      RAISE EXCEPTION 'Insufficient funds in %', v_from.name;
+    END IF;
+
+    IF -v_from_balance > COALESCE(v_from.overdraft_limit, 0) THEN
+      RAISE EXCEPTION 'Transfer exceeds the overdraft limit for %', v_from.name;
+    END IF;
+  END IF;
+
+  INSERT INTO transfers (user_id, from_account_id, to_account_id, amount, description, is_loan, date)
+  VALUES (v_user_id, p_from_account_id, p_to_account_id, p_amount, COALESCE(p_description, ''), COALESCE(p_is_loan, false), p_date)
+  RETURNING * INTO v_transfer;
+
+  SELECT * INTO v_from FROM bank_accounts WHERE id = p_from_account_id;
+  SELECT * INTO v_to FROM bank_accounts WHERE id = p_to_account_id;
+
+  RETURN jsonb_build_object(
+    'transfer', to_jsonb(v_transfer),
+    'from_account', to_jsonb(v_from),
+    'to_account', to_jsonb(v_to)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION delete_transfer(p_transfer_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transfer transfers%ROWTYPE;
+  v_from bank_accounts%ROWTYPE;
+  v_to bank_accounts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transfer FROM transfers
+  WHERE id = p_transfer_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF v_transfer.id IS NULL THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  PERFORM 1 FROM bank_accounts
+  WHERE id IN (v_transfer.from_account_id, v_transfer.to_account_id) AND user_id = v_user_id
+  ORDER BY id
+  FOR UPDATE;
+
+  DELETE FROM transfers WHERE id = v_transfer.id;
+
+  SELECT * INTO v_from FROM bank_accounts WHERE id = v_transfer.from_account_id AND user_id = v_user_id;
+  SELECT * INTO v_to FROM bank_accounts WHERE id = v_transfer.to_account_id AND user_id = v_user_id;
+
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Source or destination account not found';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'transfer', to_jsonb(v_transfer),
+    'from_account', to_jsonb(v_from),
+    'to_account', to_jsonb(v_to)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reconcile_account(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION adjust_account_balance(uuid, numeric) TO authenticated;
+GRANT SELECT ON account_ledger TO authenticated;
+GRANT SELECT ON account_reconciliation TO authenticated;
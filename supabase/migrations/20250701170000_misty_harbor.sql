@@ -0,0 +1,13 @@
+/*
+  # Multiple Daily Transactions
+
+  1. Updates to existing tables
+    - Drop the one-row-per-day unique constraint on `daily_entries` so each row is
+      an individual transaction
+    - Index transactions by user, date and time for the per-day grouped list
+*/
+
+-- Allow more than one daily entry per date
+ALTER TABLE daily_entries DROP CONSTRAINT IF EXISTS daily_entries_user_id_date_key;
+
+CREATE INDEX IF NOT EXISTS idx_daily_entries_user_date_time ON daily_entries(user_id, date, time);
@@ -0,0 +1,28 @@
+/*
+  # External Transaction References
+
+  1. Updates to existing tables
+    - Add `external_reference` to `daily_entries` to hold the provider's transaction
+      code (for example an M-Pesa receipt number)
+    - Each reference can only be imported once per user
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'external_reference'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN external_reference text;
+  END IF;
+END $$;
+
+-- NULL references are distinct, so manually entered transactions are unaffected
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'daily_entries_user_id_external_reference_key'
+  ) THEN
+    ALTER TABLE daily_entries ADD CONSTRAINT daily_entries_user_id_external_reference_key UNIQUE (user_id, external_reference);
+  END IF;
+END $$;
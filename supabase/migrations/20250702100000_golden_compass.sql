@@ -0,0 +1,228 @@
+/*
+  # Multi-Currency Accounts and Exchange Rates
+
+  1. New Tables
+    - `exchange_rates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `from_currency` (text) - ISO code, e.g. 'USD'
+      - `to_currency` (text) - ISO code, e.g. 'KES'
+      - `rate` (numeric) - units of `to_currency` for one unit of `from_currency`
+      - `rate_date` (date) - the day the rate applies from
+      - `source` (text) - 'manual' or 'csv'
+      - `created_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `currency` to `bank_accounts` and `loans`; existing rows are given the user's
+      base currency, so changing the base currency later doesn't re-denominate them
+    - Add `exchange_rate` and `converted_amount` to `transfers` so a transfer between
+      accounts in different currencies records the rate used and the amount credited
+
+  3. Triggers
+    - Transfers credit the destination account with `converted_amount`
+
+  4. Functions
+    - `create_transfer` takes the exchange rate to apply to the destination account
+
+  5. Security
+    - Enable RLS on `exchange_rates`
+    - Add policies for authenticated users to manage their own data
+*/
+
+-- Create exchange_rates table
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  from_currency text NOT NULL,
+  to_currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  rate_date date NOT NULL DEFAULT CURRENT_DATE,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, from_currency, to_currency, rate_date)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own exchange rates"
+  ON exchange_rates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS exchange_rates_user_id_pair_idx ON exchange_rates(user_id, from_currency, to_currency, rate_date DESC);
+
+-- Account and loan currencies
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bank_accounts' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE bank_accounts ADD COLUMN currency text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loans' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE loans ADD COLUMN currency text;
+  END IF;
+END $$;
+
+-- Existing accounts and loans are in the base currency the user has now
+UPDATE bank_accounts
+SET currency = COALESCE((
+  SELECT user_preferences.currency::jsonb ->> 'code'
+  FROM user_preferences
+  WHERE user_preferences.user_id = bank_accounts.user_id AND user_preferences.currency LIKE '{%'
+), 'USD')
+WHERE currency IS NULL;
+
+UPDATE loans
+SET currency = COALESCE((
+  SELECT user_preferences.currency::jsonb ->> 'code'
+  FROM user_preferences
+  WHERE user_preferences.user_id = loans.user_id AND user_preferences.currency LIKE '{%'
+), 'USD')
+WHERE currency IS NULL;
+
+-- Transfer exchange rates
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transfers' AND column_name = 'exchange_rate'
+  ) THEN
+    ALTER TABLE transfers ADD COLUMN exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transfers' AND column_name = 'converted_amount'
+  ) THEN
+    ALTER TABLE transfers ADD COLUMN converted_amount numeric;
+  END IF;
+END $$;
+
+UPDATE transfers SET converted_amount = amount WHERE converted_amount IS NULL;
+
+ALTER TABLE transfers ALTER COLUMN converted_amount SET NOT NULL;
+
+-- The destination account is credited in its own currency
+CREATE OR REPLACE FUNCTION post_transfer_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_ledger_entry(OLD.user_id, OLD.from_account_id, -OLD.amount, 'transfer', OLD.id, true, OLD.description, OLD.date);
+    PERFORM post_ledger_entry(OLD.user_id, OLD.to_account_id, OLD.converted_amount, 'transfer', OLD.id, true, OLD.description, OLD.date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_ledger_entry(NEW.user_id, NEW.from_account_id, -NEW.amount, 'transfer', NEW.id, false, NEW.description, NEW.date);
+    PERFORM post_ledger_entry(NEW.user_id, NEW.to_account_id, NEW.converted_amount, 'transfer', NEW.id, false, NEW.description, NEW.date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS post_transfers_to_ledger ON transfers;
+
+CREATE TRIGGER post_transfers_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF from_account_id, to_account_id, amount, converted_amount, date ON transfers
+  FOR EACH ROW EXECUTE FUNCTION post_transfer_ledger_entries();
+
+-- create_transfer gains an exchange rate parameter, so the old signature is replaced
+DROP FUNCTION IF EXISTS create_transfer(uuid, uuid, numeric, text, boolean, date);
+
+CREATE OR REPLACE FUNCTION create_transfer(
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_description text,
+  p_is_loan boolean,
+  p_date date,
+  p_exchange_rate numeric DEFAULT 1
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_from bank_accounts%ROWTYPE;
+  v_to bank_accounts%ROWTYPE;
+  v_transfer transfers%ROWTYPE;
+  v_from_balance numeric;
+  v_rate numeric := COALESCE(p_exchange_rate, 1);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Transfer amount must be greater than zero';
+  END IF;
+
+  IF v_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than zero';
+  END IF;
+
+  IF p_from_account_id = p_to_account_id THEN
+    RAISE EXCEPTION 'Source and destination accounts must be different';
+  END IF;
+
+  -- Lock both accounts in a stable order so concurrent transfers cannot deadlock
+  PERFORM 1 FROM bank_accounts
+  WHERE id IN (p_from_account_id, p_to_account_id) AND user_id = v_user_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_from FROM bank_accounts WHERE id = p_from_account_id AND user_id = v_user_id;
+  SELECT * INTO v_to FROM bank_accounts WHERE id = p_to_account_id AND user_id = v_user_id;
+
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Source or destination account not found';
+  END IF;
+
+  -- Accounts in the same currency always move money one to one
+  IF v_from.currency IS NOT DISTINCT FROM v_to.currency THEN
+    v_rate := 1;
+  END IF;
+
+  v_from_balance := v_from.balance - p_amount;
+
+  IF v_from_balance < 0 THEN
+    IF NOT COALESCE(v_from.has_overdraft, false) THEN
+      RAISE EXCEPTION 'Insufficient funds in %', v_from.name;
+    END IF;
+
+    IF -v_from_balance > COALESCE(v_from.overdraft_limit, 0) THEN
+      RAISE EXCEPTION 'Transfer exceeds the overdraft limit for %', v_from.name;
+    END IF;
+  END IF;
+
+  INSERT INTO transfers (user_id, from_account_id, to_account_id, amount, description, is_loan, date, exchange_rate, converted_amount)
+  VALUES (
+    v_user_id, p_from_account_id, p_to_account_id, p_amount, COALESCE(p_description, ''), COALESCE(p_is_loan, false), p_date,
+    v_rate, round(p_amount * v_rate, 2)
+  )
+  RETURNING * INTO v_transfer;
+
+  SELECT * INTO v_from FROM bank_accounts WHERE id = p_from_account_id;
+  SELECT * INTO v_to FROM bank_accounts WHERE id = p_to_account_id;
+
+  RETURN jsonb_build_object(
+    'transfer', to_jsonb(v_transfer),
+    'from_account', to_jsonb(v_from),
+    'to_account', to_jsonb(v_to)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_transfer(uuid, uuid, numeric, text, boolean, date, numeric) TO authenticated;
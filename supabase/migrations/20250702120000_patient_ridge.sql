@@ -0,0 +1,19 @@
+/*
+  # Loan Interest Methods
+
+  1. Updates to existing tables
+    - Add `interest_method` to `loans`
+      - 'reducing' charges interest on the outstanding balance
+      - 'flat' charges interest on the original principal for every period, as many
+        local lenders quote it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loans' AND column_name = 'interest_method'
+  ) THEN
+    ALTER TABLE loans ADD COLUMN interest_method text NOT NULL DEFAULT 'reducing' CHECK (interest_method IN ('reducing', 'flat'));
+  END IF;
+END $$;
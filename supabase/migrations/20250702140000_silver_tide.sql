@@ -0,0 +1,84 @@
+/*
+  # Recurring Transaction Rules
+
+  1. New Tables
+    - `recurring_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `type` (text) - 'income', 'expense' or 'bill'
+      - `name` (text)
+      - `amount` (numeric)
+      - `frequency` (text) - 'weekly', 'biweekly', 'monthly' or 'yearly'
+      - `next_occurrence` (date) - the first occurrence not yet materialised
+      - `bank_account_id` (uuid, references bank_accounts)
+      - `category` (text)
+      - `is_active` (boolean)
+      - `auto_generate` (boolean) - materialise occurrences automatically
+      - `last_generated` (date) - the last occurrence that was materialised
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `recurring_rule_id` to `bills` so generated bills point back at their rule
+    - A rule can only generate one bill per due date
+
+  3. Idempotency
+    - Income and expense occurrences become daily entries whose `external_reference`
+      is 'recurring:<rule id>:<date>', which is already unique per user
+    - Together with the bill constraint this means materialising the same occurrence
+      twice inserts nothing
+
+  4. Security
+    - Enable RLS on `recurring_rules`
+    - Add policies for authenticated users to manage their own data
+*/
+
+-- Create recurring_rules table
+CREATE TABLE IF NOT EXISTS recurring_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  type text NOT NULL CHECK (type IN ('income', 'expense', 'bill')),
+  name text NOT NULL,
+  amount numeric NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'yearly')),
+  next_occurrence date NOT NULL DEFAULT CURRENT_DATE,
+  bank_account_id uuid REFERENCES bank_accounts ON DELETE CASCADE NOT NULL,
+  category text,
+  is_active boolean DEFAULT true,
+  auto_generate boolean DEFAULT true,
+  last_generated date,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recurring rules"
+  ON recurring_rules
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS recurring_rules_user_id_idx ON recurring_rules(user_id);
+
+-- Bills generated from a rule
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bills' AND column_name = 'recurring_rule_id'
+  ) THEN
+    ALTER TABLE bills ADD COLUMN recurring_rule_id uuid REFERENCES recurring_rules ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- NULL rule ids are distinct, so bills entered by hand are unaffected
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'bills_recurring_rule_id_due_date_key'
+  ) THEN
+    ALTER TABLE bills ADD CONSTRAINT bills_recurring_rule_id_due_date_key UNIQUE (recurring_rule_id, due_date);
+  END IF;
+END $$;
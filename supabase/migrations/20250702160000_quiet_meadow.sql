@@ -0,0 +1,41 @@
+/*
+  # Recurrence Rules
+
+  1. Updates to existing tables
+    - Add `recurrence` (jsonb) to `incomes`, `expenses`, `bills` and `recurring_rules`
+      - An RRULE-style schedule: frequency, interval, start date, weekdays with
+        optional ordinals, month days (negative values count back from month end),
+        months, a weekend/holiday roll and a COUNT or UNTIL end
+      - NULL keeps the plain `frequency` schedule
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'incomes' AND column_name = 'recurrence'
+  ) THEN
+    ALTER TABLE incomes ADD COLUMN recurrence jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'expenses' AND column_name = 'recurrence'
+  ) THEN
+    ALTER TABLE expenses ADD COLUMN recurrence jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bills' AND column_name = 'recurrence'
+  ) THEN
+    ALTER TABLE bills ADD COLUMN recurrence jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recurring_rules' AND column_name = 'recurrence'
+  ) THEN
+    ALTER TABLE recurring_rules ADD COLUMN recurrence jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,25 @@
+/*
+  # Exact Monthly Averages
+
+  1. Data fixes
+    - Recompute `monthly_amount` on `incomes` and `expenses` for weekly and biweekly
+      rows, which were stored with the 4.33 and 2.17 approximations
+      - A year averages 365.25 / 7 / 12 weeks per month
+      - Rows with a custom `recurrence` are left alone; the app recomputes them on save
+*/
+
+UPDATE incomes
+SET monthly_amount = amount * 365.25 / 7 / 12
+WHERE frequency = 'weekly' AND recurrence IS NULL;
+
+UPDATE incomes
+SET monthly_amount = amount * 365.25 / 14 / 12
+WHERE frequency = 'biweekly' AND recurrence IS NULL;
+
+UPDATE expenses
+SET monthly_amount = amount * 365.25 / 7 / 12
+WHERE frequency = 'weekly' AND recurrence IS NULL;
+
+UPDATE expenses
+SET monthly_amount = amount * 365.25 / 14 / 12
+WHERE frequency = 'biweekly' AND recurrence IS NULL;
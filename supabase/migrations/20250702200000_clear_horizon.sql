@@ -0,0 +1,33 @@
+/*
+  # Projected Account Balances
+
+  1. Updates to existing tables
+    - Add `low_balance_floor` (numeric) to `bank_accounts`
+      - The balance the user wants to stay above; NULL means only overdraft is flagged
+    - Add `bank_account_id` (uuid) to `loans`
+      - The account instalments are paid from, so the cash flow projection can
+        charge them to the right account
+      - Cleared when the account is deleted
+
+  2. Indexes
+    - `loans(bank_account_id)`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bank_accounts' AND column_name = 'low_balance_floor'
+  ) THEN
+    ALTER TABLE bank_accounts ADD COLUMN low_balance_floor numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loans' AND column_name = 'bank_account_id'
+  ) THEN
+    ALTER TABLE loans ADD COLUMN bank_account_id uuid REFERENCES bank_accounts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_loans_bank_account_id ON loans(bank_account_id);
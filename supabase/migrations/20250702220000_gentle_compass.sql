@@ -0,0 +1,66 @@
+/*
+  # Trainable Transaction Categoriser
+
+  1. New Tables
+    - `categorizer_models`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, one row per user)
+      - `model` (jsonb) - naive Bayes counts learned from the user's categorised
+        daily entries and expenses: examples per category, feature counts per
+        category and feature totals per category
+      - `trained_examples` (integer) - how many examples the counts cover
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `ai_categorized` (boolean), `ai_category` (text) and `confidence` (numeric)
+      to `daily_entries` so suggested categories survive a reload
+
+  3. Security
+    - Enable RLS on `categorizer_models`
+    - Add policies for authenticated users to manage their own model
+*/
+
+CREATE TABLE IF NOT EXISTS categorizer_models (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL UNIQUE,
+  model jsonb NOT NULL DEFAULT '{}'::jsonb,
+  trained_examples integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE categorizer_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own categorizer model"
+  ON categorizer_models
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_categorizer_models_updated_at BEFORE UPDATE ON categorizer_models FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'ai_categorized'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN ai_categorized boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'ai_category'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN ai_category text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'confidence'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN confidence numeric CHECK (confidence >= 0 AND confidence <= 1);
+  END IF;
+END $$;
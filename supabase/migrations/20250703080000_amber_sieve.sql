@@ -0,0 +1,60 @@
+/*
+  # Transaction Rules
+
+  1. New Tables
+    - `transaction_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text)
+      - `priority` (integer) - lower runs first; the first matching rule wins
+      - `is_active` (boolean)
+      - `conditions` (jsonb) - description text or pattern, amount range, account,
+        transaction type and days of the week; unset conditions match anything
+      - `actions` (jsonb) - need/want category, spending category, linked budget
+        or goal, or a percentage split across several categories
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `applied_rule_id` to `daily_entries` so re-applying a splitting rule
+      never splits the same transaction twice
+
+  3. Security
+    - Enable RLS on `transaction_rules`
+    - Add policies for authenticated users to manage their own rules
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  conditions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  actions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transaction_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own transaction rules"
+  ON transaction_rules
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_rules_user_id ON transaction_rules(user_id);
+
+CREATE TRIGGER update_transaction_rules_updated_at BEFORE UPDATE ON transaction_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'applied_rule_id'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN applied_rule_id uuid REFERENCES transaction_rules ON DELETE SET NULL;
+  END IF;
+END $$;
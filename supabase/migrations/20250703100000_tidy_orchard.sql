@@ -0,0 +1,203 @@
+/*
+  # Spending Category Tree
+
+  1. New Tables
+    - `spending_categories`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `parent_id` (uuid, references spending_categories) - null for top-level
+        categories; deleting a category deletes its subcategories
+      - `name` (text)
+      - `type` (text) - need or want; entries in the category take this type, so
+        need/want totals keep working
+      - `ai_category` (text) - the suggested spending category (food,
+        transportation, ...) this category stands for, if any
+      - `sort_order` (integer)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `spending_category_seeds` - users who have been given the starter tree, so it is
+      not given again after they delete every category
+      - `user_id` (uuid, primary key, references auth.users)
+      - `seeded_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `category_id` to `daily_entries`, `expenses` and `recurring_rules`
+
+  3. New Functions
+    - `create_default_spending_categories` - gives a user the starter tree
+      (Housing > Rent, Transport > Matatu Fares, ...) once, unless they already have
+      categories
+
+  4. Data
+    - Every existing user gets the starter tree, and daily entries with a
+      suggested spending category are filed under the matching category when
+      it has the same need/want type
+
+  5. Security
+    - Enable RLS on `spending_categories` and `spending_category_seeds`
+    - Add policies for authenticated users to manage their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS spending_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  parent_id uuid REFERENCES spending_categories ON DELETE CASCADE,
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('need', 'want')),
+  ai_category text,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE spending_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own spending categories"
+  ON spending_categories
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS spending_category_seeds (
+  user_id uuid PRIMARY KEY REFERENCES auth.users,
+  seeded_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE spending_category_seeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own spending category seeds"
+  ON spending_category_seeds
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_spending_categories_user_id ON spending_categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_spending_categories_parent_id ON spending_categories(parent_id);
+
+CREATE TRIGGER update_spending_categories_updated_at BEFORE UPDATE ON spending_categories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'category_id'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN category_id uuid REFERENCES spending_categories ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'expenses' AND column_name = 'category_id'
+  ) THEN
+    ALTER TABLE expenses ADD COLUMN category_id uuid REFERENCES spending_categories ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recurring_rules' AND column_name = 'category_id'
+  ) THEN
+    ALTER TABLE recurring_rules ADD COLUMN category_id uuid REFERENCES spending_categories ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_daily_entries_category_id ON daily_entries(category_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_category_id ON expenses(category_id);
+
+-- Give a user the starter category tree. Runs with the caller's privileges, so from the
+-- app it can only ever create categories for the signed-in user.
+CREATE OR REPLACE FUNCTION create_default_spending_categories(p_user_id uuid DEFAULT auth.uid())
+RETURNS void AS $$
+DECLARE
+  v_parent_id uuid;
+  v_group record;
+  v_child record;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Only the first call seeds; concurrent calls wait on the same row
+  INSERT INTO spending_category_seeds (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM spending_categories WHERE user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  FOR v_group IN
+    SELECT * FROM (VALUES
+      (1, 'Housing', 'need', NULL),
+      (2, 'Utilities', 'need', 'utilities'),
+      (3, 'Food', 'need', 'food'),
+      (4, 'Transport', 'need', 'transportation'),
+      (5, 'Education', 'need', NULL),
+      (6, 'Health', 'need', NULL),
+      (7, 'Entertainment', 'want', 'entertainment'),
+      (8, 'Shopping', 'want', 'shopping'),
+      (9, 'Other', 'want', 'other')
+    ) AS groups(sort_order, name, type, ai_category)
+  LOOP
+    INSERT INTO spending_categories (user_id, name, type, ai_category, sort_order)
+    VALUES (p_user_id, v_group.name, v_group.type, v_group.ai_category, v_group.sort_order)
+    RETURNING id INTO v_parent_id;
+
+    FOR v_child IN
+      SELECT * FROM (VALUES
+        ('Housing', 1, 'Rent', 'need'),
+        ('Housing', 2, 'Repairs & Maintenance', 'need'),
+        ('Utilities', 1, 'Electricity', 'need'),
+        ('Utilities', 2, 'Water', 'need'),
+        ('Utilities', 3, 'Internet & Airtime', 'need'),
+        ('Food', 1, 'Groceries', 'need'),
+        ('Food', 2, 'Eating Out', 'want'),
+        ('Transport', 1, 'Matatu Fares', 'need'),
+        ('Transport', 2, 'Fuel', 'need'),
+        ('Transport', 3, 'Taxi & Ride-hailing', 'want'),
+        ('Education', 1, 'School Fees', 'need'),
+        ('Education', 2, 'Books & Supplies', 'need'),
+        ('Health', 1, 'Medical', 'need'),
+        ('Health', 2, 'Insurance', 'need'),
+        ('Entertainment', 1, 'Streaming & Subscriptions', 'want'),
+        ('Entertainment', 2, 'Outings', 'want'),
+        ('Shopping', 1, 'Clothing', 'want'),
+        ('Shopping', 2, 'Household', 'want')
+      ) AS children(parent_name, sort_order, name, type)
+      WHERE children.parent_name = v_group.name
+    LOOP
+      INSERT INTO spending_categories (user_id, parent_id, name, type, sort_order)
+      VALUES (p_user_id, v_parent_id, v_child.name, v_child.type, v_child.sort_order);
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing users start with the tree, and entries already given a suggested spending
+-- category are filed under the category that stands for it. Entries the user marked
+-- differently (a 'want' meal in Food) are left for them to file.
+DO $$
+DECLARE
+  v_user record;
+BEGIN
+  FOR v_user IN
+    SELECT DISTINCT user_id FROM (
+      SELECT user_id FROM daily_entries
+      UNION SELECT user_id FROM expenses
+      UNION SELECT user_id FROM user_preferences
+    ) AS users
+  LOOP
+    PERFORM create_default_spending_categories(v_user.user_id);
+  END LOOP;
+END $$;
+
+UPDATE daily_entries
+SET category_id = spending_categories.id
+FROM spending_categories
+WHERE spending_categories.user_id = daily_entries.user_id
+  AND spending_categories.parent_id IS NULL
+  AND spending_categories.ai_category = daily_entries.ai_category
+  AND spending_categories.type = daily_entries.category
+  AND daily_entries.category_id IS NULL;
@@ -0,0 +1,225 @@
+/*
+  # Split Transactions
+
+  1. Updates to existing tables
+    - Add `splits` (jsonb) to `daily_entries` - the lines of a split transaction, each
+      with its own `amount`, `category` (need or want) and optional `categoryId`,
+      `aiCategory`, `bankAccountId`, `linkedBudgetId` and `linkedGoalId`. NULL for an
+      ordinary transaction.
+
+  2. Constraints
+    - A split transaction records money in or money out, not both, has at least two
+      lines with positive amounts, and its lines add up to the transaction's total
+
+  3. Triggers
+    - Daily entries post one ledger entry per line of a split, to the line's account or
+      the transaction's own account when the line has none. Lines whose account has
+      been deleted are skipped, matching the ledger entries deleted with the account.
+    - Lines linked to a goal add their amount to the goal's `current_amount`, and take
+      it off again when the line changes or the entry is deleted
+
+  4. Data
+    - Transaction rules used to save a split transaction as one entry per share. The
+      shares of each transaction are merged into one entry holding them as its lines.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_entries' AND column_name = 'splits'
+  ) THEN
+    ALTER TABLE daily_entries ADD COLUMN splits jsonb;
+  END IF;
+END $$;
+
+-- Whether the lines of a split add up to the transaction, to the cent
+CREATE OR REPLACE FUNCTION daily_entry_splits_are_valid(p_splits jsonb, p_income numeric, p_expenses numeric)
+RETURNS boolean AS $$
+DECLARE
+  v_total numeric;
+BEGIN
+  IF p_splits IS NULL THEN
+    RETURN true;
+  END IF;
+
+  IF jsonb_typeof(p_splits) <> 'array' OR jsonb_array_length(p_splits) < 2 THEN
+    RETURN false;
+  END IF;
+
+  IF COALESCE(p_income, 0) > 0 AND COALESCE(p_expenses, 0) > 0 THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_splits) AS line
+    WHERE jsonb_typeof(line->'amount') <> 'number'
+      OR (line->>'amount')::numeric <= 0
+      OR COALESCE(line->>'category', '') NOT IN ('need', 'want')
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT SUM((line->>'amount')::numeric) INTO v_total FROM jsonb_array_elements(p_splits) AS line;
+
+  RETURN ABS(v_total - (COALESCE(p_income, 0) + COALESCE(p_expenses, 0))) < 0.005;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'daily_entries' AND constraint_name = 'daily_entries_splits_valid'
+  ) THEN
+    ALTER TABLE daily_entries
+      ADD CONSTRAINT daily_entries_splits_valid CHECK (daily_entry_splits_are_valid(splits, income, expenses));
+  END IF;
+END $$;
+
+-- Post (or reverse) the ledger entries of one version of a daily entry
+CREATE OR REPLACE FUNCTION post_daily_entry_lines(p_entry daily_entries, p_is_reversal boolean)
+RETURNS void AS $$
+DECLARE
+  v_line jsonb;
+  v_account_id uuid;
+BEGIN
+  IF p_entry.splits IS NULL THEN
+    PERFORM post_ledger_entry(p_entry.user_id, p_entry.income_bank_account_id, p_entry.income, 'daily_income', p_entry.id, p_is_reversal, p_entry.description, p_entry.date);
+    PERFORM post_ledger_entry(p_entry.user_id, p_entry.expense_bank_account_id, -p_entry.expenses, 'daily_expense', p_entry.id, p_is_reversal, p_entry.description, p_entry.date);
+    RETURN;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_entry.splits)
+  LOOP
+    v_account_id := COALESCE(
+      (v_line->>'bankAccountId')::uuid,
+      CASE WHEN p_entry.income > 0 THEN p_entry.income_bank_account_id ELSE p_entry.expense_bank_account_id END
+    );
+
+    IF EXISTS (SELECT 1 FROM bank_accounts WHERE id = v_account_id) THEN
+      IF p_entry.income > 0 THEN
+        PERFORM post_ledger_entry(p_entry.user_id, v_account_id, (v_line->>'amount')::numeric, 'daily_income', p_entry.id, p_is_reversal, p_entry.description, p_entry.date);
+      ELSE
+        PERFORM post_ledger_entry(p_entry.user_id, v_account_id, -(v_line->>'amount')::numeric, 'daily_expense', p_entry.id, p_is_reversal, p_entry.description, p_entry.date);
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION post_daily_entry_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_daily_entry_lines(OLD, true);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_daily_entry_lines(NEW, false);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS post_daily_entries_to_ledger ON daily_entries;
+
+CREATE TRIGGER post_daily_entries_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF income, expenses, income_bank_account_id, expense_bank_account_id, date, splits ON daily_entries
+  FOR EACH ROW EXECUTE FUNCTION post_daily_entry_ledger_entries();
+
+-- Merge the shares a rule saved as separate entries back into one split transaction:
+-- the first share becomes the transaction and the others are deleted. Shares of one
+-- transaction have the rule, date, description, side and account in common.
+CREATE TEMP TABLE split_rule_shares AS
+SELECT
+  e.id,
+  first_value(e.id) OVER share_order AS transaction_id,
+  row_number() OVER share_order AS line_number,
+  count(*) OVER (
+    PARTITION BY e.user_id, e.applied_rule_id, e.date, e.description, e.income > 0,
+      e.income_bank_account_id, e.expense_bank_account_id
+  ) AS share_count,
+  e.income,
+  e.expenses,
+  jsonb_strip_nulls(jsonb_build_object(
+    'amount', e.income + e.expenses,
+    'category', e.category,
+    'categoryId', e.category_id,
+    'aiCategory', e.ai_category,
+    'linkedBudgetId', e.linked_budget_id,
+    'linkedGoalId', e.linked_goal_id
+  )) AS line
+FROM daily_entries e
+JOIN transaction_rules r ON r.id = e.applied_rule_id
+WHERE e.splits IS NULL
+  AND jsonb_typeof(r.actions->'splits') = 'array'
+  AND e.category IN ('need', 'want')
+  AND (e.income > 0) <> (e.expenses > 0)
+WINDOW share_order AS (
+  PARTITION BY e.user_id, e.applied_rule_id, e.date, e.description, e.income > 0,
+    e.income_bank_account_id, e.expense_bank_account_id
+  -- Later shares carry the first share's external reference with a ':split:<n>' suffix
+  ORDER BY COALESCE(e.external_reference LIKE '%:split:%', false), e.created_at, e.id
+);
+
+UPDATE daily_entries e
+SET income = merged.income,
+    expenses = merged.expenses,
+    splits = merged.lines,
+    linked_budget_id = NULL,
+    linked_goal_id = NULL
+FROM (
+  SELECT transaction_id, SUM(income) AS income, SUM(expenses) AS expenses, jsonb_agg(line ORDER BY line_number) AS lines
+  FROM split_rule_shares
+  WHERE share_count > 1
+  GROUP BY transaction_id
+) merged
+WHERE e.id = merged.transaction_id;
+
+DELETE FROM daily_entries e
+USING split_rule_shares s
+WHERE e.id = s.id AND s.share_count > 1 AND s.id <> s.transaction_id;
+
+DROP TABLE split_rule_shares;
+
+-- Add (or, for a reversal, take off) the amounts of a version's lines linked to goals,
+-- e.g. the part of a salary that goes to savings
+CREATE OR REPLACE FUNCTION apply_daily_entry_goal_contributions(p_entry daily_entries, p_is_reversal boolean)
+RETURNS void AS $$
+BEGIN
+  IF p_entry.splits IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE financial_goals g
+  SET current_amount = g.current_amount + CASE WHEN p_is_reversal THEN -c.amount ELSE c.amount END
+  FROM (
+    SELECT (line->>'linkedGoalId')::uuid AS goal_id, SUM((line->>'amount')::numeric) AS amount
+    FROM jsonb_array_elements(p_entry.splits) AS line
+    WHERE line->>'linkedGoalId' IS NOT NULL
+    GROUP BY 1
+  ) c
+  WHERE g.id = c.goal_id AND g.user_id = p_entry.user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION post_daily_entry_goal_contributions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM apply_daily_entry_goal_contributions(OLD, true);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM apply_daily_entry_goal_contributions(NEW, false);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_daily_entries_to_goals
+  AFTER INSERT OR DELETE OR UPDATE OF splits ON daily_entries
+  FOR EACH ROW EXECUTE FUNCTION post_daily_entry_goal_contributions();
@@ -0,0 +1,94 @@
+/*
+  # Attachments
+
+  1. New Tables
+    - `attachments`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `daily_entry_id`, `bill_id`, `loan_id`, `expected_payment_id`,
+        `business_entry_id` (uuid) - the record the file is attached to; exactly
+        one is set, and deleting the record deletes its attachments
+      - `file_name` (text)
+      - `content_type` (text)
+      - `size` (bigint) - in bytes
+      - `storage_path` (text) - the file in the `attachments` bucket
+      - `thumbnail_path` (text) - a small preview of an image, if any
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Storage
+    - Private `attachments` bucket for images and PDFs of up to 10 MB. Files are
+      stored under `<user id>/<attachment id>/`.
+
+  3. Security
+    - Enable RLS on `attachments`
+    - Add policies for authenticated users to manage their own attachments
+    - Add policies for authenticated users to manage the files in their own folder
+      of the bucket
+*/
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  daily_entry_id uuid REFERENCES daily_entries ON DELETE CASCADE,
+  bill_id uuid REFERENCES bills ON DELETE CASCADE,
+  loan_id uuid REFERENCES loans ON DELETE CASCADE,
+  expected_payment_id uuid REFERENCES expected_payments ON DELETE CASCADE,
+  business_entry_id uuid REFERENCES business_entries ON DELETE CASCADE,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size bigint NOT NULL CHECK (size > 0),
+  storage_path text NOT NULL UNIQUE,
+  thumbnail_path text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT attachments_one_parent CHECK (
+    num_nonnulls(daily_entry_id, bill_id, loan_id, expected_payment_id, business_entry_id) = 1
+  )
+);
+
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own attachments"
+  ON attachments
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_user_id ON attachments(user_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_daily_entry_id ON attachments(daily_entry_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_bill_id ON attachments(bill_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_loan_id ON attachments(loan_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_expected_payment_id ON attachments(expected_payment_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_business_entry_id ON attachments(business_entry_id);
+
+CREATE TRIGGER update_attachments_updated_at BEFORE UPDATE ON attachments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their own attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own attachment files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,259 @@
+/*
+  # Bill Instances
+
+  1. New Tables
+    - `bill_instances` - one dated occurrence of a bill
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `bill_id` (uuid, references bills) - deleting the bill deletes its instances
+      - `due_date` (date)
+      - `expected_amount` (numeric) - the bill's amount when the instance was opened
+      - `amount_paid` (numeric) - what was actually paid; NULL while the instance is open
+      - `paid_date` (date)
+      - `bank_account_id` (uuid, references bank_accounts) - the account it was paid from
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Updates to existing tables
+    - Add `average_amount` (numeric) to `bills` - the average of the amounts actually paid
+
+  3. Data
+    - Every existing bill gets an instance for its current due date, paid from the
+      bill's account when the bill was marked paid
+
+  4. Triggers
+    - A new bill opens its first instance (already paid when the bill is added as paid)
+    - A bill's `due_date`, `is_paid` and `average_amount` follow its instances: the due
+      date of the earliest open instance, paid once no instance is open, and the average
+      of the amounts paid
+    - Changing a bill's amount changes the expected amount of its open instances
+    - Bill payments are posted to the ledger per instance, from the account and on the
+      day it was paid, and reversed when the payment is undone. Bills themselves no
+      longer post to the ledger.
+
+  5. New Functions
+    - `record_bill_payment` - pays an instance and, for a bill that repeats, opens the
+      next one
+
+  6. Security
+    - Enable RLS on `bill_instances`
+    - Add policies for authenticated users to manage their own bill instances
+*/
+
+CREATE TABLE IF NOT EXISTS bill_instances (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  bill_id uuid REFERENCES bills ON DELETE CASCADE NOT NULL,
+  due_date date NOT NULL,
+  expected_amount numeric NOT NULL DEFAULT 0,
+  amount_paid numeric CHECK (amount_paid > 0),
+  paid_date date,
+  bank_account_id uuid REFERENCES bank_accounts,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT bill_instances_bill_id_due_date_key UNIQUE (bill_id, due_date),
+  CONSTRAINT bill_instances_paid_date_when_paid CHECK ((amount_paid IS NULL) = (paid_date IS NULL))
+);
+
+ALTER TABLE bill_instances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own bill instances"
+  ON bill_instances
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_bill_instances_user_id ON bill_instances(user_id);
+CREATE INDEX IF NOT EXISTS idx_bill_instances_bill_id_due_date ON bill_instances(bill_id, due_date);
+
+CREATE TRIGGER update_bill_instances_updated_at BEFORE UPDATE ON bill_instances FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bills' AND column_name = 'average_amount'
+  ) THEN
+    ALTER TABLE bills ADD COLUMN average_amount numeric;
+  END IF;
+END $$;
+
+-- Existing bills keep their payment; its ledger entry was already posted by the bill
+INSERT INTO bill_instances (user_id, bill_id, due_date, expected_amount, amount_paid, paid_date, bank_account_id)
+SELECT
+  user_id,
+  id,
+  due_date,
+  amount,
+  CASE WHEN COALESCE(is_paid, false) AND amount > 0 THEN amount END,
+  CASE WHEN COALESCE(is_paid, false) AND amount > 0 THEN due_date END,
+  bank_account_id
+FROM bills
+ON CONFLICT (bill_id, due_date) DO NOTHING;
+
+UPDATE bills SET average_amount = amount WHERE COALESCE(is_paid, false) AND amount > 0;
+
+DROP TRIGGER IF EXISTS post_bills_to_ledger ON bills;
+
+-- Keep a bill's due date, paid flag and average in step with its instances
+CREATE OR REPLACE FUNCTION sync_bill_with_instances(p_bill_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE bills
+  SET
+    due_date = COALESCE(
+      (SELECT MIN(due_date) FROM bill_instances WHERE bill_id = p_bill_id AND amount_paid IS NULL),
+      (SELECT MAX(due_date) FROM bill_instances WHERE bill_id = p_bill_id),
+      bills.due_date
+    ),
+    is_paid = NOT EXISTS (SELECT 1 FROM bill_instances WHERE bill_id = p_bill_id AND amount_paid IS NULL),
+    average_amount = (SELECT AVG(amount_paid) FROM bill_instances WHERE bill_id = p_bill_id AND amount_paid IS NOT NULL)
+  WHERE id = p_bill_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_bill_instances()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM sync_bill_with_instances(OLD.bill_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.bill_id IS DISTINCT FROM OLD.bill_id) THEN
+    PERFORM sync_bill_with_instances(NEW.bill_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_bills_with_instances
+  AFTER INSERT OR DELETE OR UPDATE OF bill_id, due_date, amount_paid ON bill_instances
+  FOR EACH ROW EXECUTE FUNCTION sync_bill_instances();
+
+-- Bill payments are posted when an instance is paid and reversed when the payment is undone
+CREATE OR REPLACE FUNCTION post_bill_instance_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.amount_paid IS NOT NULL THEN
+    PERFORM post_ledger_entry(
+      OLD.user_id, OLD.bank_account_id, -OLD.amount_paid, 'bill_payment', OLD.id, true,
+      (SELECT name FROM bills WHERE id = OLD.bill_id), OLD.paid_date
+    );
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.amount_paid IS NOT NULL THEN
+    PERFORM post_ledger_entry(
+      NEW.user_id, NEW.bank_account_id, -NEW.amount_paid, 'bill_payment', NEW.id, false,
+      (SELECT name FROM bills WHERE id = NEW.bill_id), NEW.paid_date
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_bill_instances_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF amount_paid, paid_date, bank_account_id ON bill_instances
+  FOR EACH ROW EXECUTE FUNCTION post_bill_instance_ledger_entries();
+
+-- New bills open their first instance
+CREATE OR REPLACE FUNCTION open_first_bill_instance()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_paid boolean := COALESCE(NEW.is_paid, false) AND NEW.amount > 0;
+BEGIN
+  INSERT INTO bill_instances (user_id, bill_id, due_date, expected_amount, amount_paid, paid_date, bank_account_id)
+  VALUES (
+    NEW.user_id,
+    NEW.id,
+    NEW.due_date,
+    NEW.amount,
+    CASE WHEN v_is_paid THEN NEW.amount END,
+    CASE WHEN v_is_paid THEN NEW.due_date END,
+    NEW.bank_account_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER open_bills_first_instance AFTER INSERT ON bills FOR EACH ROW EXECUTE FUNCTION open_first_bill_instance();
+
+-- Open instances expect the bill's current amount
+CREATE OR REPLACE FUNCTION update_open_bill_instances()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE bill_instances
+  SET expected_amount = NEW.amount
+  WHERE bill_id = NEW.id AND amount_paid IS NULL;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_bills_open_instances
+  AFTER UPDATE OF amount ON bills
+  FOR EACH ROW
+  WHEN (OLD.amount IS DISTINCT FROM NEW.amount)
+  EXECUTE FUNCTION update_open_bill_instances();
+
+-- Pay an instance and open the next one. The next due date comes from the bill's
+-- schedule, which is worked out by the client; NULL for a bill that doesn't repeat.
+CREATE OR REPLACE FUNCTION record_bill_payment(
+  p_instance_id uuid,
+  p_amount_paid numeric,
+  p_paid_date date,
+  p_bank_account_id uuid,
+  p_next_due_date date
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_instance bill_instances%ROWTYPE;
+  v_bill bills%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount_paid IS NULL OR p_amount_paid <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_instance FROM bill_instances WHERE id = p_instance_id AND user_id = v_user_id FOR UPDATE;
+
+  IF v_instance.id IS NULL THEN
+    RAISE EXCEPTION 'Bill instance not found';
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bank_accounts WHERE id = p_bank_account_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Payment account not found';
+  END IF;
+
+  UPDATE bill_instances
+  SET amount_paid = p_amount_paid,
+      paid_date = COALESCE(p_paid_date, CURRENT_DATE),
+      bank_account_id = p_bank_account_id
+  WHERE id = p_instance_id;
+
+  IF p_next_due_date IS NOT NULL AND p_next_due_date > v_instance.due_date THEN
+    INSERT INTO bill_instances (user_id, bill_id, due_date, expected_amount, bank_account_id)
+    SELECT user_id, id, p_next_due_date, amount, bank_account_id FROM bills WHERE id = v_instance.bill_id
+    ON CONFLICT (bill_id, due_date) DO NOTHING;
+  END IF;
+
+  SELECT * INTO v_bill FROM bills WHERE id = v_instance.bill_id;
+
+  RETURN jsonb_build_object(
+    'bill', to_jsonb(v_bill),
+    'instances', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(bill_instances) ORDER BY due_date), '[]'::jsonb)
+      FROM bill_instances WHERE bill_id = v_instance.bill_id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,216 @@
+/*
+  # Loan Payments
+
+  1. New Tables
+    - `loan_payments` - a payment made towards a loan
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `loan_id` (uuid, references loans) - deleting the loan deletes its payments
+      - `bank_account_id` (uuid, references bank_accounts) - the account it was paid from
+      - `amount` (numeric) - the whole payment
+      - `interest` (numeric) - the part that paid the period's interest
+      - `principal` (numeric) - the part that reduced the loan balance
+      - `penalty` (numeric) - the part that paid the late payment penalty
+      - `paid_date` (date)
+      - `previous_due_date` (date) - the loan's due date before the payment moved it on
+      - `created_at` (timestamp)
+
+  2. Updates to existing tables
+    - `ledger_entries.entry_type` accepts 'loan_payment'
+
+  3. Triggers
+    - Loan payments are posted to the ledger from the account and on the day they were
+      paid, and reversed when the payment is deleted
+
+  4. New Functions
+    - `record_loan_payment` - records a payment, reduces the loan balance by its principal
+      and moves the due date on
+    - `undo_loan_payment` - deletes a payment and adds its principal back to the loan
+      balance; undoing the latest payment also moves the due date back
+
+  5. Security
+    - Enable RLS on `loan_payments`
+    - Add policies for authenticated users to manage their own loan payments
+*/
+
+CREATE TABLE IF NOT EXISTS loan_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  loan_id uuid REFERENCES loans ON DELETE CASCADE NOT NULL,
+  bank_account_id uuid REFERENCES bank_accounts,
+  amount numeric NOT NULL CHECK (amount > 0),
+  interest numeric NOT NULL DEFAULT 0 CHECK (interest >= 0),
+  principal numeric NOT NULL DEFAULT 0 CHECK (principal >= 0),
+  penalty numeric NOT NULL DEFAULT 0 CHECK (penalty >= 0),
+  paid_date date NOT NULL DEFAULT CURRENT_DATE,
+  previous_due_date date,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT loan_payments_parts_add_up CHECK (amount = interest + principal + penalty)
+);
+
+ALTER TABLE loan_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own loan payments"
+  ON loan_payments
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_loan_payments_user_id ON loan_payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_loan_payments_loan_id_paid_date ON loan_payments(loan_id, paid_date);
+
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_entry_type_check CHECK (entry_type IN (
+  'opening_balance', 'transfer', 'daily_income', 'daily_expense',
+  'bill_payment', 'loan_payment', 'business_profit', 'adjustment', 'reconciliation'
+));
+
+-- Loan payments leave the account they were paid from
+CREATE OR REPLACE FUNCTION post_loan_payment_ledger_entries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM post_ledger_entry(
+      OLD.user_id, OLD.bank_account_id, -OLD.amount, 'loan_payment', OLD.id, true,
+      (SELECT name FROM loans WHERE id = OLD.loan_id), OLD.paid_date
+    );
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM post_ledger_entry(
+      NEW.user_id, NEW.bank_account_id, -NEW.amount, 'loan_payment', NEW.id, false,
+      (SELECT name FROM loans WHERE id = NEW.loan_id), NEW.paid_date
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER post_loan_payments_to_ledger
+  AFTER INSERT OR DELETE OR UPDATE OF amount, paid_date, bank_account_id ON loan_payments
+  FOR EACH ROW EXECUTE FUNCTION post_loan_payment_ledger_entries();
+
+-- Record a payment split into its interest, principal and penalty. The split and the
+-- next due date are worked out by the client from the loan's terms.
+CREATE OR REPLACE FUNCTION record_loan_payment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_interest numeric,
+  p_principal numeric,
+  p_penalty numeric,
+  p_paid_date date,
+  p_bank_account_id uuid,
+  p_next_due_date date
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_loan loans%ROWTYPE;
+  v_payment loan_payments%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF COALESCE(p_interest, 0) < 0 OR COALESCE(p_principal, 0) < 0 OR COALESCE(p_penalty, 0) < 0 THEN
+    RAISE EXCEPTION 'Interest, principal and penalty cannot be negative';
+  END IF;
+
+  IF COALESCE(p_interest, 0) + COALESCE(p_principal, 0) + COALESCE(p_penalty, 0) <> p_amount THEN
+    RAISE EXCEPTION 'Interest, principal and penalty must add up to the payment amount';
+  END IF;
+
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id AND user_id = v_user_id FOR UPDATE;
+
+  IF v_loan.id IS NULL THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+
+  IF COALESCE(p_principal, 0) > v_loan.current_balance THEN
+    RAISE EXCEPTION 'Payment is more than the % still owed', v_loan.current_balance;
+  END IF;
+
+  IF p_bank_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bank_accounts WHERE id = p_bank_account_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Payment account not found';
+  END IF;
+
+  INSERT INTO loan_payments (user_id, loan_id, bank_account_id, amount, interest, principal, penalty, paid_date, previous_due_date)
+  VALUES (
+    v_user_id,
+    p_loan_id,
+    p_bank_account_id,
+    p_amount,
+    COALESCE(p_interest, 0),
+    COALESCE(p_principal, 0),
+    COALESCE(p_penalty, 0),
+    COALESCE(p_paid_date, CURRENT_DATE),
+    v_loan.due_date
+  )
+  RETURNING * INTO v_payment;
+
+  UPDATE loans
+  SET current_balance = current_balance - v_payment.principal,
+      due_date = COALESCE(p_next_due_date, due_date)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'payment', to_jsonb(v_payment));
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION undo_loan_payment(p_payment_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_loan_id uuid;
+  v_payment loan_payments%ROWTYPE;
+  v_loan loans%ROWTYPE;
+  v_is_latest boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT loan_id INTO v_loan_id FROM loan_payments WHERE id = p_payment_id AND user_id = v_user_id;
+
+  IF v_loan_id IS NULL THEN
+    RAISE EXCEPTION 'Loan payment not found';
+  END IF;
+
+  -- Lock the loan as record_loan_payment does, so its payments change one at a time
+  SELECT * INTO v_loan FROM loans WHERE id = v_loan_id FOR UPDATE;
+
+  DELETE FROM loan_payments
+  WHERE id = p_payment_id AND user_id = v_user_id
+  RETURNING * INTO v_payment;
+
+  -- Another request may have undone it while this one waited for the lock
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Loan payment not found';
+  END IF;
+
+  -- Each payment stores the due date it replaced, in the order payments were recorded,
+  -- so the due date only goes back when the last recorded payment is undone
+  v_is_latest := NOT EXISTS (
+    SELECT 1 FROM loan_payments
+    WHERE loan_id = v_payment.loan_id
+      AND (created_at, id) > (v_payment.created_at, v_payment.id)
+  );
+
+  UPDATE loans
+  SET current_balance = current_balance + v_payment.principal,
+      due_date = CASE WHEN v_is_latest THEN COALESCE(v_payment.previous_due_date, due_date) ELSE due_date END
+  WHERE id = v_payment.loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'payment', to_jsonb(v_payment));
+END;
+$$ LANGUAGE plpgsql;
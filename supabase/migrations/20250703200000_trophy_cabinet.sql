@@ -0,0 +1,198 @@
+/*
+  # Achievements and Celebrations
+
+  1. New Tables
+    - `achievements` - achievements from the app's catalogue that a user has unlocked
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `achievement_key` (text) - the catalogue entry, e.g. 'first-transaction'
+      - `points` (integer) - points awarded when it was unlocked
+      - `unlocked_at` (timestamp)
+    - `celebrations` - every celebration a user has been shown, so none is shown twice
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `celebration_key` (text) - what is celebrated, e.g. 'level-3' or 'goal-<id>-50'
+      - `type` (text) - 'milestone', 'goal_achieved', 'debt_paid', 'streak' or 'level_up'
+      - `title` (text)
+      - `message` (text)
+      - `amount` (numeric)
+      - `icon` (text)
+      - `color` (text)
+      - `acknowledged_at` (timestamp) - NULL until the user dismisses it
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated users to manage their own data
+
+  3. Data
+    - Achievements existing data has already earned are unlocked and their points added to
+      the user's progress
+    - Everything there was to celebrate before this migration is recorded as acknowledged,
+      so existing users are not shown a celebration for each of them
+    - The two achievements judged on the live health score ('healthy-savings' and
+      'excellent-health') cannot be judged here and are unlocked by the app
+*/
+
+CREATE TABLE IF NOT EXISTS achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  achievement_key text NOT NULL,
+  points integer NOT NULL DEFAULT 0,
+  unlocked_at timestamptz DEFAULT now(),
+  CONSTRAINT achievements_user_id_achievement_key_key UNIQUE (user_id, achievement_key)
+);
+
+CREATE TABLE IF NOT EXISTS celebrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  celebration_key text NOT NULL,
+  type text NOT NULL CHECK (type IN ('milestone', 'goal_achieved', 'debt_paid', 'streak', 'level_up')),
+  title text NOT NULL,
+  message text DEFAULT '',
+  amount numeric,
+  icon text DEFAULT '',
+  color text DEFAULT '',
+  acknowledged_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT celebrations_user_id_celebration_key_key UNIQUE (user_id, celebration_key)
+);
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE celebrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own achievements"
+  ON achievements
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own celebrations"
+  ON celebrations
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_achievements_user_id ON achievements(user_id);
+CREATE INDEX IF NOT EXISTS idx_celebrations_user_id_created_at ON celebrations(user_id, created_at);
+
+-- A snapshot of the app's achievement catalogue, for the backfill below
+CREATE TEMP TABLE achievement_catalogue (achievement_key text PRIMARY KEY, title text, description text, points integer, icon text, color text);
+
+INSERT INTO achievement_catalogue VALUES
+  ('first-transaction', 'First Steps', 'Recorded your first transaction.', 10, '👣', 'from-blue-500 to-blue-600'),
+  ('hundred-transactions', 'Diligent Tracker', 'Recorded 100 transactions.', 50, '📒', 'from-indigo-500 to-indigo-600'),
+  ('first-goal', 'Goal Setter', 'Set your first financial goal.', 10, '🎯', 'from-blue-500 to-blue-600'),
+  ('goal-reached', 'Goal Getter', 'Reached the target of a goal.', 50, '🏆', 'from-green-500 to-green-600'),
+  ('week-streak', 'Week Warrior', 'Tracked your finances seven days in a row.', 25, '🔥', 'from-orange-500 to-orange-600'),
+  ('month-streak', 'Creature of Habit', 'Tracked your finances thirty days in a row.', 100, '📅', 'from-red-500 to-red-600'),
+  ('first-loan-payment', 'Debt Fighter', 'Recorded a payment towards a loan.', 20, '🥊', 'from-purple-500 to-purple-600'),
+  ('loan-cleared', 'Debt Free', 'Paid a loan off in full.', 100, '⚡', 'from-yellow-500 to-yellow-600'),
+  ('bills-on-time', 'Right On Time', 'Paid five bills on or before their due date.', 30, '⏰', 'from-teal-500 to-teal-600');
+
+INSERT INTO achievements (user_id, achievement_key, points)
+SELECT earned.user_id, catalogue.achievement_key, catalogue.points
+FROM (
+  SELECT user_id, 'first-transaction' AS achievement_key FROM daily_entries GROUP BY user_id
+  UNION
+  SELECT user_id, 'hundred-transactions' FROM daily_entries GROUP BY user_id HAVING count(*) >= 100
+  UNION
+  SELECT user_id, 'first-goal' FROM financial_goals
+  UNION
+  SELECT user_id, 'goal-reached' FROM financial_goals WHERE target_amount > 0 AND current_amount >= target_amount
+  UNION
+  SELECT user_id, 'week-streak' FROM user_progress WHERE longest_streak >= 7
+  UNION
+  SELECT user_id, 'month-streak' FROM user_progress WHERE longest_streak >= 30
+  UNION
+  SELECT user_id, 'first-loan-payment' FROM loan_payments
+  UNION
+  SELECT user_id, 'loan-cleared' FROM loans
+  WHERE current_balance <= 0 AND EXISTS (SELECT 1 FROM loan_payments WHERE loan_payments.loan_id = loans.id)
+  UNION
+  SELECT user_id, 'bills-on-time' FROM bill_instances
+  WHERE paid_date IS NOT NULL AND paid_date <= due_date
+  GROUP BY user_id HAVING count(*) >= 5
+) earned
+JOIN achievement_catalogue catalogue ON catalogue.achievement_key = earned.achievement_key
+ON CONFLICT (user_id, achievement_key) DO NOTHING;
+
+UPDATE user_progress
+SET total_points = user_progress.total_points + unlocked.points,
+    achievements_unlocked = user_progress.achievements_unlocked + unlocked.count
+FROM (SELECT user_id, sum(points)::integer AS points, count(*)::integer AS count FROM achievements GROUP BY user_id) unlocked
+WHERE user_progress.user_id = unlocked.user_id;
+
+-- Recompute the level from the new total with the app's thresholds
+UPDATE user_progress
+SET level = levels.level,
+    current_level_points = levels.total_points - levels.thresholds[levels.level],
+    next_level_points = CASE
+      WHEN levels.level < array_length(levels.thresholds, 1) THEN levels.thresholds[levels.level + 1] - levels.thresholds[levels.level]
+      ELSE levels.thresholds[levels.level] * 3 / 2
+    END
+FROM (
+  SELECT progress.id, progress.total_points, thresholds,
+    (SELECT count(*)::integer FROM unnest(thresholds) AS threshold WHERE threshold <= progress.total_points) AS level
+  FROM user_progress progress,
+    (SELECT ARRAY[0, 100, 250, 500, 1000, 1500, 2500, 4000, 6000, 9000, 13000] AS thresholds) t
+  WHERE progress.user_id IN (SELECT user_id FROM achievements)
+) levels
+WHERE user_progress.id = levels.id;
+
+-- The same celebrations the app would generate, already acknowledged
+INSERT INTO celebrations (user_id, celebration_key, type, title, message, amount, icon, color, acknowledged_at)
+SELECT achievements.user_id,
+  'achievement-' || achievements.achievement_key,
+  CASE WHEN achievements.achievement_key = 'loan-cleared' THEN 'debt_paid' ELSE 'milestone' END,
+  'Achievement Unlocked: ' || catalogue.title,
+  catalogue.description || ' +' || catalogue.points || ' points',
+  NULL,
+  catalogue.icon,
+  catalogue.color,
+  now()
+FROM achievements
+JOIN achievement_catalogue catalogue ON catalogue.achievement_key = achievements.achievement_key
+UNION ALL
+SELECT financial_goals.user_id,
+  'goal-' || financial_goals.id || '-' || milestone,
+  CASE WHEN milestone = 100 THEN 'goal_achieved' ELSE 'milestone' END,
+  milestone || '% Goal Achievement!',
+  'You''ve reached ' || milestone || '% of your ' || financial_goals.name || ' goal!',
+  financial_goals.current_amount,
+  CASE WHEN milestone = 100 THEN '🎉' ELSE '🎯' END,
+  CASE WHEN milestone = 100 THEN 'from-green-500 to-green-600' ELSE 'from-blue-500 to-blue-600' END,
+  now()
+FROM financial_goals
+CROSS JOIN unnest(ARRAY[25, 50, 75, 100]) AS milestone
+WHERE financial_goals.target_amount > 0
+  AND financial_goals.current_amount / financial_goals.target_amount * 100 >= milestone
+UNION ALL
+SELECT user_id,
+  'level-' || level,
+  'level_up',
+  'Level ' || level || ' Achieved!',
+  'You''ve reached Level ' || level || ' in your financial journey!',
+  NULL,
+  '⭐',
+  'from-purple-500 to-purple-600',
+  now()
+FROM user_progress
+WHERE level > 1
+UNION ALL
+SELECT user_id,
+  'streak-' || streak,
+  'streak',
+  streak || ' Day Streak!',
+  'Amazing! You''ve tracked your finances for ' || streak || ' consecutive days!',
+  NULL,
+  '🔥',
+  'from-orange-500 to-orange-600',
+  now()
+FROM user_progress
+WHERE streak > 0 AND streak % 7 = 0
+ON CONFLICT (user_id, celebration_key) DO NOTHING;
+
+DROP TABLE achievement_catalogue;
@@ -0,0 +1,92 @@
+/*
+  # Challenge Metric Specs
+
+  1. Updates to existing tables
+    - `user_challenges`
+      - `challenge_key` (text) - identifies a generated challenge, e.g. 'weekly-savings-2025-07-03',
+        so the same challenge is never created twice
+      - `metric` (jsonb) - what the challenge measures: the metric id, the loan or goal it
+        follows, the comparator and the window progress is measured over
+      - `started_at` (date) - the start of the 'since_start' window
+      - `completed_at` (timestamp)
+      - `archived_at` (timestamp) - set when the deadline has passed; archived challenges
+        are no longer active
+
+  2. Data
+    - Challenges created before metric specs cannot be measured and are archived
+
+  3. Functions
+    - `award_points` - adds points (and completed challenges or unlocked achievements) to
+      the caller's progress in a single update and recomputes the level
+*/
+
+ALTER TABLE user_challenges ADD COLUMN IF NOT EXISTS challenge_key text;
+ALTER TABLE user_challenges ADD COLUMN IF NOT EXISTS metric jsonb;
+ALTER TABLE user_challenges ADD COLUMN IF NOT EXISTS started_at date NOT NULL DEFAULT CURRENT_DATE;
+ALTER TABLE user_challenges ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+ALTER TABLE user_challenges ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+UPDATE user_challenges
+SET started_at = COALESCE(created_at::date, started_at);
+
+UPDATE user_challenges
+SET is_active = false,
+    archived_at = now()
+WHERE metric IS NULL AND is_active;
+
+ALTER TABLE user_challenges DROP CONSTRAINT IF EXISTS user_challenges_user_id_challenge_key_key;
+ALTER TABLE user_challenges ADD CONSTRAINT user_challenges_user_id_challenge_key_key UNIQUE (user_id, challenge_key);
+
+CREATE INDEX IF NOT EXISTS idx_user_challenges_user_id_is_active ON user_challenges(user_id, is_active);
+
+-- Add points to the caller's progress in one statement, so awards made at the same
+-- time add up instead of overwriting each other. The level thresholds match
+-- calculateUserLevel in the client.
+CREATE OR REPLACE FUNCTION award_points(
+  p_points integer,
+  p_challenges_completed integer DEFAULT 0,
+  p_achievements_unlocked integer DEFAULT 0
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_thresholds integer[] := ARRAY[0, 100, 250, 500, 1000, 1500, 2500, 4000, 6000, 9000, 13000];
+  v_progress user_progress%ROWTYPE;
+  v_level integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(p_points, 0) < 0 THEN
+    RAISE EXCEPTION 'Points awarded cannot be negative';
+  END IF;
+
+  UPDATE user_progress
+  SET total_points = total_points + COALESCE(p_points, 0),
+      challenges_completed = challenges_completed + COALESCE(p_challenges_completed, 0),
+      achievements_unlocked = achievements_unlocked + COALESCE(p_achievements_unlocked, 0),
+      last_activity_date = CASE WHEN COALESCE(p_challenges_completed, 0) > 0 THEN CURRENT_DATE ELSE last_activity_date END
+  WHERE user_id = v_user_id
+  RETURNING * INTO v_progress;
+
+  IF v_progress.id IS NULL THEN
+    RAISE EXCEPTION 'User progress not found';
+  END IF;
+
+  -- The level is the number of thresholds reached; past the last one a level takes 1.5x as many points
+  SELECT count(*) INTO v_level FROM unnest(v_thresholds) AS threshold WHERE threshold <= v_progress.total_points;
+
+  UPDATE user_progress
+  SET level = v_level,
+      current_level_points = v_progress.total_points - v_thresholds[v_level],
+      next_level_points = CASE
+        WHEN v_level < array_length(v_thresholds, 1) THEN v_thresholds[v_level + 1] - v_thresholds[v_level]
+        ELSE v_thresholds[v_level] * 3 / 2
+      END
+  WHERE id = v_progress.id
+  RETURNING * INTO v_progress;
+
+  RETURN to_jsonb(v_progress);
+END;
+$$ LANGUAGE plpgsql;
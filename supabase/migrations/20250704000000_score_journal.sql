@@ -0,0 +1,47 @@
+/*
+  # Financial Health Score History
+
+  1. New Tables
+    - `health_score_snapshots` - a user's financial health score as it stood at the end of each day
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `snapshot_date` (date) - one snapshot per user and day; later scores that day replace it
+      - `score` (numeric)
+      - `level` (text) - 'poor', 'fair', 'good' or 'excellent'
+      - `factors` (jsonb) - how each factor contributed to the score, e.g.
+        [{ "id": "savings_rate", "label": "Savings rate", "value": 12.5, "points": 20, "maxPoints": 30 }]
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `health_score_snapshots`
+    - Add policies for authenticated users to manage their own snapshots
+
+  3. Triggers
+    - Keep `updated_at` current
+*/
+
+CREATE TABLE IF NOT EXISTS health_score_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  snapshot_date date NOT NULL DEFAULT CURRENT_DATE,
+  score numeric NOT NULL DEFAULT 0,
+  level text NOT NULL CHECK (level IN ('poor', 'fair', 'good', 'excellent')),
+  factors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT health_score_snapshots_user_id_snapshot_date_key UNIQUE (user_id, snapshot_date)
+);
+
+ALTER TABLE health_score_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own health score snapshots"
+  ON health_score_snapshots
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_health_score_snapshots_user_id_snapshot_date ON health_score_snapshots(user_id, snapshot_date);
+
+CREATE TRIGGER update_health_score_snapshots_updated_at BEFORE UPDATE ON health_score_snapshots FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();